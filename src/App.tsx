@@ -4,12 +4,16 @@ import { LoginPage } from './components/auth/LoginPage';
 import { UserManagement } from './components/auth/UserManagement';
 import { ProtectedRoute, usePermissionGuard } from './components/auth/ProtectedRoute';
 import { Employee, Store } from './types';
-import { useScheduleData } from './hooks/useScheduleData';
+import { ShiftBatchRejection, useScheduleData } from './hooks/useScheduleData';
 import { useBalancingEngine } from './hooks/useBalancingEngine';
 import { useAdvancedValidation } from './hooks/useAdvancedValidation';
 import { usePreferences } from './hooks/usePreferences';
 import { useDataLoadingIndicator } from './hooks/useDataLoadingIndicator';
 import { useNotifications } from './hooks/useNotifications';
+import { getStorageBackend } from './lib/repository';
+import { getLastMigrationReport } from './lib/schemaMigrations';
+import { RestoreResult } from './lib/workspaceBackup';
+import { GeneratedShift } from './utils/scheduleGenerator';
 import { useNavigation, View } from './hooks/useNavigation';
 import { Sidebar } from './components/navigation/Sidebar';
 
@@ -19,6 +23,22 @@ import { StoreList } from './components/stores/StoreList';
 import { StoreForm } from './components/stores/StoreForm';
 import { ScheduleGrid } from './components/schedule/ScheduleGrid';
 import { ScheduleHeader } from './components/schedule/ScheduleHeader';
+import { ScheduleGeneratorModal } from './components/schedule/ScheduleGeneratorModal';
+import { OpenShiftsBoard } from './components/schedule/OpenShiftsBoard';
+import { ShiftSwapBoard } from './components/schedule/ShiftSwapBoard';
+import { RotationPatternManager } from './components/schedule/RotationPatternManager';
+import { RotationShift } from './utils/rotationPatterns';
+import { WeekTemplateModal } from './components/schedule/WeekTemplateModal';
+import { WeekTemplateNewShift } from './utils/weekTemplates';
+import { ScenarioWorkspace } from './components/schedule/ScenarioWorkspace';
+import { ScheduleVersionsModal } from './components/schedule/ScheduleVersionsModal';
+import { useScheduleVersions } from './hooks/useScheduleVersions';
+import { useViolationRegister } from './hooks/useViolationRegister';
+import { CCNLViolation, CCNLViolationStatus } from './types/ccnl';
+import { diffScheduleVersion, getLatestVersion, getPublishableWeekShifts, isPublishedShift } from './utils/scheduleVersions';
+import { ShiftGridBatch } from './utils/gridSelection';
+import { logGridBatchOperation } from './utils/auditTrail';
+import { applyContractChange, getContractTerms, getEmployeeContractAt, sameContractTerms } from './utils/contractRules';
 import { TimelineView } from './components/schedule/TimelineView';
 import { ShiftValidationPanel } from './components/schedule/ShiftValidationPanel';
 import { WeekendRestReport } from './components/reports/WeekendRestReport';
@@ -32,6 +52,7 @@ import { ApiSettings } from './components/settings/ApiSettings';
 import { EmployeeSyncModal } from './components/employees/EmployeeSyncModal';
 import { EmployeeDebugModal } from './components/debug/EmployeeDebugModal';
 import { ValidationConfigPanel } from './components/admin/ValidationConfigPanel';
+import { WorkspaceBackupPanel } from './components/admin/WorkspaceBackupPanel';
 import { WorkloadDashboard } from './components/workload/WorkloadDashboard';
 import { AlertPanel } from './components/alerts/AlertPanel';
 import { BalancingPanel } from './components/BalancingPanel';
@@ -43,11 +64,12 @@ import { Users, Calendar, CalendarX } from 'lucide-react';
 import { exportScheduleToExcel, exportEmployeesToExcel } from './utils/exportUtils';
 import { getStartOfWeek, getEndOfWeek } from './utils/timeUtils';
 import { ValidationAdminSettings } from './types/validation';
+import { ccnlValidator } from './utils/ccnlValidation';
 import { ShiftValidationStatus, createWorkflowEngine } from './utils/workflowEngine';
 import { BalancingSuggestion } from './hooks/useWorkloadBalancer';
 import { Shift } from './types';
 
-type ModalType = 'employee' | 'store' | 'preferences' | 'api-settings' | 'employee-sync' | 'debug' | 'validation-config' | null;
+type ModalType = 'employee' | 'store' | 'preferences' | 'api-settings' | 'employee-sync' | 'debug' | 'validation-config' | 'workspace-backup' | 'schedule-generator' | 'week-templates' | 'schedule-versions' | null;
 
 // Main App Component with Authentication
 function App() {
@@ -75,14 +97,28 @@ function AppContent() {
     updateStore,
     deleteStore,
     addShift,
+    addShifts,
     updateShift,
     updateShifts,
     deleteShift,
     addUnavailability,
     updateUnavailability,
-    deleteUnavailability
+    deleteUnavailability,
+    history
   } = useScheduleData();
 
+  // 📢 Versioni pubblicate delle settimane
+  const { versions: scheduleVersions, publishScheduleVersion } = useScheduleVersions();
+  const currentUserName = profile ? `${profile.first_name} ${profile.last_name}` : 'Utente';
+
+  // 📒 Registro violazioni CCNL (confrontato con tutti i turni, non solo la settimana visualizzata)
+  const { violationRegister, setViolationStatus } = useViolationRegister(shifts);
+
+  const handleViolationStatusChange = (violation: CCNLViolation, status: CCNLViolationStatus, note?: string) => {
+    const storeId = employees.find(emp => emp.id === violation.employeeId)?.storeId || selectedStore?.id || '';
+    setViolationStatus(violation, storeId, status, currentUserName, note);
+  };
+
   // 🆕 Initialize Balancing Engine
   const balancingEngine = useBalancingEngine({
     shifts,
@@ -165,6 +201,15 @@ function AppContent() {
     }
   });
 
+  // 📐 Le regole CCNL configurate e i contratti dei negozi valgono per tutte le verifiche dei turni
+  useEffect(() => {
+    ccnlValidator.setRulePackDefinitions(validationSettings.complianceSettings.rulePacks ?? {});
+  }, [validationSettings]);
+
+  useEffect(() => {
+    ccnlValidator.setStores(stores);
+  }, [stores]);
+
   // 🆕 SISTEMA ALERT WORKLOAD
   const workloadAlerts = useWorkloadAlerts({
     employees,
@@ -217,6 +262,116 @@ function AppContent() {
     console.log('🔧 Nuove configurazioni validazione salvate:', newSettings);
   };
 
+  // 💾 Dopo il ripristino le impostazioni in localStorage vanno ricaricate: si riavvia l'app
+  const handleWorkspaceRestored = (result: RestoreResult) => {
+    setModalType(null);
+    if (result.failures.length > 0) {
+      showErrorNotification(`Ripristino completato con ${result.failures.length} record non migrati (dettagli in console)`);
+    } else {
+      showSuccessNotification(`Ripristino completato: ${result.restoredSections.length} sezioni`);
+    }
+    setTimeout(() => window.location.reload(), 1500);
+  };
+
+  // Riepilogo dei turni rifiutati in una creazione in blocco (dipendente, giorno e primo motivo)
+  const describeShiftRejections = (rejections: ShiftBatchRejection[]) => {
+    const lines = rejections.slice(0, 3).map(({ shift, reasons }) => {
+      const employee = employees.find(emp => emp.id === shift.employeeId);
+      const name = employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente';
+      return `${name} ${shift.date.toLocaleDateString('it-IT')} (${reasons[0]})`;
+    });
+    const others = rejections.length - lines.length;
+    return `${lines.join('; ')}${others > 0 ? ` e altri ${others}` : ''}`;
+  };
+
+  // 📦 Creazione in blocco (generatore, rotazioni, settimane tipo): un unico comando annullabile,
+  // validazione cumulativa dei turni e un solo avviso per quelli rifiutati.
+  // Restituisce un elemento per turno richiesto (null se rifiutato dalla validazione)
+  const createShiftBatch = async (
+    newShifts: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>[],
+    label: string,
+    successMessage: (created: number) => string
+  ) => {
+    const { results, rejections } = await history.runAsCommand(label, () => addShifts(newShifts));
+    const created = results.filter(Boolean).length;
+
+    if (rejections.length === 0) {
+      showSuccessNotification(successMessage(created));
+    } else {
+      showErrorNotification(`${created} di ${newShifts.length} turni creati. Rifiutati: ${describeShiftRejections(rejections)}`);
+    }
+    return results;
+  };
+
+  // 🧩 Proposte del generatore accettate: un solo comando annullabile per blocco accettato
+  const handleAcceptGeneratedShifts = (proposedShifts: GeneratedShift[], label: string) =>
+    createShiftBatch(proposedShifts, label, created => `${created} turni aggiunti dal generatore`);
+
+  // 📢 Richiesta di turno aperto approvata: il turno assegnato è annullabile come ogni modifica alla griglia
+  const handleAssignOpenShift = async (shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>, label: string) => {
+    const created = await history.runAsCommand(label, () => addShift(shift));
+    if (created) {
+      showSuccessNotification('Turno aperto assegnato');
+    } else {
+      showErrorNotification('Impossibile assegnare il turno aperto: rifiutato dalla validazione');
+    }
+    return created;
+  };
+
+  // 🔄 Scambio turni approvato: i due passaggi di proprietà sono un unico comando annullabile
+  const handleApplyShiftSwap = async (updates: { id: string; data: Partial<Shift> }[], label: string) => {
+    await history.runAsCommand(label, () => updateShifts(updates));
+    showSuccessNotification('Scambio turni approvato');
+  };
+
+  // 🔁 Turni generati dalle rotazioni: l'intero intervallo è un unico comando annullabile
+  const handleCreateRotationShifts = async (rotationShifts: RotationShift[], label: string) => {
+    const results = await createShiftBatch(rotationShifts, label, created => `${created} turni creati dalle rotazioni`);
+    return results.filter(Boolean).length;
+  };
+
+  // ▦ Modifica in blocco dalla griglia: un solo comando annullabile e una sola voce di audit
+  const handleGridBatch = async (batch: ShiftGridBatch, label: string) => {
+    const result = await history.runAsCommand(label, () => {
+      if (batch.updates.length > 0) updateShifts(batch.updates);
+      batch.deletes.forEach(id => deleteShift(id));
+      const created = batch.creates.map(shift => addShift(shift)).filter((shift): shift is Shift => !!shift);
+      return { created };
+    });
+
+    const affected = [
+      ...batch.updates.map(update => update.id),
+      ...batch.deletes,
+      ...result.created.map(shift => shift.id)
+    ];
+    if (affected.length > 0) {
+      const touchedShifts = [...shifts.filter(shift => affected.includes(shift.id)), ...result.created];
+      logGridBatchOperation({
+        label,
+        storeId: touchedShifts[0]?.storeId || selectedStoreId,
+        shiftIds: affected,
+        employeeIds: Array.from(new Set(touchedShifts.map(shift => shift.employeeId))),
+        created: result.created.length,
+        updated: batch.updates.length,
+        deleted: batch.deletes.length
+      }, employees, profile ? `${profile.first_name} ${profile.last_name}` : 'Utente');
+    }
+
+    const rejected = batch.creates.length - result.created.length;
+    if (rejected > 0 || batch.skipped.length > 0) {
+      showErrorNotification(`${label}: ${affected.length} turni modificati, ${rejected + batch.skipped.length} celle escluse`);
+    } else {
+      showSuccessNotification(`${label}: ${affected.length} turni modificati`);
+    }
+    return affected.length;
+  };
+
+  // 🗓️ Settimana tipo o settimana precedente applicata: i conflitti restano a carico del responsabile
+  const handleApplyWeekTemplate = async (templateShifts: WeekTemplateNewShift[], label: string) => {
+    const results = await createShiftBatch(templateShifts, label, created => `${created} turni copiati nella settimana`);
+    return results.filter(Boolean).length;
+  };
+
   // Carica configurazioni salvate al mount
   React.useEffect(() => {
     const savedSettings = localStorage.getItem('hr-validation-settings');
@@ -231,6 +386,18 @@ function AppContent() {
     }
   }, []);
 
+  // 🧬 Segnala i record che non hanno superato le migrazioni di schema all'avvio
+  useEffect(() => {
+    getStorageBackend().then(() => {
+      const report = getLastMigrationReport();
+      if (report && report.failures.length > 0) {
+        showErrorNotification(
+          `⚠️ ${report.failures.length} record non migrati al nuovo schema dati: conservati nel report migrazioni (vedi console)`
+        );
+      }
+    });
+  }, [showErrorNotification]);
+
   // 🆕 DEBUG: Check localStorage on mount
   useEffect(() => {
     // Check what's actually in localStorage
@@ -270,6 +437,11 @@ function AppContent() {
     setEditingEmployee(null);
   };
 
+  // 🏪 Negozi comuni ricreati dall'elenco dipendenti: un solo comando annullabile
+  const handleAddStores = (newStores: Omit<Store, 'id' | 'createdAt' | 'updatedAt'>[]) => {
+    history.runAsCommand('Ripristino negozi comuni', () => newStores.map(store => addStore(store)).length);
+  };
+
   const handleStoreSubmit = (data: Omit<Store, 'id' | 'createdAt' | 'updatedAt'>) => {
     if (editingStore) {
       updateStore(editingStore.id, data);
@@ -330,6 +502,21 @@ function AppContent() {
 
         updateShifts(updates);
 
+        // 📢 La pubblicazione congela ogni settimana coinvolta in una nuova versione
+        if (targetStatus === 'published') {
+          const publishedIds = new Set(result.successful.map(shift => shift.id));
+          const shiftsAfterPublish = shifts.map(shift =>
+            publishedIds.has(shift.id) ? { ...shift, validationStatus: 'published' as const } : shift
+          );
+          const publishedWeeks = new Map(result.successful.map(shift => {
+            const week = getStartOfWeek(shift.date);
+            return [`${shift.storeId}-${week.toDateString()}`, { storeId: shift.storeId, week }];
+          }));
+          publishedWeeks.forEach(({ storeId, week }) => {
+            publishScheduleVersion(storeId, week, shiftsAfterPublish, currentUserName, reason);
+          });
+        }
+
         showSuccessNotification(
           `✅ Transizione workflow completata: ${result.successful.length}/${shiftsToUpdate.length} turni aggiornati a "${targetStatus}"`
         );
@@ -350,6 +537,26 @@ function AppContent() {
     }
   };
 
+  // 📢 Pubblica la settimana del negozio: i turni approvati passano a "pubblicato" e nasce una nuova versione
+  const handlePublishWeek = async (note?: string) => {
+    if (!selectedStore) return;
+    const weekShifts = getPublishableWeekShifts(shifts, selectedStore.id, currentWeek);
+    const toPublish = weekShifts.filter(shift => shift.validationStatus === 'validated');
+    // I turni non ancora validati restano fuori dalla versione finché non vengono approvati
+    const notValidated = weekShifts.filter(shift => shift.validationStatus !== 'validated' && !isPublishedShift(shift)).length;
+
+    if (toPublish.length > 0) {
+      await handleWorkflowTransition(toPublish, 'published', note);
+    } else {
+      const version = publishScheduleVersion(selectedStore.id, currentWeek, shifts, currentUserName, note);
+      showSuccessNotification(`📢 Settimana pubblicata come versione ${version.version} (${version.shifts.length} turni)`);
+    }
+
+    if (notValidated > 0) {
+      showErrorNotification(`⚠️ ${notValidated} turni non ancora validati non sono stati pubblicati`);
+    }
+  };
+
   // LEGACY: Keep old function for backward compatibility
   const handleBulkShiftLock = (shiftIds: string[], reason?: string) => {
     const shiftsToUpdate = shifts.filter(shift => shiftIds.includes(shift.id));
@@ -391,7 +598,7 @@ function AppContent() {
           maxWeeklyHours: emp.maxWeeklyHours || 40,
           minRestHours: emp.minRestHours || 12,
           preferredShifts: emp.preferredShifts || [],
-          contractType: emp.contractType || 'full-time'
+          contractType: emp.contractType || 'full_time'
         });
       }
     });
@@ -480,7 +687,10 @@ function AppContent() {
 
       // FASE 4.6: Apply suggestion with enhanced feedback
       showSuccessNotification('⚙️ Applicazione modifiche in corso...');
-      const result = await balancingEngine.applySuggestion(suggestion);
+      const result = await history.runAsCommand(
+        `Bilanciamento: ${suggestion.title}`,
+        () => balancingEngine.applySuggestion(suggestion)
+      );
 
       if (result.success) {
         const { shiftsModified, employeesAffected, hoursRedistributed } = result.summary;
@@ -543,7 +753,10 @@ function AppContent() {
       console.log('🔄 Applicando tutti i suggerimenti automatici:', suggestions.length);
 
       // Apply all suggestions using the balancing engine
-      const result = await balancingEngine.applyMultipleSuggestions(suggestions);
+      const result = await history.runAsCommand(
+        `Bilanciamento: ${suggestions.length} suggerimenti`,
+        () => balancingEngine.applyMultipleSuggestions(suggestions)
+      );
 
       const { successful, failed, summary } = result;
 
@@ -583,6 +796,13 @@ function AppContent() {
       
       if (existingEmployee) {
         console.log(`🔄 Aggiornando dipendente esistente: ${emp.firstName} ${emp.lastName} (${emp.email})`);
+        // 📅 Il cambio di negozio entra nello storico contrattuale con decorrenza dalla sincronizzazione
+        const currentTerms = getContractTerms(getEmployeeContractAt(existingEmployee, new Date()));
+        const syncedTerms = { ...currentTerms, storeId: emp.storeId };
+        const contract = sameContractTerms(currentTerms, syncedTerms)
+          ? {}
+          : applyContractChange(existingEmployee, syncedTerms, new Date());
+
         // Aggiorna dipendente esistente
         updateEmployee(existingEmployee.id, {
           firstName: emp.firstName,
@@ -592,7 +812,7 @@ function AppContent() {
           position: emp.position,
           department: emp.department,
           isActive: emp.isActive,
-          storeId: emp.storeId
+          ...contract
           // updatedAt viene aggiunto automaticamente da updateEmployee
         });
         updatedCount++;
@@ -612,7 +832,7 @@ function AppContent() {
           maxWeeklyHours: emp.maxWeeklyHours || 40,
           minRestHours: emp.minRestHours || 12,
           preferredShifts: emp.preferredShifts || [],
-          contractType: emp.contractType || 'full-time'
+          contractType: emp.contractType || 'full_time'
         });
         addedCount++;
       }
@@ -632,6 +852,10 @@ function AppContent() {
     );
   };
 
+  // Modifiche alla settimana successive all'ultima pubblicazione
+  const latestVersion = selectedStore ? getLatestVersion(scheduleVersions, selectedStore.id, currentWeek) : undefined;
+  const unpublishedChanges = latestVersion ? diffScheduleVersion(latestVersion, shifts, employees).changes.length : 0;
+
   const weeklySchedule = {
     weekStart: currentWeek,
     shifts: shifts.filter(shift => {
@@ -668,6 +892,7 @@ function AppContent() {
           onOpenApiSettings={() => setModalType('api-settings')}
           onOpenDebug={() => setModalType('debug')}
           onOpenValidationConfig={() => setModalType('validation-config')}
+          onOpenWorkspaceBackup={() => setModalType('workspace-backup')}
           onRefreshData={handleManualDataRefresh}
           dataStats={{
             employees: employees.length,
@@ -679,7 +904,7 @@ function AppContent() {
 
         <main className="flex-1 overflow-auto bg-gray-50">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {(currentView === 'schedule' || currentView === 'timeline' || currentView === 'validation' || currentView === 'workload-dashboard') && ( // DISABLED: AI Analytics - FIXED
+        {(currentView === 'schedule' || currentView === 'timeline' || currentView === 'validation' || currentView === 'workload-dashboard' || currentView === 'scenarios') && ( // DISABLED: AI Analytics - FIXED
           <ProtectedRoute requiredPermission="manage_shifts">
           <div className="space-y-6">
             <ScheduleHeader
@@ -695,6 +920,17 @@ function AppContent() {
               onAddShift={addShift}
               onAddEmployee={addEmployee}
               onUpdateShift={updateShift}
+              runAsCommand={history.runAsCommand}
+              onUndo={history.undo}
+              onRedo={history.redo}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              undoLabel={history.undoLabel}
+              redoLabel={history.redoLabel}
+              onOpenGenerator={() => setModalType('schedule-generator')}
+              onOpenWeekTemplates={() => setModalType('week-templates')}
+              onOpenVersions={() => setModalType('schedule-versions')}
+              unpublishedChanges={unpublishedChanges}
             />
             
             {selectedStore ? (
@@ -707,7 +943,28 @@ function AppContent() {
                       onShiftUpdate={updateShift}
                       onShiftCreate={addShift}
                       onShiftDelete={deleteShift}
+                      onShiftBatch={handleGridBatch}
+                      userName={profile ? `${profile.first_name} ${profile.last_name}` : undefined}
                       adminSettings={validationSettings}
+                      allShifts={shifts}
+                      violationRegister={violationRegister}
+                      onViolationStatusChange={handleViolationStatusChange}
+                    />
+                  </ProtectedRoute>
+                )}
+
+                {currentView === 'scenarios' && (
+                  <ProtectedRoute requiredPermission="manage_shifts" storeId={selectedStore.id}>
+                    <ScenarioWorkspace
+                      store={selectedStore}
+                      weekStart={currentWeek}
+                      employees={employees}
+                      shifts={shifts}
+                      unavailabilities={unavailabilities}
+                      preferences={preferences}
+                      adminSettings={validationSettings}
+                      userName={profile ? `${profile.first_name} ${profile.last_name}` : undefined}
+                      onPromote={handleGridBatch}
                     />
                   </ProtectedRoute>
                 )}
@@ -883,6 +1140,42 @@ function AppContent() {
           </ProtectedRoute>
         )}
 
+        {currentView === 'open-shifts' && (
+          <OpenShiftsBoard
+            profile={profile}
+            canManage={hasPermission('manage_shifts')}
+            stores={stores}
+            employees={employees}
+            shifts={shifts}
+            unavailabilities={unavailabilities}
+            onAssignShift={handleAssignOpenShift}
+          />
+        )}
+
+        {currentView === 'shift-swaps' && (
+          <ShiftSwapBoard
+            profile={profile}
+            canManage={hasPermission('manage_shifts')}
+            stores={stores}
+            employees={employees}
+            shifts={shifts}
+            unavailabilities={unavailabilities}
+            onApplySwap={handleApplyShiftSwap}
+          />
+        )}
+
+        {currentView === 'rotations' && (
+          <ProtectedRoute requiredPermission="manage_shifts">
+            <RotationPatternManager
+              stores={stores}
+              employees={employees}
+              shifts={shifts}
+              unavailabilities={unavailabilities}
+              onCreateShifts={handleCreateRotationShifts}
+            />
+          </ProtectedRoute>
+        )}
+
         {currentView === 'hour-bank' && (
           <ProtectedRoute requiredPermission="manage_hour_bank">
             <HourBankDashboard employees={employees} />
@@ -909,6 +1202,7 @@ function AppContent() {
               onDelete={deleteEmployee}
               onAdd={() => setModalType('employee')}
               onSync={() => setModalType('employee-sync')}
+              onAddStores={handleAddStores}
             />
           </div>
           </ProtectedRoute>
@@ -938,7 +1232,7 @@ function AppContent() {
 
         {currentView === 'users' && (
           <ProtectedRoute requiredPermission="manage_users">
-            <UserManagement stores={stores} />
+            <UserManagement stores={stores} employees={employees} />
           </ProtectedRoute>
         )}
 
@@ -1042,6 +1336,58 @@ function AppContent() {
           onSave={handleSaveValidationSettings}
         />
       )}
+
+      {/* Modal Generatore Turni */}
+      {selectedStore && modalType === 'schedule-generator' && (
+        <ScheduleGeneratorModal
+          isOpen
+          onClose={() => setModalType(null)}
+          store={selectedStore}
+          weekStart={currentWeek}
+          employees={employees}
+          shifts={shifts}
+          unavailabilities={unavailabilities}
+          onAcceptProposals={handleAcceptGeneratedShifts}
+        />
+      )}
+
+      {/* Modal Settimane Tipo */}
+      {selectedStore && modalType === 'week-templates' && (
+        <WeekTemplateModal
+          isOpen
+          onClose={() => setModalType(null)}
+          store={selectedStore}
+          stores={stores}
+          weekStart={currentWeek}
+          employees={employees}
+          shifts={shifts}
+          unavailabilities={unavailabilities}
+          userName={profile ? `${profile.first_name} ${profile.last_name}` : undefined}
+          onApplyShifts={handleApplyWeekTemplate}
+        />
+      )}
+
+      {selectedStore && modalType === 'schedule-versions' && (
+        <ScheduleVersionsModal
+          isOpen
+          onClose={() => setModalType(null)}
+          store={selectedStore}
+          weekStart={currentWeek}
+          employees={employees}
+          shifts={shifts}
+          versions={scheduleVersions}
+          onPublish={handlePublishWeek}
+        />
+      )}
+
+      {/* Modal Backup e Ripristino Workspace (Solo Admin) */}
+      {profile?.role === 'admin' && (
+        <WorkspaceBackupPanel
+          isOpen={modalType === 'workspace-backup'}
+          onClose={() => setModalType(null)}
+          onRestored={handleWorkspaceRestored}
+        />
+      )}
         </main>
       </div>
     </div>
@@ -1,8 +1,18 @@
 import React, { useState } from 'react';
 import { ValidationAdminSettings } from '../../types/validation';
+import {
+  CCNL_RULE_METRICS,
+  CCNL_RULE_PACKS,
+  CCNLAgreementId,
+  CCNLRuleDefinition,
+  CCNLRuleMetric,
+  getDefaultRuleParameters
+} from '../../types/ccnl';
+import { CONTRACT_RULE_SETS, ContractType } from '../../types/contracts';
 import { Button } from '../common/Button';
 import { Modal } from '../common/Modal';
 import { Input } from '../common/Input';
+import { Select } from '../common/Select';
 import { 
   Settings, 
   Shield, 
@@ -14,7 +24,10 @@ import {
   Info,
   CheckCircle,
   XCircle,
-  Zap
+  Zap,
+  ListChecks,
+  Plus,
+  Trash2
 } from 'lucide-react';
 
 interface ValidationConfigPanelProps {
@@ -74,8 +87,10 @@ export const ValidationConfigPanel: React.FC<ValidationConfigPanelProps> = ({
   onSave
 }) => {
   const [settings, setSettings] = useState<ValidationAdminSettings>(currentSettings || DEFAULT_SETTINGS);
-  const [activeTab, setActiveTab] = useState<'general' | 'staff' | 'coverage' | 'compliance' | 'alerts'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'staff' | 'coverage' | 'compliance' | 'rules' | 'alerts'>('general');
   const [hasChanges, setHasChanges] = useState(false);
+  const [newRuleMetric, setNewRuleMetric] = useState<CCNLRuleMetric>('max_daily_hours');
+  const [rulePackId, setRulePackId] = useState<CCNLAgreementId>('commercio');
 
   const updateSettings = (updates: Partial<ValidationAdminSettings>) => {
     setSettings(prev => ({ ...prev, ...updates }));
@@ -93,6 +108,40 @@ export const ValidationConfigPanel: React.FC<ValidationConfigPanelProps> = ({
     setHasChanges(true);
   };
 
+  // 📐 REGOLE CCNL DICHIARATIVE del contratto collettivo selezionato
+  const ruleDefinitions = settings.complianceSettings.rulePacks?.[rulePackId] ?? CCNL_RULE_PACKS[rulePackId].ruleDefinitions;
+
+  const setRuleDefinitions = (rules: CCNLRuleDefinition[]) => {
+    updateNestedSettings('complianceSettings', {
+      rulePacks: { ...settings.complianceSettings.rulePacks, [rulePackId]: rules }
+    });
+  };
+
+  const updateRule = (id: string, updates: Partial<CCNLRuleDefinition>) => {
+    setRuleDefinitions(ruleDefinitions.map(rule => rule.id === id ? { ...rule, ...updates } : rule));
+  };
+
+  const addRule = () => {
+    const spec = CCNL_RULE_METRICS[newRuleMetric];
+    setRuleDefinitions([...ruleDefinitions, {
+      id: crypto.randomUUID(),
+      name: spec.label,
+      description: spec.description,
+      articleReference: '',
+      metric: newRuleMetric,
+      params: getDefaultRuleParameters(newRuleMetric),
+      scope: {},
+      severity: 'warning',
+      isActive: true
+    }]);
+  };
+
+  const toggleRuleContractType = (rule: CCNLRuleDefinition, type: ContractType) => {
+    const current = rule.scope.contractTypes || [];
+    const contractTypes = current.includes(type) ? current.filter(t => t !== type) : [...current, type];
+    updateRule(rule.id, { scope: { ...rule.scope, contractTypes } });
+  };
+
   const handleSave = () => {
     onSave(settings);
     setHasChanges(false);
@@ -109,6 +158,7 @@ export const ValidationConfigPanel: React.FC<ValidationConfigPanelProps> = ({
     { id: 'staff' as const, name: 'Personale', icon: Users },
     { id: 'coverage' as const, name: 'Copertura', icon: Clock },
     { id: 'compliance' as const, name: 'CCNL', icon: Shield },
+    { id: 'rules' as const, name: 'Regole CCNL', icon: ListChecks },
     { id: 'alerts' as const, name: 'Avvisi', icon: AlertTriangle }
   ];
 
@@ -477,6 +527,149 @@ export const ValidationConfigPanel: React.FC<ValidationConfigPanelProps> = ({
             </div>
           )}
 
+          {activeTab === 'rules' && (
+            <div className="space-y-4">
+              <div className="bg-white border border-gray-200 rounded-lg p-4">
+                <h3 className="text-lg font-medium text-gray-900 mb-1">Regole CCNL</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  Limiti verificati su ogni turno: parametri, tipologie contrattuali interessate e gravità.
+                  Le violazioni critiche impediscono l'assegnazione del turno.
+                </p>
+                <Select
+                  label="Contratto collettivo"
+                  value={rulePackId}
+                  onChange={(value) => setRulePackId(value as CCNLAgreementId)}
+                  options={Object.values(CCNL_RULE_PACKS).map(pack => ({ value: pack.id, label: pack.name }))}
+                  className="mb-1"
+                />
+                <p className="text-xs text-gray-500 mb-4">
+                  {CCNL_RULE_PACKS[rulePackId].description}. Il contratto si assegna al negozio e, se diverso, al singolo dipendente.
+                </p>
+                <div className="flex items-end space-x-3">
+                  <Select
+                    label="Nuova regola"
+                    value={newRuleMetric}
+                    onChange={(value) => setNewRuleMetric(value as CCNLRuleMetric)}
+                    options={(Object.keys(CCNL_RULE_METRICS) as CCNLRuleMetric[]).map(metric => ({
+                      value: metric,
+                      label: CCNL_RULE_METRICS[metric].label
+                    }))}
+                    className="flex-1"
+                  />
+                  <Button variant="outline" icon={Plus} onClick={addRule}>
+                    Aggiungi regola
+                  </Button>
+                </div>
+              </div>
+
+              {ruleDefinitions.map(rule => (
+                <div
+                  key={rule.id}
+                  className={`border rounded-lg p-4 space-y-3 ${rule.isActive ? 'bg-white border-gray-200' : 'bg-gray-50 border-gray-200 opacity-75'}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => updateRule(rule.id, { isActive: !rule.isActive })}
+                        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                          rule.isActive ? 'bg-blue-600' : 'bg-gray-200'
+                        }`}
+                      >
+                        <span
+                          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            rule.isActive ? 'translate-x-6' : 'translate-x-1'
+                          }`}
+                        />
+                      </button>
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{rule.name}</div>
+                        <div className="text-xs text-gray-500">{CCNL_RULE_METRICS[rule.metric].label}</div>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Select
+                        value={rule.severity}
+                        onChange={(value) => updateRule(rule.id, { severity: value as CCNLRuleDefinition['severity'] })}
+                        options={[
+                          { value: 'critical', label: 'Critica (blocca)' },
+                          { value: 'warning', label: 'Avviso' }
+                        ]}
+                      />
+                      {!rule.isBuiltIn && (
+                        <button
+                          onClick={() => setRuleDefinitions(ruleDefinitions.filter(r => r.id !== rule.id))}
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          title="Elimina regola"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      label="Nome"
+                      value={rule.name}
+                      onChange={(value) => updateRule(rule.id, { name: value })}
+                    />
+                    <Input
+                      label="Riferimento normativo"
+                      value={rule.articleReference}
+                      onChange={(value) => updateRule(rule.id, { articleReference: value })}
+                      placeholder="Es. Art. 119 CCNL Commercio"
+                    />
+                  </div>
+
+                  <Input
+                    label="Descrizione"
+                    value={rule.description}
+                    onChange={(value) => updateRule(rule.id, { description: value })}
+                  />
+
+                  <div className="grid grid-cols-3 gap-3">
+                    {CCNL_RULE_METRICS[rule.metric].parameters.map(param => (
+                      <Input
+                        key={param.key}
+                        label={`${param.label}${param.unit ? ` (${param.unit})` : ''}`}
+                        type={param.type}
+                        value={String(rule.params[param.key] ?? param.defaultValue)}
+                        onChange={(value) => updateRule(rule.id, {
+                          params: {
+                            ...rule.params,
+                            [param.key]: param.type === 'number' ? parseFloat(value) || 0 : value
+                          }
+                        })}
+                      />
+                    ))}
+                  </div>
+
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Tipologie contrattuali {!rule.scope.contractTypes?.length && <span className="text-gray-500 font-normal">(tutte)</span>}
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(CONTRACT_RULE_SETS) as ContractType[]).map(type => {
+                        const selected = rule.scope.contractTypes?.includes(type) ?? false;
+                        return (
+                          <button
+                            key={type}
+                            onClick={() => toggleRuleContractType(rule, type)}
+                            className={`px-2 py-1 rounded text-xs font-medium border ${
+                              selected ? 'bg-blue-100 text-blue-800 border-blue-300' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                            }`}
+                          >
+                            {CONTRACT_RULE_SETS[type].label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {activeTab === 'alerts' && (
             <div className="space-y-6">
               <div className="bg-white border border-gray-200 rounded-lg p-6">
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { Modal } from '../common/Modal';
+import { Button } from '../common/Button';
+import {
+  WorkspaceArchive,
+  SectionRestorePreview,
+  RestoreMode,
+  RestoreResult,
+  downloadWorkspaceArchive,
+  parseWorkspaceArchive,
+  previewWorkspaceRestore,
+  restoreWorkspace
+} from '../../lib/workspaceBackup';
+import { Download, Upload, AlertTriangle, CheckCircle, Info } from 'lucide-react';
+
+interface WorkspaceBackupPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: (result: RestoreResult) => void;
+}
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  replace: 'Sostituisci',
+  merge: 'Unisci',
+  skip: 'Salta'
+};
+
+export const WorkspaceBackupPanel: React.FC<WorkspaceBackupPanelProps> = ({
+  isOpen,
+  onClose,
+  onRestored
+}) => {
+  const [archive, setArchive] = useState<WorkspaceArchive | null>(null);
+  const [previews, setPreviews] = useState<SectionRestorePreview[]>([]);
+  const [modes, setModes] = useState<Record<string, RestoreMode>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setArchive(null);
+    setPreviews([]);
+    setModes({});
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await downloadWorkspaceArchive();
+    } catch (exportError) {
+      console.error('❌ Errore export backup:', exportError);
+      setError('Impossibile creare il backup del workspace');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    reset();
+    setIsWorking(true);
+    try {
+      const parsed = await parseWorkspaceArchive(await file.text());
+      const sectionPreviews = await previewWorkspaceRestore(parsed);
+
+      setArchive(parsed);
+      setPreviews(sectionPreviews);
+      // Default: sostituzione per le sezioni presenti nell'archivio
+      setModes(Object.fromEntries(sectionPreviews.map(preview => [preview.id, preview.inArchive ? 'replace' : 'skip'])));
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : String(parseError));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+
+    const selected = previews.filter(preview => modes[preview.id] !== 'skip');
+    const removed = selected
+      .filter(preview => modes[preview.id] === 'replace')
+      .reduce((sum, preview) => sum + preview.removedOnReplace, 0);
+
+    const confirmed = window.confirm(
+      `Ripristinare ${selected.length} sezioni dal backup del ${new Date(archive.createdAt).toLocaleString('it-IT')}?` +
+      (removed > 0 ? `\n\n⚠️ ${removed} record attuali verranno eliminati dalla sostituzione.` : '')
+    );
+    if (!confirmed) return;
+
+    setIsWorking(true);
+    try {
+      const result = await restoreWorkspace(archive, modes);
+      reset();
+      onRestored(result);
+    } catch (restoreError) {
+      console.error('❌ Errore ripristino backup:', restoreError);
+      setError(restoreError instanceof Error ? restoreError.message : String(restoreError));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const hasSelection = previews.some(preview => modes[preview.id] && modes[preview.id] !== 'skip');
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Backup e Ripristino Workspace" size="xl">
+      <div className="space-y-6">
+        {/* Export */}
+        <div className="flex items-start justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <div>
+            <h3 className="font-medium text-blue-900">Esporta workspace completo</h3>
+            <p className="text-sm text-blue-700 mt-1">
+              Dipendenti, negozi, turni, indisponibilità, template, fabbisogni, banca ore, configurazioni, utenti e registro audit
+              in un unico archivio verificato da checksum. Le password non vengono esportate.
+            </p>
+          </div>
+          <Button icon={Download} onClick={handleExport} disabled={isWorking}>
+            Esporta
+          </Button>
+        </div>
+
+        {/* Import */}
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium text-gray-900">Ripristina da backup</h3>
+            <label className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md cursor-pointer hover:bg-gray-50">
+              <Upload className="h-4 w-4 mr-2" />
+              Seleziona archivio
+              <input type="file" accept="application/json,.json" className="hidden" onChange={handleFileSelected} disabled={isWorking} />
+            </label>
+          </div>
+
+          {error && (
+            <div className="mt-3 flex items-center text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+              <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {archive && (
+            <div className="mt-4 space-y-3">
+              <div className="flex items-center text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Archivio del {new Date(archive.createdAt).toLocaleString('it-IT')} (formato v{archive.formatVersion}, checksum verificato)
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">Sezione</th>
+                    <th className="py-2 text-right">Attuali</th>
+                    <th className="py-2 text-right">Backup</th>
+                    <th className="py-2 text-right">Nuovi</th>
+                    <th className="py-2 text-right">Modificati</th>
+                    <th className="py-2 text-right">Eliminati*</th>
+                    <th className="py-2 pl-4">Azione</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previews.map(preview => (
+                    <tr key={preview.id} className={`border-b ${preview.inArchive ? '' : 'text-gray-400'}`}>
+                      <td className="py-2">{preview.label}</td>
+                      <td className="py-2 text-right">{preview.currentCount}</td>
+                      <td className="py-2 text-right">{preview.archiveCount}</td>
+                      <td className="py-2 text-right text-green-700">{preview.added || '-'}</td>
+                      <td className="py-2 text-right text-amber-700">{preview.updated || '-'}</td>
+                      <td className="py-2 text-right text-red-700">{preview.removedOnReplace || '-'}</td>
+                      <td className="py-2 pl-4">
+                        <select
+                          value={modes[preview.id] ?? 'skip'}
+                          onChange={e => setModes(prev => ({ ...prev, [preview.id]: e.target.value as RestoreMode }))}
+                          disabled={!preview.inArchive || isWorking}
+                          className="border border-gray-300 rounded px-2 py-1 text-sm"
+                        >
+                          {(['replace', 'merge', 'skip'] as RestoreMode[])
+                            .filter(mode => mode !== 'merge' || preview.supportsMerge)
+                            .map(mode => (
+                              <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                            ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex items-start text-xs text-gray-500">
+                <Info className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                * Record attuali assenti nel backup: vengono eliminati solo con "Sostituisci". "Unisci" aggiorna i record per id e conserva gli altri.
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={reset} disabled={isWorking}>
+                  Annulla
+                </Button>
+                <Button variant="danger" icon={Upload} onClick={handleRestore} disabled={isWorking || !hasSelection}>
+                  Ripristina selezionate
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
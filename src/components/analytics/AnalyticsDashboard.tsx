@@ -41,7 +41,6 @@ export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = React.memo(
     generateIntelligentSuggestions,
     generateWorkloadPredictions,
     calculateSchedulingMetrics,
-    generateOptimizedSchedule,
     enabled
   } = useSchedulingAI({
     employees,
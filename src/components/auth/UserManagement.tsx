@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth, UserProfile } from '../../hooks/useAuth';
-import { useLocalStorage } from '../../hooks/useLocalStorage';
+import { useRepository } from '../../hooks/useRepository';
 import { Button } from '../common/Button';
 import { Input } from '../common/Input';
 import { Select } from '../common/Select';
@@ -25,11 +25,12 @@ import {
 
 interface UserManagementProps {
   stores: Array<{ id: string; name: string; isActive: boolean }>;
+  employees?: Array<{ id: string; firstName: string; lastName: string; isActive: boolean }>;
 }
 
-export const UserManagement: React.FC<UserManagementProps> = ({ stores }) => {
+export const UserManagement: React.FC<UserManagementProps> = ({ stores, employees = [] }) => {
   const { profile: currentUserProfile, hasPermission } = useAuth();
-  const [users, setUsers] = useLocalStorage<UserProfile[]>('hr-auth-users', []);
+  const [users, setUsers] = useRepository<UserProfile>('hr-auth-users', []);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingUser, setEditingUser] = useState<UserProfile | null>(null);
@@ -42,6 +43,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ stores }) => {
     lastName: '',
     role: 'user' as UserProfile['role'],
     assignedStoreIds: [] as string[],
+    employeeId: '',
     isActive: true,
     customPermissions: [] as Permission[]
   });
@@ -95,6 +97,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ stores }) => {
           role: formData.role,
           custom_permissions: formData.customPermissions,
           assigned_store_ids: formData.assignedStoreIds,
+          employee_id: formData.employeeId || undefined,
           is_active: formData.isActive,
           updated_at: new Date().toISOString()
         };
@@ -112,6 +115,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ stores }) => {
           role: formData.role,
           custom_permissions: formData.customPermissions,
           assigned_store_ids: formData.assignedStoreIds,
+          employee_id: formData.employeeId || undefined,
           is_active: formData.isActive,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -143,6 +147,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ stores }) => {
       lastName: user.last_name,
       role: user.role,
       assignedStoreIds: user.assigned_store_ids || [],
+      employeeId: user.employee_id || '',
       isActive: user.is_active,
       customPermissions: user.custom_permissions || ROLE_PERMISSIONS[user.role] || []
     });
@@ -330,6 +335,7 @@ export const UserManagement: React.FC<UserManagementProps> = ({ stores }) => {
                 lastName: '',
                 role: 'user',
                 assignedStoreIds: [],
+                employeeId: '',
                 isActive: true,
                 customPermissions: ROLE_PERMISSIONS['user'] || []
               });
@@ -703,6 +709,17 @@ export const UserManagement: React.FC<UserManagementProps> = ({ stores }) => {
             )}
           </div>
 
+          {/* Collegamento al dipendente: serve per richiedere i turni aperti */}
+          <Select
+            label="Dipendente Collegato"
+            value={formData.employeeId}
+            onChange={(value) => setFormData(prev => ({ ...prev, employeeId: value }))}
+            options={employees
+              .filter(employee => employee.isActive)
+              .map(employee => ({ value: employee.id, label: `${employee.firstName} ${employee.lastName}` }))}
+            placeholder="Nessun dipendente collegato"
+          />
+
           {/* Store Assignment for Managers */}
           {(formData.role === 'manager' || formData.customPermissions.some(p => ['manage_stores', 'view_all_stores'].includes(p))) && (
             <div>
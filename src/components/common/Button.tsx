@@ -6,7 +6,7 @@ import { DivideIcon as LucideIcon } from 'lucide-react';
 interface ButtonProps {
   children: React.ReactNode;
   onClick?: () => void;
-  variant?: 'primary' | 'secondary' | 'danger' | 'success' | 'outline';
+  variant?: 'primary' | 'secondary' | 'danger' | 'success' | 'outline' | 'ghost';
   size?: 'xs' | 'sm' | 'md' | 'lg';
   icon?: LucideIcon;
   disabled?: boolean;
@@ -60,7 +60,8 @@ export const Button: React.FC<ButtonProps> = ({
     secondary: 'bg-gray-100 text-gray-700 hover:bg-gray-200 focus:ring-gray-500',
     danger: 'bg-red-600 text-white hover:bg-red-700 focus:ring-red-500 shadow-sm',
     success: 'bg-green-600 text-white hover:bg-green-700 focus:ring-green-500 shadow-sm',
-    outline: 'border border-gray-300 text-gray-700 hover:bg-gray-50 focus:ring-blue-500'
+    outline: 'border border-gray-300 text-gray-700 hover:bg-gray-50 focus:ring-blue-500',
+    ghost: 'bg-transparent focus:ring-gray-500'
   };
 
   const sizeClasses = {
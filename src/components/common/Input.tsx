@@ -4,7 +4,7 @@ interface InputProps {
   label?: string;
   value: string;
   onChange: (value: string) => void;
-  type?: 'text' | 'email' | 'password' | 'number' | 'time';
+  type?: 'text' | 'email' | 'password' | 'number' | 'time' | 'date';
   placeholder?: string;
   required?: boolean;
   disabled?: boolean;
@@ -1,8 +1,16 @@
 import React, { useState } from 'react';
-import { Employee, Store } from '../../types';
+import { Employee, EmployeeSkill, SkillProficiency, Store } from '../../types';
 import { Input } from '../common/Input';
 import { Select } from '../common/Select';
 import { Button } from '../common/Button';
+import { useStaffPlanning } from '../../hooks/useStaffPlanning';
+import { PROFICIENCY_LABELS } from '../../utils/staffNeeds';
+import { CONTRACT_RULE_SETS, ContractType } from '../../types/contracts';
+import { CCNL_RULE_PACKS, CCNLAgreementId, DEFAULT_CCNL_AGREEMENT } from '../../types/ccnl';
+import { applyContractChange, ContractTerms, getContractRuleSet, sameContractTerms } from '../../utils/contractRules';
+import { isMinorAt } from '../../utils/ccnlRuleEngine';
+
+const DAYS_OF_WEEK = ['lunedì', 'martedì', 'mercoledì', 'giovedì', 'venerdì', 'sabato', 'domenica'];
 
 interface EmployeeFormProps {
   employee?: Employee;
@@ -20,11 +28,35 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
   const [formData, setFormData] = useState({
     firstName: employee?.firstName || '',
     lastName: employee?.lastName || '',
+    birthDate: employee?.birthDate ? employee.birthDate.toISOString().split('T')[0] : '',
     contractHours: employee?.contractHours?.toString() || '',
     fixedHours: employee?.fixedHours?.toString() || '',
     storeId: employee?.storeId || '',
-    isActive: employee?.isActive ?? true
+    isActive: employee?.isActive ?? true,
+    skills: (employee?.skills || []) as EmployeeSkill[],
+    contractType: getContractRuleSet({ contractType: employee?.contractType }).type,
+    contractEndDate: employee?.contractEndDate ? employee.contractEndDate.toISOString().split('T')[0] : '',
+    workingDays: employee?.workingDays || [],
+    contractEffectiveFrom: new Date().toISOString().split('T')[0],
+    ccnlAgreementId: (employee?.ccnlAgreementId || '') as CCNLAgreementId | ''
+  });
+  const contractRules = CONTRACT_RULE_SETS[formData.contractType];
+
+  // 📅 Condizioni contrattuali del modulo: se cambiano serve una data di decorrenza
+  const getFormContractTerms = (): ContractTerms => ({
+    contractType: formData.contractType,
+    contractHours: parseFloat(formData.contractHours),
+    fixedHours: parseFloat(formData.fixedHours),
+    storeId: formData.storeId || undefined,
+    contractEndDate: contractRules.requiresEndDate && formData.contractEndDate
+      ? new Date(`${formData.contractEndDate}T00:00:00`)
+      : undefined,
+    workingDays: contractRules.restrictToWorkingDays ? formData.workingDays : undefined
   });
+  const contractChanged = !employee || !sameContractTerms(employee, getFormContractTerms());
+  const contractHistory = [...(employee?.contractHistory || [])]
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime());
+  const { staffRoles } = useStaffPlanning();
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -56,6 +88,23 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
       newErrors.contractHours = 'Le ore massime devono essere maggiori o uguali alle ore minime';
     }
 
+    // Gli apprendisti possono essere minorenni: senza data di nascita le tutele non si applicano
+    if (formData.contractType === 'apprentice' && !formData.birthDate) {
+      newErrors.birthDate = 'La data di nascita è obbligatoria per gli apprendisti';
+    }
+
+    if (contractRules.requiresEndDate && !formData.contractEndDate) {
+      newErrors.contractEndDate = 'La data di scadenza è obbligatoria per questa tipologia';
+    }
+
+    if (contractRules.restrictToWorkingDays && formData.workingDays.length === 0) {
+      newErrors.workingDays = 'Seleziona almeno un giorno concordato';
+    }
+
+    if (contractChanged && !formData.contractEffectiveFrom) {
+      newErrors.contractEffectiveFrom = 'Indica la data di decorrenza del contratto';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -63,17 +112,60 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validateForm()) {
+      // Le condizioni modificate entrano nello storico dalla decorrenza indicata;
+      // i campi del dipendente riportano quelle in vigore oggi
+      const contract = contractChanged
+        ? applyContractChange(employee, getFormContractTerms(), new Date(`${formData.contractEffectiveFrom}T00:00:00`))
+        : { ...getFormContractTerms(), contractHistory: employee?.contractHistory };
+
       onSubmit({
         firstName: formData.firstName.trim(),
         lastName: formData.lastName.trim(),
-        contractHours: parseFloat(formData.contractHours),
-        fixedHours: parseFloat(formData.fixedHours),
-        storeId: formData.storeId || undefined,
-        isActive: formData.isActive
+        birthDate: formData.birthDate ? new Date(`${formData.birthDate}T00:00:00`) : undefined,
+        isActive: formData.isActive,
+        skills: formData.skills,
+        ccnlAgreementId: formData.ccnlAgreementId || undefined,
+        ...contract
       });
     }
   };
 
+  // 🎯 Competenze: un ruolo attivato diventa principale se è il primo
+  const toggleSkill = (roleId: string, enabled: boolean) => {
+    setFormData(prev => {
+      const remaining = prev.skills.filter(skill => skill.roleId !== roleId);
+      const skills = enabled
+        ? [...remaining, { roleId, proficiency: 'intermediate' as SkillProficiency, isPrimary: remaining.length === 0 }]
+        : remaining;
+      if (skills.length > 0 && !skills.some(skill => skill.isPrimary)) {
+        skills[0] = { ...skills[0], isPrimary: true };
+      }
+      return { ...prev, skills };
+    });
+  };
+
+  const updateSkill = (roleId: string, changes: Partial<EmployeeSkill>) => {
+    setFormData(prev => ({
+      ...prev,
+      skills: prev.skills.map(skill => {
+        if (skill.roleId === roleId) return { ...skill, ...changes };
+        return changes.isPrimary ? { ...skill, isPrimary: false } : skill;
+      })
+    }));
+  };
+
+  const toggleWorkingDay = (day: string, enabled: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      workingDays: enabled
+        ? DAYS_OF_WEEK.filter(d => d === day || prev.workingDays.includes(d))
+        : prev.workingDays.filter(d => d !== day)
+    }));
+  };
+
+  // Senza scelta personale vale il contratto collettivo del negozio assegnato
+  const storeAgreementId = stores.find(store => store.id === formData.storeId)?.ccnlAgreementId || DEFAULT_CCNL_AGREEMENT;
+
   const storeOptions = stores
     .filter(store => store.isActive)
     .map(store => ({
@@ -100,6 +192,68 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
         />
       </div>
 
+      <div>
+        <Input
+          label="Data di Nascita"
+          type="date"
+          value={formData.birthDate}
+          onChange={(value) => setFormData(prev => ({ ...prev, birthDate: value }))}
+          required={formData.contractType === 'apprentice'}
+          error={errors.birthDate}
+        />
+        {formData.birthDate && isMinorAt({ birthDate: new Date(`${formData.birthDate}T00:00:00`) }, new Date()) && (
+          <p className="text-xs text-amber-700 mt-1">
+            🧒 Dipendente minorenne: niente lavoro notturno, max 8h al giorno e 40h a settimana,
+            pausa di 1h oltre 4h30 e 2 giorni di riposo consecutivi (L. 977/1967)
+          </p>
+        )}
+      </div>
+
+      {/* Tipologia contrattuale e vincoli specifici */}
+      <div className="space-y-3">
+        <Select
+          label="Tipologia Contratto"
+          value={formData.contractType}
+          onChange={(value) => setFormData(prev => ({ ...prev, contractType: value as ContractType }))}
+          options={Object.values(CONTRACT_RULE_SETS).map(rules => ({ value: rules.type, label: rules.label }))}
+        />
+        <p className="text-xs text-gray-500">
+          {contractRules.description} ({contractRules.articleReference})
+          {contractRules.trainingHoursPerWeek > 0 && ` • ${contractRules.trainingHoursPerWeek}h/settimana di formazione`}
+        </p>
+
+        {contractRules.requiresEndDate && (
+          <Input
+            label="Scadenza Contratto"
+            type="date"
+            value={formData.contractEndDate}
+            onChange={(value) => setFormData(prev => ({ ...prev, contractEndDate: value }))}
+            required
+            error={errors.contractEndDate}
+          />
+        )}
+
+        {contractRules.restrictToWorkingDays && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Giorni Concordati</label>
+            <div className="flex flex-wrap gap-3">
+              {DAYS_OF_WEEK.map(day => (
+                <label key={day} className="flex items-center space-x-1 text-sm capitalize">
+                  <input
+                    type="checkbox"
+                    checked={formData.workingDays.includes(day)}
+                    onChange={(e) => toggleWorkingDay(day, e.target.checked)}
+                    className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                  />
+                  <span>{day}</span>
+                </label>
+              ))}
+            </div>
+            {errors.workingDays && <p className="text-sm text-red-600 mt-1">{errors.workingDays}</p>}
+          </div>
+        )}
+      </div>
+
       {/* Sezione ore con spiegazioni chiare */}
       <div className="space-y-4">
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -162,8 +316,13 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
               <div>
                 🟢 Nei limiti: {formData.fixedHours}h - {formData.contractHours}h/settimana
               </div>
+              {contractRules.maxSupplementaryHours > 0 && (
+                <div>
+                  🟠 Supplementari: fino a {contractRules.maxSupplementaryHours}h/settimana oltre il contratto
+                </div>
+              )}
               <div>
-                🔴 Straordinario: &gt; {formData.contractHours}h/settimana
+                🔴 Fuori limite: &gt; {parseFloat(formData.contractHours) - contractRules.trainingHoursPerWeek + contractRules.maxSupplementaryHours}h/settimana
               </div>
             </div>
           </div>
@@ -178,6 +337,105 @@ export const EmployeeForm: React.FC<EmployeeFormProps> = ({
         placeholder="Seleziona un negozio (opzionale)"
       />
 
+      <Select
+        label="Contratto Collettivo"
+        value={formData.ccnlAgreementId}
+        onChange={(value) => setFormData(prev => ({ ...prev, ccnlAgreementId: value as CCNLAgreementId | '' }))}
+        options={Object.values(CCNL_RULE_PACKS).map(pack => ({ value: pack.id, label: pack.name }))}
+        placeholder={`Come il negozio (${CCNL_RULE_PACKS[storeAgreementId].shortName})`}
+      />
+
+      {/* Decorrenza e storico contrattuale */}
+      <div className="space-y-2">
+        {contractChanged && (
+          <div>
+            <Input
+              label={employee ? 'Nuove condizioni valide dal' : 'Decorrenza Contratto'}
+              type="date"
+              value={formData.contractEffectiveFrom}
+              onChange={(value) => setFormData(prev => ({ ...prev, contractEffectiveFrom: value }))}
+              required
+              error={errors.contractEffectiveFrom}
+            />
+            {employee && (
+              <p className="text-xs text-gray-500 mt-1">
+                Le settimane precedenti continuano a usare il contratto in vigore alla loro data
+              </p>
+            )}
+          </div>
+        )}
+
+        {contractHistory.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Storico Contratti</label>
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+              {contractHistory.map(period => (
+                <div key={period.id} className="flex items-center justify-between px-3 py-2">
+                  <span className="text-gray-600">
+                    {period.effectiveFrom.toLocaleDateString('it-IT')} → {period.effectiveTo ? period.effectiveTo.toLocaleDateString('it-IT') : 'in corso'}
+                  </span>
+                  <span className="text-gray-900">
+                    {getContractRuleSet(period).label} • {period.fixedHours}-{period.contractHours}h
+                    {period.storeId && ` • ${stores.find(store => store.id === period.storeId)?.name || 'Negozio rimosso'}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Ruoli e Competenze</label>
+        {staffRoles.length === 0 ? (
+          <p className="text-xs text-gray-500">Nessun ruolo configurato nella pianificazione del personale</p>
+        ) : (
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {staffRoles.map(role => {
+              const skill = formData.skills.find(s => s.roleId === role.id);
+              return (
+                <div key={role.id} className="flex items-center justify-between px-3 py-2">
+                  <label className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={!!skill}
+                      onChange={(e) => toggleSkill(role.id, e.target.checked)}
+                      className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                    />
+                    <span>{role.name}</span>
+                  </label>
+                  {skill && (
+                    <div className="flex items-center space-x-3">
+                      <select
+                        value={skill.proficiency}
+                        onChange={(e) => updateSkill(role.id, { proficiency: e.target.value as SkillProficiency })}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                      >
+                        {(Object.keys(PROFICIENCY_LABELS) as SkillProficiency[]).map(level => (
+                          <option key={level} value={level}>{PROFICIENCY_LABELS[level]}</option>
+                        ))}
+                      </select>
+                      <label className="flex items-center space-x-1 text-xs text-gray-600">
+                        <input
+                          type="radio"
+                          name="primaryRole"
+                          checked={!!skill.isPrimary}
+                          onChange={() => updateSkill(role.id, { isPrimary: true })}
+                        />
+                        <span>Principale</span>
+                      </label>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Il ruolo principale è quello con cui il dipendente conta nella copertura, salvo diversa indicazione sul turno
+        </p>
+      </div>
+
       <div className="flex items-center space-x-2">
         <input
           type="checkbox"
@@ -4,6 +4,8 @@ import { Button } from '../common/Button';
 import { Input } from '../common/Input';
 import { Select } from '../common/Select';
 import { Edit, Trash2, Search, UserPlus, Download, RotateCcw, Store as StoreIcon } from 'lucide-react';
+import { clearEntities } from '../../lib/repository';
+import { getContractRuleSet } from '../../utils/contractRules';
 
 interface EmployeeListProps {
   employees: Employee[];
@@ -12,6 +14,7 @@ interface EmployeeListProps {
   onDelete: (employeeId: string) => void;
   onAdd: () => void;
   onSync?: () => void;
+  onAddStores: (stores: Omit<Store, 'id' | 'createdAt' | 'updatedAt'>[]) => void;
 }
 
 export const EmployeeList: React.FC<EmployeeListProps> = ({
@@ -20,7 +23,8 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({
   onEdit,
   onDelete,
   onAdd,
-  onSync
+  onSync,
+  onAddStores
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
@@ -67,12 +71,11 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({
   // Funzione di pulizia localStorage (temporanea per debug)
   const clearLocalStorage = () => {
     if (confirm('🧹 ATTENZIONE: Questo rimuoverà SOLO i dipendenti corrotti. I negozi saranno preservati. Continuare?')) {
-      localStorage.removeItem('hr-employees');
-      localStorage.removeItem('hr-shifts');
-      localStorage.removeItem('hr-unavailabilities');
       // NON rimuoviamo hr-stores per preservare i negozi
-      alert('✅ Dipendenti rimossi! La pagina verrà ricaricata.');
-      window.location.reload();
+      clearEntities(['hr-employees', 'hr-shifts', 'hr-unavailabilities']).then(() => {
+        alert('✅ Dipendenti rimossi! La pagina verrà ricaricata.');
+        window.location.reload();
+      });
     }
   };
 
@@ -86,20 +89,19 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({
         'Marzocca', 'Jesi'
       ];
 
-      const storeObjects = commonStores.map(name => ({
-        id: crypto.randomUUID(),
-        name: name,
-        address: '',
-        phone: '',
-        email: '',
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }));
-
-      localStorage.setItem('hr-stores', JSON.stringify(storeObjects));
-      alert(`✅ Creati ${storeObjects.length} negozi! La pagina verrà ricaricata.`);
-      window.location.reload();
+      // Solo i negozi mancanti, salvati tramite repository come ogni altra modifica
+      const existingNames = new Set(stores.map(store => store.name.toLowerCase()));
+      const missingStores = commonStores
+        .filter(name => !existingNames.has(name.toLowerCase()))
+        .map(name => ({ name, openingHours: {}, isActive: true }));
+
+      if (missingStores.length === 0) {
+        alert('ℹ️ Tutti i negozi comuni sono già presenti.');
+        return;
+      }
+
+      onAddStores(missingStores);
+      alert(`✅ Creati ${missingStores.length} negozi!`);
     }
   };
 
@@ -194,6 +196,7 @@ export const EmployeeList: React.FC<EmployeeListProps> = ({
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {employee.contractHours}
+                    <div className="text-xs text-gray-400">{getContractRuleSet(employee).label}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {employee.fixedHours}
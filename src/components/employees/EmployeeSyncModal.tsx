@@ -228,7 +228,7 @@ export const EmployeeSyncModal: React.FC<EmployeeSyncModalProps> = ({
         maxWeeklyHours: 40,
         minRestHours: 12,
         preferredShifts: [],
-        contractType: 'full-time',
+        contractType: 'full_time',
         createdAt: new Date(),
         updatedAt: new Date()
       }));
@@ -294,7 +294,7 @@ export const EmployeeSyncModal: React.FC<EmployeeSyncModalProps> = ({
         maxWeeklyHours: 40,
         minRestHours: 12,
         preferredShifts: [],
-        contractType: 'full-time',
+        contractType: 'full_time',
         createdAt: new Date(),
         updatedAt: new Date()
       };
@@ -41,6 +41,7 @@ interface ExcelImportModalProps {
   onAddShift: (shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>) => Shift | null;
   onAddEmployee: (employee: Omit<Employee, 'id' | 'createdAt' | 'updatedAt'>) => Employee;
   onUpdateShift: (id: string, updates: Partial<Shift>) => void;
+  runAsCommand?: <R>(label: string, operation: () => R | Promise<R>) => Promise<R>; // Raggruppa l'import in un solo passo di annullamento
 }
 
 type ImportStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'result';
@@ -53,7 +54,8 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
   existingShifts,
   onAddShift,
   onAddEmployee,
-  onUpdateShift
+  onUpdateShift,
+  runAsCommand
 }) => {
   const [currentStep, setCurrentStep] = useState<ImportStep>('upload');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -176,7 +178,7 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
     try {
       console.log('🚀 Starting import execution...', validShifts.length, 'shifts');
       
-      const result = await executeImport(
+      const runImport = () => executeImport(
         validShifts,
         employees,
         stores,
@@ -186,6 +188,9 @@ export const ExcelImportModal: React.FC<ExcelImportModalProps> = ({
         onAddEmployee,
         onUpdateShift
       );
+      const result = runAsCommand
+        ? await runAsCommand(`Import Excel (${validShifts.length} turni)`, runImport)
+        : await runImport();
       
       setImportResult(result);
       setCurrentStep('result');
@@ -11,6 +11,7 @@ interface ImportButtonProps {
   onAddShift: (shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>) => Shift | null;
   onAddEmployee: (employee: Omit<Employee, 'id' | 'createdAt' | 'updatedAt'>) => Employee;
   onUpdateShift: (id: string, updates: Partial<Shift>) => void;
+  runAsCommand?: <R>(label: string, operation: () => R | Promise<R>) => Promise<R>;
   className?: string;
   size?: 'sm' | 'md' | 'lg';
   variant?: 'primary' | 'secondary' | 'outline';
@@ -23,6 +24,7 @@ export const ImportButton: React.FC<ImportButtonProps> = ({
   onAddShift,
   onAddEmployee,
   onUpdateShift,
+  runAsCommand,
   className = '',
   size = 'md',
   variant = 'outline'
@@ -59,6 +61,7 @@ export const ImportButton: React.FC<ImportButtonProps> = ({
         onAddShift={onAddShift}
         onAddEmployee={onAddEmployee}
         onUpdateShift={onUpdateShift}
+        runAsCommand={runAsCommand}
       />
     </>
   );
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { Button } from '../common/Button';
 import { Modal } from '../common/Modal';
-import { useLocalStorage } from '../../hooks/useLocalStorage';
+import { useRepository } from '../../hooks/useRepository';
 import { 
   History, 
   FileSpreadsheet, 
@@ -35,7 +35,7 @@ interface ImportHistoryPanelProps {
 }
 
 export const ImportHistoryPanel: React.FC<ImportHistoryPanelProps> = ({ onClose }) => {
-  const [importHistory, setImportHistory] = useLocalStorage<ImportHistory[]>('hr-import-history', []);
+  const [importHistory, setImportHistory] = useRepository<ImportHistory>('hr-import-history', []);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedImport, setSelectedImport] = useState<ImportHistory | null>(null);
 
@@ -362,7 +362,7 @@ const ImportDetailModal: React.FC<{
 
 // Hook per registrare le importazioni nella cronologia
 export const useImportHistory = () => {
-  const [importHistory, setImportHistory] = useLocalStorage<ImportHistory[]>('hr-import-history', []);
+  const [importHistory, setImportHistory] = useRepository<ImportHistory>('hr-import-history', []);
 
   const addImportToHistory = (
     fileName: string,
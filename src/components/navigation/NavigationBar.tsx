@@ -8,7 +8,7 @@ export interface NavigationItem {
   id: string;
   name: string;
   icon: React.ComponentType<any>;
-  permission: string;
+  permission?: string; // Assente = visibile a tutti i ruoli ammessi
   minRole: 'admin' | 'manager' | 'user';
   alertCount?: number;
 }
@@ -10,6 +10,7 @@ import {
   Settings, 
   Database, 
   Bug,
+  HardDrive,
   ChevronDown,
   ChevronRight,
   Menu,
@@ -34,6 +35,7 @@ interface SidebarProps {
   onOpenApiSettings?: () => void;
   onOpenDebug?: () => void;
   onOpenValidationConfig?: () => void;
+  onOpenWorkspaceBackup?: () => void;
   onRefreshData: () => void;
   dataStats: {
     employees: number;
@@ -53,6 +55,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onOpenApiSettings,
   onOpenDebug,
   onOpenValidationConfig,
+  onOpenWorkspaceBackup,
   onRefreshData,
   dataStats,
   dataLoaded
@@ -268,7 +271,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
             />
             
             {/* Admin Actions */}
-            {(onOpenApiSettings || onOpenValidationConfig || onOpenDebug) && (
+            {(onOpenApiSettings || onOpenValidationConfig || onOpenWorkspaceBackup || onOpenDebug) && (
               <div className="space-y-1">
                 {onOpenApiSettings && (
                   <Button
@@ -294,6 +297,18 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   </Button>
                 )}
 
+                {onOpenWorkspaceBackup && profile?.role === 'admin' && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    icon={HardDrive}
+                    onClick={onOpenWorkspaceBackup}
+                    className="w-full justify-start text-gray-300 hover:text-white hover:bg-gray-800"
+                  >
+                    Backup e Ripristino
+                  </Button>
+                )}
+
                 {onOpenDebug && (
                   <Button
                     variant="ghost"
@@ -17,6 +17,8 @@ import {
 } from 'lucide-react';
 import { exportWeekendReportToExcel } from '../../utils/weekendReportUtils';
 import { getWeekNumber } from '../../utils/timeUtils';
+import { getHolidaysInRange } from '../../utils/holidayCalendar';
+import { getEmployeeContractAt } from '../../utils/contractRules';
 
 interface WeekendRestReportProps {
   employees: Employee[];
@@ -61,6 +63,8 @@ interface EmployeeWeekendStatus {
   bothDaysOff: number;
   weekendWorkPercentage: number;
   fairnessScore: number;
+  holidaysAnalyzed: number; // Festività infrasettimanali (nazionali + patrono) del mese con turni nel negozio
+  holidaysWorked: number;
 }
 
 // 🌳 NUOVE INTERFACCE PER TABELLA PIVOT
@@ -101,6 +105,10 @@ interface TreeNodeData {
   };
 }
 
+// 📅 Appartenenza al negozio secondo il contratto in vigore alla data del weekend
+const getStoreEmployeesAt = (employees: Employee[], storeId: string, date: Date): Employee[] =>
+  employees.filter(emp => emp.isActive && getEmployeeContractAt(emp, date).storeId === storeId);
+
 export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
   employees,
   stores,
@@ -181,7 +189,10 @@ export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
     const targetStores = selectedStore === 'all' ? stores : stores.filter(s => s.id === selectedStore);
 
     for (const store of targetStores) {
-      const storeEmployees = employees.filter(emp => emp.storeId === store.id && emp.isActive);
+      // Dipendenti assegnati al negozio in almeno un weekend del mese
+      const storeEmployees = employees.filter(emp =>
+        monthWeekends.some(weekend => getStoreEmployeesAt([emp], store.id, weekend.saturday).length > 0)
+      );
       const storeShifts = shifts.filter(shift => shift.storeId === store.id);
       const totalEmployees = storeEmployees.length;
       
@@ -245,16 +256,17 @@ export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
           
           const employeesWorkingSaturday = new Set(saturdayShifts.map(s => s.employeeId));
           const employeesWorkingSunday = new Set(sundayShifts.map(s => s.employeeId));
+          const weekendEmployees = getStoreEmployeesAt(storeEmployees, store.id, weekend.saturday);
           
-          const employeesWithSaturdayOff = storeEmployees
+          const employeesWithSaturdayOff = weekendEmployees
             .filter(emp => !employeesWorkingSaturday.has(emp.id))
             .map(emp => emp.id);
           
-          const employeesWithSundayOff = storeEmployees
+          const employeesWithSundayOff = weekendEmployees
             .filter(emp => !employeesWorkingSunday.has(emp.id))
             .map(emp => emp.id);
           
-          const employeesWithBothOff = storeEmployees
+          const employeesWithBothOff = weekendEmployees
             .filter(emp => !employeesWorkingSaturday.has(emp.id) && !employeesWorkingSunday.has(emp.id))
             .map(emp => emp.id);
           
@@ -328,16 +340,17 @@ export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
         
         const employeesWorkingSaturday = new Set(saturdayShifts.map(s => s.employeeId));
         const employeesWorkingSunday = new Set(sundayShifts.map(s => s.employeeId));
+        const weekendEmployees = getStoreEmployeesAt(storeEmployees, store.id, weekend.saturday);
         
-        const employeesWithSaturdayOff = storeEmployees
+        const employeesWithSaturdayOff = weekendEmployees
           .filter(emp => !employeesWorkingSaturday.has(emp.id))
           .map(emp => emp.id);
         
-        const employeesWithSundayOff = storeEmployees
+        const employeesWithSundayOff = weekendEmployees
           .filter(emp => !employeesWorkingSunday.has(emp.id))
           .map(emp => emp.id);
         
-        const employeesWithBothOff = storeEmployees
+        const employeesWithBothOff = weekendEmployees
           .filter(emp => !employeesWorkingSaturday.has(emp.id) && !employeesWorkingSunday.has(emp.id))
           .map(emp => emp.id);
         
@@ -393,9 +406,16 @@ export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
   const employeeAnalysis = useMemo(() => {
     const analysis: EmployeeWeekendStatus[] = [];
     const targetStores = selectedStore === 'all' ? stores : stores.filter(s => s.id === selectedStore);
+    const [year, month] = selectedMonth.split('-').map(Number);
     
     for (const store of targetStores) {
-      const storeEmployees = employees.filter(emp => emp.storeId === store.id && emp.isActive);
+      const storeEmployees = employees.filter(emp =>
+        monthWeekends.some(weekend => getStoreEmployeesAt([emp], store.id, weekend.saturday).length > 0)
+      );
+      
+      // 🎉 Festività del mese non cadenti nel weekend (già conteggiato sopra)
+      const monthHolidays = getHolidaysInRange(new Date(year, month - 1, 1), new Date(year, month, 0), store)
+        .filter(holiday => holiday.date.getDay() !== 0 && holiday.date.getDay() !== 6);
       
       for (const employee of storeEmployees) {
         let saturdaysOff = 0;
@@ -411,6 +431,11 @@ export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
              shift.date.toDateString() === weekend.sunday.toDateString())
           );
           
+          // 📅 Il dipendente non era assegnato al negozio con il contratto di quel weekend
+          if (getStoreEmployeesAt([employee], store.id, weekend.saturday).length === 0) {
+            continue;
+          }
+          
           // 🔧 SALTA WEEKEND SENZA TURNI PROGRAMMATI NEL NEGOZIO
           if (storeShiftsWeekend.length === 0) {
             console.log(`⏭️ Saltando analisi dipendente ${employee.firstName} per weekend ${weekend.saturday.toLocaleDateString('it-IT')}: nessun turno nel negozio`);
@@ -436,27 +461,41 @@ export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
           if (hasSaturdayOff && hasSundayOff) bothDaysOff++;
         }
         
+        // 🎉 Festività disponibili: dipendente assegnato al negozio e negozio con turni quel giorno
+        const availableHolidays = monthHolidays.filter(holiday =>
+          getStoreEmployeesAt([employee], store.id, holiday.date).length > 0 &&
+          shifts.some(shift => shift.storeId === store.id && shift.date.toDateString() === holiday.date.toDateString())
+        );
+        const holidaysWorked = availableHolidays.filter(holiday => 
+          shifts.some(shift => 
+            shift.employeeId === employee.id && 
+            shift.date.toDateString() === holiday.date.toDateString()
+          )
+        ).length;
+        
         const weekendWorkPercentage = weekendsAnalyzed > 0 ? 
           ((weekendsAnalyzed * 2 - saturdaysOff - sundaysOff) / (weekendsAnalyzed * 2)) * 100 : 0;
         
         // 🔧 CALCOLA FAIRNESS SCORE MIGLIORATO (0-100, 100 = perfettamente equo)
         const idealRestDays = weekendsAnalyzed; // Idealmente 1 giorno di riposo per weekend
         const actualRestDays = saturdaysOff + sundaysOff;
-        const restDaysDeviation = Math.abs(idealRestDays - actualRestDays);
+        // Ogni festività lavorata tra quelle disponibili conta come un riposo mancato
+        const restDaysDeviation = Math.abs(idealRestDays - actualRestDays) + holidaysWorked;
+        const periodsAnalyzed = weekendsAnalyzed + availableHolidays.length;
         
         // Formula graduale invece di penalità fissa
         let fairnessScore: number;
         if (restDaysDeviation === 0) {
           fairnessScore = 100; // Perfetto
-        } else if (restDaysDeviation <= weekendsAnalyzed * 0.2) {
+        } else if (restDaysDeviation <= periodsAnalyzed * 0.2) {
           // Deviazione <= 20% del totale: ottimo (85-99 punti)
           fairnessScore = Math.max(85, 100 - restDaysDeviation * 5);
-        } else if (restDaysDeviation <= weekendsAnalyzed * 0.4) {
+        } else if (restDaysDeviation <= periodsAnalyzed * 0.4) {
           // Deviazione <= 40% del totale: buono (60-84 punti)
-          fairnessScore = Math.max(60, 85 - (restDaysDeviation - weekendsAnalyzed * 0.2) * 8);
+          fairnessScore = Math.max(60, 85 - (restDaysDeviation - periodsAnalyzed * 0.2) * 8);
         } else {
           // Deviazione > 40%: da migliorare (0-59 punti)
-          fairnessScore = Math.max(0, 60 - (restDaysDeviation - weekendsAnalyzed * 0.4) * 10);
+          fairnessScore = Math.max(0, 60 - (restDaysDeviation - periodsAnalyzed * 0.4) * 10);
         }
         
         analysis.push({
@@ -467,13 +506,15 @@ export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
           sundaysOff,
           bothDaysOff,
           weekendWorkPercentage,
-          fairnessScore
+          fairnessScore,
+          holidaysAnalyzed: availableHolidays.length,
+          holidaysWorked
         });
       }
     }
     
     return analysis.sort((a, b) => a.employeeName.localeCompare(b.employeeName));
-  }, [employees, stores, shifts, monthWeekends, selectedStore]);
+  }, [employees, stores, shifts, monthWeekends, selectedStore, selectedMonth]);
 
   // 🌳 COSTRUISCE STRUTTURA AD ALBERO PER TABELLA PIVOT
   const treeData = useMemo(() => {
@@ -560,7 +601,7 @@ export const WeekendRestReport: React.FC<WeekendRestReportProps> = ({
               };
               
               // LIVELLO 4: DIPENDENTI
-              const storeEmployees = employees.filter(emp => emp.storeId === stat.storeId && emp.isActive);
+              const storeEmployees = getStoreEmployeesAt(employees, stat.storeId, detail.saturdayDate);
               
               storeEmployees.forEach(employee => {
                 const hasSaturdayOff = detail.employeesWithSaturdayOff.includes(employee.id);
@@ -1269,6 +1310,9 @@ const EmployeeView: React.FC<{ employeeAnalysis: EmployeeWeekendStatus[] }> = ({
             <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
               % Lavoro
             </th>
+            <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Festivi Lavorati
+            </th>
             <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
               Equità
             </th>
@@ -1316,6 +1360,11 @@ const EmployeeView: React.FC<{ employeeAnalysis: EmployeeWeekendStatus[] }> = ({
                   {emp.weekendWorkPercentage.toFixed(0)}%
                 </div>
               </td>
+              <td className="px-3 py-2 whitespace-nowrap text-center">
+                <div className="text-sm text-rose-600 font-medium">
+                  {emp.holidaysAnalyzed > 0 ? `${emp.holidaysWorked}/${emp.holidaysAnalyzed}` : '-'}
+                </div>
+              </td>
               <td className="px-3 py-2 whitespace-nowrap text-center">
                 <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
                   emp.fairnessScore >= 80 ? 'bg-green-100 text-green-800' :
@@ -1,7 +1,13 @@
 import React, { useState, useMemo } from 'react';
 import { Employee, Shift, Store } from '../../types';
-import { CCNLViolation, CCNLComplianceReport } from '../../types/ccnl';
+import { CCNLViolation, CCNLViolationStatus, CCNLComplianceReport, CCNLAverageWorkingWeek, CCNL_RULE_PACKS, getRulePackRestSummary } from '../../types/ccnl';
 import { ccnlValidator } from '../../utils/ccnlValidation';
+import {
+  annotateViolations,
+  VIOLATION_STATUS_LABELS,
+  VIOLATION_STATUS_STYLES,
+  ViolationRegisterEntry
+} from '../../utils/ccnlViolationRegister';
 import { Button } from '../common/Button';
 import { Modal } from '../common/Modal';
 import { getWeekDays, addDays } from '../../utils/timeUtils';
@@ -17,7 +23,10 @@ import {
   Eye,
   EyeOff,
   Scale,
-  AlertCircle
+  AlertCircle,
+  TrendingUp,
+  ClipboardList,
+  RotateCcw
 } from 'lucide-react';
 
 interface CCNLCompliancePanelProps {
@@ -28,6 +37,8 @@ interface CCNLCompliancePanelProps {
   selectedStoreId?: string;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
+  violationRegister?: ViolationRegisterEntry[];
+  onViolationStatusChange?: (violation: CCNLViolation, status: CCNLViolationStatus, note?: string) => void;
 }
 
 export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
@@ -37,12 +48,16 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
   weekStart,
   selectedStoreId,
   isCollapsed = false,
-  onToggleCollapse
+  onToggleCollapse,
+  violationRegister = [],
+  onViolationStatusChange
 }) => {
   const [selectedEmployee, setSelectedEmployee] = useState<string>('all');
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedReport, setSelectedReport] = useState<CCNLComplianceReport | null>(null);
   const [showOnlyViolations, setShowOnlyViolations] = useState(true);
+  const [registerStatusFilter, setRegisterStatusFilter] = useState<CCNLViolationStatus | 'all'>('all');
+  const [registerWeekOnly, setRegisterWeekOnly] = useState(true);
 
   // Filtra dipendenti per negozio se necessario
   const filteredEmployees = selectedStoreId 
@@ -50,7 +65,7 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
     : employees.filter(emp => emp.isActive);
 
   // Genera report di compliance per tutti i dipendenti
-  const complianceReports = useMemo(() => {
+  const evaluatedReports = useMemo(() => {
     console.log('🏛️ Generating CCNL compliance reports...');
     
     return filteredEmployees.map(employee => {
@@ -66,13 +81,28 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
     });
   }, [filteredEmployees, weekStart, shifts]);
 
+  // 📒 Esiti registrati: le violazioni giustificate o risolte risultano chiuse finché i turni non cambiano
+  const registerById = useMemo(
+    () => new Map(violationRegister.map(entry => [entry.record.id, entry])),
+    [violationRegister]
+  );
+
+  const complianceReports = useMemo(() => evaluatedReports.map(({ employee, report }) => ({
+    employee,
+    report: { ...report, violations: annotateViolations(report.violations, registerById) }
+  })), [evaluatedReports, registerById]);
+
   // Statistiche aggregate
   const aggregateStats = useMemo(() => {
     const totalEmployees = complianceReports.length;
     const compliantEmployees = complianceReports.filter(r => r.report.overallStatus === 'compliant').length;
     const totalViolations = complianceReports.reduce((sum, r) => sum + r.report.violations.length, 0);
+    // Le critiche già giustificate o risolte non richiedono più intervento
     const criticalViolations = complianceReports.reduce((sum, r) => 
-      sum + r.report.violations.filter(v => v.severity === 'critical').length, 0
+      sum + r.report.violations.filter(v => v.severity === 'critical' && !v.isResolved).length, 0
+    );
+    const closedViolations = complianceReports.reduce((sum, r) =>
+      sum + r.report.violations.filter(v => v.isResolved).length, 0
     );
     const avgComplianceScore = totalEmployees > 0 
       ? complianceReports.reduce((sum, r) => sum + r.report.complianceScore, 0) / totalEmployees
@@ -83,11 +113,42 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
       compliantEmployees,
       totalViolations,
       criticalViolations,
+      closedViolations,
       avgComplianceScore: Math.round(avgComplianceScore),
       complianceRate: totalEmployees > 0 ? Math.round((compliantEmployees / totalEmployees) * 100) : 100
     };
   }, [complianceReports]);
 
+  // 📚 Contratti collettivi applicati ai dipendenti visualizzati
+  const agreementsInUse = useMemo(() => {
+    const ids = Array.from(new Set(complianceReports.map(r => r.report.agreementId)));
+    return ids.map(id => CCNL_RULE_PACKS[id]);
+  }, [complianceReports]);
+
+  // ⚖️ Dipendenti vicini o oltre la media settimanale del periodo di riferimento (turni pianificati compresi)
+  const averageAlerts = useMemo(() => complianceReports
+    .filter(r => r.report.averageWorkingWeek && r.report.averageWorkingWeek.status !== 'ok')
+    .sort((a, b) => (b.report.averageWorkingWeek?.averageHours ?? 0) - (a.report.averageWorkingWeek?.averageHours ?? 0)),
+  [complianceReports]);
+
+  // 📒 Registro filtrato per negozio, dipendente, stato e settimana visualizzata
+  const visibleRegister = useMemo(() => {
+    const employeeIds = new Set(filteredEmployees.map(emp => emp.id));
+    const weekEnd = addDays(weekStart, 7);
+
+    return violationRegister
+      .filter(entry => employeeIds.has(entry.record.employeeId))
+      .filter(entry => selectedEmployee === 'all' || entry.record.employeeId === selectedEmployee)
+      .filter(entry => registerStatusFilter === 'all' || entry.status === registerStatusFilter)
+      .filter(entry => !registerWeekOnly || (entry.record.violationDate >= weekStart && entry.record.violationDate < weekEnd))
+      .sort((a, b) => b.record.violationDate.getTime() - a.record.violationDate.getTime());
+  }, [violationRegister, filteredEmployees, selectedEmployee, registerStatusFilter, registerWeekOnly, weekStart]);
+
+  const getEmployeeName = (employeeId: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente rimosso';
+  };
+
   // Filtra report per visualizzazione
   const visibleReports = useMemo(() => {
     let filtered = complianceReports;
@@ -116,10 +177,24 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
       aggregateStats,
       employeeReports: complianceReports.map(r => ({
         employee: `${r.employee.firstName} ${r.employee.lastName}`,
+        agreement: CCNL_RULE_PACKS[r.report.agreementId].name,
         complianceScore: r.report.complianceScore,
         status: r.report.overallStatus,
         violations: r.report.violations.length,
-        criticalViolations: r.report.violations.filter(v => v.severity === 'critical').length
+        criticalViolations: r.report.violations.filter(v => v.severity === 'critical').length,
+        closedViolations: r.report.violations.filter(v => v.isResolved).length,
+        averageWeeklyHours: r.report.averageWorkingWeek?.averageHours,
+        averageWeeklyStatus: r.report.averageWorkingWeek?.status
+      })),
+      violationRegister: visibleRegister.map(({ record, status, isReopened }) => ({
+        employee: getEmployeeName(record.employeeId),
+        date: record.violationDate.toLocaleDateString('it-IT'),
+        description: record.description,
+        status: VIOLATION_STATUS_LABELS[status],
+        reopened: isReopened,
+        note: record.note,
+        updatedBy: record.updatedBy,
+        updatedAt: record.updatedAt.toISOString()
       }))
     };
 
@@ -148,6 +223,7 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
               </div>
               <div className="text-xs text-gray-500">
                 {aggregateStats.criticalViolations} violazioni critiche, {aggregateStats.totalViolations} totali
+                {aggregateStats.closedViolations > 0 && `, ${aggregateStats.closedViolations} gestite`}
               </div>
             </div>
           </div>
@@ -158,6 +234,11 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
                 {aggregateStats.criticalViolations} critiche
               </span>
             )}
+            {averageAlerts.length > 0 && (
+              <span className="bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded-full font-medium">
+                {averageAlerts.length} media settimanale
+              </span>
+            )}
             <Button
               size="sm"
               variant="outline"
@@ -186,10 +267,12 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
                   <Scale className="h-5 w-5 text-blue-600" />
-                  <span>CCNL del Commercio - Compliance</span>
+                  <span>Contratti Collettivi - Compliance</span>
                 </h3>
                 <p className="text-sm text-gray-600">
-                  Monitoraggio riposi obbligatori secondo normativa del lavoro
+                  {agreementsInUse.length > 0
+                    ? agreementsInUse.map(pack => pack.name).join(' • ')
+                    : 'Monitoraggio riposi obbligatori secondo normativa del lavoro'}
                 </p>
               </div>
             </div>
@@ -259,10 +342,10 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
                 <Clock className="h-4 w-4 text-blue-600" />
               </div>
               <div className="text-xs font-semibold text-gray-900">
-                Art. 15-16
+                {agreementsInUse.map(pack => pack.shortName).join(', ') || '-'}
               </div>
               <div className="text-xs text-gray-500">
-                CCNL Riferimenti
+                Contratti Applicati
               </div>
             </div>
 
@@ -271,7 +354,10 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
                 <Calendar className="h-4 w-4 text-purple-600" />
               </div>
               <div className="text-xs font-semibold text-gray-900">
-                11h + 35h
+                {Array.from(new Set(agreementsInUse.map(pack => {
+                  const rest = getRulePackRestSummary(pack);
+                  return `${rest.dailyRestHours}h + ${rest.weeklyRestHours}h`;
+                }))).join(' / ') || '-'}
               </div>
               <div className="text-xs text-gray-500">
                 Riposi Minimi
@@ -280,6 +366,25 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
           </div>
         </div>
 
+        {/* ⚖️ Media settimanale sul periodo di riferimento */}
+        {averageAlerts.length > 0 && (
+          <div className="py-4 px-6 border-b border-gray-100">
+            <h4 className="text-sm font-medium text-gray-900 flex items-center mb-2">
+              <TrendingUp className="h-4 w-4 mr-2 text-yellow-600" />
+              Media settimanale sul periodo di riferimento
+            </h4>
+            <div className="space-y-2">
+              {averageAlerts.map(({ employee, report }) => report.averageWorkingWeek && (
+                <AverageWorkingWeekAlert
+                  key={employee.id}
+                  employeeName={`${employee.firstName} ${employee.lastName}`}
+                  average={report.averageWorkingWeek}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Filters */}
         <div className="p-4 border-b border-gray-100">
           <div className="flex items-center justify-between">
@@ -322,6 +427,7 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
                 key={employee.id}
                 employee={employee}
                 report={report}
+                registerById={registerById}
                 onViewDetails={() => handleViewDetails(report)}
               />
             ))}
@@ -342,6 +448,68 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
             )}
           </div>
         </div>
+
+        {/* 📒 Registro violazioni */}
+        <div className="p-6 border-t border-gray-100">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-medium text-gray-900 flex items-center">
+              <ClipboardList className="h-4 w-4 mr-2 text-blue-600" />
+              Registro violazioni ({visibleRegister.length})
+            </h4>
+            <div className="flex items-center space-x-4">
+              <select
+                value={registerStatusFilter}
+                onChange={(e) => setRegisterStatusFilter(e.target.value as CCNLViolationStatus | 'all')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">Tutti gli stati</option>
+                {(Object.keys(VIOLATION_STATUS_LABELS) as CCNLViolationStatus[]).map(status => (
+                  <option key={status} value={status}>{VIOLATION_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={registerWeekOnly}
+                  onChange={(e) => setRegisterWeekOnly(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                <span className="text-gray-700">Solo settimana corrente</span>
+              </label>
+            </div>
+          </div>
+
+          {visibleRegister.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Nessuna violazione registrata. Dai dettagli del dipendente puoi prenderne visione, giustificarle o segnarle come risolte.
+            </p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm max-h-80 overflow-y-auto">
+              {visibleRegister.map(({ record, status, isReopened }) => (
+                <div key={record.id} className="flex items-start justify-between px-3 py-2">
+                  <div className="flex-1 mr-3">
+                    <div className="text-gray-900">
+                      <strong>{getEmployeeName(record.employeeId)}</strong> · {record.violationDate.toLocaleDateString('it-IT')} · {record.description}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">
+                      {record.articleReference} · {VIOLATION_STATUS_LABELS[record.status]} da {record.updatedBy} il {record.updatedAt.toLocaleString('it-IT')}
+                      {record.note && <> · “{record.note}”</>}
+                    </div>
+                    {isReopened && (
+                      <div className="flex items-center text-xs text-red-700 mt-0.5">
+                        <RotateCcw className="h-3 w-3 mr-1" /> Riaperta: i turni coinvolti sono cambiati dopo la registrazione
+                      </div>
+                    )}
+                  </div>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${VIOLATION_STATUS_STYLES[status]}`}>
+                    {VIOLATION_STATUS_LABELS[status]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Detail Modal */}
@@ -358,6 +526,8 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
           <CCNLComplianceDetails
             report={selectedReport}
             employee={filteredEmployees.find(e => e.id === selectedReport.employeeId)!}
+            registerById={registerById}
+            onViolationStatusChange={onViolationStatusChange}
             onClose={() => {
               setShowDetailModal(false);
               setSelectedReport(null);
@@ -369,16 +539,53 @@ export const CCNLCompliancePanel: React.FC<CCNLCompliancePanelProps> = ({
   );
 };
 
+// Avviso media settimanale: superata o vicina al limite con i turni già pianificati
+const AverageWorkingWeekAlert: React.FC<{
+  employeeName: string;
+  average: CCNLAverageWorkingWeek;
+}> = ({ employeeName, average }) => {
+  const exceeded = average.status === 'exceeded';
+  const lastDay = addDays(average.periodEnd, -1);
+
+  return (
+    <div className={`flex items-center justify-between text-sm rounded p-2 border ${
+      exceeded ? 'bg-red-50 border-red-200 text-red-900' : 'bg-yellow-50 border-yellow-200 text-yellow-900'
+    }`}>
+      <span>
+        {exceeded ? '🚨' : '⚠️'} <strong>{employeeName}</strong>: media {average.averageHours}h su {average.weeks} settimane
+        (max {average.maxAverageHours}h, {average.plannedHours}h già pianificate)
+      </span>
+      <span className="text-xs ml-3 flex-shrink-0">
+        {exceeded
+          ? `${Math.abs(average.remainingHours)}h oltre il limite`
+          : `ancora ${average.remainingHours}h pianificabili fino al ${lastDay.toLocaleDateString('it-IT')}`}
+      </span>
+    </div>
+  );
+};
+
 // Componente per card singolo dipendente
 interface EmployeeComplianceCardProps {
   employee: Employee;
   report: CCNLComplianceReport;
+  registerById: Map<string, ViolationRegisterEntry>;
   onViewDetails: () => void;
 }
 
+// Stato registrato della violazione (nessun badge se mai gestita)
+const ViolationStatusBadge: React.FC<{ entry?: ViolationRegisterEntry }> = ({ entry }) => {
+  if (!entry) return null;
+  return (
+    <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${VIOLATION_STATUS_STYLES[entry.status]}`}>
+      {entry.isReopened ? 'Riaperta' : VIOLATION_STATUS_LABELS[entry.status]}
+    </span>
+  );
+};
+
 const EmployeeComplianceCard: React.FC<EmployeeComplianceCardProps> = ({
   employee,
   report,
+  registerById,
   onViewDetails
 }) => {
   const criticalViolations = report.violations.filter(v => v.severity === 'critical');
@@ -412,7 +619,10 @@ const EmployeeComplianceCard: React.FC<EmployeeComplianceCardProps> = ({
               {employee.firstName} {employee.lastName}
             </div>
             <div className="text-sm text-gray-600">
-              {employee.contractHours}h contratto • Score: {report.complianceScore}/100
+              {employee.contractHours}h contratto • {CCNL_RULE_PACKS[report.agreementId].shortName} • Score: {report.complianceScore}/100
+              {report.averageWorkingWeek && (
+                <> • Media {report.averageWorkingWeek.referenceMonths} mesi: {report.averageWorkingWeek.averageHours}h/{report.averageWorkingWeek.maxAverageHours}h</>
+              )}
             </div>
           </div>
         </div>
@@ -447,14 +657,20 @@ const EmployeeComplianceCard: React.FC<EmployeeComplianceCardProps> = ({
         <div className="mt-3 space-y-2">
           {criticalViolations.slice(0, 2).map((violation, index) => (
             <div key={index} className="text-sm bg-red-100 border border-red-200 rounded p-2">
-              <div className="font-medium text-red-900">🚨 {violation.description}</div>
+              <div className="font-medium text-red-900">
+                🚨 {violation.description}
+                <ViolationStatusBadge entry={registerById.get(violation.id)} />
+              </div>
               <div className="text-xs text-red-700 mt-1">{violation.articleReference}</div>
             </div>
           ))}
           
           {warningViolations.slice(0, 1).map((violation, index) => (
             <div key={index} className="text-sm bg-yellow-100 border border-yellow-200 rounded p-2">
-              <div className="font-medium text-yellow-900">⚠️ {violation.description}</div>
+              <div className="font-medium text-yellow-900">
+                ⚠️ {violation.description}
+                <ViolationStatusBadge entry={registerById.get(violation.id)} />
+              </div>
               <div className="text-xs text-yellow-700 mt-1">{violation.articleReference}</div>
             </div>
           ))}
@@ -471,11 +687,80 @@ const EmployeeComplianceCard: React.FC<EmployeeComplianceCardProps> = ({
 };
 
 // Componente per dettagli compliance (stub per ora)
+// 📒 Gestione della violazione: la giustificazione richiede sempre una nota
+const ViolationStatusActions: React.FC<{
+  violation: CCNLViolation;
+  entry?: ViolationRegisterEntry;
+  onChange: (violation: CCNLViolation, status: CCNLViolationStatus, note?: string) => void;
+}> = ({ violation, entry, onChange }) => {
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const status = entry?.status || 'open';
+
+  const handleChange = (nextStatus: CCNLViolationStatus) => {
+    if (nextStatus === 'justified' && !note.trim()) {
+      setError('Indica il motivo della giustificazione (es. scambio turno richiesto dal dipendente)');
+      return;
+    }
+    onChange(violation, nextStatus, note.trim() || undefined);
+    setNote('');
+    setError('');
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+      {entry && (
+        <div className="text-xs text-gray-600">
+          <ViolationStatusBadge entry={entry} />
+          <span className="ml-2">
+            {entry.isReopened
+              ? `Era "${VIOLATION_STATUS_LABELS[entry.record.status]}": i turni coinvolti sono cambiati dopo la registrazione`
+              : `da ${entry.record.updatedBy} il ${entry.record.updatedAt.toLocaleString('it-IT')}`}
+            {entry.record.note && ` · “${entry.record.note}”`}
+          </span>
+        </div>
+      )}
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Nota (obbligatoria per giustificare)"
+          className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {status === 'open' && (
+          <Button size="sm" variant="outline" icon={Eye} onClick={() => handleChange('acknowledged')}>
+            Presa visione
+          </Button>
+        )}
+        {(status === 'open' || status === 'acknowledged') && (
+          <>
+            <Button size="sm" variant="secondary" icon={FileText} onClick={() => handleChange('justified')}>
+              Giustifica
+            </Button>
+            <Button size="sm" variant="success" icon={CheckCircle} onClick={() => handleChange('resolved')}>
+              Risolta
+            </Button>
+          </>
+        )}
+        {status !== 'open' && (
+          <Button size="sm" variant="ghost" icon={RotateCcw} onClick={() => handleChange('open')}>
+            Riapri
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
 const CCNLComplianceDetails: React.FC<{
   report: CCNLComplianceReport;
   employee: Employee;
+  registerById: Map<string, ViolationRegisterEntry>;
+  onViolationStatusChange?: (violation: CCNLViolation, status: CCNLViolationStatus, note?: string) => void;
   onClose: () => void;
-}> = ({ report, employee, onClose }) => {
+}> = ({ report, employee, registerById, onViolationStatusChange, onClose }) => {
   return (
     <div className="space-y-6">
       <div className="grid grid-cols-2 gap-4">
@@ -484,6 +769,7 @@ const CCNLComplianceDetails: React.FC<{
           <div className="bg-gray-50 p-4 rounded-lg">
             <div className="text-lg font-semibold">{employee.firstName} {employee.lastName}</div>
             <div className="text-sm text-gray-600">Contratto: {employee.contractHours}h/settimana</div>
+            <div className="text-sm text-gray-600">CCNL: {CCNL_RULE_PACKS[report.agreementId].name}</div>
             <div className="text-sm text-gray-600">
               Periodo: {report.weekStart.toLocaleDateString()} - {report.weekEnd.toLocaleDateString()}
             </div>
@@ -514,8 +800,8 @@ const CCNLComplianceDetails: React.FC<{
         <div>
           <h4 className="font-medium text-gray-900 mb-3">Violazioni CCNL</h4>
           <div className="space-y-3">
-            {report.violations.map((violation, index) => (
-              <div key={index} className={`p-4 rounded-lg border ${
+            {report.violations.map(violation => (
+              <div key={violation.id} className={`p-4 rounded-lg border ${
                 violation.severity === 'critical' 
                   ? 'bg-red-50 border-red-200' 
                   : 'bg-yellow-50 border-yellow-200'
@@ -535,6 +821,13 @@ const CCNLComplianceDetails: React.FC<{
                     <div className="text-sm text-gray-600">
                       💡 <strong>Risoluzione:</strong> {violation.suggestedResolution}
                     </div>
+                    {onViolationStatusChange && (
+                      <ViolationStatusActions
+                        violation={violation}
+                        entry={registerById.get(violation.id)}
+                        onChange={onViolationStatusChange}
+                      />
+                    )}
                   </div>
                 </div>
               </div>
@@ -545,7 +838,9 @@ const CCNLComplianceDetails: React.FC<{
 
       {/* Compliance riposo giornaliero */}
       <div>
-        <h4 className="font-medium text-gray-900 mb-3">Riposo Giornaliero (11h minime)</h4>
+        <h4 className="font-medium text-gray-900 mb-3">
+          Riposo Giornaliero ({getRulePackRestSummary(CCNL_RULE_PACKS[report.agreementId]).dailyRestHours}h minime)
+        </h4>
         <div className="grid grid-cols-7 gap-2">
           {report.dailyRestCompliance.map((day, index) => (
             <div key={index} className={`p-2 rounded text-center text-sm ${
@@ -567,6 +862,38 @@ const CCNLComplianceDetails: React.FC<{
         </div>
       </div>
 
+      {/* Media settimanale sul periodo di riferimento */}
+      {report.averageWorkingWeek && (
+        <div>
+          <h4 className="font-medium text-gray-900 mb-3">
+            Media Settimanale ({report.averageWorkingWeek.referenceMonths} mesi, max {report.averageWorkingWeek.maxAverageHours}h)
+          </h4>
+          <div className="grid grid-cols-4 gap-3 text-sm">
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <div className="text-gray-500 text-xs">Periodo</div>
+              <div className="font-medium">
+                {report.averageWorkingWeek.periodStart.toLocaleDateString('it-IT')} - {addDays(report.averageWorkingWeek.periodEnd, -1).toLocaleDateString('it-IT')}
+              </div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <div className="text-gray-500 text-xs">Ore svolte / pianificate</div>
+              <div className="font-medium">{report.averageWorkingWeek.workedHours}h / {report.averageWorkingWeek.plannedHours}h</div>
+            </div>
+            <div className={`p-3 rounded-lg ${
+              report.averageWorkingWeek.status === 'exceeded' ? 'bg-red-50' :
+              report.averageWorkingWeek.status === 'warning' ? 'bg-yellow-50' : 'bg-green-50'
+            }`}>
+              <div className="text-gray-500 text-xs">Media proiettata</div>
+              <div className="font-medium">{report.averageWorkingWeek.averageHours}h</div>
+            </div>
+            <div className="bg-gray-50 p-3 rounded-lg">
+              <div className="text-gray-500 text-xs">Ore ancora pianificabili</div>
+              <div className="font-medium">{Math.max(0, report.averageWorkingWeek.remainingHours)}h</div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Riposo settimanale */}
       <div>
         <h4 className="font-medium text-gray-900 mb-3">Riposo Settimanale</h4>
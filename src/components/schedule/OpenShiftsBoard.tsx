@@ -0,0 +1,389 @@
+import React, { useMemo, useState } from 'react';
+import { Employee, EmployeeUnavailability, OpenShift, OpenShiftClaim, Shift, Store } from '../../types';
+import { UserProfile } from '../../hooks/useAuth';
+import { useOpenShifts } from '../../hooks/useOpenShifts';
+import { useStaffPlanning } from '../../hooks/useStaffPlanning';
+import { buildShiftFromOpenShift, checkOpenShiftEligibility, getOpenShiftHours } from '../../utils/openShifts';
+import { getDayOfWeek } from '../../utils/timeUtils';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Select } from '../common/Select';
+import { Megaphone, Plus, Check, X, Hand, Undo2, Ban, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface OpenShiftsBoardProps {
+  profile: UserProfile;
+  canManage: boolean; // Pubblicazione e approvazione (permesso manage_shifts)
+  stores: Store[];
+  employees: Employee[];
+  shifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  onAssignShift: (shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>, label: string) => Promise<Shift | null>;
+}
+
+const EMPTY_FORM = {
+  storeId: '',
+  date: '',
+  startTime: '',
+  endTime: '',
+  breakDuration: '0',
+  roleId: '',
+  notes: ''
+};
+
+const CLAIM_STATUS_LABELS: Record<OpenShiftClaim['status'], string> = {
+  pending: 'In attesa',
+  approved: 'Approvata',
+  rejected: 'Respinta',
+  withdrawn: 'Ritirata'
+};
+
+export const OpenShiftsBoard: React.FC<OpenShiftsBoardProps> = ({
+  profile,
+  canManage,
+  stores,
+  employees,
+  shifts,
+  unavailabilities,
+  onAssignShift
+}) => {
+  const { openShifts, postOpenShift, cancelOpenShift, claimOpenShift, withdrawClaim, rejectClaim, markFilled } = useOpenShifts();
+  const { staffRoles } = useStaffPlanning();
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [storeFilter, setStoreFilter] = useState('');
+
+  const linkedEmployee = employees.find(employee => employee.id === profile.employee_id);
+  const visibleStores = stores.filter(store =>
+    store.isActive && (profile.role === 'admin' || !profile.assigned_store_ids.length || profile.assigned_store_ids.includes(store.id))
+  );
+
+  const employeeName = (employeeId: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente rimosso';
+  };
+  const roleName = (roleId?: string) => staffRoles.find(role => role.id === roleId)?.name || roleId;
+
+  const eligibilityFor = (openShift: OpenShift, employee: Employee) => {
+    const store = stores.find(s => s.id === openShift.storeId);
+    if (!store) return { eligible: false, reasons: ['Negozio non trovato'], warnings: [], weeklyHoursAfter: 0 };
+    return checkOpenShiftEligibility(openShift, employee, { store, shifts, unavailabilities, roles: staffRoles });
+  };
+
+  const activeOpenShifts = useMemo(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return openShifts
+      .filter(openShift => openShift.status === 'open' && openShift.date >= today)
+      .filter(openShift => !storeFilter || openShift.storeId === storeFilter)
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime));
+  }, [openShifts, storeFilter]);
+
+  const closedOpenShifts = useMemo(() => openShifts
+    .filter(openShift => openShift.status !== 'open')
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, 10), [openShifts]);
+
+  // 📝 PUBBLICAZIONE
+  const handlePost = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.storeId || !formData.date || !formData.startTime || !formData.endTime) {
+      setFormError('Negozio, data e orari sono obbligatori');
+      return;
+    }
+    const breakDuration = parseInt(formData.breakDuration) || 0;
+    if (getOpenShiftHours({ startTime: formData.startTime, endTime: formData.endTime, breakDuration }) <= 0) {
+      setFormError('L\'orario di fine deve essere dopo l\'orario di inizio (al netto della pausa)');
+      return;
+    }
+
+    const [year, month, day] = formData.date.split('-').map(Number);
+    postOpenShift({
+      storeId: formData.storeId,
+      date: new Date(year, month - 1, day),
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      breakDuration,
+      roleId: formData.roleId || undefined,
+      notes: formData.notes.trim() || undefined,
+      postedBy: `${profile.first_name} ${profile.last_name}`
+    });
+    setFormData(EMPTY_FORM);
+    setFormError(null);
+    setShowForm(false);
+  };
+
+  // ✅ APPROVAZIONE: l'idoneità viene ricontrollata sulla griglia attuale
+  const handleApprove = async (openShift: OpenShift, claim: OpenShiftClaim) => {
+    const employee = employees.find(emp => emp.id === claim.employeeId);
+    if (!employee) {
+      rejectClaim(openShift.id, claim.id, 'Dipendente non più presente');
+      return;
+    }
+
+    const eligibility = eligibilityFor(openShift, employee);
+    if (!eligibility.eligible) {
+      rejectClaim(openShift.id, claim.id, `Non idoneo: ${eligibility.reasons.join('; ')}`);
+      alert(`${employee.firstName} ${employee.lastName} non è più idoneo:\n\n${eligibility.reasons.join('\n')}`);
+      return;
+    }
+
+    const created = await onAssignShift(
+      buildShiftFromOpenShift(openShift, employee.id),
+      `Turno aperto assegnato a ${employee.firstName} ${employee.lastName}`
+    );
+    if (created) {
+      markFilled(openShift.id, claim.id, created.id);
+    }
+  };
+
+  const handleReject = (openShift: OpenShift, claim: OpenShiftClaim) => {
+    const reason = window.prompt('Motivo del rifiuto (opzionale):') ?? undefined;
+    rejectClaim(openShift.id, claim.id, reason || undefined);
+  };
+
+  const renderEmployeeActions = (openShift: OpenShift) => {
+    if (!linkedEmployee) return null;
+
+    const myClaim = openShift.claims.find(claim => claim.employeeId === linkedEmployee.id && claim.status === 'pending');
+    if (myClaim) {
+      return (
+        <Button size="sm" variant="outline" icon={Undo2} onClick={() => withdrawClaim(openShift.id, myClaim.id)}>
+          Ritira richiesta
+        </Button>
+      );
+    }
+
+    const eligibility = eligibilityFor(openShift, linkedEmployee);
+    if (!eligibility.eligible) {
+      return <span className="text-xs text-gray-500">Non idoneo: {eligibility.reasons[0]}</span>;
+    }
+    return (
+      <Button size="sm" icon={Hand} onClick={() => claimOpenShift(openShift.id, linkedEmployee.id)}>
+        Richiedi
+      </Button>
+    );
+  };
+
+  // I dipendenti vedono solo i turni per cui sono idonei o che hanno già richiesto
+  const shiftsToShow = canManage
+    ? activeOpenShifts
+    : activeOpenShifts.filter(openShift => linkedEmployee && (
+        openShift.claims.some(claim => claim.employeeId === linkedEmployee.id && claim.status === 'pending') ||
+        eligibilityFor(openShift, linkedEmployee).eligible
+      ));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Megaphone className="h-6 w-6 text-blue-600" />
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Turni Aperti</h2>
+            <p className="text-sm text-gray-600">
+              {canManage
+                ? 'Pubblica i turni scoperti e assegnali a uno dei dipendenti che li richiedono'
+                : 'Turni disponibili per cui risulti idoneo: richiedili e attendi l\'approvazione del responsabile'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <Select
+            value={storeFilter}
+            onChange={setStoreFilter}
+            options={visibleStores.map(store => ({ value: store.id, label: store.name }))}
+            placeholder="Tutti i negozi"
+          />
+          {canManage && (
+            <Button icon={Plus} onClick={() => setShowForm(prev => !prev)}>
+              Pubblica turno
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!canManage && !linkedEmployee && (
+        <div className="flex items-center text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+          Il tuo utente non è collegato a un dipendente: chiedi a un amministratore di collegarlo per richiedere i turni aperti.
+        </div>
+      )}
+
+      {canManage && showForm && (
+        <form onSubmit={handlePost} className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <Select
+              label="Negozio"
+              value={formData.storeId}
+              onChange={(value) => setFormData(prev => ({ ...prev, storeId: value }))}
+              options={visibleStores.map(store => ({ value: store.id, label: store.name }))}
+              placeholder="Seleziona negozio"
+              required
+            />
+            <Input
+              label="Data"
+              type="date"
+              value={formData.date}
+              onChange={(value) => setFormData(prev => ({ ...prev, date: value }))}
+              required
+            />
+            <Select
+              label="Ruolo richiesto"
+              value={formData.roleId}
+              onChange={(value) => setFormData(prev => ({ ...prev, roleId: value }))}
+              options={staffRoles.map(role => ({ value: role.id, label: role.name }))}
+              placeholder="Qualsiasi ruolo"
+            />
+            <Input
+              label="Inizio"
+              type="time"
+              value={formData.startTime}
+              onChange={(value) => setFormData(prev => ({ ...prev, startTime: value }))}
+              required
+            />
+            <Input
+              label="Fine"
+              type="time"
+              value={formData.endTime}
+              onChange={(value) => setFormData(prev => ({ ...prev, endTime: value }))}
+              required
+            />
+            <Input
+              label="Pausa (min)"
+              type="number"
+              value={formData.breakDuration}
+              onChange={(value) => setFormData(prev => ({ ...prev, breakDuration: value }))}
+            />
+          </div>
+          <Input
+            label="Note"
+            value={formData.notes}
+            onChange={(value) => setFormData(prev => ({ ...prev, notes: value }))}
+            placeholder="Es. copertura ferie, evento promozionale"
+          />
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => { setShowForm(false); setFormError(null); }}>
+              Annulla
+            </Button>
+            <Button type="submit" icon={Megaphone}>
+              Pubblica
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {shiftsToShow.length === 0 ? (
+        <div className="text-center text-sm text-gray-500 bg-white border border-gray-200 rounded-lg p-8">
+          Nessun turno aperto al momento
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {shiftsToShow.map(openShift => {
+            const store = stores.find(s => s.id === openShift.storeId);
+            const pendingClaims = openShift.claims.filter(claim => claim.status === 'pending');
+            return (
+              <div key={openShift.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {getDayOfWeek(openShift.date)} {openShift.date.toLocaleDateString('it-IT')} · {openShift.startTime}-{openShift.endTime}
+                      <span className="ml-2 text-sm text-gray-500">({getOpenShiftHours(openShift).toFixed(1)}h)</span>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {store?.name || 'Negozio rimosso'}
+                      {openShift.roleId && <> · Ruolo: <strong>{roleName(openShift.roleId)}</strong></>}
+                      {openShift.postedBy && <> · Pubblicato da {openShift.postedBy}</>}
+                    </div>
+                    {openShift.notes && <div className="text-sm text-gray-500 mt-1">{openShift.notes}</div>}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {renderEmployeeActions(openShift)}
+                    {canManage && (
+                      <Button size="sm" variant="ghost" icon={Ban} onClick={() => cancelOpenShift(openShift.id)}>
+                        Annulla turno
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {canManage && (
+                  <div className="mt-3 border-t border-gray-100 pt-3">
+                    {pendingClaims.length === 0 ? (
+                      <p className="text-xs text-gray-500">
+                        Nessuna richiesta · {employees.filter(emp => emp.isActive && eligibilityFor(openShift, emp).eligible).length} dipendenti idonei
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {pendingClaims.map(claim => {
+                          const employee = employees.find(emp => emp.id === claim.employeeId);
+                          const eligibility = employee ? eligibilityFor(openShift, employee) : null;
+                          return (
+                            <div key={claim.id} className="flex items-center justify-between text-sm">
+                              <div>
+                                <span className="font-medium">{employeeName(claim.employeeId)}</span>
+                                <span className="text-gray-500 ml-2">richiesto il {claim.requestedAt.toLocaleString('it-IT')}</span>
+                                {eligibility && (eligibility.eligible ? (
+                                  <span className="ml-2 inline-flex items-center text-green-700 text-xs">
+                                    <CheckCircle className="h-3 w-3 mr-1" />
+                                    Idoneo ({eligibility.weeklyHoursAfter.toFixed(1)}h in settimana)
+                                  </span>
+                                ) : (
+                                  <span className="ml-2 text-red-700 text-xs">Non idoneo: {eligibility.reasons.join('; ')}</span>
+                                ))}
+                                {eligibility && eligibility.warnings.length > 0 && (
+                                  <div className="text-xs text-amber-700">{eligibility.warnings.join('; ')}</div>
+                                )}
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <Button size="xs" variant="success" icon={Check} onClick={() => handleApprove(openShift, claim)} disabled={!eligibility?.eligible}>
+                                  Approva
+                                </Button>
+                                <Button size="xs" variant="outline" icon={X} onClick={() => handleReject(openShift, claim)}>
+                                  Rifiuta
+                                </Button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {closedOpenShifts.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Ultimi turni chiusi</h3>
+          <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+            {closedOpenShifts
+              .filter(openShift => canManage || openShift.claims.some(claim => claim.employeeId === linkedEmployee?.id))
+              .map(openShift => {
+                const approved = openShift.claims.find(claim => claim.status === 'approved');
+                const myClaim = openShift.claims.find(claim => claim.employeeId === linkedEmployee?.id);
+                return (
+                  <div key={openShift.id} className="flex items-center justify-between px-4 py-2">
+                    <span>
+                      {openShift.date.toLocaleDateString('it-IT')} {openShift.startTime}-{openShift.endTime}
+                      {' · '}{stores.find(s => s.id === openShift.storeId)?.name}
+                    </span>
+                    <span className="text-gray-600">
+                      {openShift.status === 'cancelled'
+                        ? 'Annullato'
+                        : canManage
+                          ? `Assegnato a ${approved ? employeeName(approved.employeeId) : '-'}`
+                          : myClaim && `${CLAIM_STATUS_LABELS[myClaim.status]}${myClaim.decisionReason ? `: ${myClaim.decisionReason}` : ''}`}
+                    </span>
+                  </div>
+                );
+              })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
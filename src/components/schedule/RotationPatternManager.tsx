@@ -0,0 +1,527 @@
+import React, { useMemo, useState } from 'react';
+import { Employee, EmployeeUnavailability, RotationPattern, RotationWeek, Shift, Store } from '../../types';
+import { useRotationPatterns } from '../../hooks/useRotationPatterns';
+import { useShiftTemplates } from '../../hooks/useShiftTemplates';
+import { createEmptyRotationWeek, generateRotationShifts, RotationShift } from '../../utils/rotationPatterns';
+import { addDays, formatShiftTimes, getDayOfWeek, getStartOfWeek } from '../../utils/timeUtils';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Select } from '../common/Select';
+import { Repeat, Plus, Trash2, Edit, Play, Pause, CalendarPlus, AlertTriangle } from 'lucide-react';
+
+interface RotationPatternManagerProps {
+  stores: Store[];
+  employees: Employee[];
+  shifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  onCreateShifts: (shifts: RotationShift[], label: string) => Promise<number>;
+}
+
+const DAY_LABELS = ['Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab', 'Dom'];
+const WEEK_LETTERS = 'ABCDEFGHIJKL';
+
+const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromInputDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const EMPTY_PATTERN_FORM = {
+  name: '',
+  description: '',
+  weeks: [createEmptyRotationWeek('Settimana A')] as RotationWeek[]
+};
+
+const EMPTY_ASSIGNMENT_FORM = {
+  patternId: '',
+  storeId: '',
+  employeeIds: [] as string[],
+  startDate: toInputDate(getStartOfWeek(addDays(new Date(), 7))),
+  startWeekOffset: '0',
+  staggerMembers: false,
+  endDate: ''
+};
+
+export const RotationPatternManager: React.FC<RotationPatternManagerProps> = ({
+  stores,
+  employees,
+  shifts,
+  unavailabilities,
+  onCreateShifts
+}) => {
+  const {
+    patterns,
+    assignments,
+    addPattern,
+    updatePattern,
+    deletePattern,
+    addAssignment,
+    updateAssignment,
+    deleteAssignment
+  } = useRotationPatterns();
+  const { templates } = useShiftTemplates();
+
+  const [editingPatternId, setEditingPatternId] = useState<string | null>(null);
+  const [showPatternForm, setShowPatternForm] = useState(false);
+  const [patternForm, setPatternForm] = useState(EMPTY_PATTERN_FORM);
+  const [showAssignmentForm, setShowAssignmentForm] = useState(false);
+  const [assignmentForm, setAssignmentForm] = useState(EMPTY_ASSIGNMENT_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [range, setRange] = useState({
+    from: toInputDate(getStartOfWeek(addDays(new Date(), 7))),
+    to: toInputDate(addDays(getStartOfWeek(addDays(new Date(), 7)), 27))
+  });
+
+  const activeStores = stores.filter(store => store.isActive);
+  const templateOptions = templates.map(template => ({
+    value: template.id,
+    label: `${template.name} (${formatShiftTimes(template)})`
+  }));
+
+  const employeeName = (employeeId: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente rimosso';
+  };
+
+  // 📝 EDITOR ROTAZIONE
+  const openPatternForm = (pattern?: RotationPattern) => {
+    setEditingPatternId(pattern?.id || null);
+    setPatternForm(pattern
+      ? { name: pattern.name, description: pattern.description || '', weeks: pattern.weeks.map(week => ({ ...week, days: [...week.days] })) }
+      : EMPTY_PATTERN_FORM);
+    setFormError(null);
+    setShowPatternForm(true);
+  };
+
+  const setWeekDay = (weekIndex: number, dayIndex: number, templateId: string) => {
+    setPatternForm(prev => ({
+      ...prev,
+      weeks: prev.weeks.map((week, i) => i !== weekIndex ? week : {
+        ...week,
+        days: week.days.map((day, d) => d === dayIndex ? templateId || null : day)
+      })
+    }));
+  };
+
+  const addWeek = () => {
+    setPatternForm(prev => ({
+      ...prev,
+      weeks: [...prev.weeks, createEmptyRotationWeek(`Settimana ${WEEK_LETTERS[prev.weeks.length] || prev.weeks.length + 1}`)]
+    }));
+  };
+
+  const removeWeek = (weekIndex: number) => {
+    setPatternForm(prev => ({ ...prev, weeks: prev.weeks.filter((_, i) => i !== weekIndex) }));
+  };
+
+  const handleSavePattern = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!patternForm.name.trim()) {
+      setFormError('Il nome della rotazione è obbligatorio');
+      return;
+    }
+    if (patternForm.weeks.length === 0 || patternForm.weeks.every(week => week.days.every(day => !day))) {
+      setFormError('La rotazione deve contenere almeno un giorno di lavoro');
+      return;
+    }
+
+    const data = {
+      name: patternForm.name.trim(),
+      description: patternForm.description.trim() || undefined,
+      weeks: patternForm.weeks
+    };
+    if (editingPatternId) {
+      updatePattern(editingPatternId, data);
+    } else {
+      addPattern({ ...data, isActive: true });
+    }
+    setShowPatternForm(false);
+    setEditingPatternId(null);
+  };
+
+  const handleDeletePattern = (pattern: RotationPattern) => {
+    const linked = assignments.filter(assignment => assignment.patternId === pattern.id).length;
+    const message = linked > 0
+      ? `Eliminare la rotazione "${pattern.name}" e le sue ${linked} assegnazioni? I turni già generati restano in griglia.`
+      : `Eliminare la rotazione "${pattern.name}"?`;
+    if (window.confirm(message)) {
+      deletePattern(pattern.id);
+    }
+  };
+
+  // 👥 ASSEGNAZIONE A DIPENDENTE O GRUPPO
+  const assignmentPattern = patterns.find(pattern => pattern.id === assignmentForm.patternId);
+  const storeEmployees = employees.filter(emp => emp.isActive && emp.storeId === assignmentForm.storeId);
+
+  const toggleAssignmentEmployee = (employeeId: string, enabled: boolean) => {
+    setAssignmentForm(prev => ({
+      ...prev,
+      employeeIds: enabled
+        ? [...prev.employeeIds, employeeId]
+        : prev.employeeIds.filter(id => id !== employeeId)
+    }));
+  };
+
+  const handleSaveAssignment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignmentForm.patternId || !assignmentForm.storeId || !assignmentForm.startDate) {
+      setFormError('Rotazione, negozio e data di inizio sono obbligatori');
+      return;
+    }
+    if (assignmentForm.employeeIds.length === 0) {
+      setFormError('Seleziona almeno un dipendente');
+      return;
+    }
+    if (assignmentForm.endDate && assignmentForm.endDate < assignmentForm.startDate) {
+      setFormError('La data di fine deve essere successiva all\'inizio');
+      return;
+    }
+
+    addAssignment({
+      patternId: assignmentForm.patternId,
+      storeId: assignmentForm.storeId,
+      employeeIds: assignmentForm.employeeIds,
+      startDate: getStartOfWeek(fromInputDate(assignmentForm.startDate)),
+      startWeekOffset: parseInt(assignmentForm.startWeekOffset) || 0,
+      staggerMembers: assignmentForm.employeeIds.length > 1 && assignmentForm.staggerMembers,
+      endDate: assignmentForm.endDate ? fromInputDate(assignmentForm.endDate) : undefined,
+      isActive: true
+    });
+    setAssignmentForm(EMPTY_ASSIGNMENT_FORM);
+    setFormError(null);
+    setShowAssignmentForm(false);
+  };
+
+  // 📅 GENERAZIONE: anteprima ricalcolata a ogni modifica di intervallo, rotazioni o griglia
+  const preview = useMemo(() => {
+    if (!range.from || !range.to || range.to < range.from) return null;
+    return generateRotationShifts({
+      patterns,
+      assignments,
+      templates,
+      stores,
+      employees,
+      existingShifts: shifts,
+      unavailabilities,
+      from: fromInputDate(range.from),
+      to: fromInputDate(range.to)
+    });
+  }, [patterns, assignments, templates, stores, employees, shifts, unavailabilities, range]);
+
+  const handleGenerate = async () => {
+    if (!preview || preview.shifts.length === 0) return;
+    const label = `Turni da rotazione ${fromInputDate(range.from).toLocaleDateString('it-IT')} - ${fromInputDate(range.to).toLocaleDateString('it-IT')}`;
+    await onCreateShifts(preview.shifts, label);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <Repeat className="h-6 w-6 text-blue-600" />
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Rotazioni Turni</h2>
+          <p className="text-sm text-gray-600">
+            Sequenze di settimane tipo (es. settimana A apertura lun-ven, settimana B chiusura mar-sab) assegnate a dipendenti o gruppi
+          </p>
+        </div>
+      </div>
+
+      {formError && (
+        <div className="flex items-center text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">
+          <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {formError}
+        </div>
+      )}
+
+      {/* Rotazioni */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Rotazioni</h3>
+          <Button icon={Plus} size="sm" onClick={() => openPatternForm()}>
+            Nuova rotazione
+          </Button>
+        </div>
+
+        {showPatternForm && (
+          <form onSubmit={handleSavePattern} className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Nome"
+                value={patternForm.name}
+                onChange={(value) => setPatternForm(prev => ({ ...prev, name: value }))}
+                placeholder="Es. Rotazione 4 settimane cassa"
+                required
+              />
+              <Input
+                label="Descrizione"
+                value={patternForm.description}
+                onChange={(value) => setPatternForm(prev => ({ ...prev, description: value }))}
+              />
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left px-2 py-1 text-gray-700">Settimana</th>
+                    {DAY_LABELS.map(day => (
+                      <th key={day} className="text-left px-2 py-1 text-gray-700">{day}</th>
+                    ))}
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {patternForm.weeks.map((week, weekIndex) => (
+                    <tr key={weekIndex}>
+                      <td className="px-2 py-1 font-medium whitespace-nowrap">{week.label}</td>
+                      {week.days.map((templateId, dayIndex) => (
+                        <td key={dayIndex} className="px-1 py-1">
+                          <select
+                            value={templateId || ''}
+                            onChange={(e) => setWeekDay(weekIndex, dayIndex, e.target.value)}
+                            className="border border-gray-300 rounded px-1 py-1 text-xs w-32"
+                          >
+                            <option value="">Riposo</option>
+                            {templateOptions.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        </td>
+                      ))}
+                      <td className="px-1 py-1">
+                        {patternForm.weeks.length > 1 && (
+                          <Button size="xs" variant="ghost" icon={Trash2} onClick={() => removeWeek(weekIndex)}>
+                            Rimuovi
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" size="sm" icon={Plus} onClick={addWeek} disabled={patternForm.weeks.length >= WEEK_LETTERS.length}>
+                Aggiungi settimana
+              </Button>
+              <div className="flex space-x-3">
+                <Button variant="outline" onClick={() => { setShowPatternForm(false); setFormError(null); }}>
+                  Annulla
+                </Button>
+                <Button type="submit">
+                  {editingPatternId ? 'Aggiorna' : 'Crea'} rotazione
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+
+        {patterns.length === 0 ? (
+          <p className="text-sm text-gray-500">Nessuna rotazione configurata</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {patterns.map(pattern => (
+              <div key={pattern.id} className="flex items-center justify-between py-2">
+                <div>
+                  <div className={`font-medium ${pattern.isActive ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {pattern.name} · {pattern.weeks.length} settimane
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {pattern.weeks.map(week => `${week.label}: ${week.days.filter(Boolean).length} giorni`).join(' • ')}
+                    {pattern.description && ` — ${pattern.description}`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button size="xs" variant="ghost" icon={pattern.isActive ? Pause : Play} onClick={() => updatePattern(pattern.id, { isActive: !pattern.isActive })}>
+                    {pattern.isActive ? 'Sospendi' : 'Attiva'}
+                  </Button>
+                  <Button size="xs" variant="ghost" icon={Edit} onClick={() => openPatternForm(pattern)}>
+                    Modifica
+                  </Button>
+                  <Button size="xs" variant="ghost" icon={Trash2} onClick={() => handleDeletePattern(pattern)}>
+                    Elimina
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Assegnazioni */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium text-gray-900">Assegnazioni</h3>
+          <Button icon={Plus} size="sm" onClick={() => setShowAssignmentForm(prev => !prev)} disabled={patterns.length === 0}>
+            Assegna rotazione
+          </Button>
+        </div>
+
+        {showAssignmentForm && (
+          <form onSubmit={handleSaveAssignment} className="border border-blue-200 bg-blue-50 rounded-lg p-4 space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <Select
+                label="Rotazione"
+                value={assignmentForm.patternId}
+                onChange={(value) => setAssignmentForm(prev => ({ ...prev, patternId: value, startWeekOffset: '0' }))}
+                options={patterns.filter(pattern => pattern.isActive).map(pattern => ({ value: pattern.id, label: pattern.name }))}
+                placeholder="Seleziona rotazione"
+                required
+              />
+              <Select
+                label="Negozio"
+                value={assignmentForm.storeId}
+                onChange={(value) => setAssignmentForm(prev => ({ ...prev, storeId: value, employeeIds: [] }))}
+                options={activeStores.map(store => ({ value: store.id, label: store.name }))}
+                placeholder="Seleziona negozio"
+                required
+              />
+              <Select
+                label="Settimana di partenza"
+                value={assignmentForm.startWeekOffset}
+                onChange={(value) => setAssignmentForm(prev => ({ ...prev, startWeekOffset: value }))}
+                options={(assignmentPattern?.weeks || []).map((week, i) => ({ value: i.toString(), label: week.label }))}
+              />
+              <Input
+                label="Inizio (settimana del)"
+                type="date"
+                value={assignmentForm.startDate}
+                onChange={(value) => setAssignmentForm(prev => ({ ...prev, startDate: value }))}
+                required
+              />
+              <Input
+                label="Fine (opzionale)"
+                type="date"
+                value={assignmentForm.endDate}
+                onChange={(value) => setAssignmentForm(prev => ({ ...prev, endDate: value }))}
+              />
+            </div>
+
+            {assignmentForm.storeId && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Dipendenti</label>
+                {storeEmployees.length === 0 ? (
+                  <p className="text-xs text-gray-500">Nessun dipendente attivo nel negozio</p>
+                ) : (
+                  <div className="flex flex-wrap gap-3">
+                    {storeEmployees.map(employee => (
+                      <label key={employee.id} className="flex items-center space-x-1 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={assignmentForm.employeeIds.includes(employee.id)}
+                          onChange={(e) => toggleAssignmentEmployee(employee.id, e.target.checked)}
+                          className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                        />
+                        <span>{employee.firstName} {employee.lastName}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {assignmentForm.employeeIds.length > 1 && (
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={assignmentForm.staggerMembers}
+                  onChange={(e) => setAssignmentForm(prev => ({ ...prev, staggerMembers: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                <span>Sfalsa il gruppo: ogni dipendente parte dalla settimana successiva a quella del precedente, nell'ordine di selezione</span>
+              </label>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={() => { setShowAssignmentForm(false); setFormError(null); }}>
+                Annulla
+              </Button>
+              <Button type="submit">
+                Assegna
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {assignments.length === 0 ? (
+          <p className="text-sm text-gray-500">Nessuna assegnazione</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {assignments.map(assignment => {
+              const pattern = patterns.find(p => p.id === assignment.patternId);
+              const store = stores.find(s => s.id === assignment.storeId);
+              return (
+                <div key={assignment.id} className="flex items-center justify-between py-2 text-sm">
+                  <div className={assignment.isActive ? '' : 'text-gray-400'}>
+                    <div className="font-medium">
+                      {pattern?.name || 'Rotazione rimossa'} · {store?.name || 'Negozio rimosso'}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {assignment.employeeIds.map(employeeName).join(', ')}
+                      {' • '}dal {assignment.startDate.toLocaleDateString('it-IT')}
+                      {assignment.endDate && ` al ${assignment.endDate.toLocaleDateString('it-IT')}`}
+                      {' • '}partenza {pattern?.weeks[assignment.startWeekOffset]?.label || `settimana ${assignment.startWeekOffset + 1}`}
+                      {assignment.staggerMembers && ' • gruppo sfalsato'}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button size="xs" variant="ghost" icon={assignment.isActive ? Pause : Play} onClick={() => updateAssignment(assignment.id, { isActive: !assignment.isActive })}>
+                      {assignment.isActive ? 'Sospendi' : 'Attiva'}
+                    </Button>
+                    <Button size="xs" variant="ghost" icon={Trash2} onClick={() => deleteAssignment(assignment.id)}>
+                      Elimina
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Generazione turni */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+        <h3 className="text-lg font-medium text-gray-900">Genera turni</h3>
+        <div className="grid grid-cols-3 gap-4 items-end">
+          <Input
+            label="Dal"
+            type="date"
+            value={range.from}
+            onChange={(value) => setRange(prev => ({ ...prev, from: value }))}
+          />
+          <Input
+            label="Al"
+            type="date"
+            value={range.to}
+            onChange={(value) => setRange(prev => ({ ...prev, to: value }))}
+          />
+          <Button icon={CalendarPlus} onClick={handleGenerate} disabled={!preview || preview.shifts.length === 0}>
+            Crea {preview?.shifts.length || 0} turni
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="text-sm space-y-2">
+            <p className="text-gray-700">
+              {preview.shifts.length} turni da creare
+              ({preview.shifts.reduce((sum, shift) => sum + shift.actualHours, 0).toFixed(1)}h),
+              {' '}{preview.skipped.length} giorni saltati
+            </p>
+            {preview.skipped.length > 0 && (
+              <div className="border border-amber-200 bg-amber-50 rounded-lg divide-y divide-amber-100 max-h-64 overflow-y-auto">
+                {preview.skipped.map((day, i) => (
+                  <div key={i} className="px-3 py-1 text-amber-900">
+                    {getDayOfWeek(day.date)} {day.date.toLocaleDateString('it-IT')} · {employeeName(day.employeeId)}: {day.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
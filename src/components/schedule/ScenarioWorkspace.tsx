@@ -0,0 +1,320 @@
+import React, { useMemo, useState } from 'react';
+import { Employee, EmployeeUnavailability, Preferences, ScheduleScenario, Shift, Store } from '../../types';
+import { ValidationAdminSettings } from '../../types/validation';
+import { ScheduleGrid } from './ScheduleGrid';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { useScheduleScenarios } from '../../hooks/useScheduleScenarios';
+import { useStaffPlanning } from '../../hooks/useStaffPlanning';
+import {
+  evaluateScenarioShifts,
+  getScenarioEmployees,
+  getWeekShifts,
+  planScenarioPromotion,
+  applyBatchToScenarioShifts,
+  ScenarioMetrics
+} from '../../utils/scheduleScenarios';
+import { ShiftGridBatch, getBatchSize } from '../../utils/gridSelection';
+import { GitBranch, Plus, Edit, Copy, Trash2, Rocket, X, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface ScenarioWorkspaceProps {
+  store: Store;
+  weekStart: Date;
+  employees: Employee[];
+  shifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  preferences: Preferences;
+  adminSettings?: ValidationAdminSettings;
+  userName?: string;
+  onPromote: (batch: ShiftGridBatch, label: string) => Promise<number>;
+}
+
+interface MetricRow {
+  key: keyof ScenarioMetrics;
+  label: string;
+  better: 'higher' | 'lower';
+  format: (value: number) => string;
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  { key: 'score', label: 'Punteggio validazione', better: 'higher', format: value => `${value}/100` },
+  { key: 'criticalIssues', label: 'Problemi critici', better: 'lower', format: value => String(value) },
+  { key: 'ccnlCriticalViolations', label: 'Violazioni CCNL critiche', better: 'lower', format: value => String(value) },
+  { key: 'ccnlViolations', label: 'Violazioni CCNL totali', better: 'lower', format: value => String(value) },
+  { key: 'totalHours', label: 'Ore totali', better: 'lower', format: value => `${value}h` },
+  { key: 'shiftCount', label: 'Turni', better: 'lower', format: value => String(value) },
+  { key: 'equityScore', label: 'Equità carico di lavoro', better: 'higher', format: value => `${value}%` },
+  { key: 'hoursStandardDeviation', label: 'Scarto ore tra dipendenti', better: 'lower', format: value => `±${value}h` }
+];
+
+interface ComparisonColumn {
+  id: string;
+  name: string;
+  scenario?: ScheduleScenario;
+  metrics: ScenarioMetrics;
+}
+
+export const ScenarioWorkspace: React.FC<ScenarioWorkspaceProps> = ({
+  store,
+  weekStart,
+  employees,
+  shifts,
+  unavailabilities,
+  preferences,
+  adminSettings,
+  userName,
+  onPromote
+}) => {
+  const {
+    scenarios,
+    createScenario,
+    duplicateScenario,
+    updateScenarioShifts,
+    markScenarioPromoted,
+    deleteScenario
+  } = useScheduleScenarios();
+  const { calculateStaffNeeds, staffRoles } = useStaffPlanning();
+  const [form, setForm] = useState({ name: '', description: '' });
+  const [editingScenarioId, setEditingScenarioId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const weekScenarios = useMemo(() => scenarios.filter(scenario =>
+    scenario.storeId === store.id && scenario.weekStart.toDateString() === weekStart.toDateString()
+  ), [scenarios, store.id, weekStart]);
+
+  const storeEmployees = useMemo(
+    () => getScenarioEmployees(employees, store.id, weekStart),
+    [employees, store.id, weekStart]
+  );
+
+  // 📊 Confronto affiancato: pianificazione reale e scenari con gli stessi criteri
+  const columns: ComparisonColumn[] = useMemo(() => {
+    const roleStaffing = { getStaffNeeds: (date: Date) => calculateStaffNeeds(store.id, date), roles: staffRoles };
+    const evaluate = (scenarioShifts: Shift[]) =>
+      evaluateScenarioShifts(store, scenarioShifts, storeEmployees, weekStart, adminSettings, roleStaffing);
+
+    return [
+      { id: 'live', name: 'Pianificazione attuale', metrics: evaluate(getWeekShifts(shifts, store.id, weekStart)) },
+      ...weekScenarios.map(scenario => ({
+        id: scenario.id,
+        name: scenario.name,
+        scenario,
+        metrics: evaluate(scenario.shifts)
+      }))
+    ];
+  }, [store, shifts, weekStart, weekScenarios, storeEmployees, adminSettings, calculateStaffNeeds, staffRoles]);
+
+  const editingScenario = weekScenarios.find(scenario => scenario.id === editingScenarioId);
+
+  const isBest = (row: MetricRow, value: number) => {
+    if (columns.length < 2) return false;
+    const values = columns.map(column => column.metrics[row.key] as number);
+    const best = row.better === 'higher' ? Math.max(...values) : Math.min(...values);
+    return value === best && values.some(other => other !== best);
+  };
+
+  const handleCreate = () => {
+    if (!form.name.trim()) {
+      setMessage({ type: 'error', text: 'Il nome dello scenario è obbligatorio' });
+      return;
+    }
+    const scenario = createScenario(
+      { name: form.name.trim(), description: form.description.trim() || undefined, createdBy: userName },
+      store,
+      weekStart,
+      shifts
+    );
+    setForm({ name: '', description: '' });
+    setEditingScenarioId(scenario.id);
+    setMessage({ type: 'success', text: `Scenario "${scenario.name}" creato con ${scenario.shifts.length} turni` });
+  };
+
+  const handleDuplicate = (scenario: ScheduleScenario) => {
+    const copy = duplicateScenario(scenario.id, `${scenario.name} (copia)`);
+    if (copy) setEditingScenarioId(copy.id);
+  };
+
+  const handleDelete = (scenario: ScheduleScenario) => {
+    if (!window.confirm(`Eliminare lo scenario "${scenario.name}"?`)) return;
+    deleteScenario(scenario.id);
+    if (editingScenarioId === scenario.id) setEditingScenarioId(null);
+  };
+
+  // 🚀 Lo scenario scelto diventa la pianificazione reale con un unico comando annullabile
+  const handlePromote = async (scenario: ScheduleScenario) => {
+    const plan = planScenarioPromotion(scenario, shifts, employees);
+    if (getBatchSize(plan.batch) === 0) {
+      setMessage({ type: 'error', text: `Lo scenario "${scenario.name}" coincide già con la pianificazione attuale` });
+      return;
+    }
+
+    const notes = [...plan.warnings, ...plan.batch.skipped];
+    const confirmed = window.confirm(
+      `Promuovere lo scenario "${scenario.name}"?\n\n` +
+      `${plan.batch.creates.length} turni creati, ${plan.batch.updates.length} modificati, ${plan.batch.deletes.length} eliminati.` +
+      (notes.length > 0 ? `\n\nAttenzione:\n${notes.slice(0, 8).map(note => `• ${note}`).join('\n')}${notes.length > 8 ? `\n… e altri ${notes.length - 8}` : ''}` : '')
+    );
+    if (!confirmed) return;
+
+    await onPromote(plan.batch, `Promozione scenario "${scenario.name}"`);
+    markScenarioPromoted(scenario.id);
+    setEditingScenarioId(null);
+    setMessage({ type: 'success', text: `Scenario "${scenario.name}" promosso alla pianificazione` });
+  };
+
+  // Callback della griglia applicate ai soli turni dello scenario
+  const editScenarioShifts = (update: (scenarioShifts: Shift[]) => Shift[]) => {
+    if (editingScenario) updateScenarioShifts(editingScenario.id, update);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-center space-x-2">
+          <GitBranch className="h-5 w-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            Scenari - {store.name}, settimana del {weekStart.toLocaleDateString('it-IT')}
+          </h2>
+        </div>
+        <p className="text-sm text-gray-600">
+          Ogni scenario è una copia della settimana modificabile senza toccare i turni reali. Confronta le alternative e promuovi quella migliore.
+        </p>
+
+        {message && (
+          <div className={`flex items-center text-sm border rounded-lg p-3 ${message.type === 'success' ? 'text-green-800 bg-green-50 border-green-200' : 'text-red-800 bg-red-50 border-red-200'}`}>
+            {message.type === 'success' ? <CheckCircle className="h-4 w-4 mr-2" /> : <AlertTriangle className="h-4 w-4 mr-2" />}
+            {message.text}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <Input
+            label="Nome scenario"
+            value={form.name}
+            onChange={(value) => setForm(prev => ({ ...prev, name: value }))}
+            placeholder="Es. Con Marco in ferie"
+            required
+          />
+          <Input
+            label="Descrizione"
+            value={form.description}
+            onChange={(value) => setForm(prev => ({ ...prev, description: value }))}
+          />
+          <Button icon={Plus} onClick={handleCreate}>
+            Crea dalla settimana corrente
+          </Button>
+        </div>
+      </div>
+
+      {/* Confronto affiancato */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-semibold text-gray-900">Criterio</th>
+              {columns.map(column => (
+                <th key={column.id} className={`px-4 py-3 text-center font-semibold text-gray-900 ${column.id === editingScenarioId ? 'bg-indigo-50' : ''}`}>
+                  <div>{column.name}</div>
+                  {column.scenario?.description && (
+                    <div className="text-xs font-normal text-gray-500">{column.scenario.description}</div>
+                  )}
+                  {column.scenario?.status === 'promoted' && column.scenario.promotedAt && (
+                    <div className="text-xs font-normal text-green-700">
+                      Promosso il {column.scenario.promotedAt.toLocaleDateString('it-IT')}
+                    </div>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {METRIC_ROWS.map(row => (
+              <tr key={row.key}>
+                <td className="px-4 py-2 text-gray-700">{row.label}</td>
+                {columns.map(column => {
+                  const value = column.metrics[row.key] as number;
+                  return (
+                    <td
+                      key={column.id}
+                      className={`px-4 py-2 text-center ${isBest(row, value) ? 'font-semibold text-green-700 bg-green-50' : 'text-gray-900'}`}
+                    >
+                      {row.format(value)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr>
+              <td className="px-4 py-2" />
+              {columns.map(column => (
+                <td key={column.id} className="px-4 py-2">
+                  {column.scenario && (
+                    <div className="flex flex-wrap justify-center gap-1">
+                      <Button
+                        size="sm"
+                        variant={column.id === editingScenarioId ? 'primary' : 'outline'}
+                        icon={Edit}
+                        onClick={() => setEditingScenarioId(column.id === editingScenarioId ? null : column.id)}
+                      >
+                        Modifica
+                      </Button>
+                      <Button size="sm" variant="outline" icon={Copy} onClick={() => column.scenario && handleDuplicate(column.scenario)}>
+                        Duplica
+                      </Button>
+                      <Button size="sm" variant="success" icon={Rocket} onClick={() => column.scenario && handlePromote(column.scenario)}>
+                        Promuovi
+                      </Button>
+                      <Button size="sm" variant="ghost" icon={Trash2} onClick={() => column.scenario && handleDelete(column.scenario)}>
+                        Elimina
+                      </Button>
+                    </div>
+                  )}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+        {weekScenarios.length === 0 && (
+          <p className="px-4 py-3 text-sm text-gray-500">Nessuno scenario per questa settimana</p>
+        )}
+      </div>
+
+      {/* Modifica dello scenario con la stessa griglia della pianificazione */}
+      {editingScenario && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-md font-semibold text-indigo-900">Modifica scenario "{editingScenario.name}"</h3>
+            <Button size="sm" variant="ghost" icon={X} onClick={() => setEditingScenarioId(null)}>
+              Chiudi
+            </Button>
+          </div>
+          <ScheduleGrid
+            key={editingScenario.id}
+            schedule={{
+              weekStart: editingScenario.weekStart,
+              shifts: editingScenario.shifts,
+              employees: storeEmployees,
+              store,
+              preferences
+            }}
+            unavailabilities={unavailabilities}
+            onShiftUpdate={(id, updates) => editScenarioShifts(scenarioShifts => scenarioShifts.map(shift =>
+              shift.id === id ? { ...shift, ...updates, updatedAt: new Date() } : shift
+            ))}
+            onShiftCreate={(data) => editScenarioShifts(scenarioShifts => [
+              ...scenarioShifts,
+              { ...data, id: crypto.randomUUID(), createdAt: new Date(), updatedAt: new Date() }
+            ])}
+            onShiftDelete={(id) => editScenarioShifts(scenarioShifts => scenarioShifts.filter(shift => shift.id !== id))}
+            onShiftBatch={async (batch) => {
+              editScenarioShifts(scenarioShifts => applyBatchToScenarioShifts(scenarioShifts, batch));
+              return getBatchSize(batch);
+            }}
+            userName={userName}
+            adminSettings={adminSettings}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
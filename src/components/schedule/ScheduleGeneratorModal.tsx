@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { Employee, EmployeeUnavailability, Shift, Store } from '../../types';
+import { Modal } from '../common/Modal';
+import { Button } from '../common/Button';
+import { useStaffPlanning } from '../../hooks/useStaffPlanning';
+import { generateWeekSchedule, GeneratedShift, ScheduleGenerationResult, ShiftProposal } from '../../utils/scheduleGenerator';
+import { getWeekDays, formatDate } from '../../utils/timeUtils';
+import { Wand2, Check, AlertTriangle, Info, XCircle } from 'lucide-react';
+
+interface ScheduleGeneratorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  store: Store;
+  weekStart: Date;
+  employees: Employee[];
+  shifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  onAcceptProposals: (shifts: GeneratedShift[], label: string) => Promise<(Shift | null)[]>; // null = rifiutato
+}
+
+const SEVERITY_STYLES = {
+  error: { icon: XCircle, className: 'text-red-700 bg-red-50 border-red-200' },
+  warning: { icon: AlertTriangle, className: 'text-amber-700 bg-amber-50 border-amber-200' },
+  info: { icon: Info, className: 'text-blue-700 bg-blue-50 border-blue-200' }
+};
+
+export const ScheduleGeneratorModal: React.FC<ScheduleGeneratorModalProps> = ({
+  isOpen,
+  onClose,
+  store,
+  weekStart,
+  employees,
+  shifts,
+  unavailabilities,
+  onAcceptProposals
+}) => {
+  const { staffRequirements, weightingEvents, staffRoles } = useStaffPlanning();
+  const [result, setResult] = useState<ScheduleGenerationResult | null>(null);
+  const [pending, setPending] = useState<ShiftProposal[]>([]);
+
+  const weekDays = getWeekDays(weekStart);
+  const storeEmployees = useMemo(
+    () => employees.filter(employee => employee.isActive && employee.storeId === store.id),
+    [employees, store.id]
+  );
+
+  const handleGenerate = () => {
+    const generated = generateWeekSchedule({
+      store,
+      weekStart,
+      employees,
+      existingShifts: shifts,
+      unavailabilities,
+      staffRequirements,
+      weightingEvents,
+      staffRoles
+    });
+    setResult(generated);
+    setPending(generated.proposals);
+  };
+
+  const handleClose = () => {
+    setResult(null);
+    setPending([]);
+    onClose();
+  };
+
+  // ✅ Accettazione parziale: escono dalla bozza solo le proposte diventate turni
+  const accept = async (selected: ShiftProposal[], label: string) => {
+    if (selected.length === 0) return;
+    const created = await onAcceptProposals(selected.map(proposal => proposal.shift), label);
+    const acceptedIds = new Set(selected.filter((_, index) => created[index]).map(proposal => proposal.id));
+    setPending(prev => prev.filter(proposal => !acceptedIds.has(proposal.id)));
+  };
+
+  const proposalsFor = (employeeId?: string, day?: Date) => pending.filter(proposal =>
+    (!employeeId || proposal.shift.employeeId === employeeId) &&
+    (!day || proposal.shift.date.toDateString() === day.toDateString())
+  );
+
+  const coveragePercent = result && result.coverage.requiredHours > 0
+    ? Math.round(result.coverage.coveredHours / result.coverage.requiredHours * 100)
+    : 100;
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`Generatore turni - ${store.name}`} size="xl">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            Proposta per la settimana del {weekStart.toLocaleDateString('it-IT')} basata su orari, fabbisogni, eventi,
+            indisponibilità, ore contratto e riposi CCNL. I turni esistenti vengono mantenuti.
+          </p>
+          <Button icon={Wand2} onClick={handleGenerate} size="sm">
+            {result ? 'Rigenera' : 'Genera proposta'}
+          </Button>
+        </div>
+
+        {result && (
+          <>
+            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+              <span>
+                <strong>{pending.length}</strong> turni proposti in attesa · copertura minimi <strong>{coveragePercent}%</strong>
+                {' '}({result.coverage.coveredHours.toFixed(1)}h / {result.coverage.requiredHours.toFixed(1)}h)
+              </span>
+              <Button variant="success" icon={Check} size="sm" onClick={() => accept(pending, `Generatore turni (${pending.length})`)} disabled={pending.length === 0}>
+                Accetta tutto
+              </Button>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border border-gray-200">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="p-2 text-left">Dipendente</th>
+                    {weekDays.map(day => {
+                      const dayProposals = proposalsFor(undefined, day);
+                      return (
+                        <th key={day.toISOString()} className="p-2 text-center">
+                          <div>{formatDate(day)}</div>
+                          {dayProposals.length > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => accept(dayProposals, `Generatore turni ${formatDate(day)}`)}
+                              className="mt-1 text-green-700 hover:underline font-normal"
+                            >
+                              Accetta giorno
+                            </button>
+                          )}
+                        </th>
+                      );
+                    })}
+                    <th className="p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {storeEmployees.map(employee => {
+                    const employeeProposals = proposalsFor(employee.id);
+                    return (
+                      <tr key={employee.id} className="border-t border-gray-200">
+                        <td className="p-2 font-medium whitespace-nowrap">
+                          {employee.firstName} {employee.lastName}
+                          <div className="text-gray-500 font-normal">{employee.contractHours}h contratto</div>
+                        </td>
+                        {weekDays.map(day => {
+                          const [proposal] = proposalsFor(employee.id, day);
+                          return (
+                            <td key={day.toISOString()} className="p-2 text-center">
+                              {proposal && (
+                                <div className="px-1 py-1 rounded bg-indigo-50 border border-dashed border-indigo-300 text-indigo-800" title={proposal.reason}>
+                                  {proposal.shift.startTime}-{proposal.shift.endTime}
+                                  <div className="text-indigo-500">{proposal.shift.actualHours}h</div>
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                        <td className="p-2 text-right">
+                          {employeeProposals.length > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => accept(employeeProposals, `Generatore turni ${employee.firstName} ${employee.lastName}`)}
+                              className="text-green-700 hover:underline whitespace-nowrap"
+                            >
+                              Accetta dipendente
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {result.unsatisfied.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-medium text-gray-900">Vincoli non soddisfatti ({result.unsatisfied.length})</h4>
+                {result.unsatisfied.map((constraint, index) => {
+                  const { icon: Icon, className } = SEVERITY_STYLES[constraint.severity];
+                  return (
+                    <div key={index} className={`flex items-start text-xs border rounded p-2 ${className}`}>
+                      <Icon className="h-3 w-3 mr-2 mt-0.5 flex-shrink-0" />
+                      {constraint.message}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -1,17 +1,42 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Employee, Store, Shift, WeeklySchedule, Preferences, EmployeeUnavailability } from '../../types';
+import { CCNLViolation, CCNLViolationStatus } from '../../types/ccnl';
 import { ValidationAdminSettings } from '../../types/validation';
 import { ShiftCell } from './ShiftCell';
 import { ValidationPanel } from './ValidationPanel';
-import { formatDate, getWeekDays, getDayOfWeek, getStartOfWeek } from '../../utils/timeUtils';
+import { formatDate, getWeekDays, getDayOfWeek, getStartOfWeek, calculateWorkingHours, calculateSegmentedWorkingHours, getShiftSegments, isSplitShift, isOvernightShift, addDays, formatShiftTimes } from '../../utils/timeUtils';
+import { getHoliday } from '../../utils/holidayCalendar';
+import { getEmployeeContractAt } from '../../utils/contractRules';
+import { createWorkflowEngine } from '../../utils/workflowEngine';
+import { ShiftDropMode, validateShiftDrop } from '../../utils/shiftDragDrop';
+import {
+  GridCellPosition,
+  GridNavigationKey,
+  GridSelection,
+  GridSelectionCell,
+  ShiftGridBatch,
+  buildDeleteBatch,
+  buildFillDownBatch,
+  buildLockBatch,
+  buildQuickEntryBatch,
+  buildTemplateBatch,
+  getBatchSize,
+  getSelectionBounds,
+  getSelectionSize,
+  isCellInSelection,
+  moveGridCell,
+  parseQuickShiftEntry
+} from '../../utils/gridSelection';
 import { validateShiftComplete, validateEmployeeWorkHours, calculateWorkHourStats } from '../../utils/validationUtils';
 import { CCNLCompliancePanel } from './CCNLCompliancePanel';
+import { ViolationRegisterEntry } from '../../utils/ccnlViolationRegister';
 import { useShiftClipboard } from '../../hooks/useShiftClipboard';
 import { useShiftTemplates } from '../../hooks/useShiftTemplates';
 import { useStaffPlanning } from '../../hooks/useStaffPlanning';
-import { Clock, Users, AlertTriangle, CheckCircle, Calendar, Shield, BarChart3, TrendingUp, TrendingDown, RefreshCw } from 'lucide-react';
+import { Clock, Users, AlertTriangle, CheckCircle, Calendar, Shield, BarChart3, TrendingUp, TrendingDown, RefreshCw, Trash2, Lock, Unlock, ArrowDownToLine, Zap, X } from 'lucide-react';
 import { Scale } from 'lucide-react';
 import { Button } from '../common/Button';
+import { Select } from '../common/Select';
 
 interface ScheduleGridProps {
   schedule: WeeklySchedule & { preferences: Preferences };
@@ -19,16 +44,28 @@ interface ScheduleGridProps {
   onShiftUpdate: (id: string, updates: Partial<Shift>) => void;
   onShiftCreate: (shiftData: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>) => void;
   onShiftDelete: (shiftId: string) => void;
+  onShiftBatch: (batch: ShiftGridBatch, label: string) => Promise<number>; // Modifiche in blocco: un solo comando annullabile
+  userName?: string;
   adminSettings?: ValidationAdminSettings;
+  allShifts?: Shift[]; // Tutti i turni: la media settimanale copre l'intero periodo di riferimento, anche futuro
+  violationRegister?: ViolationRegisterEntry[];
+  onViolationStatusChange?: (violation: CCNLViolation, status: CCNLViolationStatus, note?: string) => void;
 }
 
+const NAVIGATION_KEYS: GridNavigationKey[] = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End'];
+
 export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
   schedule,
   unavailabilities,
   onShiftUpdate,
   onShiftCreate,
   onShiftDelete,
-  adminSettings
+  onShiftBatch,
+  userName,
+  adminSettings,
+  allShifts,
+  violationRegister,
+  onViolationStatusChange
 }) => {
   const { weekStart, shifts, employees, store, preferences } = schedule;
   
@@ -158,6 +195,18 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
     );
   }, [optimizedWeeklyShifts]);
 
+  // 🌙 Turno notturno del giorno precedente che prosegue nella data indicata
+  const getCarryOverShift = useCallback((employeeId: string, date: Date): Shift | undefined => {
+    const previousDay = addDays(date, -1);
+    return shifts.find(shift => 
+      shift.employeeId === employeeId &&
+      shift.storeId === store.id &&
+      shift.date instanceof Date &&
+      shift.date.toDateString() === previousDay.toDateString() &&
+      isOvernightShift(shift.startTime, shift.endTime)
+    );
+  }, [shifts, store.id]);
+
   // 🔧 FIXED: Robust handleShiftChange with comprehensive validation
   const handleShiftChange = useCallback((employee: Employee, date: Date, shiftData: Partial<Shift>) => {
     console.log('🔄 HANDLESHIFTCHANGE called with:', {
@@ -254,6 +303,7 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
         actualHours: shiftData.actualHours || 0,
         status: 'scheduled',
         isLocked: false,
+        segments: shiftData.segments,
         notes: shiftData.notes
       };
 
@@ -279,6 +329,7 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
       startTime: shift.startTime,
       endTime: shift.endTime,
       breakDuration: shift.breakDuration,
+      segments: shift.segments,
       notes: shift.notes
     }, employee.id, date);
   }, [copyShift]);
@@ -286,8 +337,10 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
   const handlePasteShift = useCallback((employee: Employee, date: Date) => {
     const copiedShift = pasteShift();
     if (copiedShift) {
-      const breakMinutes = copiedShift.breakDuration || preferences.defaultBreakDuration;
-      const actualHours = calculateWorkingHours(copiedShift.startTime, copiedShift.endTime, breakMinutes);
+      const breakMinutes = copiedShift.breakDuration ?? preferences.defaultBreakDuration;
+      const actualHours = isSplitShift(copiedShift)
+        ? calculateSegmentedWorkingHours(getShiftSegments(copiedShift), breakMinutes)
+        : calculateWorkingHours(copiedShift.startTime, copiedShift.endTime, breakMinutes);
       
       handleShiftChange(employee, date, {
         startTime: copiedShift.startTime,
@@ -295,54 +348,271 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
         breakDuration: breakMinutes,
         actualHours,
         status: 'scheduled',
+        segments: copiedShift.segments,
         notes: copiedShift.notes
       });
     }
     return copiedShift;
   }, [pasteShift, preferences.defaultBreakDuration, handleShiftChange]);
 
+  // 🖐️ TRASCINAMENTO: sposta (o copia con Ctrl/Alt) un turno su un altro dipendente o giorno
+  const [draggedShift, setDraggedShift] = useState<Shift | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ employeeId: string; dateKey: string; mode: ShiftDropMode } | null>(null);
+
+  const workflowEngine = useMemo(
+    () => createWorkflowEngine({ employees, stores: [store], allShifts: shifts }),
+    [employees, store, shifts]
+  );
+
+  const getDropValidation = useCallback((employee: Employee, date: Date, mode: ShiftDropMode) => {
+    if (!draggedShift) return null;
+    return validateShiftDrop(draggedShift, employee, date, mode, {
+      store,
+      shifts,
+      unavailabilities: weeklyUnavailabilities,
+      workflowEngine
+    });
+  }, [draggedShift, store, shifts, weeklyUnavailabilities, workflowEngine]);
+
+  // Esito mostrato sulla cella sotto il cursore, ricalcolato solo quando cambia cella o modalità
+  const dropFeedback = useMemo(() => {
+    if (!draggedShift || !dropTarget) return null;
+    const employee = activeEmployees.find(emp => emp.id === dropTarget.employeeId);
+    const date = weekDays.find(day => day.toDateString() === dropTarget.dateKey);
+    const validation = employee && date ? getDropValidation(employee, date, dropTarget.mode) : null;
+    return validation ? { ...validation, mode: dropTarget.mode } : null;
+  }, [draggedShift, dropTarget, activeEmployees, weekDays, getDropValidation]);
+
+  const handleShiftDragOver = useCallback((employee: Employee, date: Date, mode: ShiftDropMode) => {
+    setDropTarget(prev =>
+      prev && prev.employeeId === employee.id && prev.dateKey === date.toDateString() && prev.mode === mode
+        ? prev
+        : { employeeId: employee.id, dateKey: date.toDateString(), mode }
+    );
+  }, []);
+
+  const handleShiftDragEnd = useCallback(() => {
+    setDraggedShift(null);
+    setDropTarget(null);
+  }, []);
+
+  const handleShiftDrop = useCallback((employee: Employee, date: Date, mode: ShiftDropMode) => {
+    const source = draggedShift;
+    const validation = getDropValidation(employee, date, mode);
+    handleShiftDragEnd();
+    if (!source || !validation) return;
+
+    if (!validation.allowed) {
+      console.warn('⛔ Rilascio turno rifiutato:', validation.errors);
+      return;
+    }
+
+    const targetDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (mode === 'move') {
+      console.log('➡️ Turno spostato:', source.id, `${employee.firstName} ${employee.lastName}`, targetDate.toLocaleDateString('it-IT'));
+      onShiftUpdate(source.id, { employeeId: employee.id, date: targetDate });
+    } else {
+      console.log('📋 Turno copiato:', source.id, `${employee.firstName} ${employee.lastName}`, targetDate.toLocaleDateString('it-IT'));
+      onShiftCreate({
+        employeeId: employee.id,
+        storeId: source.storeId,
+        date: targetDate,
+        startTime: source.startTime,
+        endTime: source.endTime,
+        breakDuration: source.breakDuration,
+        actualHours: source.actualHours,
+        status: 'scheduled',
+        isLocked: false,
+        validationStatus: 'draft',
+        segments: source.segments,
+        roleId: source.roleId,
+        notes: source.notes
+      });
+    }
+  }, [draggedShift, getDropValidation, handleShiftDragEnd, onShiftUpdate, onShiftCreate]);
+
   const handleApplyTemplate = useCallback((employee: Employee, date: Date, templateId: string) => {
     const template = templates.find(t => t.id === templateId);
     if (template) {
-      const actualHours = calculateWorkingHours(template.startTime, template.endTime, template.breakDuration);
+      const actualHours = isSplitShift(template)
+        ? calculateSegmentedWorkingHours(getShiftSegments(template), template.breakDuration)
+        : calculateWorkingHours(template.startTime, template.endTime, template.breakDuration);
       
       handleShiftChange(employee, date, {
         startTime: template.startTime,
         endTime: template.endTime,
         breakDuration: template.breakDuration,
         actualHours,
-        status: 'scheduled'
+        status: 'scheduled',
+        segments: template.segments
       });
 
       incrementUsage(templateId);
     }
   }, [templates, handleShiftChange, incrementUsage]);
 
-  // 🔧 FIXED CALCULATION: Improved working hours calculation
-  const calculateWorkingHours = useCallback((start: string, end: string, breakMinutes: number): number => {
-    const [startHour, startMin] = start.split(':').map(Number);
-    const [endHour, endMin] = end.split(':').map(Number);
-    
-    const startTotalMin = startHour * 60 + startMin;
-    const endTotalMin = endHour * 60 + endMin;
-    
-    // CRITICAL: Ensure break minutes is treated as number
-    const breakMins = Number(breakMinutes) || 0;
-    const workingMinutes = Math.max(0, endTotalMin - startTotalMin - breakMins);
-    
-    console.log('🧮 Calculating hours:', {
-      start: `${startHour}:${startMin}`,
-      end: `${endHour}:${endMin}`,
-      startMin: startTotalMin,
-      endMin: endTotalMin,
-      breakMins,
-      workingMinutes,
-      hours: workingMinutes / 60
-    });
-    
-    return workingMinutes / 60;
+  // ⌨️ NAVIGAZIONE DA TASTIERA E SELEZIONE RETTANGOLARE (stile foglio di calcolo)
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<GridSelection | null>(null);
+  const [quickEntry, setQuickEntry] = useState<{ cell: GridCellPosition; text: string; error?: string } | null>(null);
+  const [batchTemplateId, setBatchTemplateId] = useState('');
+  const [batchMessage, setBatchMessage] = useState<string | null>(null);
+
+  // Cambiando settimana o negozio la selezione non ha più senso
+  const weekStartTime = weekStart.getTime();
+  useEffect(() => {
+    setSelection(null);
+    setQuickEntry(null);
+    setBatchMessage(null);
+  }, [weekStartTime, store.id]);
+
+  const canManageLocks = preferences.userRole === 'admin' || preferences.userRole === 'manager';
+
+  const selectedCells = useMemo((): GridSelectionCell[] => {
+    if (!selection) return [];
+    const bounds = getSelectionBounds(selection);
+    const cells: GridSelectionCell[] = [];
+    for (let row = bounds.top; row <= bounds.bottom; row++) {
+      const employee = activeEmployees[row];
+      if (!employee) continue;
+      for (let col = bounds.left; col <= bounds.right; col++) {
+        const date = weekDays[col];
+        if (!date) continue;
+        cells.push({ employee, date, row, col, shift: getShiftForEmployeeAndDate(employee.id, date) });
+      }
+    }
+    return cells;
+  }, [selection, activeEmployees, weekDays, getShiftForEmployeeAndDate]);
+
+  // La cella riceve il focus così restano attive le scorciatoie della singola cella (Ctrl+C/V, Ctrl+T)
+  const focusGridCell = useCallback((cell: GridCellPosition) => {
+    const td = gridRef.current?.querySelector<HTMLElement>(`[data-grid-cell="${cell.row}-${cell.col}"]`);
+    const target = td?.querySelector<HTMLElement>('[tabindex="0"]') || td;
+    target?.focus();
   }, []);
 
+  const handleCellMouseDown = useCallback((e: React.MouseEvent, cell: GridCellPosition) => {
+    setBatchMessage(null);
+    if (e.shiftKey && selection) {
+      e.preventDefault();
+      setSelection({ anchor: selection.anchor, focus: cell });
+    } else {
+      setSelection({ anchor: cell, focus: cell });
+    }
+  }, [selection]);
+
+  const runBatch = useCallback(async (batch: ShiftGridBatch, label: string) => {
+    if (getBatchSize(batch) === 0) {
+      setBatchMessage(batch.skipped.length > 0
+        ? `Nessuna modifica: ${batch.skipped.length} celle escluse (${batch.skipped[0]}${batch.skipped.length > 1 ? ', ...' : ''})`
+        : 'Nessuna modifica da applicare');
+      return;
+    }
+    const changed = await onShiftBatch(batch, label);
+    setBatchMessage(batch.skipped.length > 0
+      ? `${changed} turni modificati, ${batch.skipped.length} celle escluse: ${batch.skipped.join('; ')}`
+      : null);
+  }, [onShiftBatch]);
+
+  const handleBatchDelete = useCallback(() => {
+    const batch = buildDeleteBatch(selectedCells, preferences.userRole, workflowEngine);
+    if (batch.deletes.length > 1 && !window.confirm(`Eliminare ${batch.deletes.length} turni selezionati?`)) return;
+    runBatch(batch, `Eliminazione ${batch.deletes.length} turni`);
+  }, [selectedCells, preferences.userRole, workflowEngine, runBatch]);
+
+  const handleBatchLock = useCallback((lock: boolean) => {
+    const batch = buildLockBatch(selectedCells, lock, userName || 'Utente');
+    runBatch(batch, `${lock ? 'Blocco' : 'Sblocco'} ${batch.updates.length} turni`);
+  }, [selectedCells, userName, runBatch]);
+
+  const handleBatchTemplate = useCallback(() => {
+    const template = templates.find(t => t.id === batchTemplateId);
+    if (!template) return;
+    runBatch(buildTemplateBatch(selectedCells, template, store, preferences.userRole, workflowEngine), `Template "${template.name}" su ${selectedCells.length} celle`);
+    incrementUsage(template.id);
+  }, [templates, batchTemplateId, selectedCells, store, preferences.userRole, workflowEngine, runBatch, incrementUsage]);
+
+  const handleFillDown = useCallback(() => {
+    runBatch(buildFillDownBatch(selectedCells, store, preferences.userRole, workflowEngine), 'Riempi in basso');
+  }, [selectedCells, store, preferences.userRole, workflowEngine, runBatch]);
+
+  // Invio = cella attiva, Ctrl+Invio = tutta la selezione
+  const commitQuickEntry = useCallback(async (applyToSelection: boolean) => {
+    if (!quickEntry) return;
+    const entry = parseQuickShiftEntry(quickEntry.text);
+    if (!entry) {
+      setQuickEntry({ ...quickEntry, error: 'Formato non valido (es. 9-17, 9:30-13, 9-13 16-20)' });
+      return;
+    }
+
+    const targetCells = applyToSelection
+      ? selectedCells
+      : selectedCells.filter(cell => cell.row === quickEntry.cell.row && cell.col === quickEntry.cell.col);
+    const batch = buildQuickEntryBatch(targetCells, entry, store, preferences.userRole, preferences.defaultBreakDuration, workflowEngine);
+    setQuickEntry(null);
+    await runBatch(batch, `Inserimento rapido ${quickEntry.text.trim()}${targetCells.length > 1 ? ` su ${targetCells.length} celle` : ''}`);
+
+    if (!applyToSelection) {
+      const next = moveGridCell(quickEntry.cell, 'ArrowDown', activeEmployees.length, weekDays.length);
+      setSelection({ anchor: next, focus: next });
+      focusGridCell(next);
+    } else {
+      focusGridCell(quickEntry.cell);
+    }
+  }, [quickEntry, selectedCells, store, preferences.userRole, preferences.defaultBreakDuration, workflowEngine, runBatch, activeEmployees.length, weekDays.length, focusGridCell]);
+
+  const cancelQuickEntry = useCallback(() => {
+    if (quickEntry) focusGridCell(quickEntry.cell);
+    setQuickEntry(null);
+  }, [quickEntry, focusGridCell]);
+
+  const handleGridKeyDown = useCallback((e: React.KeyboardEvent) => {
+    // I campi della modifica in cella e dell'inserimento rapido gestiscono i propri tasti
+    const target = e.target as HTMLElement;
+    if (quickEntry || !selection || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+    if ((NAVIGATION_KEYS as string[]).includes(e.key)) {
+      e.preventDefault();
+      const next = moveGridCell(selection.focus, e.key as GridNavigationKey, activeEmployees.length, weekDays.length);
+      setSelection(e.shiftKey ? { anchor: selection.anchor, focus: next } : { anchor: next, focus: next });
+      setBatchMessage(null);
+      focusGridCell(next);
+      return;
+    }
+
+    if (e.key === 'Escape') {
+      setSelection({ anchor: selection.focus, focus: selection.focus });
+      setBatchMessage(null);
+      return;
+    }
+
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      handleBatchDelete();
+      return;
+    }
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+      e.preventDefault();
+      handleFillDown();
+      return;
+    }
+
+    // Digitando un orario si apre l'inserimento rapido; Invio o F2 partono dagli orari della cella
+    if (!e.ctrlKey && !e.metaKey && !e.altKey && /^[0-9]$/.test(e.key)) {
+      e.preventDefault();
+      setQuickEntry({ cell: selection.focus, text: e.key });
+      return;
+    }
+    if (e.key === 'F2' || e.key === 'Enter') {
+      e.preventDefault();
+      const employee = activeEmployees[selection.focus.row];
+      const date = weekDays[selection.focus.col];
+      const shift = employee && date ? getShiftForEmployeeAndDate(employee.id, date) : undefined;
+      setQuickEntry({ cell: selection.focus, text: shift ? formatShiftTimes(shift).replace(/ \/ /g, ' ') : '' });
+    }
+  }, [quickEntry, selection, activeEmployees, weekDays, focusGridCell, handleBatchDelete, handleFillDown, getShiftForEmployeeAndDate]);
+
   const getStoreHoursForDay = useCallback((date: Date) => {
     const dayOfWeek = getDayOfWeek(date);
     
@@ -391,11 +661,14 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
       };
     });
     
+    // 📅 Limiti del contratto in vigore a inizio settimana
+    const weekContract = getEmployeeContractAt(employee, weekDays[0]);
+    
     // Calcola statistiche ore lavorative
-    const workStats = calculateWorkHourStats(employee, weeklyHours);
+    const workStats = calculateWorkHourStats(weekContract, weeklyHours);
     
     // Valida ore lavorative
-    const workHourConflicts = validateEmployeeWorkHours(employee, weeklyHours, employeeShifts);
+    const workHourConflicts = validateEmployeeWorkHours(weekContract, weeklyHours, employeeShifts);
 
     return {
       total: Number(weeklyHours.toFixed(1)),
@@ -406,7 +679,8 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
       isOvertime: workStats.isEccedente,
       isUnderMinimum: workStats.isSottoMinimo,
       isInRange: workStats.isNelRange,
-      weekStaffNeeds // 🆕 Aggiunto per future implementazioni
+      weekStaffNeeds, // 🆕 Aggiunto per future implementazioni
+      contract: weekContract
     };
   }, [weekDays, getShiftForEmployeeAndDate]);
 
@@ -561,8 +835,50 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
           )}
         </div>
 
+        {/* ▦ Barra azioni sulla selezione rettangolare */}
+        {selection && getSelectionSize(selection) > 1 && (
+          <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-indigo-50 border-b border-indigo-200 no-print">
+            <span className="text-sm font-medium text-indigo-900">
+              {getSelectionSize(selection)} celle selezionate ({selectedCells.filter(cell => cell.shift).length} turni)
+            </span>
+            <Button size="sm" variant="outline" icon={Trash2} onClick={handleBatchDelete}>
+              Elimina
+            </Button>
+            {canManageLocks && (
+              <>
+                <Button size="sm" variant="outline" icon={Lock} onClick={() => handleBatchLock(true)}>
+                  Blocca
+                </Button>
+                <Button size="sm" variant="outline" icon={Unlock} onClick={() => handleBatchLock(false)}>
+                  Sblocca
+                </Button>
+              </>
+            )}
+            <Button size="sm" variant="outline" icon={ArrowDownToLine} onClick={handleFillDown}>
+              Riempi in basso
+            </Button>
+            <Select
+              value={batchTemplateId}
+              onChange={setBatchTemplateId}
+              options={templates.map(template => ({ value: template.id, label: `${template.name} (${formatShiftTimes(template)})` }))}
+              placeholder="Template..."
+            />
+            <Button size="sm" variant="outline" icon={Zap} onClick={handleBatchTemplate} disabled={!batchTemplateId}>
+              Applica template
+            </Button>
+            <Button size="sm" variant="ghost" icon={X} onClick={() => { setSelection(null); setBatchMessage(null); }}>
+              Deseleziona
+            </Button>
+          </div>
+        )}
+        {batchMessage && (
+          <div className="px-4 py-2 text-sm text-amber-800 bg-amber-50 border-b border-amber-200 no-print">
+            {batchMessage}
+          </div>
+        )}
+
         {/* Griglia turni */}
-        <div className="overflow-x-auto">
+        <div className="overflow-x-auto" ref={gridRef} onKeyDown={handleGridKeyDown}>
           <table className="min-w-full border-collapse">
             {/* Header giorni */}
             <thead className="bg-gray-50">
@@ -583,11 +899,20 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
                   const closureDay = store.closureDays?.find(closure => 
                     closure.date.toDateString() === date.toDateString()
                   );
+                  const holiday = getHoliday(date, store);
                   
                   return (
-                    <th key={date.toISOString()} className="px-3 py-3 text-center text-sm font-semibold text-gray-900 min-w-[120px] border-r border-gray-200">
+                    <th key={date.toISOString()} className={`px-3 py-3 text-center text-sm font-semibold text-gray-900 min-w-[120px] border-r border-gray-200 ${holiday ? 'bg-rose-50' : ''}`}>
                       <div className="h-20 flex flex-col">
                         <div className="font-bold h-6 flex items-center justify-center">{formatDate(date)}</div>
+                        {holiday && (
+                          <div 
+                            className="text-xs text-rose-700 font-medium truncate cursor-help"
+                            title={`🎉 ${holiday.type === 'patronal' ? 'Festa patronale' : 'Festività'}: ${holiday.name}`}
+                          >
+                            🎉 {holiday.name}
+                          </div>
+                        )}
                         
                         {/* Layout compatto orizzontale - contenuto variabile */}
                         <div className="flex-1 space-y-1 mt-2">
@@ -700,7 +1025,7 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
                             {employee.firstName} {employee.lastName}
                           </div>
                           <div className="text-xs text-gray-600 leading-tight no-print">
-                            Contratto: {employee.contractHours}h • Minimo: {employee.fixedHours}h
+                            Contratto: {weekHours.contract.contractHours}h • Minimo: {weekHours.contract.fixedHours}h
                           </div>
                         </div>
                         
@@ -726,14 +1051,28 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
                     </td>
                     
                     {/* Celle turni */}
-                    {weekDays.map((date) => {
+                    {weekDays.map((date, col) => {
                       const shift = getShiftForEmployeeAndDate(employee.id, date);
                       const conflicts = shift ? validateShiftComplete(shift, store, employee, optimizedWeeklyShifts, weeklyUnavailabilities) : [];
+                      const cell = { row: index, col };
+                      const isActiveCell = selection?.focus.row === index && selection.focus.col === col;
+                      const isSelected = isCellInSelection(selection, index, col) && !!selection && getSelectionSize(selection) > 1;
                       
                       return (
-                        <td key={`${employee.id}-${date.toISOString()}-${forceUpdateKey}`} className="p-2 border-r border-gray-100">
+                        <td
+                          key={`${employee.id}-${date.toISOString()}-${forceUpdateKey}`}
+                          data-grid-cell={`${index}-${col}`}
+                          tabIndex={-1}
+                          className={`relative p-2 border-r border-gray-100 outline-none ${isSelected ? 'bg-indigo-50' : ''} ${isActiveCell ? 'ring-2 ring-inset ring-indigo-500' : ''}`}
+                          onMouseDown={(e) => handleCellMouseDown(e, cell)}
+                          onClickCapture={(e) => {
+                            // Maiusc+clic estende la selezione senza aprire la modifica della cella
+                            if (e.shiftKey) e.stopPropagation();
+                          }}
+                        >
                           <ShiftCell
                             shift={shift}
+                            carryOverShift={getCarryOverShift(employee.id, date)}
                             employee={employee}
                             date={date}
                             store={store}
@@ -748,7 +1087,41 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
                             onApplyTemplate={(templateId) => handleApplyTemplate(employee, date, templateId)}
                             isSourceCell={isSourceCell(employee.id, date)}
                             hasClipboard={hasClipboard}
+                            isDragSource={!!shift && draggedShift?.id === shift.id}
+                            dropFeedback={
+                              dropFeedback && dropTarget?.employeeId === employee.id && dropTarget.dateKey === date.toDateString()
+                                ? dropFeedback
+                                : undefined
+                            }
+                            onShiftDragStart={shift ? () => setDraggedShift(shift) : undefined}
+                            onShiftDragEnd={handleShiftDragEnd}
+                            onShiftDragOver={draggedShift ? (mode) => handleShiftDragOver(employee, date, mode) : undefined}
+                            onShiftDrop={draggedShift ? (mode) => handleShiftDrop(employee, date, mode) : undefined}
                           />
+                          {quickEntry && quickEntry.cell.row === index && quickEntry.cell.col === col && (
+                            <div className="absolute inset-1 z-20 flex flex-col justify-center bg-white border-2 border-indigo-500 rounded-lg shadow-lg p-1 no-print">
+                              <input
+                                autoFocus
+                                value={quickEntry.text}
+                                onChange={(e) => setQuickEntry({ ...quickEntry, text: e.target.value, error: undefined })}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    commitQuickEntry(e.ctrlKey || e.metaKey);
+                                  } else if (e.key === 'Escape') {
+                                    e.preventDefault();
+                                    cancelQuickEntry();
+                                  }
+                                }}
+                                onBlur={() => setQuickEntry(null)}
+                                placeholder="9-17"
+                                className="w-full text-sm px-1 py-0.5 border border-gray-200 rounded focus:outline-none"
+                              />
+                              <span className={`text-[10px] leading-tight mt-0.5 ${quickEntry.error ? 'text-red-600' : 'text-gray-500'}`}>
+                                {quickEntry.error || 'Invio = cella · Ctrl+Invio = selezione'}
+                              </span>
+                            </div>
+                          )}
                         </td>
                       );
                     })}
@@ -808,6 +1181,10 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
             <span className="text-gray-600">Ctrl+C/V = Copia/Incolla</span>
             <span className="text-gray-600">Ctrl+T = Template</span>
             <span className="text-gray-600">Click destro = Menu</span>
+            <span className="text-gray-600">Frecce/Maiusc+Frecce = Sposta/Seleziona</span>
+            <span className="text-gray-600">9-17 = Inserimento rapido</span>
+            <span className="text-gray-600">Canc = Elimina selezione</span>
+            <span className="text-gray-600">Ctrl+D = Riempi in basso</span>
             {showValidationPanel && (
               <span className="text-blue-600 font-medium">🛡️ Validazione attiva</span>
             )}
@@ -822,12 +1199,14 @@ export const ScheduleGrid: React.FC<ScheduleGridProps> = ({
       {showCCNLPanel && (
         <CCNLCompliancePanel
           employees={activeEmployees}
-          shifts={optimizedWeeklyShifts}
+          shifts={allShifts || optimizedWeeklyShifts}
           stores={[store]}
           weekStart={weekStart}
           selectedStoreId={store.id}
           isCollapsed={ccnlPanelCollapsed}
           onToggleCollapse={() => setCCNLPanelCollapsed(!ccnlPanelCollapsed)}
+          violationRegister={violationRegister}
+          onViolationStatusChange={onViolationStatusChange}
         />
       )}
     </div>
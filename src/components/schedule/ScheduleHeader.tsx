@@ -1,9 +1,10 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect } from 'react';
 import { Store } from '../../types';
 import { Button } from '../common/Button';
 import { Select } from '../common/Select';
-import { ChevronLeft, ChevronRight, Download, Calendar, FileText, Clock } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Download, Calendar, FileText, Clock, Undo2, Redo2, Wand2, CopyPlus, Megaphone } from 'lucide-react';
 import { Scale } from 'lucide-react';
+import { CCNL_RULE_PACKS, DEFAULT_CCNL_AGREEMENT, getRulePackRestSummary } from '../../types/ccnl';
 import { getDayOfWeek, getWeekDays, formatDate, addDays, getStartOfWeek, formatWeekNumber } from '../../utils/timeUtils';
 import { exportScheduleGridToPDF } from '../../utils/pdfExportUtils';
 import { ImportButton } from '../imports/ImportButton';
@@ -22,6 +23,21 @@ interface ScheduleHeaderProps {
   onAddShift?: (shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>) => Shift | null;
   onAddEmployee?: (employee: Omit<Employee, 'id' | 'createdAt' | 'updatedAt'>) => Employee;
   onUpdateShift?: (id: string, updates: Partial<Shift>) => void;
+  runAsCommand?: <R>(label: string, operation: () => R | Promise<R>) => Promise<R>;
+  // ↩️ Annulla/ripristina modifiche
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  // 🧩 Generatore automatico turni
+  onOpenGenerator?: () => void;
+  // 🗓️ Settimane tipo e copia settimana precedente
+  onOpenWeekTemplates?: () => void;
+  // 📢 Versioni pubblicate e modifiche successive all'ultima pubblicazione
+  onOpenVersions?: () => void;
+  unpublishedChanges?: number;
 }
 
 export const ScheduleHeader: React.FC<ScheduleHeaderProps> = ({
@@ -36,7 +52,18 @@ export const ScheduleHeader: React.FC<ScheduleHeaderProps> = ({
   existingShifts = [],
   onAddShift,
   onAddEmployee,
-  onUpdateShift
+  onUpdateShift,
+  runAsCommand,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  undoLabel,
+  redoLabel,
+  onOpenGenerator,
+  onOpenWeekTemplates,
+  onOpenVersions,
+  unpublishedChanges = 0
 }) => {
   const weekEnd = addDays(currentWeek, 6);
   const weekDays = getWeekDays(currentWeek);
@@ -48,6 +75,29 @@ export const ScheduleHeader: React.FC<ScheduleHeaderProps> = ({
       label: store.name
     }));
 
+  // ⌨️ Scorciatoie: Ctrl/Cmd+Z annulla, Ctrl/Cmd+Shift+Z o Ctrl+Y ripristina
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      // Nei campi di testo resta l'annulla nativo del browser
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey && canUndo && onUndo) {
+        event.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && event.shiftKey) || key === 'y') && canRedo && onRedo) {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, canRedo, onUndo, onRedo]);
+
   const goToPreviousWeek = () => {
     onWeekChange(addDays(currentWeek, -7));
   };
@@ -171,6 +221,8 @@ export const ScheduleHeader: React.FC<ScheduleHeaderProps> = ({
   const weeklyRequiredHours = calculateWeeklyRequiredHours(selectedStore);
   const openDays = selectedStore?.openingHours ? Object.values(selectedStore.openingHours).filter(h => h).length : 0;
   const avgDailyHours = openDays > 0 ? weeklyRequiredHours / openDays : 0;
+  const ccnlPack = CCNL_RULE_PACKS[selectedStore?.ccnlAgreementId || DEFAULT_CCNL_AGREEMENT];
+  const ccnlRest = getRulePackRestSummary(ccnlPack);
 
   // Function to get store hours for a specific day considering closures and weekly schedules
   const getStoreHoursForDay = useCallback((date: Date) => {
@@ -254,7 +306,69 @@ export const ScheduleHeader: React.FC<ScheduleHeaderProps> = ({
             className="min-w-[160px]"
           />
           
+          {(onUndo || onRedo) && (
+            <div className="flex space-x-1">
+              <button
+                type="button"
+                onClick={onUndo}
+                disabled={!canUndo}
+                title={canUndo ? `Annulla: ${undoLabel} (Ctrl+Z)` : 'Niente da annullare'}
+                className="p-1.5 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={onRedo}
+                disabled={!canRedo}
+                title={canRedo ? `Ripristina: ${redoLabel} (Ctrl+Shift+Z)` : 'Niente da ripristinare'}
+                className="p-1.5 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Redo2 className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+          
           <div className="flex space-x-1">
+            {onOpenGenerator && (
+              <Button
+                variant="outline"
+                icon={Wand2}
+                onClick={onOpenGenerator}
+                disabled={!selectedStore}
+                size="sm"
+                className="!px-2 !py-1.5 !text-xs mr-1"
+              >
+                Genera
+              </Button>
+            )}
+
+            {onOpenWeekTemplates && (
+              <Button
+                variant="outline"
+                icon={CopyPlus}
+                onClick={onOpenWeekTemplates}
+                disabled={!selectedStore}
+                size="sm"
+                className="!px-2 !py-1.5 !text-xs mr-1"
+              >
+                Settimane
+              </Button>
+            )}
+
+            {onOpenVersions && (
+              <Button
+                variant={unpublishedChanges > 0 ? 'secondary' : 'outline'}
+                icon={Megaphone}
+                onClick={onOpenVersions}
+                disabled={!selectedStore}
+                size="sm"
+                className="!px-2 !py-1.5 !text-xs mr-1"
+              >
+                {unpublishedChanges > 0 ? `Versioni (${unpublishedChanges} modifiche)` : 'Versioni'}
+              </Button>
+            )}
+
             {/* Import Button - solo se le funzioni di callback sono fornite */}
             {onAddShift && onAddEmployee && onUpdateShift && employees && (
               <ImportButton
@@ -264,6 +378,7 @@ export const ScheduleHeader: React.FC<ScheduleHeaderProps> = ({
                 onAddShift={onAddShift}
                 onAddEmployee={onAddEmployee}
                 onUpdateShift={onUpdateShift}
+                runAsCommand={runAsCommand}
                 size="sm"
                 className="mr-1"
               />
@@ -476,8 +591,8 @@ export const ScheduleHeader: React.FC<ScheduleHeaderProps> = ({
           <div className="p-2 bg-purple-50 rounded border border-purple-200">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
-                <Scale className="h-3 w-3 text-purple-600" title="Contratto Collettivo Nazionale del Lavoro per il settore commercio - normativa riposi obbligatori" />
-                <span className="text-xs font-medium text-purple-900">CCNL del Commercio</span>
+                <Scale className="h-3 w-3 text-purple-600" title={`${ccnlPack.name} - normativa riposi obbligatori`} />
+                <span className="text-xs font-medium text-purple-900">CCNL {ccnlPack.shortName}</span>
               </div>
               <div className="text-xs text-purple-700 bg-white rounded px-2 py-1">
                 Compliance Attiva
@@ -485,15 +600,15 @@ export const ScheduleHeader: React.FC<ScheduleHeaderProps> = ({
             </div>
             <div className="mt-1 grid grid-cols-3 gap-2 text-xs">
               <div className="text-center">
-                <div className="font-bold text-purple-900" title="Riposo continuativo minimo di 11 ore tra due turni consecutivi">11h</div>
+                <div className="font-bold text-purple-900" title={`Riposo continuativo minimo di ${ccnlRest.dailyRestHours} ore tra due turni consecutivi`}>{ccnlRest.dailyRestHours}h</div>
                 <div className="text-purple-700 leading-tight">Riposo Giornaliero</div>
               </div>
               <div className="text-center">
-                <div className="font-bold text-purple-900" title="Riposo settimanale continuativo minimo di 35 ore">35h</div>
+                <div className="font-bold text-purple-900" title={`Riposo settimanale continuativo minimo di ${ccnlRest.weeklyRestHours} ore`}>{ccnlRest.weeklyRestHours}h</div>
                 <div className="text-purple-700 leading-tight">Riposo Settimanale</div>
               </div>
               <div className="text-center">
-                <div className="font-bold text-purple-900" title="Massimo 6 giorni lavorativi consecutivi consentiti">Max 6</div>
+                <div className="font-bold text-purple-900" title={`Massimo ${ccnlRest.maxConsecutiveDays} giorni lavorativi consecutivi consentiti`}>Max {ccnlRest.maxConsecutiveDays}</div>
                 <div className="text-purple-700 leading-tight">Giorni Consecutivi</div>
               </div>
             </div>
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { Employee, ScheduleVersion, Shift, Store } from '../../types';
+import { Modal } from '../common/Modal';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Select } from '../common/Select';
+import { diffScheduleVersion, getPublishableWeekShifts, getWeekVersions, isPublishedShift, SCHEDULE_CHANGE_LABELS, ScheduleChangeType } from '../../utils/scheduleVersions';
+import { exportScheduleDiffToExcel } from '../../utils/exportUtils';
+import { Megaphone, Download, History, CheckCircle } from 'lucide-react';
+
+interface ScheduleVersionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  store: Store;
+  weekStart: Date;
+  employees: Employee[];
+  shifts: Shift[];
+  versions: ScheduleVersion[];
+  onPublish: (note?: string) => Promise<void>;
+}
+
+const CHANGE_STYLES: Record<ScheduleChangeType, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  moved: 'bg-purple-100 text-purple-800',
+  retimed: 'bg-amber-100 text-amber-800'
+};
+
+export const ScheduleVersionsModal: React.FC<ScheduleVersionsModalProps> = ({
+  isOpen,
+  onClose,
+  store,
+  weekStart,
+  employees,
+  shifts,
+  versions,
+  onPublish
+}) => {
+  const [note, setNote] = useState('');
+  const [baseVersionId, setBaseVersionId] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  const weekVersions = useMemo(() => getWeekVersions(versions, store.id, weekStart), [versions, store.id, weekStart]);
+  const baseVersion = weekVersions.find(version => version.id === baseVersionId) || weekVersions[0];
+  const diff = useMemo(
+    () => (baseVersion ? diffScheduleVersion(baseVersion, shifts, employees) : null),
+    [baseVersion, shifts, employees]
+  );
+  const weekShifts = getPublishableWeekShifts(shifts, store.id, weekStart);
+  // Entrano nella versione i turni già pubblicati e quelli validati (pubblicati ora)
+  const weekShiftCount = weekShifts.filter(shift => shift.validationStatus === 'validated' || isPublishedShift(shift)).length;
+  const notValidatedCount = weekShifts.length - weekShiftCount;
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      await onPublish(note.trim() || undefined);
+      setNote('');
+      setBaseVersionId('');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Versioni pubblicate - ${store.name}`} size="xl">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+          {baseVersion ? (
+            <span>
+              Ultima pubblicazione: <strong>v{weekVersions[0].version}</strong> del {weekVersions[0].publishedAt.toLocaleString('it-IT')}
+              {' '}da {weekVersions[0].publishedBy} ({weekVersions[0].shifts.length} turni, {weekVersions[0].totalHours}h)
+            </span>
+          ) : (
+            <span className="text-gray-600">La settimana del {weekStart.toLocaleDateString('it-IT')} non è mai stata pubblicata</span>
+          )}
+        </div>
+
+        {/* Nuova pubblicazione */}
+        <div className="flex items-end space-x-3">
+          <Input
+            label="Nota di pubblicazione"
+            value={note}
+            onChange={setNote}
+            placeholder="Es. Aggiornamento per ferie di Marco"
+            className="flex-1"
+          />
+          <Button icon={Megaphone} onClick={handlePublish} disabled={isPublishing || weekShiftCount === 0}>
+            Pubblica settimana
+          </Button>
+        </div>
+        {notValidatedCount > 0 && (
+          <p className="text-xs text-amber-700">
+            {notValidatedCount} turni non ancora validati resteranno fuori dalla pubblicazione
+          </p>
+        )}
+
+        {diff && (
+          <>
+            <div className="flex items-end justify-between">
+              <Select
+                label="Confronta con"
+                value={baseVersion.id}
+                onChange={setBaseVersionId}
+                options={weekVersions.map(version => ({
+                  value: version.id,
+                  label: `v${version.version} - ${version.publishedAt.toLocaleString('it-IT')}${version.note ? ` (${version.note})` : ''}`
+                }))}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                icon={Download}
+                onClick={() => exportScheduleDiffToExcel(diff, employees, store)}
+              >
+                Esporta modifiche
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-xs">
+              {(Object.keys(SCHEDULE_CHANGE_LABELS) as ScheduleChangeType[]).map(type => (
+                <span key={type} className={`px-2 py-1 rounded font-medium ${CHANGE_STYLES[type]}`}>
+                  {SCHEDULE_CHANGE_LABELS[type]}: {diff.changes.filter(change => change.type === type).length}
+                </span>
+              ))}
+            </div>
+
+            {diff.changes.length === 0 ? (
+              <div className="flex items-center text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg p-3">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Nessuna modifica dopo la versione v{baseVersion.version}
+              </div>
+            ) : (
+              <div className="space-y-3 max-h-80 overflow-y-auto">
+                {diff.byEmployee.map(group => (
+                  <div key={group.employeeId} className="border border-gray-200 rounded-lg">
+                    <div className="px-3 py-2 bg-gray-50 text-sm font-medium text-gray-900">
+                      {group.employeeName}
+                      <span className="text-gray-500 font-normal ml-2">({group.changes.length} modifiche)</span>
+                    </div>
+                    <div className="divide-y divide-gray-100">
+                      {group.changes.map(change => (
+                        <div key={`${group.employeeId}-${change.shiftId}`} className="flex items-start px-3 py-2 text-sm">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium mr-3 flex-shrink-0 ${CHANGE_STYLES[change.type]}`}>
+                            {SCHEDULE_CHANGE_LABELS[change.type]}
+                          </span>
+                          <span className="text-gray-700">{change.description}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Storico delle pubblicazioni */}
+        {weekVersions.length > 0 && (
+          <div>
+            <h4 className="flex items-center text-sm font-medium text-gray-900 mb-2">
+              <History className="h-4 w-4 mr-1" /> Storico pubblicazioni
+            </h4>
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+              {weekVersions.map(version => (
+                <div key={version.id} className="flex items-center justify-between px-3 py-2">
+                  <span>
+                    <strong>v{version.version}</strong> · {version.publishedAt.toLocaleString('it-IT')} · {version.publishedBy}
+                    {version.note && <span className="text-gray-500"> · {version.note}</span>}
+                  </span>
+                  <span className="text-gray-500">{version.shifts.length} turni, {version.totalHours}h</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
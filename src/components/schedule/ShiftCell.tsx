@@ -1,15 +1,31 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Shift, Employee, ShiftConflict, CopiedShift, EmployeeUnavailability, Store, ShiftValidationStatus } from '../../types';
+import { Shift, Employee, ShiftConflict, CopiedShift, EmployeeUnavailability, Store, ShiftValidationStatus, ShiftSegment } from '../../types';
 import { Button } from '../common/Button';
 import { ContextMenu } from './ContextMenu';
 import { TemplateSelector } from './TemplateSelector';
 import { useStaffPlanning } from '../../hooks/useStaffPlanning';
-import { getDayOfWeek, getStartOfWeek } from '../../utils/timeUtils';
+import { getPrimaryRoleId, getShiftRoleId } from '../../utils/staffNeeds';
+import { 
+  getDayOfWeek, 
+  getStartOfWeek, 
+  calculateWorkingHours, 
+  calculateSegmentedWorkingHours,
+  isOvernightShift,
+  isSplitShift,
+  getShiftSegments,
+  getSplitGapMinutes,
+  getShiftWorkingHours,
+  buildSplitShiftTimes,
+  formatShiftTimes,
+  timeToMinutes
+} from '../../utils/timeUtils';
 import { STATUS_CONFIG } from '../../utils/workflowEngine';
+import { getShiftDropMode, ShiftDropMode, ShiftDropValidation } from '../../utils/shiftDragDrop';
 import { AlertTriangle, Copy, Clipboard, Zap, Lock, Plus, Edit, Check, X, Calculator, AlertCircle, Clock, UserX } from 'lucide-react';
 
 interface ShiftCellProps {
   shift?: Shift;
+  carryOverShift?: Shift; // Turno notturno del giorno precedente che prosegue in questa data
   employee: Employee;
   date: Date;
   store: Store; // Aggiunta prop store per controlli chiusura
@@ -24,10 +40,18 @@ interface ShiftCellProps {
   onApplyTemplate?: (templateId: string) => void;
   isSourceCell?: boolean;
   hasClipboard?: boolean;
+  // 🖐️ Trascinamento: la cella è sia sorgente (se ha un turno) sia destinazione
+  isDragSource?: boolean;
+  dropFeedback?: ShiftDropValidation & { mode: ShiftDropMode }; // Esito del rilascio sulla cella sotto il cursore
+  onShiftDragStart?: () => void;
+  onShiftDragEnd?: () => void;
+  onShiftDragOver?: (mode: ShiftDropMode) => void;
+  onShiftDrop?: (mode: ShiftDropMode) => void;
 }
 
 export const ShiftCell: React.FC<ShiftCellProps> = ({
   shift,
+  carryOverShift,
   employee,
   date,
   store,
@@ -41,9 +65,15 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
   onPasteShift,
   onApplyTemplate,
   isSourceCell = false,
-  hasClipboard = false
+  hasClipboard = false,
+  isDragSource = false,
+  dropFeedback,
+  onShiftDragStart,
+  onShiftDragEnd,
+  onShiftDragOver,
+  onShiftDrop
 }) => {
-  const { calculateStaffNeeds } = useStaffPlanning();
+  const { calculateStaffNeeds, staffRoles } = useStaffPlanning();
 
   // Get workflow validation status
   const validationStatus = (shift as any)?.validationStatus || 'draft';
@@ -78,12 +108,23 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
   const endTimeRef = useRef<HTMLInputElement>(null);
   
   // Local state for temporary editing data
-  const [tempData, setTempData] = useState({
+  const [tempData, setTempData] = useState<{
+    startTime: string;
+    endTime: string;
+    breakDuration: string;
+    extraSegments: ShiftSegment[]; // ✂️ Segmenti successivi al primo (turno spezzato)
+    roleId: string; // 🎯 Ruolo con cui il turno conta nella copertura
+  }>({
     startTime: '',
     endTime: '',
-    breakDuration: ''
+    breakDuration: '',
+    extraSegments: [],
+    roleId: ''
   });
 
+  const shiftRoleId = shift ? getShiftRoleId(shift, employee) : undefined;
+  const shiftRoleName = shiftRoleId ? staffRoles.find(role => role.id === shiftRoleId)?.name || shiftRoleId : undefined;
+
   const hasErrors = conflicts.some(c => c.severity === 'error');
   const hasWarnings = conflicts.some(c => c.severity === 'warning');
   const isLocked = shift?.isLocked || false;
@@ -216,17 +257,23 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
         date: shift.date?.toISOString?.() || 'INVALID'
       });
       
+      const [firstSegment, ...otherSegments] = getShiftSegments(shift);
+      
       setTempData({
-        startTime: shift.startTime || '',
-        endTime: shift.endTime || '',
-        breakDuration: shift.breakDuration?.toString() || defaultBreakDuration.toString()
+        startTime: firstSegment.startTime || '',
+        endTime: firstSegment.endTime || '',
+        breakDuration: shift.breakDuration?.toString() || defaultBreakDuration.toString(),
+        extraSegments: otherSegments,
+        roleId: getShiftRoleId(shift, employee) || ''
       });
     } else {
       console.log('🆕 Creating new shift');
       setTempData({
         startTime: '',
         endTime: '',
-        breakDuration: defaultBreakDuration.toString()
+        breakDuration: defaultBreakDuration.toString(),
+        extraSegments: [],
+        roleId: getPrimaryRoleId(employee) || ''
       });
     }
     setIsEditing(true);
@@ -414,6 +461,7 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
           startTime: shift.startTime,
           endTime: shift.endTime,
           breakDuration: shift.breakDuration,
+          segments: shift.segments,
           notes: shift.notes
         });
       }
@@ -439,7 +487,9 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
   const applyShiftData = (shiftData: Partial<CopiedShift>) => {
     if (shiftData.startTime && shiftData.endTime) {
       const breakMinutes = shiftData.breakDuration !== undefined ? shiftData.breakDuration : defaultBreakDuration;
-      const actualHours = calculateWorkingHours(shiftData.startTime, shiftData.endTime, breakMinutes);
+      const actualHours = shiftData.segments && shiftData.segments.length > 1
+        ? calculateSegmentedWorkingHours(shiftData.segments, breakMinutes)
+        : calculateWorkingHours(shiftData.startTime, shiftData.endTime, breakMinutes);
       
       console.log('📋 Applying shift data:', shiftData);
       
@@ -452,6 +502,7 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
         breakDuration: breakMinutes,
         actualHours,
         status: 'scheduled',
+        segments: shiftData.segments,
         notes: shiftData.notes,
         date: safeDate, // Explicitly pass the date
         employeeId: employee.id, // Explicitly pass employee ID
@@ -534,7 +585,34 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
       return;
     }
     
-    const actualHours = calculateWorkingHours(finalStartTime, finalEndTime, breakMinutes);
+    // ✂️ TURNO SPEZZATO: completa e valida i segmenti aggiuntivi
+    const extraSegments = tempData.extraSegments.map(segment => ({
+      startTime: isValidTimeFormat(segment.startTime) ? segment.startTime : smartFormatTime(segment.startTime),
+      endTime: isValidTimeFormat(segment.endTime) ? segment.endTime : smartFormatTime(segment.endTime)
+    }));
+    
+    if (extraSegments.some(segment => !isValidTimeFormat(segment.startTime) || !isValidTimeFormat(segment.endTime))) {
+      alert('Formato orario non valido in uno dei segmenti del turno spezzato');
+      return;
+    }
+    
+    const splitTimes = extraSegments.length > 0
+      ? buildSplitShiftTimes([{ startTime: finalStartTime, endTime: finalEndTime }, ...extraSegments])
+      : null;
+    
+    if (splitTimes) {
+      const overlapping = splitTimes.segments.some((segment, index) => 
+        index > 0 && timeToMinutes(segment.startTime) < timeToMinutes(splitTimes.segments[index - 1].endTime)
+      );
+      if (overlapping) {
+        alert('I segmenti del turno spezzato non possono sovrapporsi');
+        return;
+      }
+    }
+    
+    const actualHours = splitTimes
+      ? calculateSegmentedWorkingHours(splitTimes.segments, breakMinutes)
+      : calculateWorkingHours(finalStartTime, finalEndTime, breakMinutes);
     
     if (actualHours < 0) {
       console.warn('❌ Save blocked: invalid working hours');
@@ -556,14 +634,16 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
     
     try {
       const updateData: Partial<Shift> = {
-        startTime: finalStartTime,
-        endTime: finalEndTime,
+        startTime: splitTimes ? splitTimes.startTime : finalStartTime,
+        endTime: splitTimes ? splitTimes.endTime : finalEndTime,
+        segments: splitTimes ? splitTimes.segments : undefined,
         breakDuration: breakMinutes,
         actualHours,
         status: 'scheduled',
         date: safeDate,
         employeeId: employee.id,
         storeId: shift?.storeId || '', // Provide fallback
+        roleId: tempData.roleId || undefined,
       };
       
       // 🛡️ VALIDATION: Ensure the object is not undefined and has required properties
@@ -615,6 +695,7 @@ export const ShiftCell: React.FC<ShiftCellProps> = ({
             startTime: shift.startTime,
             endTime: shift.endTime,
             breakDuration: shift.breakDuration,
+            segments: shift.segments,
             notes: shift.notes
           });
         }
@@ -692,31 +773,6 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
     setShowTemplateSelector(false);
   };
 
-  // 🔧 FIXED CALCULATION: Improved working hours calculation
-  const calculateWorkingHours = (start: string, end: string, breakMinutes: number): number => {
-    const [startHour, startMin] = start.split(':').map(Number);
-    const [endHour, endMin] = end.split(':').map(Number);
-    
-    const startTotalMin = startHour * 60 + startMin;
-    const endTotalMin = endHour * 60 + endMin;
-    
-    // CRITICAL: Ensure break minutes is treated as number
-    const breakMins = Number(breakMinutes) || 0;
-    const workingMinutes = Math.max(0, endTotalMin - startTotalMin - breakMins);
-    
-    console.log('🧮 Calculating hours:', {
-      start: `${startHour}:${startMin}`,
-      end: `${endHour}:${endMin}`,
-      startMin: startTotalMin,
-      endMin: endTotalMin,
-      breakMins,
-      workingMinutes,
-      hours: workingMinutes / 60
-    });
-    
-    return workingMinutes / 60;
-  };
-
   // 🆕 DOPPIO CLICK PER MODIFICA RAPIDA
   const handleCellDoubleClick = () => {
     if (canEdit && !isEditing && !isStoreClosed.closed) {
@@ -738,12 +794,103 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
         breakMinutes = isNaN(parsed) ? 0 : parsed;
       }
       
-      return calculateWorkingHours(tempData.startTime, tempData.endTime, breakMinutes);
+      const validExtraSegments = tempData.extraSegments.filter(segment => 
+        isValidTimeFormat(segment.startTime) && isValidTimeFormat(segment.endTime)
+      );
+      
+      if (validExtraSegments.length > 0) {
+        const segments = [{ startTime: tempData.startTime, endTime: tempData.endTime }, ...validExtraSegments];
+        return Math.max(0, calculateSegmentedWorkingHours(segments, breakMinutes));
+      }
+      
+      return Math.max(0, calculateWorkingHours(tempData.startTime, tempData.endTime, breakMinutes));
     }
     return 0;
   };
 
+  const liveSplitGap = tempData.extraSegments.length > 0 &&
+    [tempData, ...tempData.extraSegments].every(segment => isValidTimeFormat(segment.startTime) && isValidTimeFormat(segment.endTime))
+      ? getSplitGapMinutes([{ startTime: tempData.startTime, endTime: tempData.endTime }, ...tempData.extraSegments])
+      : 0;
+
+  const updateExtraSegment = (index: number, field: keyof ShiftSegment, value: string) => {
+    setTempData(prev => ({
+      ...prev,
+      extraSegments: prev.extraSegments.map((segment, i) => i === index ? { ...segment, [field]: value } : segment)
+    }));
+  };
+
+  const handleExtraSegmentBlur = (index: number, field: keyof ShiftSegment) => {
+    const value = tempData.extraSegments[index]?.[field];
+    if (value && !isValidTimeFormat(value)) {
+      updateExtraSegment(index, field, smartFormatTime(value));
+    }
+  };
+
+  const addExtraSegment = () => {
+    setTempData(prev => ({
+      ...prev,
+      extraSegments: [...prev.extraSegments, { startTime: '', endTime: '' }]
+    }));
+  };
+
+  const removeExtraSegment = (index: number) => {
+    setTempData(prev => ({
+      ...prev,
+      extraSegments: prev.extraSegments.filter((_, i) => i !== index)
+    }));
+  };
+
   const liveHours = calculateLiveHours();
+  const isLiveOvernight = isValidTimeFormat(tempData.startTime) && isValidTimeFormat(tempData.endTime) &&
+                          isOvernightShift(tempData.startTime, tempData.endTime);
+  const isShiftOvernight = !!shift && !!shift.startTime && !!shift.endTime && isOvernightShift(shift.startTime, shift.endTime);
+
+  // 🌙 Banner per la coda di un turno notturno iniziato il giorno precedente
+  const carryOverBanner = carryOverShift ? (
+    <div
+      className="mb-1 px-1 py-0.5 bg-indigo-100 border border-indigo-300 rounded text-xs text-indigo-800 text-center"
+      title={`Turno notturno iniziato il ${carryOverShift.date.toLocaleDateString('it-IT')} (${carryOverShift.startTime}-${carryOverShift.endTime})`}
+    >
+      🌙 fino alle {carryOverShift.endTime}
+    </div>
+  ) : null;
+
+  // 🖐️ Handler di destinazione condivisi da cella vuota e cella con turno
+  const dropHandlers = onShiftDragOver && onShiftDrop ? {
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      const mode = getShiftDropMode(e);
+      e.dataTransfer.dropEffect = dropFeedback && !dropFeedback.allowed ? 'none' : mode;
+      onShiftDragOver(mode);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      onShiftDrop(getShiftDropMode(e));
+    }
+  } : {};
+
+  const dropFeedbackPanel = dropFeedback ? (
+    <div
+      className={`absolute left-0 right-0 top-full mt-1 z-30 p-1.5 rounded shadow-lg text-xs border no-print ${
+        dropFeedback.allowed
+          ? dropFeedback.warnings.length > 0 ? 'bg-yellow-50 border-yellow-300 text-yellow-800' : 'bg-green-50 border-green-300 text-green-800'
+          : 'bg-red-50 border-red-300 text-red-800'
+      }`}
+    >
+      <div className="font-semibold">
+        {dropFeedback.allowed ? (dropFeedback.mode === 'copy' ? '📋 Copia qui' : '➡️ Sposta qui') : '⛔ Rilascio non consentito'}
+      </div>
+      {[...dropFeedback.errors, ...dropFeedback.warnings].slice(0, 3).map((message, index) => (
+        <div key={index} className="truncate" title={message}>{message}</div>
+      ))}
+    </div>
+  ) : null;
+
+  const dropRingClass = dropFeedback
+    ? dropFeedback.allowed ? 'ring-2 ring-green-400' : 'ring-2 ring-red-400'
+    : '';
+
   const isValidTime = tempData.startTime && tempData.endTime && 
                      isValidTimeFormat(tempData.startTime) && isValidTimeFormat(tempData.endTime) && 
                      liveHours >= 0;
@@ -822,6 +969,76 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
             </div>
           </div>
           
+          {/* ✂️ SEGMENTI TURNO SPEZZATO */}
+          {tempData.extraSegments.map((segment, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+              <div className="space-y-1">
+                <label className="block text-xs text-gray-700 font-medium">
+                  ✂️ Inizio {index + 2}
+                </label>
+                <input
+                  type="text"
+                  value={segment.startTime}
+                  onChange={(e) => updateExtraSegment(index, 'startTime', e.target.value)}
+                  onBlur={() => handleExtraSegmentBlur(index, 'startTime')}
+                  className="w-full px-2 py-2 text-sm text-center border-2 border-blue-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white font-mono transition-all"
+                  placeholder="16"
+                  maxLength={5}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-xs text-gray-700 font-medium">
+                  ✂️ Fine {index + 2}
+                </label>
+                <input
+                  type="text"
+                  value={segment.endTime}
+                  onChange={(e) => updateExtraSegment(index, 'endTime', e.target.value)}
+                  onBlur={() => handleExtraSegmentBlur(index, 'endTime')}
+                  className="w-full px-2 py-2 text-sm text-center border-2 border-blue-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white font-mono transition-all"
+                  placeholder="20"
+                  maxLength={5}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeExtraSegment(index)}
+                className="p-2 text-red-500 hover:text-red-700"
+                title="Rimuovi segmento"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={addExtraSegment}
+            className="w-full text-xs text-blue-700 border border-dashed border-blue-300 rounded-md py-1 hover:bg-blue-100"
+            title="Aggiungi un segmento di lavoro (turno spezzato)"
+          >
+            ✂️ + Segmento (turno spezzato)
+          </button>
+
+          {employee.skills && employee.skills.length > 0 && (
+            <div className="space-y-1">
+              <label className="block text-xs text-gray-700 font-medium">
+                🎯 Ruolo
+              </label>
+              <select
+                value={tempData.roleId}
+                onChange={(e) => setTempData(prev => ({ ...prev, roleId: e.target.value }))}
+                className="w-full px-2 py-1 text-sm border-2 border-blue-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+              >
+                {employee.skills.map(skill => (
+                  <option key={skill.roleId} value={skill.roleId}>
+                    {staffRoles.find(role => role.id === skill.roleId)?.name || skill.roleId}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <div className="space-y-1">
             <label className="block text-xs text-gray-700 font-medium">
               ☕ Pausa (min)
@@ -856,7 +1073,7 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
               <Calculator className="h-3 w-3" />
               <span className="text-xs font-medium">
                 {isValidTime 
-                  ? `${liveHours.toFixed(1)}h di lavoro`
+                  ? `${liveHours.toFixed(1)}h di lavoro${isLiveOvernight ? ' • 🌙 termina il giorno dopo' : ''}${liveSplitGap > 0 ? ` • ✂️ ${liveSplitGap}min non retribuiti` : ''}`
                   : 'Completa gli orari'
                 }
               </span>
@@ -931,10 +1148,20 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
             ${isLocked ? 'bg-orange-50 border-orange-300' : ''}
             ${!hasErrors && !hasWarnings && !isSourceCell && !isLocked && !isEmployeeUnavailable ? 'bg-white border-gray-200 hover:border-blue-300 hover:bg-blue-50' : ''}
             ${!canEdit ? 'cursor-not-allowed opacity-75' : ''}
+            ${isDragSource ? 'opacity-40' : ''}
+            ${dropRingClass}
           `}
           onClick={handleCellDoubleClick}
           onDoubleClick={handleCellDoubleClick}
           onContextMenu={handleRightClick}
+          draggable={!!onShiftDragStart}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'copyMove';
+            e.dataTransfer.setData('text/plain', shift.id);
+            onShiftDragStart?.();
+          }}
+          onDragEnd={() => onShiftDragEnd?.()}
+          {...dropHandlers}
           tabIndex={0}
           title={
             isEmployeeUnavailable 
@@ -944,9 +1171,17 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
                 : "Turno bloccato"
           }
         >
+          {carryOverBanner}
+          {dropFeedbackPanel}
+
           <div className="flex items-center justify-between mb-1">
             <div className="text-xs text-gray-900 leading-tight print:text-xs font-mono font-semibold">
-              {shift.startTime}-{shift.endTime}
+              {formatShiftTimes(shift)}
+              {isShiftOvernight && (
+                <span className="ml-1 text-indigo-600" title={`Turno notturno: termina il giorno successivo alle ${shift.endTime}`}>
+                  🌙+1
+                </span>
+              )}
             </div>
             <div className="flex space-x-1 no-print">
               {isEmployeeUnavailable && <UserX className="h-2 w-2 text-red-600" />}
@@ -989,13 +1224,20 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
           <div className="space-y-0.5">
             <div className="text-xs text-gray-600 print:text-xs">
               {/* 🔧 FIXED: Proper zero break display */}
-              {shift.breakDuration === 0 ? (
+              {isSplitShift(shift) ? (
+                <span className="text-indigo-600 font-medium" title="Intervallo non retribuito tra i segmenti">
+                  ✂️ {getSplitGapMinutes(getShiftSegments(shift))}min intervallo
+                </span>
+              ) : shift.breakDuration === 0 ? (
                 <span className="text-blue-600 font-medium">Nessuna pausa</span>
               ) : (
                 <span>{shift.breakDuration}min pausa</span>
               )}
               <span className="mx-1">•</span>
-              <span className="font-medium">{shift.actualHours.toFixed(1)}h</span>
+              <span className="font-medium">{getShiftWorkingHours(shift).toFixed(1)}h</span>
+              {shiftRoleName && (
+                <div className="text-xs text-gray-500 truncate">🎯 {shiftRoleName}</div>
+              )}
               
               {/* 🆕 INDICATORI REQUISITI PERSONALE */}
               {hasActiveEvents && (
@@ -1110,10 +1352,12 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
               : 'border-gray-200 cursor-not-allowed opacity-50'
           }
           ${hasClipboard && canEdit && !isEmployeeUnavailable ? 'bg-blue-25 border-blue-200' : 'bg-gray-25'}
+          ${dropRingClass}
         `}
         onClick={!isEmployeeUnavailable && !isStoreClosed.closed ? handleCellDoubleClick : undefined}
         onDoubleClick={!isEmployeeUnavailable && !isStoreClosed.closed ? handleCellDoubleClick : undefined}
         onContextMenu={handleRightClick}
+        {...dropHandlers}
         tabIndex={0}
         title={
           isEmployeeUnavailable 
@@ -1125,6 +1369,9 @@ ${conflicts.length > 0 ? `⚠️ ${conflicts.length} conflitti rilevati` : '✅
               : "Modifica bloccata"
         }
       >
+        {carryOverBanner}
+        {dropFeedbackPanel}
+
         {isEmployeeUnavailable ? (
           <div className="h-full flex flex-col items-center justify-center space-y-1 text-red-600 print:space-y-0">
             <div className="w-6 h-6 rounded-full bg-red-200 flex items-center justify-center print:w-4 print:h-4">
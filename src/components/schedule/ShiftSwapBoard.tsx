@@ -0,0 +1,391 @@
+import React, { useState } from 'react';
+import { Employee, EmployeeUnavailability, Shift, ShiftSwapRequest, ShiftSwapStatus, Store } from '../../types';
+import { UserProfile } from '../../hooks/useAuth';
+import { useShiftSwaps } from '../../hooks/useShiftSwaps';
+import { buildSwapUpdates, logSwapStep, validateShiftSwap } from '../../utils/shiftSwaps';
+import { formatShiftTimes, getDayOfWeek, getShiftWorkingHours } from '../../utils/timeUtils';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Select } from '../common/Select';
+import { ArrowLeftRight, Send, Check, X, Undo2, Ban, CheckCircle, AlertTriangle } from 'lucide-react';
+
+interface ShiftSwapBoardProps {
+  profile: UserProfile;
+  canManage: boolean; // Approvazione degli scambi (permesso manage_shifts)
+  stores: Store[];
+  employees: Employee[];
+  shifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  onApplySwap: (updates: { id: string; data: Partial<Shift> }[], label: string) => Promise<void>;
+}
+
+const EMPTY_OFFER = {
+  shiftId: '',
+  targetEmployeeId: '',
+  note: ''
+};
+
+const STATUS_LABELS: Record<ShiftSwapStatus, string> = {
+  offered: 'In attesa di un collega',
+  accepted: 'In attesa di approvazione',
+  approved: 'Approvato',
+  rejected: 'Rifiutato',
+  cancelled: 'Annullato'
+};
+
+export const ShiftSwapBoard: React.FC<ShiftSwapBoardProps> = ({
+  profile,
+  canManage,
+  stores,
+  employees,
+  shifts,
+  unavailabilities,
+  onApplySwap
+}) => {
+  const {
+    swapRequests,
+    isShiftInActiveSwap,
+    offerSwap,
+    acceptSwap,
+    withdrawAcceptance,
+    cancelSwap,
+    approveSwap,
+    rejectSwap
+  } = useShiftSwaps();
+  const [offerData, setOfferData] = useState(EMPTY_OFFER);
+  const [offerError, setOfferError] = useState<string | null>(null);
+  const [returnShifts, setReturnShifts] = useState<Record<string, string>>({}); // Turno dato in cambio per offerta
+
+  const userName = `${profile.first_name} ${profile.last_name}`;
+  const linkedEmployee = employees.find(employee => employee.id === profile.employee_id);
+  const context = { shifts, employees, stores, unavailabilities };
+  const isVisibleStore = (storeId: string) =>
+    profile.role === 'admin' || !profile.assigned_store_ids.length || profile.assigned_store_ids.includes(storeId);
+
+  const employeeName = (employeeId?: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente rimosso';
+  };
+  const findShift = (shiftId?: string) => shifts.find(shift => shift.id === shiftId);
+  const describeShift = (shift?: Shift) => {
+    if (!shift) return 'Turno rimosso';
+    const store = stores.find(s => s.id === shift.storeId);
+    return `${getDayOfWeek(shift.date)} ${shift.date.toLocaleDateString('it-IT')} · ${formatShiftTimes(shift)} (${getShiftWorkingHours(shift).toFixed(1)}h) · ${store?.name || 'Negozio rimosso'}`;
+  };
+
+  // Turni futuri del dipendente collegato che possono essere offerti o dati in cambio
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const myTradableShifts = shifts
+    .filter(shift => shift.employeeId === linkedEmployee?.id && shift.date >= today && !shift.isLocked && shift.status !== 'cancelled')
+    .filter(shift => !isShiftInActiveSwap(shift.id))
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime));
+
+  const colleagues = employees.filter(employee => employee.isActive && employee.id !== linkedEmployee?.id);
+
+  const incomingOffers = swapRequests.filter(request =>
+    linkedEmployee &&
+    request.status === 'offered' &&
+    request.requesterId !== linkedEmployee.id &&
+    (!request.targetEmployeeId || request.targetEmployeeId === linkedEmployee.id)
+  );
+  const myActiveRequests = swapRequests.filter(request =>
+    linkedEmployee &&
+    (request.status === 'offered' || request.status === 'accepted') &&
+    (request.requesterId === linkedEmployee.id || request.accepterId === linkedEmployee.id)
+  );
+  const requestsToApprove = swapRequests.filter(request => {
+    const shift = findShift(request.requesterShiftId);
+    return request.status === 'accepted' && (!shift || isVisibleStore(shift.storeId));
+  });
+  const closedRequests = swapRequests
+    .filter(request => request.status === 'approved' || request.status === 'rejected' || request.status === 'cancelled')
+    .filter(request => canManage || request.requesterId === linkedEmployee?.id || request.accepterId === linkedEmployee?.id)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    .slice(0, 10);
+
+  // 📝 OFFERTA
+  const handleOffer = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!linkedEmployee || !offerData.shiftId) {
+      setOfferError('Seleziona il turno da offrire');
+      return;
+    }
+
+    const request = offerSwap({
+      requesterId: linkedEmployee.id,
+      requesterShiftId: offerData.shiftId,
+      targetEmployeeId: offerData.targetEmployeeId || undefined,
+      note: offerData.note.trim() || undefined
+    });
+    if (!request) {
+      setOfferError('Il turno è già in uno scambio in corso');
+      return;
+    }
+    logSwapStep(request, 'swap_requested', context, userName, request.note);
+    setOfferData(EMPTY_OFFER);
+    setOfferError(null);
+  };
+
+  // 🤝 ACCETTAZIONE: la validazione viene mostrata in anteprima sulla pianificazione risultante
+  const previewAcceptance = (request: ShiftSwapRequest): ShiftSwapRequest => ({
+    ...request,
+    accepterId: linkedEmployee?.id,
+    accepterShiftId: returnShifts[request.id] || undefined
+  });
+
+  const handleAccept = (request: ShiftSwapRequest) => {
+    if (!linkedEmployee) return;
+    const accepted = previewAcceptance(request);
+    acceptSwap(request.id, linkedEmployee.id, accepted.accepterShiftId);
+    logSwapStep(accepted, 'swap_accepted', context, userName);
+  };
+
+  const handleWithdrawAcceptance = (request: ShiftSwapRequest) => {
+    withdrawAcceptance(request.id);
+    logSwapStep(request, 'swap_cancelled', context, userName, 'Accettazione ritirata dal collega');
+  };
+
+  const handleCancel = (request: ShiftSwapRequest) => {
+    cancelSwap(request.id);
+    logSwapStep(request, 'swap_cancelled', context, userName);
+  };
+
+  // ✅ APPROVAZIONE: entrambe le pianificazioni vengono rivalidate sulla griglia attuale
+  const handleApprove = async (request: ShiftSwapRequest) => {
+    const validation = validateShiftSwap(request, context);
+    if (!validation.isValid) {
+      const reason = `Validazione non superata: ${validation.errors.join('; ')}`;
+      rejectSwap(request.id, userName, reason);
+      logSwapStep(request, 'swap_rejected', context, userName, reason, validation);
+      alert(`Lo scambio non è più valido ed è stato rifiutato:\n\n${validation.errors.join('\n')}`);
+      return;
+    }
+
+    await onApplySwap(
+      buildSwapUpdates(request),
+      `Scambio turni tra ${employeeName(request.requesterId)} e ${employeeName(request.accepterId)}`
+    );
+    approveSwap(request.id, userName);
+    logSwapStep(request, 'swap_approved', context, userName, undefined, validation);
+  };
+
+  const handleReject = (request: ShiftSwapRequest) => {
+    const reason = window.prompt('Motivo del rifiuto (opzionale):') ?? undefined;
+    rejectSwap(request.id, userName, reason || undefined);
+    logSwapStep(request, 'swap_rejected', context, userName, reason || undefined);
+  };
+
+  const renderSwapSummary = (request: ShiftSwapRequest) => (
+    <div className="text-sm space-y-1">
+      <div>
+        <span className="font-medium text-gray-900">{employeeName(request.requesterId)}</span>
+        <span className="text-gray-600"> cede: {describeShift(findShift(request.requesterShiftId))}</span>
+      </div>
+      {request.accepterId && (
+        <div>
+          <span className="font-medium text-gray-900">{employeeName(request.accepterId)}</span>
+          <span className="text-gray-600">
+            {request.accepterShiftId
+              ? ` cede in cambio: ${describeShift(findShift(request.accepterShiftId))}`
+              : ' prende il turno senza cedere turni in cambio'}
+          </span>
+        </div>
+      )}
+      {request.note && <div className="text-gray-500">{request.note}</div>}
+    </div>
+  );
+
+  const renderValidation = (request: ShiftSwapRequest) => {
+    const validation = validateShiftSwap(request, context);
+    return (
+      <div className="text-xs mt-2 space-y-1">
+        {validation.isValid ? (
+          <span className="inline-flex items-center text-green-700">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Pianificazioni risultanti valide
+          </span>
+        ) : (
+          validation.errors.map((error, index) => <div key={index} className="text-red-700">{error}</div>)
+        )}
+        {validation.warnings.map((warning, index) => <div key={index} className="text-amber-700">{warning}</div>)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <ArrowLeftRight className="h-6 w-6 text-blue-600" />
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Scambi Turni</h2>
+          <p className="text-sm text-gray-600">
+            Offri un tuo turno ai colleghi: lo scambio diventa effettivo dopo l'approvazione del responsabile
+          </p>
+        </div>
+      </div>
+
+      {!linkedEmployee && !canManage && (
+        <div className="flex items-center text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+          Il tuo utente non è collegato a un dipendente: chiedi a un amministratore di collegarlo per scambiare i turni.
+        </div>
+      )}
+
+      {canManage && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Da approvare ({requestsToApprove.length})</h3>
+          {requestsToApprove.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 bg-white border border-gray-200 rounded-lg p-6">
+              Nessuno scambio in attesa di approvazione
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {requestsToApprove.map(request => {
+                const isValid = validateShiftSwap(request, context).isValid;
+                return (
+                  <div key={request.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between">
+                      {renderSwapSummary(request)}
+                      <div className="flex items-center space-x-2">
+                        <Button size="xs" variant="success" icon={Check} onClick={() => handleApprove(request)} disabled={!isValid}>
+                          Approva
+                        </Button>
+                        <Button size="xs" variant="outline" icon={X} onClick={() => handleReject(request)}>
+                          Rifiuta
+                        </Button>
+                      </div>
+                    </div>
+                    {renderValidation(request)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {linkedEmployee && (
+        <form onSubmit={handleOffer} className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+          <h3 className="text-sm font-medium text-gray-900">Offri un turno</h3>
+          <div className="grid grid-cols-3 gap-4">
+            <Select
+              label="Turno"
+              value={offerData.shiftId}
+              onChange={(value) => setOfferData(prev => ({ ...prev, shiftId: value }))}
+              options={myTradableShifts.map(shift => ({ value: shift.id, label: describeShift(shift) }))}
+              placeholder={myTradableShifts.length ? 'Seleziona turno' : 'Nessun turno disponibile'}
+              required
+            />
+            <Select
+              label="Collega"
+              value={offerData.targetEmployeeId}
+              onChange={(value) => setOfferData(prev => ({ ...prev, targetEmployeeId: value }))}
+              options={colleagues.map(employee => ({ value: employee.id, label: `${employee.firstName} ${employee.lastName}` }))}
+              placeholder="Tutti i colleghi"
+            />
+            <Input
+              label="Note"
+              value={offerData.note}
+              onChange={(value) => setOfferData(prev => ({ ...prev, note: value }))}
+              placeholder="Es. visita medica"
+            />
+          </div>
+          {offerError && <p className="text-sm text-red-600">{offerError}</p>}
+          <div className="flex justify-end">
+            <Button type="submit" icon={Send} disabled={!offerData.shiftId}>
+              Offri turno
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {linkedEmployee && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Offerte dei colleghi</h3>
+          {incomingOffers.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 bg-white border border-gray-200 rounded-lg p-6">
+              Nessuna offerta di scambio per te
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {incomingOffers.map(request => {
+                const preview = previewAcceptance(request);
+                const isValid = validateShiftSwap(preview, context).isValid;
+                return (
+                  <div key={request.id} className="bg-white border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between">
+                      {renderSwapSummary(request)}
+                      <div className="flex items-center space-x-2">
+                        <Select
+                          value={returnShifts[request.id] || ''}
+                          onChange={(value) => setReturnShifts(prev => ({ ...prev, [request.id]: value }))}
+                          options={myTradableShifts.map(shift => ({ value: shift.id, label: describeShift(shift) }))}
+                          placeholder="Nessun turno in cambio"
+                        />
+                        <Button size="sm" icon={Check} onClick={() => handleAccept(request)} disabled={!isValid}>
+                          Accetta
+                        </Button>
+                      </div>
+                    </div>
+                    {renderValidation(preview)}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {myActiveRequests.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">I miei scambi in corso</h3>
+          <div className="space-y-3">
+            {myActiveRequests.map(request => (
+              <div key={request.id} className="bg-white border border-gray-200 rounded-lg p-4 flex items-start justify-between">
+                <div>
+                  {renderSwapSummary(request)}
+                  <div className="text-xs text-gray-500 mt-1">
+                    {STATUS_LABELS[request.status]}
+                    {request.targetEmployeeId && ` · Offerto a ${employeeName(request.targetEmployeeId)}`}
+                  </div>
+                </div>
+                {request.requesterId === linkedEmployee?.id ? (
+                  <Button size="sm" variant="ghost" icon={Ban} onClick={() => handleCancel(request)}>
+                    Annulla
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="outline" icon={Undo2} onClick={() => handleWithdrawAcceptance(request)}>
+                    Ritira accettazione
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {closedRequests.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-2">Ultimi scambi chiusi</h3>
+          <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100 text-sm">
+            {closedRequests.map(request => (
+              <div key={request.id} className="flex items-center justify-between px-4 py-2">
+                <span>
+                  {employeeName(request.requesterId)}
+                  {request.accepterId && <> ⇄ {employeeName(request.accepterId)}</>}
+                  {' · '}{describeShift(findShift(request.requesterShiftId))}
+                </span>
+                <span className="text-gray-600">
+                  {STATUS_LABELS[request.status]}
+                  {request.decidedBy && ` da ${request.decidedBy}`}
+                  {request.decisionReason && `: ${request.decisionReason}`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
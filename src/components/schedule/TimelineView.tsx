@@ -2,7 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { WeeklySchedule, Preferences, TimelineEvent } from '../../types';
 import { Button } from '../common/Button';
 import { Calendar, Clock, Lock, Unlock, BarChart3, Grid } from 'lucide-react';
-import { formatDate, getDayOfWeek } from '../../utils/timeUtils';
+import { formatDate, getDayOfWeek, isOvernightShift, addDays } from '../../utils/timeUtils';
 
 interface TimelineViewProps {
   schedule: WeeklySchedule & { preferences: Preferences };
@@ -40,13 +40,36 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
         isLocked: shift.isLocked,
         status: shift.status,
         color: employeeColors[employees.findIndex(emp => emp.id === shift.employeeId) % employeeColors.length],
-        date: shift.date
-      } as TimelineEvent & { date: Date };
+        date: shift.date,
+        isOvernight: isOvernightShift(shift.startTime, shift.endTime),
+        isCarryOver: false
+      } as TimelineEvent & { date: Date; isOvernight: boolean; isCarryOver: boolean };
     });
   }, [shifts, employees]);
 
-  // Ore di lavoro (6:00 - 24:00)
-  const workingHours = Array.from({ length: 18 }, (_, i) => i + 6);
+  // 🌙 Segmenti dopo la mezzanotte dei turni notturni, mostrati nel giorno successivo
+  const displayEvents = useMemo(() => {
+    const carryOvers = timelineEvents
+      .filter(event => event.isOvernight)
+      .map(event => ({
+        ...event,
+        date: addDays(event.date, 1),
+        isCarryOver: true
+      }));
+    return [...timelineEvents, ...carryOvers];
+  }, [timelineEvents]);
+
+  // Ore di lavoro (6:00 - 24:00), estese da mezzanotte se ci sono turni notturni
+  const firstHour = timelineEvents.some(event => event.isOvernight) ? 0 : 6;
+  const totalHours = 24 - firstHour;
+  const workingHours = Array.from({ length: totalHours }, (_, i) => i + firstHour);
+
+  // Estremi visualizzati: la parte notturna va a fine giornata o parte da mezzanotte
+  const getDisplayRange = (event: { startTime: string; endTime: string; isOvernight: boolean; isCarryOver: boolean }) => {
+    if (event.isCarryOver) return { start: '00:00', end: event.endTime };
+    if (event.isOvernight) return { start: event.startTime, end: '24:00' };
+    return { start: event.startTime, end: event.endTime };
+  };
 
   // Giorni della settimana
   const weekDays = Array.from({ length: 7 }, (_, i) => {
@@ -57,7 +80,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
 
   const getTimePosition = (time: string): number => {
     const [hour, minute] = time.split(':').map(Number);
-    return ((hour - 6) * 60 + minute) / (18 * 60) * 100;
+    return Math.max(0, ((hour - firstHour) * 60 + minute) / (totalHours * 60) * 100);
   };
 
   const getEventWidth = (startTime: string, endTime: string): number => {
@@ -72,6 +95,13 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
       )
     : timelineEvents;
 
+  // Eventi disegnati (in vista giorno include le code notturne dal giorno precedente)
+  const filteredDisplayEvents = selectedDate
+    ? displayEvents.filter(event =>
+        event.date.toDateString() === selectedDate.toDateString()
+      )
+    : timelineEvents;
+
   const getStatusColor = (status: string, baseColor: string) => {
     switch (status) {
       case 'confirmed': return baseColor;
@@ -171,7 +201,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
             {zoomLevel === 'week' ? (
               // Vista settimanale - raggruppata per giorno
               weekDays.map(date => {
-                const dayEvents = timelineEvents.filter(event => 
+                const dayEvents = displayEvents.filter(event => 
                   event.date.toDateString() === date.toDateString()
                 );
                 const storeHours = store.openingHours?.[getDayOfWeek(date)];
@@ -201,11 +231,11 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                         {/* Eventi turni */}
                         {dayEvents.map((event, eventIndex) => (
                           <div
-                            key={event.id}
-                            className="absolute rounded shadow-sm cursor-pointer hover:shadow-md transition-shadow group"
+                            key={`${event.id}${event.isCarryOver ? '-carry' : ''}`}
+                            className={`absolute rounded shadow-sm cursor-pointer hover:shadow-md transition-shadow group ${event.isCarryOver ? 'opacity-70 border border-dashed border-white' : ''}`}
                             style={{
-                              left: `${getTimePosition(event.startTime)}%`,
-                              width: `${getEventWidth(event.startTime, event.endTime)}%`,
+                              left: `${getTimePosition(getDisplayRange(event).start)}%`,
+                              width: `${getEventWidth(getDisplayRange(event).start, getDisplayRange(event).end)}%`,
                               backgroundColor: getStatusColor(event.status, event.color),
                              top: `${3 + (eventIndex * 22)}px`,
                              height: '18px',
@@ -215,10 +245,10 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                           >
                             <div className="h-full flex items-center justify-between px-2 text-white text-xs font-medium">
                               <span className="truncate">
-                                {event.employeeName.split(' ')[0]}
+                                {event.isCarryOver && '🌙 '}{event.employeeName.split(' ')[0]}
                               </span>
                               <div className="flex items-center space-x-1">
-                                <span>{event.startTime}-{event.endTime}</span>
+                                <span>{event.startTime}-{event.endTime}{event.isOvernight && !event.isCarryOver && ' →'}</span>
                                 {event.isLocked && <Lock className="w-3 h-3" />}
                               </div>
                             </div>
@@ -226,6 +256,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                             {/* Tooltip */}
                             <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-2 py-1 bg-black text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap z-50">
                               {event.employeeName} • {event.startTime}-{event.endTime} • {event.duration.toFixed(1)}h
+                              {event.isOvernight && (event.isCarryOver ? ' • Prosegue dal giorno precedente' : ' • Termina il giorno successivo')}
                               {event.isLocked && ' • Bloccato'}
                             </div>
                           </div>
@@ -238,7 +269,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
             ) : (
               // Vista giornaliera - raggruppata per dipendente
               employees.filter(emp => emp.isActive).map(employee => {
-                const employeeEvents = filteredEvents.filter(event => 
+                const employeeEvents = filteredDisplayEvents.filter(event => 
                   event.employeeId === employee.id
                 );
 
@@ -260,18 +291,18 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                           <div
                             key={hour}
                             className="absolute top-0 bottom-0 border-l border-gray-200"
-                            style={{ left: `${((hour - 6) / 18) * 100}%` }}
+                            style={{ left: `${((hour - firstHour) / totalHours) * 100}%` }}
                           />
                         ))}
 
                         {/* Eventi turni dipendente */}
                         {employeeEvents.map((event, eventIndex) => (
                           <div
-                            key={event.id}
-                            className="absolute rounded shadow-sm cursor-pointer hover:shadow-md transition-shadow group"
+                            key={`${event.id}${event.isCarryOver ? '-carry' : ''}`}
+                            className={`absolute rounded shadow-sm cursor-pointer hover:shadow-md transition-shadow group ${event.isCarryOver ? 'opacity-70 border border-dashed border-white' : ''}`}
                             style={{
-                              left: `${getTimePosition(event.startTime)}%`,
-                              width: `${getEventWidth(event.startTime, event.endTime)}%`,
+                              left: `${getTimePosition(getDisplayRange(event).start)}%`,
+                              width: `${getEventWidth(getDisplayRange(event).start, getDisplayRange(event).end)}%`,
                              backgroundColor: getStatusColor(event.status, event.color),
                              top: `${4 + (eventIndex * 22)}px`, 
                              height: '18px'
@@ -279,9 +310,9 @@ export const TimelineView: React.FC<TimelineViewProps> = ({
                             onClick={() => onShiftClick?.(event.id)}
                           >
                             <div className="h-full flex items-center justify-between px-2 text-white text-xs font-medium">
-                              <span>{event.startTime}</span>
+                              <span>{event.isCarryOver ? '🌙' : event.startTime}</span>
                               <div className="flex items-center space-x-1">
-                                <span>{event.endTime}</span>
+                                <span>{event.isOvernight && !event.isCarryOver ? '→' : event.endTime}</span>
                                 {event.isLocked && <Lock className="w-3 h-3" />}
                               </div>
                             </div>
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useShiftGridValidation } from '../../hooks/useShiftGridValidation';
 import { Store, Shift, Employee } from '../../types';
 import { ValidationIssue, ValidationAdminSettings } from '../../types/validation';
+import { CCNL_RULE_PACKS, DEFAULT_CCNL_AGREEMENT } from '../../types/ccnl';
 import { Button } from '../common/Button';
 import { Modal } from '../common/Modal';
 import { 
@@ -70,7 +71,7 @@ export const ValidationPanel: React.FC<ValidationPanelProps> = ({
         <div className="flex items-center space-x-2">
           <Scale className="h-4 w-4 text-blue-600" />
           <span className="text-sm font-medium text-blue-900">
-            CCNL del Commercio
+            {CCNL_RULE_PACKS[store.ccnlAgreementId || DEFAULT_CCNL_AGREEMENT].name}
           </span>
         </div>
         <div className="text-sm text-blue-700">
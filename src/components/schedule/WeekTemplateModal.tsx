@@ -0,0 +1,280 @@
+import React, { useMemo, useState } from 'react';
+import { Employee, EmployeeUnavailability, Shift, Store, WeekTemplateShift } from '../../types';
+import { Modal } from '../common/Modal';
+import { Button } from '../common/Button';
+import { Input } from '../common/Input';
+import { Select } from '../common/Select';
+import { useWeekTemplates } from '../../hooks/useWeekTemplates';
+import {
+  captureWeekTemplateShifts,
+  getDefaultEmployeeMapping,
+  planWeekTemplate,
+  WEEK_TEMPLATE_CONFLICT_LABELS,
+  WeekTemplateNewShift
+} from '../../utils/weekTemplates';
+import { addDays, getStartOfWeek } from '../../utils/timeUtils';
+import { getEmployeeContractAt } from '../../utils/contractRules';
+import { CalendarRange, Copy, Save, Trash2, AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface WeekTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  store: Store;
+  stores: Store[];
+  weekStart: Date;
+  employees: Employee[];
+  shifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  userName?: string;
+  onApplyShifts: (shifts: WeekTemplateNewShift[], label: string) => Promise<number>;
+}
+
+type WeekTemplateMode = 'copy-previous' | 'apply' | 'save';
+
+const MODE_LABELS: Record<WeekTemplateMode, string> = {
+  'copy-previous': 'Copia settimana precedente',
+  apply: 'Applica settimana tipo',
+  save: 'Salva settimana corrente'
+};
+
+export const WeekTemplateModal: React.FC<WeekTemplateModalProps> = ({
+  isOpen,
+  onClose,
+  store,
+  stores,
+  weekStart,
+  employees,
+  shifts,
+  unavailabilities,
+  userName,
+  onApplyShifts
+}) => {
+  const { weekTemplates, saveWeekTemplate, deleteWeekTemplate } = useWeekTemplates();
+  const [mode, setMode] = useState<WeekTemplateMode>('copy-previous');
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [mappingOverrides, setMappingOverrides] = useState<Record<string, string>>({});
+  const [saveForm, setSaveForm] = useState({ name: '', description: '' });
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const targetWeekStart = useMemo(() => getStartOfWeek(weekStart), [weekStart]);
+  const previousWeekStart = useMemo(() => addDays(targetWeekStart, -7), [targetWeekStart]);
+  const selectedTemplate = weekTemplates.find(template => template.id === selectedTemplateId);
+
+  const employeeName = (employeeId: string) => {
+    const employee = employees.find(emp => emp.id === employeeId);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente rimosso';
+  };
+  const storeName = (storeId: string) => stores.find(s => s.id === storeId)?.name || 'Negozio rimosso';
+
+  // Turni di origine: settimana precedente dello stesso negozio oppure settimana tipo scelta
+  const sourceShifts: WeekTemplateShift[] = useMemo(() => {
+    if (mode === 'copy-previous') return captureWeekTemplateShifts(shifts, store.id, previousWeekStart);
+    if (mode === 'apply') return selectedTemplate?.shifts || [];
+    return [];
+  }, [mode, shifts, store.id, previousWeekStart, selectedTemplate]);
+
+  // 👥 Rimappatura: proposta automatica, sovrascrivibile dipendente per dipendente
+  const employeeMapping = useMemo(() => ({
+    ...getDefaultEmployeeMapping(sourceShifts, employees, store.id, targetWeekStart),
+    ...mappingOverrides
+  }), [sourceShifts, employees, store.id, targetWeekStart, mappingOverrides]);
+
+  const targetEmployeeOptions = employees
+    .filter(emp => emp.isActive && getEmployeeContractAt(emp, targetWeekStart).storeId === store.id)
+    .map(emp => ({ value: emp.id, label: `${emp.firstName} ${emp.lastName}` }));
+
+  const plan = useMemo(() => planWeekTemplate({
+    templateShifts: sourceShifts,
+    targetStore: store,
+    targetWeekStart,
+    employeeMapping,
+    employees,
+    existingShifts: shifts,
+    unavailabilities
+  }), [sourceShifts, store, targetWeekStart, employeeMapping, employees, shifts, unavailabilities]);
+
+  const currentWeekShiftCount = captureWeekTemplateShifts(shifts, store.id, targetWeekStart).length;
+
+  const changeMode = (value: WeekTemplateMode) => {
+    setMode(value);
+    setMappingOverrides({});
+    setMessage(null);
+  };
+
+  const handleApply = async () => {
+    if (plan.shifts.length === 0) return;
+    const label = mode === 'copy-previous'
+      ? `Copia settimana precedente - ${store.name}`
+      : `Settimana tipo "${selectedTemplate?.name}" - ${store.name}`;
+    const created = await onApplyShifts(plan.shifts, label);
+    setMessage({
+      type: created === plan.shifts.length ? 'success' : 'error',
+      text: `${created} di ${plan.shifts.length} turni creati${plan.conflicts.length > 0 ? `, ${plan.conflicts.length} conflitti da risolvere a mano` : ''}`
+    });
+  };
+
+  const handleSave = () => {
+    if (!saveForm.name.trim()) {
+      setMessage({ type: 'error', text: 'Il nome della settimana tipo è obbligatorio' });
+      return;
+    }
+    const template = saveWeekTemplate(
+      { name: saveForm.name.trim(), description: saveForm.description.trim() || undefined, createdBy: userName },
+      store.id,
+      targetWeekStart,
+      shifts
+    );
+    if (!template) {
+      setMessage({ type: 'error', text: 'La settimana corrente non ha turni da salvare' });
+      return;
+    }
+    setSaveForm({ name: '', description: '' });
+    setMessage({ type: 'success', text: `Settimana tipo "${template.name}" salvata con ${template.shifts.length} turni` });
+  };
+
+  const handleDeleteTemplate = () => {
+    if (selectedTemplate && window.confirm(`Eliminare la settimana tipo "${selectedTemplate.name}"?`)) {
+      deleteWeekTemplate(selectedTemplate.id);
+      setSelectedTemplateId('');
+      setMappingOverrides({});
+    }
+  };
+
+  const sourceEmployeeIds = Array.from(new Set(sourceShifts.map(shift => shift.employeeId)));
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Settimane tipo - ${store.name}`} size="xl">
+      <div className="space-y-4">
+        <div className="flex space-x-2">
+          {(Object.keys(MODE_LABELS) as WeekTemplateMode[]).map(value => (
+            <Button
+              key={value}
+              size="sm"
+              variant={mode === value ? 'primary' : 'outline'}
+              icon={value === 'copy-previous' ? Copy : value === 'apply' ? CalendarRange : Save}
+              onClick={() => changeMode(value)}
+            >
+              {MODE_LABELS[value]}
+            </Button>
+          ))}
+        </div>
+
+        {message && (
+          <div className={`flex items-center text-sm border rounded-lg p-3 ${message.type === 'success' ? 'text-green-800 bg-green-50 border-green-200' : 'text-red-800 bg-red-50 border-red-200'}`}>
+            {message.type === 'success' ? <CheckCircle className="h-4 w-4 mr-2" /> : <AlertTriangle className="h-4 w-4 mr-2" />}
+            {message.text}
+          </div>
+        )}
+
+        {mode === 'save' && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Salva i {currentWeekShiftCount} turni della settimana del {targetWeekStart.toLocaleDateString('it-IT')} come settimana tipo riutilizzabile su altre settimane o negozi.
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                label="Nome"
+                value={saveForm.name}
+                onChange={(value) => setSaveForm(prev => ({ ...prev, name: value }))}
+                placeholder="Es. Settimana standard inverno"
+                required
+              />
+              <Input
+                label="Descrizione"
+                value={saveForm.description}
+                onChange={(value) => setSaveForm(prev => ({ ...prev, description: value }))}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button icon={Save} onClick={handleSave} disabled={currentWeekShiftCount === 0}>
+                Salva settimana tipo
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode === 'apply' && (
+          <div className="flex items-end space-x-3">
+            <Select
+              label="Settimana tipo"
+              value={selectedTemplateId}
+              onChange={(value) => { setSelectedTemplateId(value); setMappingOverrides({}); setMessage(null); }}
+              options={weekTemplates.map(template => ({
+                value: template.id,
+                label: `${template.name} (${storeName(template.sourceStoreId)}, ${template.shifts.length} turni)`
+              }))}
+              placeholder={weekTemplates.length === 0 ? 'Nessuna settimana tipo salvata' : 'Seleziona settimana tipo'}
+              className="flex-1"
+            />
+            {selectedTemplate && (
+              <Button variant="ghost" icon={Trash2} onClick={handleDeleteTemplate}>
+                Elimina
+              </Button>
+            )}
+          </div>
+        )}
+
+        {mode === 'copy-previous' && (
+          <p className="text-sm text-gray-600">
+            Copia i turni della settimana del {previousWeekStart.toLocaleDateString('it-IT')} nella settimana del {targetWeekStart.toLocaleDateString('it-IT')}.
+          </p>
+        )}
+
+        {mode !== 'save' && sourceShifts.length === 0 && (mode === 'copy-previous' || selectedTemplate) && (
+          <p className="text-sm text-gray-500">Nessun turno da applicare</p>
+        )}
+
+        {mode !== 'save' && sourceShifts.length > 0 && (
+          <>
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Rimappatura dipendenti</h4>
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {sourceEmployeeIds.map(sourceId => (
+                  <div key={sourceId} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <span>
+                      {employeeName(sourceId)}
+                      <span className="text-gray-500 ml-2">({sourceShifts.filter(shift => shift.employeeId === sourceId).length} turni)</span>
+                    </span>
+                    <Select
+                      value={employeeMapping[sourceId] || ''}
+                      onChange={(value) => setMappingOverrides(prev => ({ ...prev, [sourceId]: value }))}
+                      options={targetEmployeeOptions}
+                      placeholder="Non assegnare"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+              <span>
+                <strong>{plan.shifts.length}</strong> turni da creare
+                {' '}({plan.shifts.reduce((sum, shift) => sum + shift.actualHours, 0).toFixed(1)}h)
+                {' · '}<strong>{plan.conflicts.length}</strong> conflitti non applicati
+              </span>
+              <Button variant="success" icon={CheckCircle} size="sm" onClick={handleApply} disabled={plan.shifts.length === 0}>
+                Applica
+              </Button>
+            </div>
+
+            {plan.conflicts.length > 0 && (
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {plan.conflicts.map((conflict, index) => (
+                  <div key={index} className="flex items-start text-xs border rounded p-2 text-amber-800 bg-amber-50 border-amber-200">
+                    <AlertTriangle className="h-3 w-3 mr-2 mt-0.5 flex-shrink-0" />
+                    <span>
+                      <strong>{WEEK_TEMPLATE_CONFLICT_LABELS[conflict.type]}</strong>
+                      {' · '}{conflict.shiftLabel}
+                      {' · '}{employeeName(conflict.employeeId || conflict.sourceEmployeeId)}
+                      {': '}{conflict.message}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -1,11 +1,14 @@
 import React, { useState } from 'react';
 import { Store, WeeklyStoreSchedule, ClosureDay } from '../../types';
+import { CCNL_RULE_PACKS, CCNLAgreementId, DEFAULT_CCNL_AGREEMENT } from '../../types/ccnl';
 import { Input } from '../common/Input';
+import { Select } from '../common/Select';
 import { Button } from '../common/Button';
 import { StaffPlanningPanel } from './StaffPlanningPanel';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../common/Tabs';
 import { Clock, Users, Copy, Info, Calendar, ChevronLeft, ChevronRight, Plus, X, AlertTriangle, History, CalendarX, Eye } from 'lucide-react';
 import { getStartOfWeek, addDays, formatDate } from '../../utils/timeUtils';
+import { getHoliday } from '../../utils/holidayCalendar';
 
 interface StoreFormProps {
   store?: Store;
@@ -14,6 +17,14 @@ interface StoreFormProps {
   onUpdateStore?: (storeId: string, updates: Partial<Store>) => void;
 }
 
+interface StoreFormData {
+  name: string;
+  isActive: boolean;
+  ccnlAgreementId: CCNLAgreementId;
+}
+
+const AGREEMENT_OPTIONS = Object.values(CCNL_RULE_PACKS).map(pack => ({ value: pack.id, label: pack.name }));
+
 const DAYS_OF_WEEK = [
   'lunedì', 'martedì', 'mercoledì', 'giovedì', 'venerdì', 'sabato', 'domenica'
 ];
@@ -47,9 +58,10 @@ export const StoreForm: React.FC<StoreFormProps> = ({
     customClose: '18:00'
   });
   
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<StoreFormData>({
     name: store?.name || '',
-    isActive: store?.isActive ?? true
+    isActive: store?.isActive ?? true,
+    ccnlAgreementId: store?.ccnlAgreementId || DEFAULT_CCNL_AGREEMENT
   });
 
   // Gestione orari per settimana corrente
@@ -154,13 +166,15 @@ export const StoreForm: React.FC<StoreFormProps> = ({
         saveWeeklySchedule();
         onUpdateStore(store.id, {
           name: formData.name.trim(),
-          isActive: formData.isActive
+          isActive: formData.isActive,
+          ccnlAgreementId: formData.ccnlAgreementId
         });
       } else {
         onSubmit({
           name: formData.name.trim(),
           openingHours,
-          isActive: formData.isActive
+          isActive: formData.isActive,
+          ccnlAgreementId: formData.ccnlAgreementId
         });
       }
     }
@@ -369,6 +383,7 @@ export const StoreForm: React.FC<StoreFormProps> = ({
               formatWeekRange={formatWeekRange}
               newClosure={newClosure}
               setNewClosure={setNewClosure}
+              onUpdateStore={onUpdateStore}
             />
           </TabsContent>
 
@@ -426,8 +441,8 @@ export const StoreForm: React.FC<StoreFormProps> = ({
 // Nuovo componente per gestione orari settimanali
 interface WeeklyHoursFormProps {
   store: Store;
-  formData: { name: string; isActive: boolean };
-  setFormData: React.Dispatch<React.SetStateAction<{ name: string; isActive: boolean }>>;
+  formData: StoreFormData;
+  setFormData: React.Dispatch<React.SetStateAction<StoreFormData>>;
   openingHours: Record<string, { open: string; close: string }> | undefined;
   updateDayHours: (day: string, field: 'open' | 'close', value: string) => void;
   errors: Record<string, string>;
@@ -591,6 +606,13 @@ const WeeklyHoursForm: React.FC<WeeklyHoursFormProps> = ({
         placeholder="Negozio Principale"
       />
 
+      <Select
+        label="Contratto collettivo applicato"
+        value={formData.ccnlAgreementId}
+        onChange={(value) => setFormData(prev => ({ ...prev, ccnlAgreementId: value as CCNLAgreementId }))}
+        options={AGREEMENT_OPTIONS}
+      />
+
         <div className="space-y-4">
         <div className="flex justify-between items-center">
           <h3 className="text-lg font-medium text-gray-900">Orari di Apertura</h3>
@@ -695,6 +717,7 @@ interface ClosuresFormProps {
   formatWeekRange: (start: Date, end: Date) => string;
   newClosure: any;
   setNewClosure: React.Dispatch<React.SetStateAction<any>>;
+  onUpdateStore?: (storeId: string, updates: Partial<Store>) => void;
 }
 
 const ClosuresForm: React.FC<ClosuresFormProps> = ({
@@ -709,14 +732,69 @@ const ClosuresForm: React.FC<ClosuresFormProps> = ({
   goToCurrentWeek,
   formatWeekRange,
   newClosure,
-  setNewClosure
+  setNewClosure,
+  onUpdateStore
 }) => {
   const weekEnd = addDays(currentWeek, 6);
   const weekDays = Array.from({ length: 7 }, (_, i) => addDays(currentWeek, i));
   const [showAddModal, setShowAddModal] = useState(false);
+  const [patronSaint, setPatronSaint] = useState({
+    name: store.patronSaint?.name || '',
+    date: store.patronSaint 
+      ? `${store.patronSaint.month.toString().padStart(2, '0')}-${store.patronSaint.day.toString().padStart(2, '0')}` 
+      : ''
+  });
+  
+  // 🎉 Salva la festa patronale del negozio (formato MM-GG)
+  const savePatronSaint = () => {
+    if (!onUpdateStore) return;
+    
+    if (!patronSaint.name.trim() || !patronSaint.date) {
+      onUpdateStore(store.id, { patronSaint: undefined });
+      return;
+    }
+    
+    const [month, day] = patronSaint.date.split('-').map(Number);
+    if (!month || !day || month > 12 || day > 31) {
+      alert('Data del santo patrono non valida (formato MM-GG)');
+      return;
+    }
+    
+    onUpdateStore(store.id, { patronSaint: { name: patronSaint.name.trim(), day, month } });
+  };
   
   return (
     <div className="space-y-6">
+      {/* Santo patrono */}
+      <div className="bg-rose-50 border border-rose-200 rounded-lg p-4">
+        <h3 className="font-medium text-rose-900 mb-1">🎉 Santo Patrono</h3>
+        <p className="text-sm text-rose-700 mb-3">
+          La festa patronale si aggiunge alle festività nazionali nel calendario del negozio
+        </p>
+        <div className="grid grid-cols-3 gap-3 items-end">
+          <Input
+            label="Santo"
+            value={patronSaint.name}
+            onChange={(value) => setPatronSaint(prev => ({ ...prev, name: value }))}
+            placeholder="Sant'Ambrogio"
+          />
+          <Input
+            label="Giorno (MM-GG)"
+            value={patronSaint.date}
+            onChange={(value) => setPatronSaint(prev => ({ ...prev, date: value }))}
+            placeholder="12-07"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={savePatronSaint}
+            disabled={!onUpdateStore}
+          >
+            Salva Patrono
+          </Button>
+        </div>
+      </div>
+      
       {/* Header con navigazione */}
       <div className="bg-red-50 border border-red-200 rounded-lg p-4">
         <div className="flex items-center justify-between mb-4">
@@ -788,6 +866,7 @@ const ClosuresForm: React.FC<ClosuresFormProps> = ({
               );
               const hasClosures = dayClosures.length > 0;
               const isToday = date.toDateString() === new Date().toDateString();
+              const holiday = getHoliday(date, store);
               
               return (
                 <div
@@ -804,6 +883,12 @@ const ClosuresForm: React.FC<ClosuresFormProps> = ({
                     {date.getDate()}/{date.getMonth() + 1}
                   </div>
                   
+                  {holiday && (
+                    <div className="text-xs text-rose-700 font-medium mb-2" title={holiday.name}>
+                      🎉 {holiday.name}
+                    </div>
+                  )}
+                  
                   {hasClosures ? (
                     <div className="space-y-2">
                       {dayClosures.map(closure => (
@@ -1036,8 +1121,8 @@ const ClosuresForm: React.FC<ClosuresFormProps> = ({
 
 // Componente form per orari semplici (per nuovi negozi)
 interface HoursFormProps {
-  formData: { name: string; isActive: boolean };
-  setFormData: React.Dispatch<React.SetStateAction<{ name: string; isActive: boolean }>>;
+  formData: StoreFormData;
+  setFormData: React.Dispatch<React.SetStateAction<StoreFormData>>;
   openingHours: Record<string, { open: string; close: string }> | undefined;
   updateDayHours: (day: string, field: 'open' | 'close', value: string) => void;
   errors: Record<string, string>;
@@ -1085,6 +1170,13 @@ const HoursForm: React.FC<HoursFormProps> = ({
         error={errors.name}
         placeholder="Negozio Principale"
       />
+
+      <Select
+        label="Contratto collettivo applicato"
+        value={formData.ccnlAgreementId}
+        onChange={(value) => setFormData(prev => ({ ...prev, ccnlAgreementId: value as CCNLAgreementId }))}
+        options={AGREEMENT_OPTIONS}
+      />
       
       <div className="space-y-4">
         <div className="flex justify-between items-center">
@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef } from 'react';
 import { Shift, Employee, Store } from '../types';
 import { BalancingSuggestion } from './useWorkloadBalancer';
+import { getShiftRoleId, hasSkill } from '../utils/staffNeeds';
 
 // FASE 3.1: Advanced Validation Interfaces
 export interface ValidationCheck {
@@ -222,7 +223,24 @@ export const useAdvancedValidation = ({
         const shiftHours = shift.actualHours || 8;
 
         // Check role-based competencies
-        if (employee.role === 'junior') {
+        const roleId = getShiftRoleId(shift, employee);
+        const skill = employee.skills?.find(s => s.roleId === roleId);
+
+        if (shift.roleId && !hasSkill(employee, shift.roleId)) {
+          checks.push({
+            id: `competency-role-${shift.id}`,
+            name: 'Ruolo Non Abilitato',
+            type: 'competency',
+            severity: 'warning',
+            message: `Dipendente assegnato a un ruolo senza la competenza`,
+            details: `${employee.firstName} ${employee.lastName} non ha la competenza per il ruolo "${shift.roleId}"`,
+            affectedEmployeeId: employeeId,
+            affectedShiftId: shift.id,
+            suggestion: 'Aggiungere la competenza al dipendente o cambiare il ruolo del turno'
+          });
+        }
+
+        if (skill?.proficiency === 'junior') {
           if (shiftHours > 6) {
             checks.push({
               id: `competency-junior-hours-${shift.id}`,
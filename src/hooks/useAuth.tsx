@@ -1,5 +1,6 @@
 import React, { useState, useEffect, createContext, useContext, useCallback } from 'react';
 import { useLocalStorage } from './useLocalStorage';
+import { useRepository } from './useRepository';
 
 export interface UserProfile {
   id: string;
@@ -9,6 +10,7 @@ export interface UserProfile {
   role: 'admin' | 'manager' | 'user';
   custom_permissions: Permission[];
   assigned_store_ids: string[];
+  employee_id?: string; // Dipendente collegato (turni aperti, richieste personali)
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -147,7 +149,7 @@ const DEFAULT_PASSWORDS: Record<string, string> = {
 const AuthContext = createContext<AuthContextType | null>(null);
 
 export const useAuth = (): AuthContextType => {
-  const [users, setUsers] = useLocalStorage<UserProfile[]>('hr-auth-users', DEFAULT_USERS);
+  const [users, setUsers] = useRepository<UserProfile>('hr-auth-users', DEFAULT_USERS);
   const [currentSession, setCurrentSession] = useLocalStorage<{user: any; profile: UserProfile} | null>('hr-auth-session', null);
   
   const [state, setState] = useState<AuthState>({
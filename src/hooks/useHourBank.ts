@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useLocalStorage } from './useLocalStorage';
+import { useRepository } from './useRepository';
 import { useScheduleData } from './useScheduleData';
 import { 
   HourBankAccount, 
@@ -11,12 +11,14 @@ import {
   HourBankStatistics
 } from '../types/hourBank';
 import { Employee, Store, Shift } from '../types';
-import { getStartOfWeek, addDays } from '../utils/timeUtils';
+import { getStartOfWeek, addDays, getShiftWorkingHours } from '../utils/timeUtils';
+import { getHoliday, getHolidaysInRange } from '../utils/holidayCalendar';
+import { getContractRuleSet, getDueHoursForWeek, getEmployeeContractAt } from '../utils/contractRules';
 
 export const useHourBank = () => {
-  const [hourBankAccounts, setHourBankAccounts] = useLocalStorage<HourBankAccount[]>('hr-hour-bank-accounts', []);
-  const [hourBankEntries, setHourBankEntries] = useLocalStorage<HourBankEntry[]>('hr-hour-bank-entries', []);
-  const [recoveryRequests, setRecoveryRequests] = useLocalStorage<HourRecoveryRequest[]>('hr-recovery-requests', []);
+  const [hourBankAccounts, setHourBankAccounts] = useRepository<HourBankAccount>('hr-hour-bank-accounts', []);
+  const [hourBankEntries, setHourBankEntries] = useRepository<HourBankEntry>('hr-hour-bank-entries', []);
+  const [recoveryRequests, setRecoveryRequests] = useRepository<HourRecoveryRequest>('hr-recovery-requests', []);
   
   const [isCalculating, setIsCalculating] = useState(false);
   const [lastCalculation, setLastCalculation] = useState<Date | null>(null);
@@ -98,10 +100,32 @@ export const useHourBank = () => {
         for (const [weekKey, weekShifts] of employeeWeeks) {
           const weekStart = new Date(weekKey);
           const weekEnd = addDays(weekStart, 6);
+
+          // 📅 Contratto in vigore nella settimana: una modifica successiva non riscrive il passato
+          const weekContract = getEmployeeContractAt(employee, weekStart);
+
+          // 📑 Alcune tipologie (es. lavoro a chiamata) non maturano banca ore
+          const contractRules = getContractRuleSet(weekContract);
+          if (!contractRules.accruesHourBank) {
+            logs.push(`   ⏭️ ${weekStart.toLocaleDateString()}: ${contractRules.label}, esclusa dalla banca ore`);
+            continue;
+          }
           
           // Calcola ore effettive della settimana
-          const actualHours = weekShifts.reduce((sum, shift) => sum + shift.actualHours, 0);
-          const contractHours = employee.contractHours;
+          // Le ore dei turni spezzati vengono ricalcolate dai segmenti (intervallo escluso)
+          const actualHours = weekShifts.reduce((sum, shift) => sum + getShiftWorkingHours(shift), 0);
+          
+          // 🎉 Le festività infrasettimanali (lun-sab) riducono le ore dovute secondo la tipologia contrattuale
+          // (al netto della formazione degli apprendisti)
+          const employeeStore = stores.find(store => store.id === weekContract.storeId);
+          const holidayDates = getHolidaysInRange(weekStart, weekEnd, employeeStore)
+            .map(holiday => holiday.date)
+            .filter(date => date.getDay() !== 0);
+          const holidaysInWeek = holidayDates.length;
+          const contractHours = getDueHoursForWeek(employee, weekStart, holidayDates);
+          const holidayHours = weekShifts
+            .filter(shift => getHoliday(shift.date, employeeStore))
+            .reduce((sum, shift) => sum + getShiftWorkingHours(shift), 0);
           const difference = actualHours - contractHours;
           
           // Crea entry solo se c'è una differenza significativa (>= 0.5h)
@@ -109,14 +133,18 @@ export const useHourBank = () => {
             const entry: HourBankEntry = {
               id: crypto.randomUUID(),
               employeeId,
-              storeId: employee.storeId || '',
+              storeId: weekContract.storeId || '',
               weekStartDate: weekStart,
               weekEndDate: weekEnd,
               contractHours,
               actualHours: Number(actualHours.toFixed(1)),
               difference: Number(difference.toFixed(1)),
+              holidayHours: Number(holidayHours.toFixed(1)),
+              holidaysInWeek,
               type: difference > 0 ? 'excess' : 'deficit',
-              description: `Settimana ${weekStart.toLocaleDateString()}: ${actualHours.toFixed(1)}h lavorate vs ${contractHours}h contratto`,
+              description: `Settimana ${weekStart.toLocaleDateString()}: ${actualHours.toFixed(1)}h lavorate vs ${contractHours}h contratto` +
+                (holidaysInWeek > 0 ? ` (${holidaysInWeek} festività)` : '') +
+                (holidayHours > 0 ? `, di cui ${holidayHours.toFixed(1)}h in festivo` : ''),
               isProcessed: false,
               createdAt: new Date(),
               updatedAt: new Date()
@@ -1,88 +1,113 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import {
+  SettingKey,
+  SettingMigrationFailure,
+  getCurrentSettingVersion,
+  migrateSetting,
+  reviveSettingDates
+} from '../lib/schemaMigrations';
 
-// Hook semplificato per localStorage senza cross-tab sync
-export function useLocalStorage<T>(key: string, initialValue: T) {
+// Versione di schema registrata per ogni impostazione e valori non migrabili
+const SETTING_VERSIONS_KEY = 'hr-setting-versions';
+const SETTING_FAILURES_KEY = 'hr-setting-migration-failures';
+
+const serializeWithDates = (value: unknown) => JSON.stringify(value, (_key, val) => {
+  if (val instanceof Date && !isNaN(val.getTime())) {
+    return val.toISOString();
+  }
+  return val;
+});
+
+const readSettingVersions = (): Partial<Record<SettingKey, number>> =>
+  JSON.parse(window.localStorage.getItem(SETTING_VERSIONS_KEY) || '{}');
+
+const saveSettingVersion = (key: SettingKey) => {
+  const versions = readSettingVersions();
+  if (versions[key] === getCurrentSettingVersion(key)) return;
+  window.localStorage.setItem(SETTING_VERSIONS_KEY, JSON.stringify({ ...versions, [key]: getCurrentSettingVersion(key) }));
+};
+
+// Il valore non migrabile viene conservato nel report e rimosso dalla chiave
+const recordSettingFailure = (failure: SettingMigrationFailure) => {
+  const failures: SettingMigrationFailure[] = JSON.parse(window.localStorage.getItem(SETTING_FAILURES_KEY) || '[]');
+  window.localStorage.setItem(SETTING_FAILURES_KEY, serializeWithDates([...failures, { ...failure, recordedAt: new Date() }]));
+  window.localStorage.removeItem(failure.key);
+  console.warn(`⚠️ Impostazione "${failure.key}" non migrata alla versione ${failure.failedVersion}:`, failure.error);
+};
+
+/**
+ * 🧬 Lettura con migrazione: i valori salvati con una versione precedente attraversano
+ * i passi di schemaMigrations prima di essere usati. Restituisce undefined se assente o non migrabile.
+ */
+const loadSetting = <T>(key: SettingKey): T | undefined => {
+  const item = window.localStorage.getItem(key);
+  if (!item) return undefined;
+
+  const parsed = JSON.parse(item);
+  const fromVersion = readSettingVersions()[key] ?? 0;
+  if (fromVersion >= getCurrentSettingVersion(key)) {
+    return reviveSettingDates(key, parsed) as T;
+  }
+
+  const { value, failure } = migrateSetting(key, parsed, fromVersion);
+  if (failure) {
+    recordSettingFailure(failure);
+    return undefined;
+  }
+
+  window.localStorage.setItem(key, serializeWithDates(value));
+  saveSettingVersion(key);
+  console.log(`🧬 Impostazione "${key}": v${fromVersion} → v${getCurrentSettingVersion(key)}`);
+  return value as T;
+};
+
+// Hook semplificato per localStorage con sincronizzazione tra schede (evento "storage").
+// Solo per le impostazioni registrate in schemaMigrations: le collezioni di record usano useRepository
+export function useLocalStorage<T>(key: SettingKey, initialValue: T) {
   // Stato iniziale con caricamento dal localStorage
   const [storedValue, setStoredValue] = useState<T>(() => {
     try {
-      const item = window.localStorage.getItem(key);
-      if (item) {
-        
-        // Enhanced reviver function per gestire le date
-        const parsed = JSON.parse(item, (key, value) => {
-          const dateFields = ['date', 'createdAt', 'updatedAt', 'startDate', 'endDate', 'lockedAt'];
-          
-          if (typeof value === 'string') {
-            const isoDatePattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?([+-]\d{2}:\d{2}|Z)?$/;
-            
-            if (isoDatePattern.test(value) || dateFields.includes(key)) {
-              const dateObj = new Date(value);
-              if (!isNaN(dateObj.getTime())) {
-                return dateObj;
-              }
-            }
-          }
-          
-          return value;
-        });
-        
-        // Valida e pulisci i dati array
-        if (Array.isArray(parsed)) {
-          const cleanedArray = parsed.filter(item => {
-            if (!item || typeof item !== 'object') {
-              return false;
-            }
-            
-            if (key === 'hr-shifts' && (!item.id || !item.employeeId || !item.storeId)) {
-              return false;
-            }
-            
-            if (key === 'hr-employees' && (!item.id || !item.firstName || !item.lastName)) {
-              return false;
-            }
-            
-            if (key === 'hr-stores' && (!item.id || !item.name)) {
-              return false;
-            }
-            
-            return true;
-          });
-          
-          return cleanedArray as T;
-        }
-        
-        return parsed;
-      }
-      
-      return initialValue;
+      const stored = loadSetting<T>(key);
+      return stored === undefined ? initialValue : stored;
     } catch (error) {
       console.error(`❌ Error loading "${key}":`, error);
-      
+
       try {
         window.localStorage.removeItem(key);
       } catch (clearError) {
         console.error(`❌ Failed to clear data:`, clearError);
       }
-      
+
       return initialValue;
     }
   });
 
+  const initialRef = useRef(initialValue);
+
+  // 🔁 L'evento "storage" arriva solo alle altre schede: qui basta rileggere il valore
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage || event.key !== key) return;
+
+      try {
+        setStoredValue(event.newValue ? reviveSettingDates(key, JSON.parse(event.newValue) as T) : initialRef.current);
+      } catch (error) {
+        console.error(`❌ Error syncing "${key}":`, error);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [key]);
+
   const setValue = (value: T | ((val: T) => T)) => {
     try {
       const valueToStore = value instanceof Function ? value(storedValue) : value;
-      
-      // Serializzazione con conversione date
-      const serializedValue = JSON.stringify(valueToStore, (key, val) => {
-        if (val instanceof Date && !isNaN(val.getTime())) {
-          return val.toISOString();
-        }
-        return val;
-      });
-      
+
       setStoredValue(valueToStore);
-      window.localStorage.setItem(key, serializedValue);
-      
+      window.localStorage.setItem(key, serializeWithDates(valueToStore));
+      saveSettingVersion(key);
+
     } catch (error) {
       console.error(`❌ Error saving "${key}":`, error);
     }
@@ -91,26 +116,9 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
   // Funzione per refresh manuale dal localStorage
   const refreshFromStorage = () => {
     try {
-      const item = window.localStorage.getItem(key);
-      if (item) {
-        const parsed = JSON.parse(item, (key, value) => {
-          const dateFields = ['date', 'createdAt', 'updatedAt', 'startDate', 'endDate', 'lockedAt'];
-          
-          if (typeof value === 'string') {
-            const isoDatePattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?([+-]\d{2}:\d{2}|Z)?$/;
-            
-            if (isoDatePattern.test(value) || dateFields.includes(key)) {
-              const dateObj = new Date(value);
-              if (!isNaN(dateObj.getTime())) {
-                return dateObj;
-              }
-            }
-          }
-          
-          return value;
-        });
-        
-        setStoredValue(parsed);
+      const stored = loadSetting<T>(key);
+      if (stored !== undefined) {
+        setStoredValue(stored);
       }
     } catch (error) {
       console.error(`❌ Error refreshing "${key}":`, error);
@@ -118,4 +126,4 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
   };
 
   return [storedValue, setValue, refreshFromStorage] as const;
-}
\ No newline at end of file
+}
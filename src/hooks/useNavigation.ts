@@ -14,10 +14,14 @@ import {
   Shield,
   PieChart,
   Brain,
-  Activity
+  Activity,
+  Megaphone,
+  ArrowLeftRight,
+  Repeat,
+  GitBranch
 } from 'lucide-react';
 
-export type View = 'schedule' | 'timeline' | 'validation' | 'employees' | 'stores' | 'weekend-report' | 'unavailability' | 'hour-bank' | 'users' | 'workload-dashboard' | 'testing'; // | 'analytics'; // DISABLED: AI Analytics non era nella roadmap originale
+export type View = 'schedule' | 'timeline' | 'validation' | 'open-shifts' | 'shift-swaps' | 'rotations' | 'scenarios' | 'employees' | 'stores' | 'weekend-report' | 'unavailability' | 'hour-bank' | 'users' | 'workload-dashboard' | 'testing'; // | 'analytics'; // DISABLED: AI Analytics non era nella roadmap originale
 
 interface UseNavigationProps {
   profile: UserProfile | null;
@@ -64,6 +68,32 @@ export const useNavigation = ({ profile, hasPermission }: UseNavigationProps) =>
       permission: 'approve_requests',
       minRole: 'manager'
     },
+    {
+      id: 'open-shifts',
+      name: 'Turni Aperti',
+      icon: Megaphone,
+      minRole: 'user'
+    },
+    {
+      id: 'shift-swaps',
+      name: 'Scambi Turni',
+      icon: ArrowLeftRight,
+      minRole: 'user'
+    },
+    {
+      id: 'rotations',
+      name: 'Rotazioni',
+      icon: Repeat,
+      permission: 'manage_shifts',
+      minRole: 'manager'
+    },
+    {
+      id: 'scenarios',
+      name: 'Scenari',
+      icon: GitBranch,
+      permission: 'manage_shifts',
+      minRole: 'manager'
+    },
     { 
       id: 'weekend-report', 
       name: 'Report Weekend', 
@@ -0,0 +1,104 @@
+import { useRepository } from './useRepository';
+import { OpenShift, OpenShiftClaim } from '../types';
+
+type OpenShiftInput = Omit<OpenShift, 'id' | 'status' | 'claims' | 'filledShiftId' | 'createdAt' | 'updatedAt'>;
+
+// 📢 TURNI APERTI: pubblicazione, richieste dei dipendenti e decisioni del responsabile
+export const useOpenShifts = () => {
+  const [openShifts, setOpenShifts] = useRepository<OpenShift>('hr-open-shifts', []);
+
+  const updateOpenShift = (id: string, update: (openShift: OpenShift) => OpenShift) => {
+    setOpenShifts(prev => prev.map(openShift =>
+      openShift.id === id ? { ...update(openShift), updatedAt: new Date() } : openShift
+    ));
+  };
+
+  const updateClaim = (openShift: OpenShift, claimId: string, changes: Partial<OpenShiftClaim>): OpenShift => ({
+    ...openShift,
+    claims: openShift.claims.map(claim => claim.id === claimId ? { ...claim, ...changes } : claim)
+  });
+
+  const postOpenShift = (data: OpenShiftInput) => {
+    const openShift: OpenShift = {
+      ...data,
+      id: crypto.randomUUID(),
+      status: 'open',
+      claims: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    setOpenShifts(prev => [...prev, openShift]);
+    console.log('📢 Turno aperto pubblicato:', `${openShift.date.toLocaleDateString('it-IT')} ${openShift.startTime}-${openShift.endTime}`);
+    return openShift;
+  };
+
+  const cancelOpenShift = (id: string) => {
+    updateOpenShift(id, openShift => ({
+      ...openShift,
+      status: 'cancelled',
+      claims: openShift.claims.map(claim => claim.status === 'pending'
+        ? { ...claim, status: 'rejected', decidedAt: new Date(), decisionReason: 'Turno aperto annullato' }
+        : claim)
+    }));
+  };
+
+  const deleteOpenShift = (id: string) => {
+    setOpenShifts(prev => prev.filter(openShift => openShift.id !== id));
+  };
+
+  // 🙋 Una sola richiesta attiva per dipendente e turno
+  const claimOpenShift = (id: string, employeeId: string, note?: string) => {
+    updateOpenShift(id, openShift => {
+      if (openShift.status !== 'open' || openShift.claims.some(claim => claim.employeeId === employeeId && claim.status === 'pending')) {
+        return openShift;
+      }
+      const claim: OpenShiftClaim = {
+        id: crypto.randomUUID(),
+        employeeId,
+        status: 'pending',
+        requestedAt: new Date(),
+        note
+      };
+      return { ...openShift, claims: [...openShift.claims, claim] };
+    });
+  };
+
+  const withdrawClaim = (id: string, claimId: string) => {
+    updateOpenShift(id, openShift => updateClaim(openShift, claimId, { status: 'withdrawn', decidedAt: new Date() }));
+  };
+
+  const rejectClaim = (id: string, claimId: string, reason?: string) => {
+    updateOpenShift(id, openShift => updateClaim(openShift, claimId, {
+      status: 'rejected',
+      decidedAt: new Date(),
+      decisionReason: reason
+    }));
+  };
+
+  // ✅ Il turno creato chiude il turno aperto: le altre richieste in attesa vengono respinte
+  const markFilled = (id: string, claimId: string, shiftId: string) => {
+    updateOpenShift(id, openShift => ({
+      ...openShift,
+      status: 'filled',
+      filledShiftId: shiftId,
+      claims: openShift.claims.map(claim => {
+        if (claim.id === claimId) return { ...claim, status: 'approved', decidedAt: new Date() };
+        if (claim.status === 'pending') {
+          return { ...claim, status: 'rejected', decidedAt: new Date(), decisionReason: 'Turno assegnato a un altro dipendente' };
+        }
+        return claim;
+      })
+    }));
+  };
+
+  return {
+    openShifts,
+    postOpenShift,
+    cancelOpenShift,
+    deleteOpenShift,
+    claimOpenShift,
+    withdrawClaim,
+    rejectClaim,
+    markFilled
+  };
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EntityKey, StoredEntity, getRepository } from '../lib/repository';
+import { mergeRemoteChanges, publishEntityChanges, subscribeToEntityChanges } from '../lib/crossTabSync';
+
+// Hook per entità persistite tramite repository (IndexedDB con fallback localStorage).
+// Stessa firma di useLocalStorage: [valore, setValue, refresh]
+export function useRepository<T extends StoredEntity>(entity: EntityKey, initialValue: T[]) {
+  const [storedValue, setStoredValue] = useState<T[]>(initialValue);
+  const initialRef = useRef<T[]>(initialValue);
+  const latestValue = useRef<T[]>(initialValue);
+  const sourceId = useRef(crypto.randomUUID());
+
+  const refreshFromStorage = useCallback(async () => {
+    try {
+      const repository = await getRepository<T>(entity);
+      const items = await repository.getAll();
+
+      // Un repository vuoto non sovrascrive i valori di default
+      if (items.length > 0 || latestValue.current !== initialRef.current) {
+        latestValue.current = items;
+        setStoredValue(items);
+      }
+    } catch (error) {
+      console.error(`❌ Error loading "${entity}":`, error);
+    }
+  }, [entity]);
+
+  // Caricamento iniziale asincrono
+  useEffect(() => {
+    refreshFromStorage();
+  }, [refreshFromStorage]);
+
+  // 🔁 Modifiche arrivate da altre schede o da altri hook sulla stessa entità
+  useEffect(() => {
+    return subscribeToEntityChanges(message => {
+      if (message.entity !== entity || message.sourceId === sourceId.current) return;
+
+      const { merged, keptLocal } = mergeRemoteChanges(latestValue.current, message);
+      latestValue.current = merged;
+      setStoredValue(merged);
+
+      // La versione locale più recente va riscritta e notificata: il repository è condiviso
+      // tra le schede e quelle che hanno inviato la versione perdente devono allinearsi
+      if (keptLocal.length > 0) {
+        getRepository<T>(entity)
+          .then(repository => repository.saveMany(keptLocal))
+          .then(() => publishEntityChanges(entity, { upserts: keptLocal, deletions: [] }, sourceId.current))
+          .catch(error => console.error(`❌ Error saving "${entity}":`, error));
+      }
+    });
+  }, [entity]);
+
+  // Salva solo i record modificati: l'app aggiorna gli array in modo immutabile,
+  // quindi un record con riferimento diverso è un record modificato
+  const setValue = (value: T[] | ((val: T[]) => T[])) => {
+    const previous = latestValue.current;
+    const next = value instanceof Function ? value(previous) : value;
+
+    // I valori di default non sono mai stati salvati: alla prima scrittura vanno persistiti tutti
+    const persisted = previous === initialRef.current ? [] : previous;
+    const previousById = new Map(persisted.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+    const upserts = next.filter(item => previousById.get(item.id) !== item);
+    const deletions = persisted.filter(item => !nextIds.has(item.id)).map(item => item.id);
+
+    latestValue.current = next;
+    setStoredValue(next);
+
+    getRepository<T>(entity)
+      .then(repository => repository.applyChanges({ upserts, deletions }))
+      .then(() => publishEntityChanges(entity, { upserts, deletions }, sourceId.current))
+      .catch(error => console.error(`❌ Error saving "${entity}":`, error));
+  };
+
+  return [storedValue, setValue, refreshFromStorage] as const;
+}
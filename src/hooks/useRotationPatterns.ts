@@ -0,0 +1,67 @@
+import { useRepository } from './useRepository';
+import { RotationAssignment, RotationPattern } from '../types';
+
+type RotationPatternInput = Omit<RotationPattern, 'id' | 'createdAt' | 'updatedAt'>;
+type RotationAssignmentInput = Omit<RotationAssignment, 'id' | 'createdAt' | 'updatedAt'>;
+
+// 🔁 ROTAZIONI: sequenze di settimane tipo e loro assegnazione a dipendenti o gruppi
+export const useRotationPatterns = () => {
+  const [patterns, setPatterns] = useRepository<RotationPattern>('hr-rotation-patterns', []);
+  const [assignments, setAssignments] = useRepository<RotationAssignment>('hr-rotation-assignments', []);
+
+  const addPattern = (data: RotationPatternInput) => {
+    const pattern: RotationPattern = {
+      ...data,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    setPatterns(prev => [...prev, pattern]);
+    console.log('🔁 Rotazione creata:', pattern.name, `(${pattern.weeks.length} settimane)`);
+    return pattern;
+  };
+
+  const updatePattern = (id: string, updates: Partial<RotationPatternInput>) => {
+    setPatterns(prev => prev.map(pattern =>
+      pattern.id === id ? { ...pattern, ...updates, updatedAt: new Date() } : pattern
+    ));
+  };
+
+  // Eliminando una rotazione si eliminano anche le sue assegnazioni
+  const deletePattern = (id: string) => {
+    setPatterns(prev => prev.filter(pattern => pattern.id !== id));
+    setAssignments(prev => prev.filter(assignment => assignment.patternId !== id));
+  };
+
+  const addAssignment = (data: RotationAssignmentInput) => {
+    const assignment: RotationAssignment = {
+      ...data,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    setAssignments(prev => [...prev, assignment]);
+    return assignment;
+  };
+
+  const updateAssignment = (id: string, updates: Partial<RotationAssignmentInput>) => {
+    setAssignments(prev => prev.map(assignment =>
+      assignment.id === id ? { ...assignment, ...updates, updatedAt: new Date() } : assignment
+    ));
+  };
+
+  const deleteAssignment = (id: string) => {
+    setAssignments(prev => prev.filter(assignment => assignment.id !== id));
+  };
+
+  return {
+    patterns,
+    assignments,
+    addPattern,
+    updatePattern,
+    deletePattern,
+    addAssignment,
+    updateAssignment,
+    deleteAssignment
+  };
+};
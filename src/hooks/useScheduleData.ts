@@ -1,7 +1,17 @@
 import { useState, useEffect } from 'react';
 import { Employee, Store, Shift, EmployeeUnavailability } from '../types';
+import { CCNLViolation } from '../types/ccnl';
 import { ccnlValidator } from '../utils/ccnlValidation';
-import { useLocalStorage } from './useLocalStorage';
+import { useRepository } from './useRepository';
+import { useUndoRedo, UndoableEntity, UndoableRecord } from './useUndoRedo';
+import { calculateWorkingHours, calculateSegmentedWorkingHours } from '../utils/timeUtils';
+import { applyContractChange, getContractTerms, getEmployeeContractAt } from '../utils/contractRules';
+
+// Turno rifiutato in una creazione in blocco, con i motivi da riportare in un unico avviso
+export interface ShiftBatchRejection {
+  shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>;
+  reasons: string[];
+}
 
 // Hook per rilevare quando l'app diventa visibile (cambio tab)
 const useVisibilityChange = () => {
@@ -23,10 +33,34 @@ const useVisibilityChange = () => {
 };
 
 export const useScheduleData = () => {
-  const [employees, setEmployees, refreshEmployees] = useLocalStorage<Employee[]>('hr-employees', []);
-  const [stores, setStores, refreshStores] = useLocalStorage<Store[]>('hr-stores', []);
-  const [shifts, setShifts, refreshShifts] = useLocalStorage<Shift[]>('hr-shifts', []);
-  const [unavailabilities, setUnavailabilities, refreshUnavailabilities] = useLocalStorage<EmployeeUnavailability[]>('hr-unavailabilities', []);
+  const [employees, setEmployeesRaw, refreshEmployees] = useRepository<Employee>('hr-employees', []);
+  const [stores, setStoresRaw, refreshStores] = useRepository<Store>('hr-stores', []);
+  const [shifts, setShiftsRaw, refreshShifts] = useRepository<Shift>('hr-shifts', []);
+  const [unavailabilities, setUnavailabilitiesRaw, refreshUnavailabilities] = useRepository<EmployeeUnavailability>('hr-unavailabilities', []);
+
+  // ↩️ Cronologia annulla/ripristina: le modifiche passano dai setter tracciati
+  const history = useUndoRedo({
+    employees: update => setEmployeesRaw(prev => update(prev) as Employee[]),
+    stores: update => setStoresRaw(prev => update(prev) as Store[]),
+    shifts: update => setShiftsRaw(prev => update(prev) as Shift[]),
+    unavailabilities: update => setUnavailabilitiesRaw(prev => update(prev) as EmployeeUnavailability[])
+  });
+
+  const trackedSetter = <T extends UndoableRecord>(
+    entity: UndoableEntity,
+    setter: (value: (prev: T[]) => T[]) => void
+  ) => (value: T[] | ((prev: T[]) => T[])) => {
+    setter(prev => {
+      const next = value instanceof Function ? value(prev) : value;
+      history.track(entity, prev, next);
+      return next;
+    });
+  };
+
+  const setEmployees = trackedSetter<Employee>('employees', setEmployeesRaw);
+  const setStores = trackedSetter<Store>('stores', setStoresRaw);
+  const setShifts = trackedSetter<Shift>('shifts', setShiftsRaw);
+  const setUnavailabilities = trackedSetter<EmployeeUnavailability>('unavailabilities', setUnavailabilitiesRaw);
 
   // Force initial data load on mount (only once)
   useEffect(() => {
@@ -38,9 +72,9 @@ export const useScheduleData = () => {
 
   // Sistema di recupero automatico rimosso per evitare conflitti
 
-  // Function to refresh all data from localStorage
+  // Function to refresh all data from storage
   const refreshAllData = () => {
-    console.log(`🔄 REFRESH ALL DATA - Reloading from localStorage`);
+    console.log(`🔄 REFRESH ALL DATA - Reloading from storage`);
     console.log(`📊 Current employees in memory before refresh:`, employees.length);
     refreshEmployees();
     refreshStores();
@@ -239,9 +273,12 @@ export const useScheduleData = () => {
     console.log('🗑️ Deleting store:', id);
     setStores(prev => prev.filter(store => store.id !== id));
     setShifts(prev => prev.filter(shift => shift.storeId !== id));
-    setEmployees(prev => prev.map(emp => 
-      emp.storeId === id ? { ...emp, storeId: undefined } : emp
-    ));
+    // Il negozio eliminato esce dallo storico contrattuale da oggi, non dai periodi passati
+    setEmployees(prev => prev.map(emp => {
+      const currentTerms = getContractTerms(getEmployeeContractAt(emp, new Date()));
+      if (currentTerms.storeId !== id) return emp;
+      return { ...emp, ...applyContractChange(emp, { ...currentTerms, storeId: undefined }, new Date()), updatedAt: new Date() };
+    }));
   };
 
   const addUnavailability = (unavailability: Omit<EmployeeUnavailability, 'id' | 'createdAt' | 'updatedAt'>) => {
@@ -268,6 +305,39 @@ export const useScheduleData = () => {
     setUnavailabilities(prev => prev.filter(unavail => unavail.id !== id));
   };
 
+  // 🧒 TUTELE MINORI: violazioni di legge del turno risultante da una modifica
+  const getMinorProtectionViolations = (candidate: Shift) => {
+    const employee = employees.find(e => e.id === candidate.employeeId);
+    if (!employee) return [];
+    const employeeShifts = shifts.filter(s => s.employeeId === employee.id && s.id !== candidate.id);
+    return ccnlValidator.validateMinorProtections(candidate, employee, employeeShifts);
+  };
+
+  const alertMinorProtectionViolations = (violations: CCNLViolation[]) => {
+    console.error('❌ MINOR PROTECTION VIOLATION: shift change rejected:', violations);
+    alert(`🧒 TUTELA LAVORATORI MINORENNI\n\nModifica non consentita:\n\n${violations.map(v => `${v.description} (${v.articleReference})`).join('\n')}`);
+  };
+
+  // 🏛️ Violazioni CCNL bloccanti del turno rispetto ai turni già presenti
+  const getBlockingViolations = (shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>, existingShifts: Shift[]) => {
+    const employee = employees.find(e => e.id === shift.employeeId);
+    if (!employee) return [];
+
+    const store = stores.find(s => s.id === shift.storeId);
+    const employeeShifts = existingShifts.filter(s => s.employeeId === employee.id);
+    const { canAssign, violations } = ccnlValidator.canAssignShiftSafely(shift, employee, employeeShifts, store);
+    return canAssign ? [] : violations.filter(v => v.severity === 'critical');
+  };
+
+  const createShiftRecord = (shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>): Shift => ({
+    ...shift,
+    id: crypto.randomUUID(),
+    date: shift.date instanceof Date ? shift.date : new Date(shift.date),
+    isLocked: shift.isLocked || false,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
   const addShift = (shift: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>) => {
     if (!validateShiftData(shift)) {
       console.error('❌ Cannot add invalid shift data');
@@ -275,33 +345,17 @@ export const useScheduleData = () => {
     }
     
     // 🏛️ VERIFICA CCNL COMPLIANCE PRIMA DELL'AGGIUNTA
-    const employee = employees.find(e => e.id === shift.employeeId);
-    const store = stores.find(s => s.id === shift.storeId);
-    if (employee) {
-      const employeeShifts = shifts.filter(s => s.employeeId === employee.id);
-      const { canAssign, violations } = ccnlValidator.canAssignShiftSafely(shift, employee, employeeShifts, store);
+    const criticalViolations = getBlockingViolations(shift, shifts);
+    if (criticalViolations.length > 0) {
+      console.error('❌ CCNL VIOLATION: Cannot add shift due to mandatory rest period violations:', criticalViolations);
       
-      if (!canAssign) {
-        const criticalViolations = violations.filter(v => v.severity === 'critical');
-        if (criticalViolations.length > 0) {
-          console.error('❌ CCNL VIOLATION: Cannot add shift due to mandatory rest period violations:', criticalViolations);
-          
-          // Show user-friendly error
-          const violationMessages = criticalViolations.map(v => v.description).join('\n');
-          alert(`🏛️ VIOLAZIONE CCNL del Commercio\n\nImpossibile assegnare il turno:\n\n${violationMessages}\n\nIl sistema non può violare i riposi obbligatori previsti dalla normativa.`);
-          return null;
-        }
-      }
+      // Show user-friendly error
+      const violationMessages = criticalViolations.map(v => v.description).join('\n');
+      alert(`🏛️ VIOLAZIONE CCNL del Commercio\n\nImpossibile assegnare il turno:\n\n${violationMessages}\n\nIl sistema non può violare i riposi obbligatori previsti dalla normativa.`);
+      return null;
     }
     
-    const newShift: Shift = {
-      ...shift,
-      id: crypto.randomUUID(),
-      date: shift.date instanceof Date ? shift.date : new Date(shift.date),
-      isLocked: shift.isLocked || false,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+    const newShift = createShiftRecord(shift);
     
     console.log('➕ Adding new shift:', {
       id: newShift.id,
@@ -319,6 +373,39 @@ export const useScheduleData = () => {
     return newShift;
   };
 
+  /**
+   * 📦 Creazione in blocco: ogni turno è validato contro quelli esistenti e quelli già accettati
+   * nello stesso blocco (es. chiusura domenica e apertura lunedì di due settimane di rotazione).
+   * Nessun avviso per turno: i rifiuti tornano al chiamante, allineati all'ordine ricevuto.
+   */
+  const addShifts = (batch: Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>[]) => {
+    const accepted: Shift[] = [];
+    const rejections: ShiftBatchRejection[] = [];
+
+    const results = batch.map(shift => {
+      if (!validateShiftData(shift)) {
+        rejections.push({ shift, reasons: ['Dati del turno non validi'] });
+        return null;
+      }
+
+      const criticalViolations = getBlockingViolations(shift, [...shifts, ...accepted]);
+      if (criticalViolations.length > 0) {
+        rejections.push({ shift, reasons: criticalViolations.map(v => v.description) });
+        return null;
+      }
+
+      const newShift = createShiftRecord(shift);
+      accepted.push(newShift);
+      return newShift;
+    });
+
+    if (accepted.length > 0) {
+      setShifts(prev => [...prev, ...accepted]);
+    }
+    console.log(`➕ Batch shifts: ${accepted.length} added, ${rejections.length} rejected`, rejections);
+    return { results, rejections };
+  };
+
   // COMPLETELY REWRITTEN updateShift function with robust error handling
   const updateShift = (id: string | any, updates: Partial<Shift>) => {
     // Handle case where entire shift object is passed as ID (common error case)
@@ -351,20 +438,23 @@ export const useScheduleData = () => {
     }
     
     // 🔧 AUTOMATIC HOURS RECALCULATION when time or break changes
-    if (actualUpdates.startTime || actualUpdates.endTime || actualUpdates.breakDuration !== undefined) {
+    if (actualUpdates.startTime || actualUpdates.endTime || actualUpdates.breakDuration !== undefined || 'segments' in actualUpdates) {
       const existingShift = shifts.find(shift => shift.id === actualId);
       if (existingShift) {
+        // ✂️ Orari modificati senza segmenti: il turno torna continuo
+        if ((actualUpdates.startTime || actualUpdates.endTime) && !('segments' in actualUpdates)) {
+          actualUpdates.segments = undefined;
+        }
+        
+        const segments = 'segments' in actualUpdates ? actualUpdates.segments : existingShift.segments;
         const startTime = actualUpdates.startTime || existingShift.startTime;
         const endTime = actualUpdates.endTime || existingShift.endTime;
         const breakDuration = actualUpdates.breakDuration !== undefined ? actualUpdates.breakDuration : existingShift.breakDuration;
         
-        // Recalculate hours automatically
-        const [startHour, startMin] = startTime.split(':').map(Number);
-        const [endHour, endMin] = endTime.split(':').map(Number);
-        const startTotalMin = startHour * 60 + startMin;
-        const endTotalMin = endHour * 60 + endMin;
-        const workingMinutes = Math.max(0, endTotalMin - startTotalMin - Number(breakDuration));
-        const recalculatedHours = workingMinutes / 60;
+        // Recalculate hours automatically (overnight and split shifts included)
+        const recalculatedHours = segments && segments.length > 1
+          ? Math.max(0, calculateSegmentedWorkingHours(segments, Number(breakDuration)))
+          : Math.max(0, calculateWorkingHours(startTime, endTime, Number(breakDuration)));
         
         actualUpdates.actualHours = recalculatedHours;
         
@@ -378,6 +468,19 @@ export const useScheduleData = () => {
       }
     }
     
+    const currentShift = shifts.find(shift => shift.id === actualId);
+    if (currentShift) {
+      const minorViolations = getMinorProtectionViolations({
+        ...currentShift,
+        ...actualUpdates,
+        date: actualUpdates.date ? new Date(actualUpdates.date) : currentShift.date
+      });
+      if (minorViolations.length > 0) {
+        alertMinorProtectionViolations(minorViolations);
+        return;
+      }
+    }
+    
     setShifts(prev => {
       // Filter out null/undefined elements first to prevent array corruption
       const validShifts = prev.filter(shift => shift && shift.id);
@@ -525,8 +628,25 @@ export const useScheduleData = () => {
   };
 
   // NEW: Bulk update function to handle multiple shifts atomically
-  const updateShifts = (updates: { id: string; data: Partial<Shift> }[]) => {
-    console.log('🔄 BULK UPDATE - Starting batch update for', updates.length, 'shifts');
+  const updateShifts = (requestedUpdates: { id: string; data: Partial<Shift> }[]) => {
+    console.log('🔄 BULK UPDATE - Starting batch update for', requestedUpdates.length, 'shifts');
+
+    // 🧒 Le modifiche che violano le tutele dei minorenni vengono scartate, le altre applicate
+    const rejectedViolations: CCNLViolation[] = [];
+    const updates = requestedUpdates.filter(({ id, data }) => {
+      const currentShift = shifts.find(shift => shift.id === id);
+      if (!currentShift) return true;
+      const violations = getMinorProtectionViolations({
+        ...currentShift,
+        ...data,
+        date: data.date ? new Date(data.date) : currentShift.date
+      });
+      rejectedViolations.push(...violations);
+      return violations.length === 0;
+    });
+    if (rejectedViolations.length > 0) {
+      alertMinorProtectionViolations(rejectedViolations);
+    }
 
     setShifts(prev => {
       const validShifts = prev.filter(shift => shift && shift.id);
@@ -597,6 +717,7 @@ export const useScheduleData = () => {
     updateStore,
     deleteStore,
     addShift,
+    addShifts, // 📦 Creazione in blocco con validazione cumulativa
     updateShift,
     updateShifts, // 🆕 New bulk update function
     deleteShift,
@@ -604,6 +725,15 @@ export const useScheduleData = () => {
     updateUnavailability,
     deleteUnavailability,
     clearAllData,
-    refreshAllData // 🆕 Manual refresh function
+    refreshAllData, // 🆕 Manual refresh function
+    history: {
+      undo: history.undo,
+      redo: history.redo,
+      canUndo: history.canUndo,
+      canRedo: history.canRedo,
+      undoLabel: history.undoLabel,
+      redoLabel: history.redoLabel,
+      runAsCommand: history.runAsCommand
+    }
   };
 };
\ No newline at end of file
@@ -0,0 +1,90 @@
+import { useRepository } from './useRepository';
+import { ScheduleScenario, Shift, Store } from '../types';
+import { forkScenarioShifts } from '../utils/scheduleScenarios';
+import { getStartOfWeek } from '../utils/timeUtils';
+
+interface ScenarioInput {
+  name: string;
+  description?: string;
+  createdBy?: string;
+}
+
+// 🧪 SCENARI: bozze alternative della settimana di un negozio, separate dai turni reali
+export const useScheduleScenarios = () => {
+  const [scenarios, setScenarios] = useRepository<ScheduleScenario>('hr-schedule-scenarios', []);
+
+  const createScenario = (data: ScenarioInput, store: Store, weekStart: Date, liveShifts: Shift[]) => {
+    // Solo i turni copiati nello scenario: quelli annullati non vanno eliminati alla promozione
+    const shifts = forkScenarioShifts(liveShifts, store.id, weekStart);
+    const scenario: ScheduleScenario = {
+      ...data,
+      id: crypto.randomUUID(),
+      storeId: store.id,
+      weekStart: getStartOfWeek(weekStart),
+      shifts,
+      sourceShiftIds: shifts.map(shift => shift.id),
+      status: 'draft',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    setScenarios(prev => [...prev, scenario]);
+    console.log('🧪 Scenario creato:', scenario.name, `(${scenario.shifts.length} turni)`);
+    return scenario;
+  };
+
+  // Duplicato di uno scenario: stessi riferimenti ai turni reali, turni modificabili a parte
+  const duplicateScenario = (id: string, name: string) => {
+    const source = scenarios.find(scenario => scenario.id === id);
+    if (!source) return null;
+
+    const scenario: ScheduleScenario = {
+      ...source,
+      id: crypto.randomUUID(),
+      name,
+      shifts: source.shifts.map(shift => ({ ...shift, date: new Date(shift.date) })),
+      status: 'draft',
+      promotedAt: undefined,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    setScenarios(prev => [...prev, scenario]);
+    return scenario;
+  };
+
+  const updateScenario = (id: string, updates: Partial<Pick<ScheduleScenario, 'name' | 'description'>>) => {
+    setScenarios(prev => prev.map(scenario =>
+      scenario.id === id ? { ...scenario, ...updates, updatedAt: new Date() } : scenario
+    ));
+  };
+
+  // Le modifiche ai turni riportano lo scenario in bozza
+  const updateScenarioShifts = (id: string, update: (shifts: Shift[]) => Shift[]) => {
+    setScenarios(prev => prev.map(scenario =>
+      scenario.id === id
+        ? { ...scenario, shifts: update(scenario.shifts), status: 'draft', updatedAt: new Date() }
+        : scenario
+    ));
+  };
+
+  const markScenarioPromoted = (id: string) => {
+    setScenarios(prev => prev.map(scenario =>
+      scenario.id === id
+        ? { ...scenario, status: 'promoted', promotedAt: new Date(), updatedAt: new Date() }
+        : scenario
+    ));
+  };
+
+  const deleteScenario = (id: string) => {
+    setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+  };
+
+  return {
+    scenarios,
+    createScenario,
+    duplicateScenario,
+    updateScenario,
+    updateScenarioShifts,
+    markScenarioPromoted,
+    deleteScenario
+  };
+};
@@ -0,0 +1,34 @@
+import { useRepository } from './useRepository';
+import { ScheduleVersion, Shift } from '../types';
+import { captureShiftSnapshot, getLatestVersion, getPublishedWeekShifts } from '../utils/scheduleVersions';
+import { getStartOfWeek } from '../utils/timeUtils';
+
+// 📢 VERSIONI PUBBLICATE: ogni pubblicazione aggiunge un'istantanea, quelle esistenti non si modificano
+export const useScheduleVersions = () => {
+  const [versions, setVersions] = useRepository<ScheduleVersion>('hr-schedule-versions', []);
+
+  const publishScheduleVersion = (storeId: string, weekStart: Date, shifts: Shift[], publishedBy: string, note?: string) => {
+    const weekShifts = getPublishedWeekShifts(shifts, storeId, weekStart);
+    const latest = getLatestVersion(versions, storeId, weekStart);
+
+    const version: ScheduleVersion = {
+      id: crypto.randomUUID(),
+      storeId,
+      weekStart: getStartOfWeek(weekStart),
+      version: (latest?.version || 0) + 1,
+      shifts: weekShifts.map(captureShiftSnapshot),
+      totalHours: Number(weekShifts.reduce((sum, shift) => sum + shift.actualHours, 0).toFixed(2)),
+      publishedBy,
+      publishedAt: new Date(),
+      note
+    };
+    setVersions(prev => [...prev, version]);
+    console.log('📢 Versione pubblicata:', `v${version.version}`, `(${version.shifts.length} turni)`);
+    return version;
+  };
+
+  return {
+    versions,
+    publishScheduleVersion
+  };
+};
@@ -213,69 +213,6 @@ export const useSchedulingAI = ({
     }
   ], []);
 
-  // 🤖 AI SCHEDULING OPTIMIZER
-  const generateOptimizedSchedule = useCallback((baseShifts: Shift[]): Shift[] => {
-    const cacheKey = generateCacheKey('optimization', { baseShifts: baseShifts.length });
-
-    // Check cache first
-    const cached = getCachedData<Shift[]>('optimizedSchedule', cacheKey);
-    if (cached) {
-      console.log('🤖 AI: Using cached optimized schedule');
-      return cached;
-    }
-
-    console.log('🤖 AI: Generating optimized schedule...');
-
-    // Clone shifts for optimization
-    let optimizedShifts = baseShifts.map(shift => ({ ...shift }));
-
-    // Apply genetic algorithm simulation
-    for (let generation = 0; generation < 10; generation++) {
-      optimizedShifts = optimizedShifts.map(shift => {
-        const employee = employees.find(e => e.id === shift.employeeId);
-        if (!employee) return shift;
-
-        // Evaluate current assignment
-        const currentScore = constraints.reduce((score, constraint) => {
-          const result = constraint.validate(shift, employee, optimizedShifts);
-          return score + (result.score * constraint.weight / 100);
-        }, 0);
-
-        // Try alternative assignments with probability
-        if (Math.random() > 0.8 && currentScore < 80) {
-          const alternativeEmployees = employees.filter(e =>
-            e.storeId === employee.storeId &&
-            e.id !== employee.id
-          );
-
-          if (alternativeEmployees.length > 0) {
-            const bestAlternative = alternativeEmployees.reduce((best, alt) => {
-              const altScore = constraints.reduce((score, constraint) => {
-                const result = constraint.validate(shift, alt, optimizedShifts);
-                return score + (result.score * constraint.weight / 100);
-              }, 0);
-
-              return altScore > best.score ? { employee: alt, score: altScore } : best;
-            }, { employee: employee, score: currentScore });
-
-            if (bestAlternative.score > currentScore + 10) {
-              return { ...shift, employeeId: bestAlternative.employee.id };
-            }
-          }
-        }
-
-        return shift;
-      });
-    }
-
-    console.log('🤖 AI: Schedule optimization completed');
-
-    // Cache the result
-    setCachedData('optimizedSchedule', cacheKey, optimizedShifts);
-
-    return optimizedShifts;
-  }, [employees, constraints, generateCacheKey, getCachedData, setCachedData]);
-
   // 📊 PREDICTIVE ANALYTICS
   const generateWorkloadPredictions = useCallback((): WorkloadPrediction[] => {
     const cacheKey = generateCacheKey('predictions');
@@ -563,7 +500,6 @@ export const useSchedulingAI = ({
 
   return {
     // AI Functions
-    generateOptimizedSchedule,
     generateWorkloadPredictions,
     detectSchedulingAnomalies,
     generateIntelligentSuggestions,
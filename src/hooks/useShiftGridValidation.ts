@@ -2,6 +2,8 @@ import { useMemo } from 'react';
 import { Store, Shift, Employee } from '../types';
 import { ShiftGridValidationResult, ValidationAdminSettings } from '../types/validation';
 import { validateShiftGrid } from '../utils/shiftGridValidation';
+import { calculateStaffNeeds } from '../utils/staffNeeds';
+import { useStaffPlanning } from './useStaffPlanning';
 
 interface UseShiftGridValidationProps {
   store: Store;
@@ -18,6 +20,12 @@ export const useShiftGridValidation = ({
   weekStart,
   adminSettings
 }: UseShiftGridValidationProps) => {
+  const { staffRequirements, weightingEvents, staffRoles } = useStaffPlanning();
+
+  // Le competenze cambiano il ruolo con cui i turni contano nella copertura
+  const employeeSkillsKey = employees
+    .map(e => `${e.id}:${(e.skills || []).map(skill => `${skill.roleId}${skill.isPrimary ? '*' : ''}`).join('|')}`)
+    .join(',');
 
   // Memoizza il risultato della validazione per evitare ricalcoli inutili
   const validationResult: ShiftGridValidationResult = useMemo(() => {
@@ -59,7 +67,10 @@ export const useShiftGridValidation = ({
       staffRequirements: store.staffRequirements?.length || 0
     });
     
-    const result = validateShiftGrid(store, shifts, employees, weekStart, adminSettings);
+    const result = validateShiftGrid(store, shifts, employees, weekStart, adminSettings, {
+      getStaffNeeds: date => calculateStaffNeeds(staffRequirements, weightingEvents, store.id, date),
+      roles: staffRoles
+    });
     
     const endTime = performance.now();
     console.log(`⚡ Validazione completata in ${(endTime - startTime).toFixed(2)}ms`);
@@ -72,8 +83,12 @@ export const useShiftGridValidation = ({
     store.closureDays,
     store.staffRequirements,
     shifts.length,
-    shifts.map(s => `${s.id}-${s.startTime}-${s.endTime}-${s.date.toISOString()}`).join(','),
+    shifts.map(s => `${s.id}-${s.startTime}-${s.endTime}-${s.date.toISOString()}-${s.roleId || ''}`).join(','),
     employees.length,
+    employeeSkillsKey,
+    staffRequirements,
+    weightingEvents,
+    staffRoles,
     weekStart.toISOString(),
     adminSettings?.enabled,
     adminSettings?.enableRealTimeValidation,
@@ -0,0 +1,85 @@
+import { useRepository } from './useRepository';
+import { ShiftSwapRequest } from '../types';
+
+type ShiftSwapOffer = Pick<ShiftSwapRequest, 'requesterId' | 'requesterShiftId' | 'targetEmployeeId' | 'note'>;
+
+// 🔄 SCAMBI TURNI: offerta del dipendente, accettazione del collega e decisione del responsabile
+export const useShiftSwaps = () => {
+  const [swapRequests, setSwapRequests] = useRepository<ShiftSwapRequest>('hr-shift-swaps', []);
+
+  const updateSwapRequest = (id: string, update: (request: ShiftSwapRequest) => ShiftSwapRequest) => {
+    setSwapRequests(prev => prev.map(request =>
+      request.id === id ? { ...update(request), updatedAt: new Date() } : request
+    ));
+  };
+
+  // Un turno può comparire in una sola offerta attiva
+  const isShiftInActiveSwap = (shiftId: string) => swapRequests.some(request =>
+    (request.status === 'offered' || request.status === 'accepted') &&
+    (request.requesterShiftId === shiftId || request.accepterShiftId === shiftId)
+  );
+
+  const offerSwap = (data: ShiftSwapOffer): ShiftSwapRequest | null => {
+    if (isShiftInActiveSwap(data.requesterShiftId)) {
+      return null;
+    }
+    const request: ShiftSwapRequest = {
+      ...data,
+      id: crypto.randomUUID(),
+      status: 'offered',
+      requestedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    setSwapRequests(prev => [...prev, request]);
+    console.log('🔄 Scambio turno offerto:', request.requesterShiftId);
+    return request;
+  };
+
+  const acceptSwap = (id: string, accepterId: string, accepterShiftId?: string) => {
+    updateSwapRequest(id, request => {
+      if (request.status !== 'offered' || request.requesterId === accepterId) return request;
+      return { ...request, status: 'accepted', accepterId, accepterShiftId, acceptedAt: new Date() };
+    });
+  };
+
+  // Il collega ritira l'accettazione: l'offerta torna disponibile per tutti i destinatari
+  const withdrawAcceptance = (id: string) => {
+    updateSwapRequest(id, request => request.status !== 'accepted' ? request : {
+      ...request,
+      status: 'offered',
+      accepterId: undefined,
+      accepterShiftId: undefined,
+      acceptedAt: undefined
+    });
+  };
+
+  const cancelSwap = (id: string) => {
+    updateSwapRequest(id, request => ({ ...request, status: 'cancelled', decidedAt: new Date() }));
+  };
+
+  const approveSwap = (id: string, decidedBy: string) => {
+    updateSwapRequest(id, request => ({ ...request, status: 'approved', decidedAt: new Date(), decidedBy }));
+  };
+
+  const rejectSwap = (id: string, decidedBy: string, reason?: string) => {
+    updateSwapRequest(id, request => ({
+      ...request,
+      status: 'rejected',
+      decidedAt: new Date(),
+      decidedBy,
+      decisionReason: reason
+    }));
+  };
+
+  return {
+    swapRequests,
+    isShiftInActiveSwap,
+    offerSwap,
+    acceptSwap,
+    withdrawAcceptance,
+    cancelSwap,
+    approveSwap,
+    rejectSwap
+  };
+};
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { ShiftTemplate, Shift } from '../types';
-import { useLocalStorage } from './useLocalStorage';
+import { useRepository } from './useRepository';
+import { formatShiftTimes, getShiftSegments, isSplitShift } from '../utils/timeUtils';
 
 const defaultTemplates: ShiftTemplate[] = [
   // TEMPLATE APERTURA (06:00 - 12:00)
@@ -95,6 +96,22 @@ const defaultTemplates: ShiftTemplate[] = [
     createdAt: new Date()
   },
 
+  {
+    id: 'spezzato-classico',
+    name: 'Spezzato Classico',
+    startTime: '09:00',
+    endTime: '20:00',
+    breakDuration: 0,
+    segments: [
+      { startTime: '09:00', endTime: '13:00' },
+      { startTime: '16:00', endTime: '20:00' }
+    ],
+    description: 'Turno spezzato 9-13 / 16-20 con intervallo non retribuito',
+    category: 'mediano',
+    usageCount: 0,
+    createdAt: new Date()
+  },
+
   // TEMPLATE CHIUSURA (17:00 - 24:00)
   {
     id: 'chiusura-serale',
@@ -143,14 +160,14 @@ const defaultTemplates: ShiftTemplate[] = [
 ];
 
 export const useShiftTemplates = () => {
-  const [templates, setTemplates] = useLocalStorage<ShiftTemplate[]>('hr-shift-templates', defaultTemplates);
+  const [templates, setTemplates] = useRepository<ShiftTemplate>('hr-shift-templates', defaultTemplates);
 
   // Analizza i turni esistenti per creare template automatici
   const analyzeShiftsForTemplates = (shifts: Shift[]) => {
     const shiftPatterns = new Map<string, { count: number; shift: Omit<ShiftTemplate, 'id' | 'name' | 'createdAt' | 'usageCount'> }>();
 
     shifts.forEach(shift => {
-      const pattern = `${shift.startTime}-${shift.endTime}-${shift.breakDuration}`;
+      const pattern = `${formatShiftTimes(shift)}-${shift.breakDuration}`;
       const existing = shiftPatterns.get(pattern);
       
       if (existing) {
@@ -162,6 +179,7 @@ export const useShiftTemplates = () => {
             startTime: shift.startTime,
             endTime: shift.endTime,
             breakDuration: shift.breakDuration,
+            segments: isSplitShift(shift) ? getShiftSegments(shift) : undefined,
             description: `Template auto-generato da pattern ricorrente`,
             category: determineCategory(shift.startTime, shift.endTime)
           }
@@ -174,15 +192,14 @@ export const useShiftTemplates = () => {
     shiftPatterns.forEach((data, pattern) => {
       if (data.count >= 5) {
         const existingTemplate = templates.find(t => 
-          t.startTime === data.shift.startTime && 
-          t.endTime === data.shift.endTime && 
+          formatShiftTimes(t) === formatShiftTimes(data.shift) && 
           t.breakDuration === data.shift.breakDuration
         );
 
         if (!existingTemplate) {
           autoTemplates.push({
             id: `auto-${pattern}-${Date.now()}`,
-            name: `Auto: ${data.shift.startTime}-${data.shift.endTime}`,
+            name: `Auto: ${formatShiftTimes(data.shift)}`,
             ...data.shift,
             usageCount: data.count,
             createdAt: new Date()
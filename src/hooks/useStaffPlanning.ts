@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { StaffRequirement, WeightingEvent, StaffRole, CalculatedStaffNeed } from '../types';
-import { useLocalStorage } from './useLocalStorage';
+import { useRepository } from './useRepository';
+import { calculateStaffNeeds as computeStaffNeeds } from '../utils/staffNeeds';
 
 const defaultRoles: StaffRole[] = [
   { id: 'cashier', name: 'Cassiere', description: 'Gestione cassa e clienti', priority: 1 },
@@ -11,9 +12,9 @@ const defaultRoles: StaffRole[] = [
 ];
 
 export const useStaffPlanning = () => {
-  const [staffRequirements, setStaffRequirements] = useLocalStorage<StaffRequirement[]>('hr-staff-requirements', []);
-  const [weightingEvents, setWeightingEvents] = useLocalStorage<WeightingEvent[]>('hr-weighting-events', []);
-  const [staffRoles, setStaffRoles] = useLocalStorage<StaffRole[]>('hr-staff-roles', defaultRoles);
+  const [staffRequirements, setStaffRequirements] = useRepository<StaffRequirement>('hr-staff-requirements', []);
+  const [weightingEvents, setWeightingEvents] = useRepository<WeightingEvent>('hr-weighting-events', []);
+  const [staffRoles, setStaffRoles] = useRepository<StaffRole>('hr-staff-roles', defaultRoles);
 
 
   // Staff Requirements CRUD
@@ -96,71 +97,9 @@ export const useStaffPlanning = () => {
     })));
   };
 
-  // Calcolo requisiti ponderati
+  // Calcolo requisiti ponderati (logica condivisa con validazione e generatore)
   const calculateStaffNeeds = (storeId: string, date: Date): CalculatedStaffNeed | null => {
-    const dayOfWeek = getDayOfWeek(date);
-    const baseRequirement = staffRequirements.find(req => 
-      req.storeId === storeId && req.dayOfWeek === dayOfWeek
-    );
-
-    if (!baseRequirement) return null;
-
-    // Trova eventi applicabili
-    const applicableEvents = weightingEvents.filter(event => {
-      if (!event.isActive) return false;
-      
-      // Controllo date - confronta solo anno, mese, giorno (ignora ore)
-      const eventStart = new Date(event.startDate);
-      eventStart.setHours(0, 0, 0, 0);
-      const eventEnd = new Date(event.endDate);
-      eventEnd.setHours(23, 59, 59, 999);
-      const checkDate = new Date(date);
-      checkDate.setHours(12, 0, 0, 0); // Usa mezzogiorno per evitare problemi timezone
-      
-      if (checkDate < eventStart || checkDate > eventEnd) return false;
-      
-      // Controllo negozi
-      if (event.storeIds && !event.storeIds.includes(storeId)) return false;
-      
-      // Controllo giorni della settimana
-      if (event.daysOfWeek && !event.daysOfWeek.includes(dayOfWeek)) return false;
-      
-      return true;
-    });
-
-    console.log(`📅 calculateStaffNeeds for ${date.toLocaleDateString()}:`, {
-      dayOfWeek,
-      storeId,
-      baseRequirement: !!baseRequirement,
-      applicableEvents: applicableEvents.length,
-      eventNames: applicableEvents.map(e => e.name)
-    });
-    // Calcola moltiplicatore finale (prodotto di tutti i moltiplicatori)
-    const finalMultiplier = applicableEvents.reduce((acc, event) => acc * event.multiplier, 1);
-
-    // Calcola staff ponderato per ogni ruolo
-    const calculatedStaff = baseRequirement.roles.map(role => ({
-      roleId: role.roleId,
-      baseMin: role.minStaff,
-      baseMax: role.maxStaff,
-      weightedMin: Math.ceil(role.minStaff * finalMultiplier),
-      weightedMax: Math.ceil(role.maxStaff * finalMultiplier)
-    }));
-
-    return {
-      storeId,
-      date,
-      dayOfWeek,
-      baseRequirement,
-      appliedEvents: applicableEvents,
-      finalMultiplier,
-      calculatedStaff
-    };
-  };
-
-  const getDayOfWeek = (date: Date): string => {
-    const days = ['domenica', 'lunedì', 'martedì', 'mercoledì', 'giovedì', 'venerdì', 'sabato'];
-    return days[date.getDay()];
+    return computeStaffNeeds(staffRequirements, weightingEvents, storeId, date);
   };
 
   // Get requirements for a store
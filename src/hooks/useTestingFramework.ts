@@ -388,7 +388,7 @@ function createTestEmployee(id: string, role: 'junior' | 'senior' | 'manager', s
     department: 'Test',
     storeId,
     role,
-    contractType: 'tempo_indeterminato',
+    contractType: 'full_time',
     contractHours: weeklyHours,
     weeklyHours,
     monthlyHours: weeklyHours * 4.33,
@@ -396,7 +396,9 @@ function createTestEmployee(id: string, role: 'junior' | 'senior' | 'manager', s
     overtimeRate: 0,
     startDate: '2024-01-01',
     isActive: true,
-    skills: role === 'junior' ? ['basic'] : role === 'senior' ? ['advanced', 'basic'] : ['management', 'advanced', 'basic'],
+    skills: role === 'manager'
+      ? [{ roleId: 'supervisor', proficiency: 'senior', isPrimary: true }, { roleId: 'sales', proficiency: 'senior' }]
+      : [{ roleId: 'sales', proficiency: role, isPrimary: true }],
     preferences: {
       preferredShifts: ['mattino'],
       maxConsecutiveDays: 5,
@@ -0,0 +1,194 @@
+import { useCallback, useRef, useState } from 'react';
+
+// ↩️ UNDO/REDO: ogni comando registra lo stato prima/dopo dei record modificati
+export type UndoableEntity = 'shifts' | 'employees' | 'unavailabilities' | 'stores';
+
+export interface UndoableRecord {
+  id: string;
+}
+
+interface RecordChange {
+  entity: UndoableEntity;
+  id: string;
+  before?: UndoableRecord; // assente = record creato dal comando
+  after?: UndoableRecord;  // assente = record eliminato dal comando
+}
+
+export interface UndoCommand {
+  id: string;
+  label: string;
+  timestamp: Date;
+  changes: RecordChange[];
+}
+
+type EntitySetter = (update: (prev: UndoableRecord[]) => UndoableRecord[]) => void;
+
+const MAX_HISTORY = 100;
+
+// Il record ripristinato è una nuova scrittura: con l'`updatedAt` originale perderebbe
+// il merge last-writer-wins contro le altre schede che hanno ancora la modifica annullata
+const stampRestored = (record: UndoableRecord): UndoableRecord => {
+  if (!('updatedAt' in record)) return record;
+  const restored: UndoableRecord & { updatedAt: Date } = { ...record, updatedAt: new Date() };
+  return restored;
+};
+
+const ENTITY_LABELS: Record<UndoableEntity, string> = {
+  shifts: 'turni',
+  employees: 'dipendenti',
+  unavailabilities: 'indisponibilità',
+  stores: 'negozi'
+};
+
+// Etichetta automatica per i comandi non nominati esplicitamente
+const describeChanges = (changes: RecordChange[]): string => {
+  const entities = Array.from(new Set(changes.map(change => change.entity)));
+  if (changes.length === 1) {
+    const [change] = changes;
+    const action = !change.before ? 'Aggiunta' : !change.after ? 'Eliminazione' : 'Modifica';
+    return `${action} ${ENTITY_LABELS[change.entity]}`;
+  }
+  return `${changes.length} modifiche (${entities.map(entity => ENTITY_LABELS[entity]).join(', ')})`;
+};
+
+export const useUndoRedo = (setters: Record<UndoableEntity, EntitySetter>) => {
+  const undoStack = useRef<UndoCommand[]>([]);
+  const redoStack = useRef<UndoCommand[]>([]);
+  const pendingCommand = useRef<{ label?: string; changes: RecordChange[]; explicit: boolean } | null>(null);
+  const isApplying = useRef(false);
+  const [, setVersion] = useState(0);
+
+  const settersRef = useRef(setters);
+  settersRef.current = setters;
+
+  const commit = useCallback(() => {
+    const pending = pendingCommand.current;
+    pendingCommand.current = null;
+    if (!pending || pending.changes.length === 0) return;
+
+    undoStack.current = [
+      ...undoStack.current,
+      {
+        id: crypto.randomUUID(),
+        label: pending.label || describeChanges(pending.changes),
+        timestamp: new Date(),
+        changes: pending.changes
+      }
+    ].slice(-MAX_HISTORY);
+    redoStack.current = [];
+    setVersion(v => v + 1);
+  }, []);
+
+  /**
+   * Registra le differenze tra due versioni di una collezione.
+   * Le modifiche nello stesso ciclo sincrono confluiscono in un unico comando,
+   * così i cicli di aggiornamento (bilanciamento, import) si annullano in un solo passo.
+   */
+  const track = useCallback(<T extends UndoableRecord>(entity: UndoableEntity, prev: T[], next: T[]) => {
+    if (isApplying.current || prev === next) return;
+
+    const prevById = new Map(prev.map(item => [item.id, item]));
+    const nextById = new Map(next.map(item => [item.id, item]));
+    const changes: RecordChange[] = [];
+
+    next.forEach(item => {
+      const before = prevById.get(item.id);
+      if (before !== item) changes.push({ entity, id: item.id, before, after: item });
+    });
+    prev.forEach(item => {
+      if (!nextById.has(item.id)) changes.push({ entity, id: item.id, before: item, after: undefined });
+    });
+
+    if (changes.length === 0) return;
+
+    if (!pendingCommand.current) {
+      pendingCommand.current = { changes: [], explicit: false };
+      queueMicrotask(() => {
+        if (pendingCommand.current && !pendingCommand.current.explicit) commit();
+      });
+    }
+    pendingCommand.current.changes.push(...changes);
+  }, [commit]);
+
+  // Raggruppa esplicitamente più modifiche (anche asincrone) in un unico comando
+  const runAsCommand = useCallback(async <R,>(label: string, operation: () => R | Promise<R>): Promise<R> => {
+    if (pendingCommand.current && !pendingCommand.current.explicit) commit();
+    const isOutermost = !pendingCommand.current;
+    if (isOutermost) {
+      pendingCommand.current = { label, changes: [], explicit: true };
+    }
+
+    try {
+      return await operation();
+    } finally {
+      if (isOutermost) commit();
+    }
+  }, [commit]);
+
+  const applyStates = useCallback((changes: RecordChange[], direction: 'before' | 'after') => {
+    isApplying.current = true;
+    try {
+      (Object.keys(settersRef.current) as UndoableEntity[]).forEach(entity => {
+        const entityChanges = changes.filter(change => change.entity === entity);
+        if (entityChanges.length === 0) return;
+
+        settersRef.current[entity](prev => {
+          const targets = new Map(entityChanges.map(change => {
+            const record = change[direction];
+            return [change.id, record && stampRestored(record)];
+          }));
+          const result = prev
+            .filter(item => !targets.has(item.id) || targets.get(item.id))
+            .map(item => targets.get(item.id) ?? item);
+
+          const existingIds = new Set(prev.map(item => item.id));
+          targets.forEach((record, id) => {
+            if (record && !existingIds.has(id)) result.push(record);
+          });
+          return result;
+        });
+      });
+    } finally {
+      isApplying.current = false;
+    }
+  }, []);
+
+  const undo = useCallback(() => {
+    if (pendingCommand.current && !pendingCommand.current.explicit) commit();
+    const command = undoStack.current[undoStack.current.length - 1];
+    if (!command) return null;
+
+    applyStates(command.changes, 'before');
+    undoStack.current = undoStack.current.slice(0, -1);
+    redoStack.current = [...redoStack.current, command];
+    setVersion(v => v + 1);
+    console.log(`↩️ Annullato: ${command.label}`);
+    return command;
+  }, [commit, applyStates]);
+
+  const redo = useCallback(() => {
+    const command = redoStack.current[redoStack.current.length - 1];
+    if (!command) return null;
+
+    applyStates(command.changes, 'after');
+    redoStack.current = redoStack.current.slice(0, -1);
+    undoStack.current = [...undoStack.current, command];
+    setVersion(v => v + 1);
+    console.log(`↪️ Ripristinato: ${command.label}`);
+    return command;
+  }, [applyStates]);
+
+  const lastUndo = undoStack.current[undoStack.current.length - 1];
+  const lastRedo = redoStack.current[redoStack.current.length - 1];
+
+  return {
+    track,
+    runAsCommand,
+    undo,
+    redo,
+    canUndo: !!lastUndo,
+    canRedo: !!lastRedo,
+    undoLabel: lastUndo?.label,
+    redoLabel: lastRedo?.label
+  };
+};
@@ -0,0 +1,47 @@
+import { useEffect, useMemo } from 'react';
+import { useRepository } from './useRepository';
+import { Shift } from '../types';
+import { CCNLViolation, CCNLViolationRecord, CCNLViolationStatus } from '../types/ccnl';
+import { applyViolationStatus, reopenViolationRecord, resolveRegisterEntry } from '../utils/ccnlViolationRegister';
+
+// 📒 REGISTRO VIOLAZIONI CCNL: l'esito resta valido finché i turni coinvolti non cambiano
+export const useViolationRegister = (shifts: Shift[]) => {
+  const [records, setRecords] = useRepository<CCNLViolationRecord>('hr-ccnl-violations', []);
+
+  const violationRegister = useMemo(
+    () => records.map(record => resolveRegisterEntry(record, shifts)),
+    [records, shifts]
+  );
+
+  // 🔓 La riapertura viene salvata nel registro con la relativa voce di storico.
+  // Senza turni caricati ogni violazione risulterebbe modificata: in quel caso si attende
+  useEffect(() => {
+    if (shifts.length === 0) return;
+    if (!records.some(record => resolveRegisterEntry(record, shifts).isReopened)) return;
+
+    setRecords(prev => prev.map(record =>
+      resolveRegisterEntry(record, shifts).isReopened ? reopenViolationRecord(record, shifts) : record
+    ));
+    console.log('🔓 Violazioni riaperte per turni modificati');
+  }, [records, shifts, setRecords]);
+
+  const setViolationStatus = (
+    violation: CCNLViolation,
+    storeId: string,
+    status: CCNLViolationStatus,
+    changedBy: string,
+    note?: string
+  ) => {
+    setRecords(prev => {
+      const existing = prev.find(record => record.id === violation.id);
+      const record = applyViolationStatus(violation, existing, storeId, status, changedBy, shifts, note);
+      return existing ? prev.map(item => (item.id === record.id ? record : item)) : [...prev, record];
+    });
+    console.log('📒 Violazione registrata:', violation.id, status);
+  };
+
+  return {
+    violationRegister,
+    setViolationStatus
+  };
+};
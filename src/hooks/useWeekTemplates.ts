@@ -0,0 +1,51 @@
+import { useRepository } from './useRepository';
+import { Shift, WeekTemplate } from '../types';
+import { captureWeekTemplateShifts } from '../utils/weekTemplates';
+import { getStartOfWeek } from '../utils/timeUtils';
+
+// 🗓️ SETTIMANE TIPO: salvataggio di un'intera settimana di un negozio come modello riutilizzabile
+export const useWeekTemplates = () => {
+  const [weekTemplates, setWeekTemplates] = useRepository<WeekTemplate>('hr-week-templates', []);
+
+  const saveWeekTemplate = (
+    data: Pick<WeekTemplate, 'name' | 'description' | 'createdBy'>,
+    storeId: string,
+    weekStart: Date,
+    shifts: Shift[]
+  ): WeekTemplate | null => {
+    const templateShifts = captureWeekTemplateShifts(shifts, storeId, weekStart);
+    if (templateShifts.length === 0) {
+      return null;
+    }
+
+    const template: WeekTemplate = {
+      ...data,
+      id: crypto.randomUUID(),
+      sourceStoreId: storeId,
+      sourceWeekStart: getStartOfWeek(weekStart),
+      shifts: templateShifts,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    setWeekTemplates(prev => [...prev, template]);
+    console.log('🗓️ Settimana tipo salvata:', template.name, `(${templateShifts.length} turni)`);
+    return template;
+  };
+
+  const renameWeekTemplate = (id: string, name: string) => {
+    setWeekTemplates(prev => prev.map(template =>
+      template.id === id ? { ...template, name, updatedAt: new Date() } : template
+    ));
+  };
+
+  const deleteWeekTemplate = (id: string) => {
+    setWeekTemplates(prev => prev.filter(template => template.id !== id));
+  };
+
+  return {
+    weekTemplates,
+    saveWeekTemplate,
+    renameWeekTemplate,
+    deleteWeekTemplate
+  };
+};
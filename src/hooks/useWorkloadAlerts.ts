@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 import { Employee, Store, Shift } from '../types';
 import { ValidationAdminSettings } from '../types/validation';
+import { getContractLimits, getEmployeeContractAt } from '../utils/contractRules';
 
 export interface WorkloadAlert {
   id: string;
@@ -100,12 +101,14 @@ export const useWorkloadAlerts = ({
       adminSettings: adminSettings?.dynamicStaffRequirements
     });
 
-    // Filtra dipendenti attivi e per negozio (se specificato)
-    const activeEmployees = employees.filter(emp => {
-      const activeMatch = emp.isActive;
-      const storeMatch = !storeFilter || emp.storeId === storeFilter;
-      return activeMatch && storeMatch;
-    });
+    // Filtra dipendenti attivi e per negozio (se specificato), con il contratto in vigore nella settimana
+    const activeEmployees = employees
+      .map(emp => getEmployeeContractAt(emp, periodStart))
+      .filter(emp => {
+        const activeMatch = emp.isActive;
+        const storeMatch = !storeFilter || emp.storeId === storeFilter;
+        return activeMatch && storeMatch;
+      });
     
     // 🔍 DEBUG: Log risultati filtro
     console.log('🔍 Filtro risultati:', {
@@ -157,10 +160,13 @@ export const useWorkloadAlerts = ({
     employeeStats.forEach(stat => {
       const { employee, totalHours } = stat;
 
-      // 🔧 USA LIMITI INDIVIDUALI del dipendente (nomi campi corretti!)
-      const employeeMaxHours = employee.contractHours || maxHoursThreshold; // contractHours = Ore Massime Contratto
-      const employeeMinHours = employee.fixedHours || Math.max(employeeMaxHours * 0.5, 8); // fixedHours = Ore Minime Garantite
-      const warningThreshold = employeeMaxHours * 0.9; // 90% del limite individuale
+      // 🔧 USA LIMITI INDIVIDUALI del dipendente secondo la tipologia contrattuale
+      const contract = getContractLimits(employee);
+      const employeeMaxHours = employee.contractHours ? contract.maxWeeklyHours : maxHoursThreshold; // Ordinarie + supplementari ammesse
+      const employeeMinHours = contract.ruleSet.guaranteesMinimumHours
+        ? employee.fixedHours || Math.max(contract.ordinaryHours * 0.5, 8) // fixedHours = Ore Minime Garantite
+        : 0; // Es. lavoro a chiamata: nessun minimo garantito
+      const warningThreshold = (contract.ordinaryHours || maxHoursThreshold) * contract.ruleSet.overloadWarningRatio; // Soglia per tipologia
 
       // 🔍 DEBUG: Log limiti individuali
       console.log(`🔍 Limiti ${employee.firstName}:`, {
@@ -168,7 +174,8 @@ export const useWorkloadAlerts = ({
         employeeMaxHours,
         employeeMinHours,
         contractHours: employee.contractHours, // Ore Massime Contratto
-        fixedHours: employee.fixedHours // Ore Minime Garantite
+        fixedHours: employee.fixedHours, // Ore Minime Garantite
+        contractType: contract.ruleSet.type
       });
 
       // Alert Critico: Superato limite massimo INDIVIDUALE
@@ -238,7 +245,7 @@ export const useWorkloadAlerts = ({
           contractHours: employeeMaxHours,
           minHours: employeeMinHours,
           canJustify: true, // Può essere giustificato (malattie, permessi, ferie)
-          canMoveToHourBank: deficitHours >= 2 // Solo se deficit significativo (≥2h)
+          canMoveToHourBank: contract.ruleSet.accruesHourBank && deficitHours >= 2 // Solo se deficit significativo (≥2h)
         });
       }
     });
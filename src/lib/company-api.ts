@@ -379,7 +379,7 @@ export class CompanyApiService {
       maxWeeklyHours: 40, // Default 40 ore settimanali
       minRestHours: 12, // Default 12 ore di riposo minimo
       preferredShifts: [], // Lista vuota di default
-      contractType: 'full-time', // Default full-time
+      contractType: 'full_time', // Default full-time
       createdAt: new Date(),
       updatedAt: new Date()
     };
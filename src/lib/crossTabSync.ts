@@ -0,0 +1,162 @@
+import { EntityKey, RepositoryChanges, StoredEntity } from './storageSchema';
+import { reviveEntityDates } from './schemaMigrations';
+
+// 🔁 SINCRONIZZAZIONE TRA SCHEDE: ogni scrittura su un'entità viene notificata
+// alle altre schede/finestre (BroadcastChannel) e agli altri hook della stessa scheda
+const CHANNEL_NAME = 'hr-scheduling-sync';
+const STORAGE_EVENT_KEY = 'hr-sync-event'; // Fallback per browser senza BroadcastChannel
+
+export const TAB_ID = crypto.randomUUID();
+
+export interface EntityChangeMessage<T extends StoredEntity = StoredEntity> {
+  entity: EntityKey;
+  upserts: T[];
+  deletions: string[];
+  tabId: string;
+  sourceId: string; // Istanza dell'hook che ha scritto (evita di riapplicare le proprie modifiche)
+  sentAt: number;
+  authoritative?: boolean; // Ripristini e operazioni globali: nessun merge, vince sempre il messaggio
+}
+
+type ChangeListener = (message: EntityChangeMessage) => void;
+
+const listeners = new Set<ChangeListener>();
+let channel: BroadcastChannel | null = null;
+let isConnected = false;
+
+const dispatch = (message: EntityChangeMessage) => {
+  listeners.forEach(listener => {
+    try {
+      listener(message);
+    } catch (error) {
+      console.error('❌ Errore nella sincronizzazione tra schede:', error);
+    }
+  });
+};
+
+const serialize = (value: unknown) => JSON.stringify(value, (_key, val) => {
+  if (val instanceof Date && !isNaN(val.getTime())) {
+    return val.toISOString();
+  }
+  return val;
+});
+
+const handleStorageEvent = (event: StorageEvent) => {
+  if (event.key !== STORAGE_EVENT_KEY || !event.newValue) return;
+
+  try {
+    const message: EntityChangeMessage = JSON.parse(event.newValue);
+    dispatch({
+      ...message,
+      upserts: message.upserts.map(record => reviveEntityDates(message.entity, record))
+    });
+  } catch (error) {
+    console.error('❌ Messaggio di sincronizzazione non valido:', error);
+  }
+};
+
+// Apertura pigra del canale: il primo sottoscrittore attiva l'ascolto
+const connect = () => {
+  if (isConnected || typeof window === 'undefined') return;
+  isConnected = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<EntityChangeMessage>) => dispatch(event.data);
+  } else {
+    window.addEventListener('storage', handleStorageEvent);
+  }
+};
+
+export const subscribeToEntityChanges = (listener: ChangeListener): (() => void) => {
+  connect();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Notifica una scrittura già persistita.
+ * Il messaggio arriva subito agli hook della stessa scheda e, tramite canale, alle altre schede.
+ */
+export const publishEntityChanges = <T extends StoredEntity>(
+  entity: EntityKey,
+  { upserts, deletions }: RepositoryChanges<T>,
+  sourceId: string,
+  authoritative = false
+) => {
+  if (upserts.length === 0 && deletions.length === 0) return;
+  connect();
+
+  const message: EntityChangeMessage = { entity, upserts, deletions, tabId: TAB_ID, sourceId, sentAt: Date.now(), authoritative };
+  dispatch(message);
+
+  try {
+    if (channel) {
+      channel.postMessage(message);
+    } else {
+      window.localStorage.setItem(STORAGE_EVENT_KEY, serialize(message));
+      window.localStorage.removeItem(STORAGE_EVENT_KEY);
+    }
+  } catch (error) {
+    console.error(`❌ Impossibile notificare le modifiche "${entity}" alle altre schede:`, error);
+  }
+};
+
+const getTimestamp = (record: StoredEntity): number => {
+  const updatedAt = (record as StoredEntity & { updatedAt?: Date | string }).updatedAt;
+  if (!updatedAt) return 0;
+  const time = new Date(updatedAt).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * ⚖️ REGOLE DI MERGE per modifiche concorrenti allo stesso record (es. lo stesso turno
+ * modificato in due schede):
+ * - vince la versione con `updatedAt` più recente (last-writer-wins);
+ * - a parità di timestamp decide il confronto del contenuto, così tutte le schede
+ *   convergono sullo stesso risultato;
+ * - una cancellazione remota non rimuove un record modificato localmente dopo l'invio;
+ * - i messaggi `authoritative` (es. ripristino backup) sostituiscono sempre i dati locali.
+ * I record locali che vincono vengono restituiti per essere riscritti nel repository.
+ */
+export const mergeRemoteChanges = <T extends StoredEntity>(
+  local: T[],
+  message: EntityChangeMessage
+): { merged: T[]; keptLocal: T[] } => {
+  const localById = new Map(local.map(item => [item.id, item]));
+  const remoteById = new Map((message.upserts as T[]).map(item => [item.id, item]));
+  const keptLocal: T[] = [];
+
+  const shouldKeepLocal = (current: T, remote: T) => {
+    if (message.authoritative) return false;
+    const localTime = getTimestamp(current);
+    const remoteTime = getTimestamp(remote);
+    if (localTime !== remoteTime) return localTime > remoteTime;
+    return serialize(current) > serialize(remote);
+  };
+
+  const deleted = new Set(message.deletions.filter(id => {
+    const current = localById.get(id);
+    return !current || message.authoritative || getTimestamp(current) <= message.sentAt;
+  }));
+
+  const merged = local
+    .filter(item => !deleted.has(item.id))
+    .map(item => {
+      const remote = remoteById.get(item.id);
+      if (!remote) return item;
+      if (shouldKeepLocal(item, remote)) {
+        keptLocal.push(item);
+        return item;
+      }
+      return remote;
+    });
+
+  remoteById.forEach((remote, id) => {
+    if (!localById.has(id)) merged.push(remote);
+  });
+
+  return { merged, keptLocal };
+};
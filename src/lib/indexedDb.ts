@@ -0,0 +1,245 @@
+import { ENTITY_INDEXES, ENTITY_KEYS, EntityKey, EntityRepository, RepositoryChanges, StoredEntity } from './storageSchema';
+import {
+  MigrationFailure,
+  MigrationReport,
+  createMigrationReport,
+  getCurrentSchemaVersion,
+  migrateRecords,
+  setLastMigrationReport
+} from './schemaMigrations';
+
+// 🗄️ INDEXEDDB: un object store per entità con indici per dipendente/negozio/data
+const DB_NAME = 'hr-scheduling';
+const DB_VERSION = 11;
+
+// Store di servizio: versioni di schema per entità e record non migrabili
+const META_STORE = 'hr-schema-meta';
+const FAILURES_STORE = 'hr-migration-failures';
+const LAST_REPORT_KEY = 'last-migration-report';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => {
+  try {
+    return typeof window !== 'undefined' && !!window.indexedDB;
+  } catch {
+    return false;
+  }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transazione annullata'));
+  });
+};
+
+// Object store per le entità non ancora presenti nel database
+const createEntityStores = (db: IDBDatabase) => {
+  ENTITY_KEYS.forEach(entity => {
+    if (db.objectStoreNames.contains(entity)) return;
+
+    const store = db.createObjectStore(entity, { keyPath: 'id' });
+    ENTITY_INDEXES[entity].forEach(indexName => {
+      store.createIndex(indexName, indexName, { unique: false });
+    });
+  });
+};
+
+// Passi di upgrade della struttura del database, indicizzati per versione
+const DB_UPGRADES: Record<number, (db: IDBDatabase) => void> = {
+  1: createEntityStores,
+  2: db => {
+    db.createObjectStore(META_STORE, { keyPath: 'key' });
+    db.createObjectStore(FAILURES_STORE, { autoIncrement: true });
+  },
+  3: createEntityStores, // Turni aperti
+  4: createEntityStores, // Scambi turni
+  5: createEntityStores, // Rotazioni turni
+  6: createEntityStores, // Settimane tipo
+  7: createEntityStores, // Scenari di pianificazione
+  8: createEntityStores, // Versioni pubblicate
+  9: createEntityStores, // Registro violazioni CCNL
+  10: createEntityStores, // Template, fabbisogno, eventi, ruoli, utenti e registro audit
+  11: createEntityStores // Storico importazioni
+};
+
+const getSchemaVersion = async (db: IDBDatabase, entity: EntityKey): Promise<number> => {
+  const transaction = db.transaction(META_STORE, 'readonly');
+  const meta = await requestToPromise(transaction.objectStore(META_STORE).get(`schema:${entity}`));
+  return meta?.version ?? 0;
+};
+
+const recordFailures = (transaction: IDBTransaction, failures: MigrationFailure[]) => {
+  const failuresStore = transaction.objectStore(FAILURES_STORE);
+  failures.forEach(failure => failuresStore.add({ ...failure, recordedAt: new Date() }));
+};
+
+/**
+ * 🧬 MIGRAZIONI DI SCHEMA: porta ogni entità alla versione corrente.
+ * I record che falliscono vengono spostati nello store dei fallimenti (mai eliminati).
+ */
+const runSchemaMigrations = async (db: IDBDatabase, report: MigrationReport) => {
+  for (const entity of ENTITY_KEYS) {
+    const fromVersion = await getSchemaVersion(db, entity);
+    const toVersion = getCurrentSchemaVersion(entity);
+    if (fromVersion >= toVersion) continue;
+
+    const readTransaction = db.transaction(entity, 'readonly');
+    const records = await requestToPromise(readTransaction.objectStore(entity).getAll());
+    const { migrated, failures } = migrateRecords(entity, records, fromVersion);
+
+    const transaction = db.transaction([entity, META_STORE, FAILURES_STORE], 'readwrite');
+    const store = transaction.objectStore(entity);
+    migrated.forEach(record => store.put(record));
+    failures.forEach(failure => {
+      if (failure.recordId) store.delete(failure.recordId);
+    });
+    recordFailures(transaction, failures);
+    transaction.objectStore(META_STORE).put({ key: `schema:${entity}`, version: toVersion, migratedAt: new Date() });
+    await transactionDone(transaction);
+
+    report.entities.push({ entity, fromVersion, toVersion, migrated: migrated.length, failed: failures.length });
+    report.failures.push(...failures);
+    console.log(`🧬 Schema "${entity}": v${fromVersion} → v${toVersion} (${migrated.length} ok, ${failures.length} falliti)`);
+  }
+};
+
+/**
+ * 📦 MIGRAZIONE AUTOMATICA: importa i blob JSON ancora presenti in localStorage.
+ * I dati legacy partono dalla versione 0 e attraversano tutti i passi di migrazione;
+ * la chiave legacy viene rimossa solo dopo il commit della transazione.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase, report: MigrationReport) => {
+  for (const entity of ENTITY_KEYS) {
+    const item = window.localStorage.getItem(entity);
+    if (!item) continue;
+
+    try {
+      const parsed = JSON.parse(item);
+      const records = Array.isArray(parsed) ? parsed : [];
+      const { migrated, failures } = migrateRecords(entity, records, 0);
+
+      const transaction = db.transaction([entity, FAILURES_STORE], 'readwrite');
+      const store = transaction.objectStore(entity);
+      migrated.forEach(record => store.put(record));
+      recordFailures(transaction, failures);
+      await transactionDone(transaction);
+
+      window.localStorage.removeItem(entity);
+      report.entities.push({ entity, fromVersion: 0, toVersion: getCurrentSchemaVersion(entity), migrated: migrated.length, failed: failures.length });
+      report.failures.push(...failures);
+      console.log(`📦 Migrati ${migrated.length} record "${entity}" da localStorage a IndexedDB (${failures.length} falliti)`);
+    } catch (error) {
+      console.error(`❌ Migrazione "${entity}" fallita, dati lasciati in localStorage:`, error);
+    }
+  }
+};
+
+const saveMigrationReport = async (db: IDBDatabase, report: MigrationReport) => {
+  report.completedAt = new Date();
+  setLastMigrationReport(report);
+  if (report.entities.length === 0) return;
+
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  transaction.objectStore(META_STORE).put({ key: LAST_REPORT_KEY, report });
+  await transactionDone(transaction);
+};
+
+// Record non migrabili conservati per analisi o recupero manuale
+export const getMigrationFailures = async (): Promise<MigrationFailure[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(FAILURES_STORE, 'readonly');
+  return requestToPromise(transaction.objectStore(FAILURES_STORE).getAll());
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          DB_UPGRADES[version]?.(request.result);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('⚠️ Apertura IndexedDB bloccata da un\'altra scheda');
+    }).then(async db => {
+      const report = createMigrationReport(new Date());
+      await runSchemaMigrations(db, report);
+      await migrateFromLocalStorage(db, report);
+      await saveMigrationReport(db, report);
+      return db;
+    });
+
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export class IndexedDbRepository<T extends StoredEntity> implements EntityRepository<T> {
+  constructor(readonly entity: EntityKey) {}
+
+  private async store(mode: IDBTransactionMode) {
+    const db = await openDatabase();
+    const transaction = db.transaction(this.entity, mode);
+    return { transaction, store: transaction.objectStore(this.entity) };
+  }
+
+  async getAll() {
+    const { store } = await this.store('readonly');
+    return requestToPromise(store.getAll() as IDBRequest<T[]>);
+  }
+
+  async getById(id: string) {
+    const { store } = await this.store('readonly');
+    return requestToPromise(store.get(id) as IDBRequest<T | undefined>);
+  }
+
+  async findByIndex(indexName: string, query: IDBValidKey | IDBKeyRange) {
+    const { store } = await this.store('readonly');
+    return requestToPromise(store.index(indexName).getAll(query) as IDBRequest<T[]>);
+  }
+
+  async saveMany(items: T[]) {
+    await this.applyChanges({ upserts: items, deletions: [] });
+  }
+
+  async removeMany(ids: string[]) {
+    await this.applyChanges({ upserts: [], deletions: ids });
+  }
+
+  async applyChanges({ upserts, deletions }: RepositoryChanges<T>) {
+    if (upserts.length === 0 && deletions.length === 0) return;
+
+    const { transaction, store } = await this.store('readwrite');
+    deletions.forEach(id => store.delete(id));
+    upserts.forEach(item => store.put(item));
+    await transactionDone(transaction);
+  }
+
+  async replaceAll(items: T[]) {
+    const { transaction, store } = await this.store('readwrite');
+    store.clear();
+    items.forEach(item => store.put(item));
+    await transactionDone(transaction);
+  }
+
+  async clear() {
+    const { transaction, store } = await this.store('readwrite');
+    store.clear();
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,163 @@
+import { IndexedDbRepository, isIndexedDbAvailable, openDatabase } from './indexedDb';
+import { EntityKey, EntityRepository, ENTITY_KEYS, RepositoryChanges, StoredEntity } from './storageSchema';
+import {
+  MigrationFailure,
+  createMigrationReport,
+  getCurrentSchemaVersion,
+  migrateRecords,
+  reviveEntityDates,
+  setLastMigrationReport
+} from './schemaMigrations';
+
+const SCHEMA_VERSIONS_KEY = 'hr-schema-versions';
+const MIGRATION_FAILURES_KEY = 'hr-migration-failures';
+
+const serializeWithDates = (value: unknown) => JSON.stringify(value, (_key, val) => {
+  if (val instanceof Date && !isNaN(val.getTime())) {
+    return val.toISOString();
+  }
+  return val;
+});
+
+export type { EntityKey, EntityRepository, StoredEntity } from './storageSchema';
+export { ENTITY_KEYS } from './storageSchema';
+
+/**
+ * Fallback localStorage (browser senza IndexedDB o in navigazione privata):
+ * mantiene il comportamento storico di salvataggio dell'intero array
+ */
+class LocalStorageRepository<T extends StoredEntity> implements EntityRepository<T> {
+  constructor(readonly entity: EntityKey) {}
+
+  private read(): T[] {
+    const item = window.localStorage.getItem(this.entity);
+    if (!item) return [];
+
+    const parsed = JSON.parse(item);
+    return Array.isArray(parsed) ? parsed.map(record => reviveEntityDates(this.entity, record as T)) : [];
+  }
+
+  private write(items: T[]) {
+    window.localStorage.setItem(this.entity, serializeWithDates(items));
+  }
+
+  async getAll() {
+    return this.read();
+  }
+
+  async getById(id: string) {
+    return this.read().find(item => item.id === id);
+  }
+
+  async findByIndex(indexName: string, query: IDBValidKey | IDBKeyRange) {
+    return this.read().filter(item => {
+      const value = (item as unknown as Record<string, unknown>)[indexName];
+      const key = value instanceof Date ? value.getTime() : value;
+
+      if (query instanceof IDBKeyRange) {
+        return query.includes(value as IDBValidKey);
+      }
+      return key === (query instanceof Date ? query.getTime() : query);
+    });
+  }
+
+  async saveMany(items: T[]) {
+    await this.applyChanges({ upserts: items, deletions: [] });
+  }
+
+  async removeMany(ids: string[]) {
+    await this.applyChanges({ upserts: [], deletions: ids });
+  }
+
+  async applyChanges({ upserts, deletions }: RepositoryChanges<T>) {
+    const deleted = new Set(deletions);
+    const byId = new Map(this.read().filter(item => !deleted.has(item.id)).map(item => [item.id, item]));
+    upserts.forEach(item => byId.set(item.id, item));
+    this.write(Array.from(byId.values()));
+  }
+
+  async replaceAll(items: T[]) {
+    this.write(items);
+  }
+
+  async clear() {
+    window.localStorage.removeItem(this.entity);
+  }
+}
+
+// 🧬 Migrazioni di schema per il backend localStorage (versioni registrate per chiave)
+const runLocalStorageMigrations = () => {
+  const report = createMigrationReport(new Date());
+  const versions: Partial<Record<EntityKey, number>> = JSON.parse(window.localStorage.getItem(SCHEMA_VERSIONS_KEY) || '{}');
+  const storedFailures: MigrationFailure[] = JSON.parse(window.localStorage.getItem(MIGRATION_FAILURES_KEY) || '[]');
+
+  ENTITY_KEYS.forEach(entity => {
+    const fromVersion = versions[entity] ?? 0;
+    const toVersion = getCurrentSchemaVersion(entity);
+    if (fromVersion >= toVersion) return;
+
+    try {
+      const item = window.localStorage.getItem(entity);
+      const parsed = item ? JSON.parse(item) : [];
+      const { migrated, failures } = migrateRecords(entity, Array.isArray(parsed) ? parsed : [], fromVersion);
+
+      window.localStorage.setItem(entity, serializeWithDates(migrated));
+      storedFailures.push(...failures);
+      versions[entity] = toVersion;
+
+      report.entities.push({ entity, fromVersion, toVersion, migrated: migrated.length, failed: failures.length });
+      report.failures.push(...failures);
+    } catch (error) {
+      console.error(`❌ Migrazione "${entity}" fallita, dati lasciati invariati:`, error);
+    }
+  });
+
+  window.localStorage.setItem(SCHEMA_VERSIONS_KEY, JSON.stringify(versions));
+  window.localStorage.setItem(MIGRATION_FAILURES_KEY, serializeWithDates(storedFailures));
+  report.completedAt = new Date();
+  setLastMigrationReport(report);
+};
+
+const repositories = new Map<EntityKey, EntityRepository<StoredEntity>>();
+let backendPromise: Promise<'indexeddb' | 'localstorage'> | null = null;
+
+// Determina una sola volta il backend disponibile (apertura DB + migrazione dati legacy)
+export const getStorageBackend = (): Promise<'indexeddb' | 'localstorage'> => {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (isIndexedDbAvailable()) {
+        try {
+          await openDatabase();
+          return 'indexeddb';
+        } catch (error) {
+          console.error('❌ IndexedDB non disponibile, uso localStorage:', error);
+        }
+      }
+
+      runLocalStorageMigrations();
+      return 'localstorage';
+    })();
+  }
+  return backendPromise;
+};
+
+export const getRepository = async <T extends StoredEntity>(entity: EntityKey): Promise<EntityRepository<T>> => {
+  const existing = repositories.get(entity);
+  if (existing) return existing as unknown as EntityRepository<T>;
+
+  const backend = await getStorageBackend();
+  const repository = backend === 'indexeddb'
+    ? new IndexedDbRepository<T>(entity)
+    : new LocalStorageRepository<T>(entity);
+
+  repositories.set(entity, repository as unknown as EntityRepository<StoredEntity>);
+  return repository;
+};
+
+// Svuota le entità indicate (es. pulizia dati corrotti)
+export const clearEntities = async (entities: EntityKey[]): Promise<void> => {
+  for (const entity of entities) {
+    const repository = await getRepository(entity);
+    await repository.clear();
+  }
+};
@@ -0,0 +1,395 @@
+import { EntityKey, ENTITY_KEYS } from './storageSchema';
+
+// 🧬 MIGRAZIONI DI SCHEMA: passi ordinati e versionati per ogni entità persistita.
+// Un record che non supera un passo non viene scartato ma finisce nel report dei fallimenti.
+
+type StoredRecord = Record<string, unknown>;
+
+export interface SchemaMigration {
+  entity: EntityKey;
+  version: number;
+  description: string;
+  migrate: (record: StoredRecord) => StoredRecord;
+}
+
+export interface MigrationFailure {
+  entity: EntityKey;
+  recordId?: string;
+  fromVersion: number;
+  failedVersion: number;
+  error: string;
+  record: StoredRecord;
+}
+
+export interface EntityMigrationSummary {
+  entity: EntityKey;
+  fromVersion: number;
+  toVersion: number;
+  migrated: number;
+  failed: number;
+}
+
+export interface MigrationReport {
+  startedAt: Date;
+  completedAt: Date;
+  entities: EntityMigrationSummary[];
+  failures: MigrationFailure[];
+}
+
+// Campi data espliciti per entità (niente più deduzione dal formato della stringa).
+// I campi dentro liste di oggetti si indicano come "lista[].campo"
+const DATE_FIELDS: Record<EntityKey, string[]> = {
+  'hr-shifts': ['date', 'createdAt', 'updatedAt', 'lockedAt'],
+  'hr-employees': ['createdAt', 'updatedAt'],
+  'hr-stores': ['createdAt', 'updatedAt'],
+  'hr-unavailabilities': ['startDate', 'endDate', 'createdAt', 'updatedAt'],
+  'hr-hour-bank-accounts': ['lastCalculationDate', 'createdAt', 'updatedAt'],
+  'hr-hour-bank-entries': ['weekStartDate', 'weekEndDate', 'processedAt', 'createdAt', 'updatedAt'],
+  'hr-recovery-requests': ['requestDate', 'approvedAt', 'scheduledDate', 'usedAt', 'createdAt', 'updatedAt'],
+  'hr-open-shifts': ['date', 'createdAt', 'updatedAt', 'claims[].requestedAt', 'claims[].decidedAt'],
+  'hr-shift-swaps': ['requestedAt', 'acceptedAt', 'decidedAt', 'createdAt', 'updatedAt'],
+  'hr-rotation-patterns': ['createdAt', 'updatedAt'],
+  'hr-rotation-assignments': ['startDate', 'endDate', 'createdAt', 'updatedAt'],
+  'hr-week-templates': ['sourceWeekStart', 'createdAt', 'updatedAt'],
+  'hr-schedule-scenarios': [
+    'weekStart', 'promotedAt', 'createdAt', 'updatedAt',
+    'shifts[].date', 'shifts[].lockedAt', 'shifts[].createdAt', 'shifts[].updatedAt'
+  ],
+  'hr-schedule-versions': ['weekStart', 'publishedAt', 'shifts[].date'],
+  'hr-ccnl-violations': ['violationDate', 'createdAt', 'updatedAt', 'history[].changedAt'],
+  'hr-shift-templates': ['createdAt'],
+  'hr-staff-requirements': ['createdAt', 'updatedAt'],
+  'hr-weighting-events': ['startDate', 'endDate', 'createdAt', 'updatedAt'],
+  'hr-staff-roles': [],
+  'hr-auth-users': [], // Date in formato ISO (created_at/updated_at) mantenute come stringhe
+  'hr_shift_audit_trail': ['timestamp'],
+  'hr-import-history': ['importDate']
+};
+
+// Campi data introdotti dopo il rilascio del passo 1: li converte il passo che li introduce
+const EMPLOYEE_CONTRACT_DATE_FIELDS = ['contractEndDate'];
+const EMPLOYEE_CONTRACT_HISTORY_DATE_FIELDS = [
+  'contractHistory[].effectiveFrom', 'contractHistory[].effectiveTo', 'contractHistory[].contractEndDate', 'contractHistory[].createdAt'
+];
+const EMPLOYEE_BIRTH_DATE_FIELDS = ['birthDate'];
+
+const LATER_DATE_FIELDS: Partial<Record<EntityKey, string[]>> = {
+  'hr-employees': [...EMPLOYEE_CONTRACT_DATE_FIELDS, ...EMPLOYEE_CONTRACT_HISTORY_DATE_FIELDS, ...EMPLOYEE_BIRTH_DATE_FIELDS]
+};
+
+// Valori legacy scritti dalla sincronizzazione con l'API aziendale prima delle tipologie contrattuali
+const LEGACY_CONTRACT_TYPES: Record<string, string> = {
+  'full-time': 'full_time',
+  'part-time': 'part_time_horizontal',
+  'fixed-term': 'fixed_term',
+  'on-call': 'on_call'
+};
+
+const ENGLISH_DAY_KEYS: Record<string, string> = {
+  monday: 'lunedì',
+  tuesday: 'martedì',
+  wednesday: 'mercoledì',
+  thursday: 'giovedì',
+  friday: 'venerdì',
+  saturday: 'sabato',
+  sunday: 'domenica'
+};
+
+const toDate = (value: unknown, field: string): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Campo data "${field}" non valido: ${String(value)}`);
+  }
+  return date;
+};
+
+const normalizeDates = (record: StoredRecord, fields: string[]): StoredRecord => {
+  const normalized = { ...record };
+  fields.forEach(field => {
+    const [listField, nestedField] = field.split('[].');
+    if (nestedField) {
+      const list = normalized[listField];
+      if (Array.isArray(list)) {
+        normalized[listField] = list.map(item => normalizeDates(item as StoredRecord, [nestedField]));
+      }
+      return;
+    }
+
+    if (field in normalized) {
+      normalized[field] = toDate(normalized[field], field);
+    }
+  });
+  return normalized;
+};
+
+// Ripristino delle date per i record letti da JSON (backend localStorage)
+export const reviveEntityDates = <T>(entity: EntityKey, record: T): T => {
+  return normalizeDates(record as StoredRecord, [...DATE_FIELDS[entity], ...(LATER_DATE_FIELDS[entity] || [])]) as T;
+};
+
+const requireFields = (record: StoredRecord, fields: string[]) => {
+  const missing = fields.filter(field => record[field] === undefined || record[field] === null || record[field] === '');
+  if (missing.length > 0) {
+    throw new Error(`Campi obbligatori mancanti: ${missing.join(', ')}`);
+  }
+};
+
+// Orari negozio in formato legacy (vecchi script di ripristino): { monday: { start, end } }
+type LegacyHours = { open?: string; close?: string; start?: string; end?: string } | null;
+
+const normalizeOpeningHours = (openingHours: unknown) => {
+  if (!openingHours || typeof openingHours !== 'object') return {};
+
+  return Object.entries(openingHours as Record<string, LegacyHours>).reduce<Record<string, { open?: string; close?: string }>>((acc, [day, hours]) => {
+    if (!hours) return acc;
+    const dayKey = ENGLISH_DAY_KEYS[day.toLowerCase()] || day;
+    acc[dayKey] = {
+      open: hours.open ?? hours.start,
+      close: hours.close ?? hours.end
+    };
+    return acc;
+  }, {});
+};
+
+/**
+ * Elenco ordinato dei passi di migrazione.
+ * Per cambiare la forma di un'entità aggiungere un nuovo passo con versione successiva:
+ * i passi già rilasciati non vanno modificati.
+ */
+const MIGRATION_STEPS: SchemaMigration[] = [
+  ...ENTITY_KEYS.map(entity => ({
+    entity,
+    version: 1,
+    description: 'Conversione esplicita dei campi data',
+    migrate: (record: StoredRecord) => normalizeDates(record, DATE_FIELDS[entity])
+  })),
+  {
+    entity: 'hr-employees',
+    version: 2,
+    description: 'Nomi in camelCase (first_name/last_name → firstName/lastName)',
+    migrate: ({ first_name, last_name, ...record }) => {
+      const migrated = {
+        ...record,
+        firstName: record.firstName ?? first_name,
+        lastName: record.lastName ?? last_name,
+        contractHours: Number(record.contractHours ?? 0),
+        fixedHours: Number(record.fixedHours ?? 0),
+        isActive: record.isActive ?? true
+      };
+      requireFields(migrated, ['id', 'firstName', 'lastName']);
+      return migrated;
+    }
+  },
+  {
+    entity: 'hr-shifts',
+    version: 2,
+    description: 'Verifica campi obbligatori e valori numerici dei turni',
+    migrate: record => {
+      requireFields(record, ['id', 'employeeId', 'storeId', 'date', 'startTime', 'endTime']);
+      return {
+        ...record,
+        breakDuration: Number(record.breakDuration ?? 0),
+        actualHours: Number(record.actualHours ?? 0),
+        isLocked: record.isLocked ?? false
+      };
+    }
+  },
+  {
+    entity: 'hr-stores',
+    version: 2,
+    description: 'Orari con chiavi italiane e open/close, date di chiusure e settimane',
+    migrate: record => {
+      requireFields(record, ['id', 'name']);
+      return {
+        ...record,
+        openingHours: normalizeOpeningHours(record.openingHours),
+        closureDays: ((record.closureDays as StoredRecord[] | undefined) || []).map(closure =>
+          normalizeDates(closure, ['date', 'createdAt'])
+        ),
+        weeklySchedules: ((record.weeklySchedules as StoredRecord[] | undefined) || []).map(schedule => ({
+          ...normalizeDates(schedule, ['weekStartDate', 'weekEndDate', 'createdAt', 'updatedAt']),
+          openingHours: normalizeOpeningHours(schedule.openingHours)
+        })),
+        isActive: record.isActive ?? true
+      };
+    }
+  },
+  {
+    entity: 'hr-employees',
+    version: 3,
+    description: 'Tipologie contrattuali (full-time → full_time) e data di fine contratto',
+    migrate: record => {
+      const contractType = typeof record.contractType === 'string'
+        ? LEGACY_CONTRACT_TYPES[record.contractType] ?? record.contractType
+        : record.contractType;
+      return normalizeDates({ ...record, contractType }, EMPLOYEE_CONTRACT_DATE_FIELDS);
+    }
+  },
+  {
+    entity: 'hr-employees',
+    version: 4,
+    description: 'Date dello storico contrattuale',
+    migrate: record => normalizeDates(record, EMPLOYEE_CONTRACT_HISTORY_DATE_FIELDS)
+  },
+  {
+    entity: 'hr-employees',
+    version: 5,
+    description: 'Data di nascita (tutele lavoratori minorenni)',
+    migrate: record => normalizeDates(record, EMPLOYEE_BIRTH_DATE_FIELDS)
+  }
+];
+
+// ⚙️ IMPOSTAZIONI: valori singoli rimasti in localStorage (non record con id).
+// Stessa disciplina delle entità: versione registrata per chiave, passi ordinati e campi data espliciti
+export type SettingKey = 'hr-preferences' | 'hr-auth-session';
+
+const SETTING_DATE_FIELDS: Record<SettingKey, string[]> = {
+  'hr-preferences': [],
+  'hr-auth-session': [] // Il profilo in sessione conserva created_at/updated_at come stringhe ISO
+};
+
+export interface SettingMigration {
+  key: SettingKey;
+  version: number;
+  description: string;
+  migrate: (value: StoredRecord) => StoredRecord;
+}
+
+export interface SettingMigrationFailure {
+  key: SettingKey;
+  fromVersion: number;
+  failedVersion: number;
+  error: string;
+  value: unknown;
+}
+
+const SETTING_MIGRATION_STEPS: SettingMigration[] = (Object.keys(SETTING_DATE_FIELDS) as SettingKey[]).map(key => ({
+  key,
+  version: 1,
+  description: 'Conversione esplicita dei campi data',
+  migrate: (value: StoredRecord) => normalizeDates(value, SETTING_DATE_FIELDS[key])
+}));
+
+export const getCurrentSettingVersion = (key: SettingKey): number => {
+  return SETTING_MIGRATION_STEPS
+    .filter(migration => migration.key === key)
+    .reduce((max, migration) => Math.max(max, migration.version), 0);
+};
+
+// Ripristino delle date per un valore già alla versione corrente (null = impostazione assente)
+export const reviveSettingDates = <T>(key: SettingKey, value: T): T => {
+  if (!value || typeof value !== 'object') return value;
+  return normalizeDates(value as StoredRecord, SETTING_DATE_FIELDS[key]) as T;
+};
+
+/**
+ * Applica al valore i passi successivi a `fromVersion`.
+ * In caso di errore restituisce il fallimento con il valore originale.
+ */
+export const migrateSetting = (
+  key: SettingKey,
+  value: unknown,
+  fromVersion: number
+): { value: unknown; failure?: SettingMigrationFailure } => {
+  if (value === null) return { value };
+
+  const steps = SETTING_MIGRATION_STEPS
+    .filter(migration => migration.key === key && migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let current = value;
+  for (const step of steps) {
+    try {
+      if (!current || typeof current !== 'object') {
+        throw new Error('Valore non valido');
+      }
+      current = step.migrate(current as StoredRecord);
+    } catch (error) {
+      return {
+        value,
+        failure: {
+          key,
+          fromVersion,
+          failedVersion: step.version,
+          error: error instanceof Error ? error.message : String(error),
+          value
+        }
+      };
+    }
+  }
+  return { value: current };
+};
+
+export const SCHEMA_MIGRATIONS = [...MIGRATION_STEPS].sort((a, b) => a.version - b.version);
+
+export const getCurrentSchemaVersion = (entity: EntityKey): number => {
+  return SCHEMA_MIGRATIONS
+    .filter(migration => migration.entity === entity)
+    .reduce((max, migration) => Math.max(max, migration.version), 0);
+};
+
+/**
+ * Applica ai record i passi successivi a `fromVersion`.
+ * I record che falliscono sono restituiti separatamente con il dato originale.
+ */
+export const migrateRecords = (
+  entity: EntityKey,
+  records: StoredRecord[],
+  fromVersion: number
+): { migrated: StoredRecord[]; failures: MigrationFailure[] } => {
+  const steps = SCHEMA_MIGRATIONS.filter(migration =>
+    migration.entity === entity && migration.version > fromVersion
+  );
+
+  const migrated: StoredRecord[] = [];
+  const failures: MigrationFailure[] = [];
+
+  records.forEach(original => {
+    let current = original;
+
+    for (const step of steps) {
+      try {
+        if (!current || typeof current !== 'object') {
+          throw new Error('Record non valido');
+        }
+        current = step.migrate(current);
+      } catch (error) {
+        failures.push({
+          entity,
+          recordId: typeof original?.id === 'string' ? original.id : undefined,
+          fromVersion,
+          failedVersion: step.version,
+          error: error instanceof Error ? error.message : String(error),
+          record: original
+        });
+        return;
+      }
+    }
+
+    migrated.push(current);
+  });
+
+  return { migrated, failures };
+};
+
+export const createMigrationReport = (startedAt: Date): MigrationReport => ({
+  startedAt,
+  completedAt: startedAt,
+  entities: [],
+  failures: []
+});
+
+// 📋 Ultimo report disponibile per la UI (impostato dal backend di persistenza all'avvio)
+let lastMigrationReport: MigrationReport | null = null;
+
+export const setLastMigrationReport = (report: MigrationReport) => {
+  lastMigrationReport = report;
+
+  if (report.failures.length > 0) {
+    console.warn(`⚠️ Migrazione schema: ${report.failures.length} record non migrati`, report.failures);
+  }
+};
+
+export const getLastMigrationReport = (): MigrationReport | null => lastMigrationReport;
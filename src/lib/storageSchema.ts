@@ -0,0 +1,51 @@
+// 🗄️ SCHEMA DI PERSISTENZA: entità, indici e contratto dei repository
+export interface StoredEntity {
+  id: string;
+}
+
+export interface RepositoryChanges<T extends StoredEntity> {
+  upserts: T[];
+  deletions: string[];
+}
+
+export interface EntityRepository<T extends StoredEntity> {
+  readonly entity: EntityKey;
+  getAll(): Promise<T[]>;
+  getById(id: string): Promise<T | undefined>;
+  findByIndex(indexName: string, query: IDBValidKey | IDBKeyRange): Promise<T[]>;
+  saveMany(items: T[]): Promise<void>;
+  removeMany(ids: string[]): Promise<void>;
+  applyChanges(changes: RepositoryChanges<T>): Promise<void>; // Scrittura atomica (singola transazione)
+  replaceAll(items: T[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Entità persistite: la chiave coincide con la vecchia chiave localStorage
+export const ENTITY_INDEXES = {
+  'hr-shifts': ['employeeId', 'storeId', 'date'],
+  'hr-employees': ['storeId'],
+  'hr-stores': [],
+  'hr-unavailabilities': ['employeeId', 'startDate'],
+  'hr-hour-bank-accounts': ['employeeId', 'storeId'],
+  'hr-hour-bank-entries': ['employeeId', 'storeId', 'weekStartDate'],
+  'hr-recovery-requests': ['employeeId'],
+  'hr-open-shifts': ['storeId', 'date'],
+  'hr-shift-swaps': ['requesterId', 'status'],
+  'hr-rotation-patterns': [],
+  'hr-rotation-assignments': ['patternId', 'storeId'],
+  'hr-week-templates': ['sourceStoreId'],
+  'hr-schedule-scenarios': ['storeId', 'weekStart'],
+  'hr-schedule-versions': ['storeId', 'weekStart'],
+  'hr-ccnl-violations': ['employeeId', 'storeId', 'status'],
+  'hr-shift-templates': [],
+  'hr-staff-requirements': ['storeId'],
+  'hr-weighting-events': ['startDate'],
+  'hr-staff-roles': [],
+  'hr-auth-users': ['email'],
+  'hr_shift_audit_trail': ['shiftId', 'employeeId', 'timestamp'],
+  'hr-import-history': ['importDate']
+} as const;
+
+export type EntityKey = keyof typeof ENTITY_INDEXES;
+
+export const ENTITY_KEYS = Object.keys(ENTITY_INDEXES) as EntityKey[];
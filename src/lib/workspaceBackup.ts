@@ -0,0 +1,299 @@
+import { EntityKey, StoredEntity, getRepository } from './repository';
+import { publishEntityChanges } from './crossTabSync';
+import { MigrationFailure, getCurrentSchemaVersion, migrateRecords, reviveEntityDates } from './schemaMigrations';
+
+// 💾 BACKUP WORKSPACE: archivio unico, versionato e con checksum di tutti i dati dell'app.
+// Sostituisce i vecchi script manuali di ripristino dei negozi.
+export const ARCHIVE_FORMAT = 'hr-workspace-archive';
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+const RESTORE_SOURCE_ID = 'workspace-restore';
+
+type SectionSource =
+  | { type: 'entity'; key: EntityKey }
+  | { type: 'setting'; key: string };
+
+export interface ArchiveSectionDefinition {
+  id: string;
+  label: string;
+  source: SectionSource;
+}
+
+// Le password utente non vengono mai esportate: dopo il ripristino vanno reimpostate
+export const ARCHIVE_SECTIONS: ArchiveSectionDefinition[] = [
+  { id: 'employees', label: 'Dipendenti', source: { type: 'entity', key: 'hr-employees' } },
+  { id: 'stores', label: 'Negozi (orari settimanali e chiusure)', source: { type: 'entity', key: 'hr-stores' } },
+  { id: 'shifts', label: 'Turni', source: { type: 'entity', key: 'hr-shifts' } },
+  { id: 'unavailabilities', label: 'Indisponibilità', source: { type: 'entity', key: 'hr-unavailabilities' } },
+  { id: 'openShifts', label: 'Turni aperti e richieste', source: { type: 'entity', key: 'hr-open-shifts' } },
+  { id: 'shiftSwaps', label: 'Scambi turni', source: { type: 'entity', key: 'hr-shift-swaps' } },
+  { id: 'shiftTemplates', label: 'Template turni', source: { type: 'entity', key: 'hr-shift-templates' } },
+  { id: 'rotationPatterns', label: 'Rotazioni turni', source: { type: 'entity', key: 'hr-rotation-patterns' } },
+  { id: 'rotationAssignments', label: 'Assegnazioni rotazioni', source: { type: 'entity', key: 'hr-rotation-assignments' } },
+  { id: 'weekTemplates', label: 'Settimane tipo', source: { type: 'entity', key: 'hr-week-templates' } },
+  { id: 'scheduleScenarios', label: 'Scenari di pianificazione', source: { type: 'entity', key: 'hr-schedule-scenarios' } },
+  { id: 'scheduleVersions', label: 'Versioni pubblicate', source: { type: 'entity', key: 'hr-schedule-versions' } },
+  { id: 'ccnlViolations', label: 'Registro violazioni CCNL', source: { type: 'entity', key: 'hr-ccnl-violations' } },
+  { id: 'staffRequirements', label: 'Fabbisogno personale', source: { type: 'entity', key: 'hr-staff-requirements' } },
+  { id: 'staffRoles', label: 'Ruoli personale', source: { type: 'entity', key: 'hr-staff-roles' } },
+  { id: 'weightingEvents', label: 'Eventi di ponderazione', source: { type: 'entity', key: 'hr-weighting-events' } },
+  { id: 'hourBankAccounts', label: 'Banca ore - conti', source: { type: 'entity', key: 'hr-hour-bank-accounts' } },
+  { id: 'hourBankEntries', label: 'Banca ore - movimenti', source: { type: 'entity', key: 'hr-hour-bank-entries' } },
+  { id: 'recoveryRequests', label: 'Banca ore - richieste di recupero', source: { type: 'entity', key: 'hr-recovery-requests' } },
+  { id: 'validationSettings', label: 'Configurazione validazione', source: { type: 'setting', key: 'hr-validation-settings' } },
+  { id: 'users', label: 'Utenti', source: { type: 'entity', key: 'hr-auth-users' } },
+  { id: 'importHistory', label: 'Storico importazioni', source: { type: 'entity', key: 'hr-import-history' } },
+  { id: 'auditLog', label: 'Registro audit', source: { type: 'entity', key: 'hr_shift_audit_trail' } },
+  { id: 'auditSettings', label: 'Impostazioni audit', source: { type: 'setting', key: 'hr_shift_audit_settings' } }
+];
+
+export interface WorkspaceArchive {
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  schemaVersions: Partial<Record<EntityKey, number>>; // Versione di schema delle entità al momento dell'export
+  checksum: string; // SHA-256 delle sezioni serializzate
+  sections: Record<string, unknown>;
+}
+
+export type RestoreMode = 'replace' | 'merge' | 'skip';
+
+export interface SectionRestorePreview {
+  id: string;
+  label: string;
+  inArchive: boolean;
+  supportsMerge: boolean; // Solo le collezioni di record con id possono essere unite
+  archiveCount: number;
+  currentCount: number;
+  added: number;     // Record nuovi
+  updated: number;   // Record presenti in entrambi con contenuto diverso
+  unchanged: number;
+  removedOnReplace: number; // Record attuali che la sostituzione eliminerebbe
+}
+
+export interface RestoreResult {
+  restoredSections: string[];
+  failures: MigrationFailure[];
+}
+
+const serialize = (value: unknown, space?: number) => JSON.stringify(value, (_key, val) => {
+  if (val instanceof Date && !isNaN(val.getTime())) {
+    return val.toISOString();
+  }
+  return val;
+}, space);
+
+const computeChecksum = async (sections: Record<string, unknown>): Promise<string> => {
+  const data = new TextEncoder().encode(serialize(sections));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const isRecordCollection = (value: unknown): value is StoredEntity[] =>
+  Array.isArray(value) && value.every(item => !!item && typeof item === 'object' && typeof (item as StoredEntity).id === 'string');
+
+const readSetting = (key: string): unknown => {
+  const item = window.localStorage.getItem(key);
+  if (!item) return undefined;
+  try {
+    return JSON.parse(item);
+  } catch {
+    console.warn(`⚠️ Impostazione "${key}" non leggibile, esclusa dal backup`);
+    return undefined;
+  }
+};
+
+const readSection = async ({ source }: ArchiveSectionDefinition): Promise<unknown> => {
+  if (source.type === 'entity') {
+    const repository = await getRepository(source.key);
+    return repository.getAll();
+  }
+  return readSetting(source.key);
+};
+
+// 📤 EXPORT
+export const createWorkspaceArchive = async (): Promise<WorkspaceArchive> => {
+  const sections: Record<string, unknown> = {};
+  const schemaVersions: Partial<Record<EntityKey, number>> = {};
+
+  for (const section of ARCHIVE_SECTIONS) {
+    const value = await readSection(section);
+    if (value === undefined) continue;
+
+    // Round-trip JSON: il checksum viene calcolato sulla stessa forma che finisce nel file
+    sections[section.id] = JSON.parse(serialize(value));
+    if (section.source.type === 'entity') {
+      schemaVersions[section.source.key] = getCurrentSchemaVersion(section.source.key);
+    }
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersions,
+    checksum: await computeChecksum(sections),
+    sections
+  };
+};
+
+export const downloadWorkspaceArchive = async () => {
+  const archive = await createWorkspaceArchive();
+
+  const blob = new Blob([serialize(archive, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `Backup_Workspace_${archive.createdAt.split('T')[0]}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+
+  console.log(`💾 Backup workspace esportato (${Object.keys(archive.sections).length} sezioni)`);
+  return archive;
+};
+
+/**
+ * 📥 LETTURA ARCHIVIO: verifica formato, versione e checksum.
+ * Un archivio alterato o di una versione futura viene rifiutato prima di qualsiasi scrittura.
+ */
+export const parseWorkspaceArchive = async (text: string): Promise<WorkspaceArchive> => {
+  let parsed: WorkspaceArchive;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Il file non è un JSON valido');
+  }
+
+  if (!parsed || parsed.format !== ARCHIVE_FORMAT || typeof parsed.sections !== 'object') {
+    throw new Error('Il file non è un backup del workspace');
+  }
+  if (parsed.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(`Versione archivio ${parsed.formatVersion} non supportata (massima ${ARCHIVE_FORMAT_VERSION})`);
+  }
+
+  const checksum = await computeChecksum(parsed.sections);
+  if (checksum !== parsed.checksum) {
+    throw new Error('Checksum non valido: il backup è danneggiato o è stato modificato');
+  }
+
+  return parsed;
+};
+
+// Record dell'archivio portati alla versione di schema corrente
+const migrateArchiveRecords = (archive: WorkspaceArchive, entity: EntityKey, records: unknown[]) => {
+  const fromVersion = archive.schemaVersions[entity] ?? 0;
+  const { migrated, failures } = migrateRecords(entity, records as Record<string, unknown>[], fromVersion);
+  return {
+    records: migrated.map(record => reviveEntityDates(entity, record) as unknown as StoredEntity),
+    failures
+  };
+};
+
+// 🔍 ANTEPRIMA: cosa verrebbe sostituito o unito per ogni sezione
+export const previewWorkspaceRestore = async (archive: WorkspaceArchive): Promise<SectionRestorePreview[]> => {
+  const previews: SectionRestorePreview[] = [];
+
+  for (const section of ARCHIVE_SECTIONS) {
+    const archived = archive.sections[section.id];
+    const current = await readSection(section);
+    const archivedList = isRecordCollection(archived) ? archived : null;
+    const currentList = isRecordCollection(current) ? current : [];
+
+    const preview: SectionRestorePreview = {
+      id: section.id,
+      label: section.label,
+      inArchive: archived !== undefined,
+      supportsMerge: !!archivedList,
+      archiveCount: archivedList ? archivedList.length : archived !== undefined ? 1 : 0,
+      currentCount: Array.isArray(current) ? current.length : current !== undefined ? 1 : 0,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      removedOnReplace: 0
+    };
+
+    if (archivedList) {
+      const currentById = new Map(currentList.map(item => [item.id, serialize(item)]));
+      const archivedIds = new Set(archivedList.map(item => item.id));
+
+      archivedList.forEach(item => {
+        const existing = currentById.get(item.id);
+        if (existing === undefined) preview.added++;
+        else if (existing === serialize(item)) preview.unchanged++;
+        else preview.updated++;
+      });
+      preview.removedOnReplace = currentList.filter(item => !archivedIds.has(item.id)).length;
+    } else if (archived !== undefined) {
+      if (current === undefined) preview.added = 1;
+      else if (serialize(current) === serialize(archived)) preview.unchanged = 1;
+      else preview.updated = 1;
+    }
+
+    previews.push(preview);
+  }
+
+  return previews;
+};
+
+const mergeById = (current: StoredEntity[], incoming: StoredEntity[]) => {
+  const byId = new Map(current.map(item => [item.id, item]));
+  incoming.forEach(item => byId.set(item.id, item));
+  return Array.from(byId.values());
+};
+
+/**
+ * ♻️ RIPRISTINO SELETTIVO: ogni sezione viene sostituita, unita per id o saltata.
+ * Le entità passano dalle migrazioni di schema; i record non migrabili sono riportati nel risultato.
+ * Le altre schede aperte ricevono le modifiche tramite la sincronizzazione tra schede.
+ */
+export const restoreWorkspace = async (
+  archive: WorkspaceArchive,
+  modes: Record<string, RestoreMode>
+): Promise<RestoreResult> => {
+  const result: RestoreResult = { restoredSections: [], failures: [] };
+
+  for (const section of ARCHIVE_SECTIONS) {
+    const mode = modes[section.id] ?? 'skip';
+    const archived = archive.sections[section.id];
+    if (mode === 'skip' || archived === undefined) continue;
+
+    const { source } = section;
+    if (source.type === 'entity') {
+      if (!Array.isArray(archived)) {
+        throw new Error(`Sezione "${section.label}" non valida nell'archivio`);
+      }
+
+      const { records, failures } = migrateArchiveRecords(archive, source.key, archived);
+      const repository = await getRepository(source.key);
+      const current = await repository.getAll();
+      const incomingIds = new Set(records.map(record => record.id));
+
+      if (mode === 'replace') {
+        await repository.replaceAll(records);
+      } else {
+        await repository.saveMany(records);
+      }
+
+      const deletions = mode === 'replace'
+        ? current.filter(item => !incomingIds.has(item.id)).map(item => item.id)
+        : [];
+      publishEntityChanges(source.key, { upserts: records, deletions }, RESTORE_SOURCE_ID, true);
+      result.failures.push(...failures);
+    } else {
+      const current = readSetting(source.key);
+      const value = mode === 'merge' && isRecordCollection(archived) && isRecordCollection(current)
+        ? mergeById(current, archived)
+        : archived;
+      window.localStorage.setItem(source.key, serialize(value));
+    }
+
+    result.restoredSections.push(section.id);
+    console.log(`♻️ Ripristinata sezione "${section.label}" (${mode === 'replace' ? 'sostituzione' : 'unione'})`);
+  }
+
+  if (result.failures.length > 0) {
+    console.warn(`⚠️ Ripristino: ${result.failures.length} record non migrati`, result.failures);
+  }
+
+  return result;
+};
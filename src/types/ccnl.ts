@@ -1,3 +1,5 @@
+import { ContractType } from './contracts';
+
 // CCNL del commercio compliance types
 export interface CCNLRestPeriodRule {
   id: string;
@@ -14,7 +16,8 @@ export interface CCNLRestPeriodRule {
 
 export interface CCNLViolation {
   id: string;
-  type: CCNLRestPeriodRule['type'];
+  type: CCNLRestPeriodRule['type'] | CCNLRuleMetric;
+  ruleId?: string; // Regola dichiarativa che ha generato la violazione
   employeeId: string;
   shiftIds: string[];
   violationDate: Date;
@@ -29,8 +32,260 @@ export interface CCNLViolation {
   resolvedBy?: string;
 }
 
+// 📒 REGISTRO VIOLAZIONI: esito della gestione di una violazione, legato ai turni che la generano
+export type CCNLViolationStatus = 'open' | 'acknowledged' | 'justified' | 'resolved';
+
+export interface CCNLViolationStatusChange {
+  status: CCNLViolationStatus;
+  note?: string;
+  changedBy: string;
+  changedAt: Date;
+}
+
+export interface CCNLViolationRecord {
+  id: string; // Coincide con l'id della violazione ricalcolata
+  employeeId: string;
+  storeId: string;
+  type: CCNLViolation['type'];
+  ruleId?: string;
+  severity: CCNLViolation['severity'];
+  description: string;
+  articleReference: string;
+  violationDate: Date;
+  shiftIds: string[];
+  shiftFingerprint: string; // Stato dei turni al momento della registrazione: se cambia la violazione si riapre
+  status: CCNLViolationStatus;
+  note?: string;
+  updatedBy: string;
+  history: CCNLViolationStatusChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 📐 REGOLE DICHIARATIVE: misura, parametri e ambito configurabili dall'amministrazione
+export type CCNLRuleMetric =
+  | 'max_daily_hours'
+  | 'max_weekly_hours'
+  | 'night_work'
+  | 'min_shift_length'
+  | 'sunday_quota'
+  | 'break_after_hours'
+  | 'average_weekly_hours'
+  | 'night_work_ban'
+  | 'weekly_rest_days';
+
+export type CCNLRuleParameters = Record<string, number | string>;
+
+export interface CCNLRuleScope {
+  contractTypes?: ContractType[]; // Vuoto o assente = tutte le tipologie
+  storeIds?: string[];
+  roleIds?: string[];
+}
+
+export interface CCNLRuleDefinition {
+  id: string;
+  name: string;
+  description: string;
+  articleReference: string;
+  metric: CCNLRuleMetric;
+  params: CCNLRuleParameters;
+  scope: CCNLRuleScope;
+  severity: 'critical' | 'warning';
+  isActive: boolean;
+  isBuiltIn?: boolean; // Regole standard: modificabili ma non eliminabili
+}
+
+export interface CCNLRuleParameterSpec {
+  key: string;
+  label: string;
+  type: 'number' | 'time';
+  unit?: string;
+  defaultValue: number | string;
+}
+
+export interface CCNLRuleMetricSpec {
+  label: string;
+  description: string;
+  parameters: CCNLRuleParameterSpec[];
+}
+
+// Parametri attesi da ogni misura: guidano l'editor e i valori di default delle nuove regole
+export const CCNL_RULE_METRICS: Record<CCNLRuleMetric, CCNLRuleMetricSpec> = {
+  max_daily_hours: {
+    label: 'Ore massime giornaliere',
+    description: 'Ore lavorate nella stessa giornata, turni spezzati e più turni sommati',
+    parameters: [{ key: 'maxHours', label: 'Ore massime', type: 'number', unit: 'h', defaultValue: 10 }]
+  },
+  max_weekly_hours: {
+    label: 'Ore massime settimanali',
+    description: 'Ore lavorate nella settimana da lunedì a domenica',
+    parameters: [{ key: 'maxHours', label: 'Ore massime', type: 'number', unit: 'h', defaultValue: 48 }]
+  },
+  night_work: {
+    label: 'Lavoro notturno',
+    description: 'Turni che ricadono nel periodo notturno per almeno le ore indicate',
+    parameters: [
+      { key: 'nightStart', label: 'Inizio periodo notturno', type: 'time', defaultValue: '22:00' },
+      { key: 'nightEnd', label: 'Fine periodo notturno', type: 'time', defaultValue: '06:00' },
+      { key: 'minNightHours', label: 'Ore notturne per turno notturno', type: 'number', unit: 'h', defaultValue: 3 },
+      { key: 'maxShiftHours', label: 'Ore massime per turno notturno', type: 'number', unit: 'h', defaultValue: 8 },
+      { key: 'maxShiftsPerWeek', label: 'Turni notturni massimi a settimana', type: 'number', defaultValue: 5 }
+    ]
+  },
+  min_shift_length: {
+    label: 'Durata minima del turno',
+    description: 'Ore lavorate minime per ogni turno',
+    parameters: [{ key: 'minHours', label: 'Ore minime', type: 'number', unit: 'h', defaultValue: 4 }]
+  },
+  sunday_quota: {
+    label: 'Quota domeniche lavorate',
+    description: 'Domeniche lavorate nelle ultime settimane, quella del turno compresa',
+    parameters: [
+      { key: 'maxSundays', label: 'Domeniche massime', type: 'number', defaultValue: 2 },
+      { key: 'periodWeeks', label: 'Periodo di riferimento', type: 'number', unit: 'settimane', defaultValue: 4 }
+    ]
+  },
+  break_after_hours: {
+    label: 'Pausa obbligatoria',
+    description: 'Pausa minima quando la prestazione giornaliera supera la soglia',
+    parameters: [
+      { key: 'thresholdHours', label: 'Soglia ore lavorate', type: 'number', unit: 'h', defaultValue: 6 },
+      { key: 'minBreakMinutes', label: 'Pausa minima', type: 'number', unit: 'min', defaultValue: 10 }
+    ]
+  },
+  average_weekly_hours: {
+    label: 'Media ore settimanali',
+    description: 'Media settimanale sul periodo di riferimento mobile, turni già pianificati compresi',
+    parameters: [
+      { key: 'maxAverageHours', label: 'Media massima', type: 'number', unit: 'h', defaultValue: 48 },
+      { key: 'referenceMonths', label: 'Periodo di riferimento', type: 'number', unit: 'mesi', defaultValue: 4 },
+      { key: 'warningPercent', label: 'Soglia di avviso', type: 'number', unit: '%', defaultValue: 90 }
+    ]
+  },
+  night_work_ban: {
+    label: 'Divieto di lavoro notturno',
+    description: 'Nessun minuto di lavoro nella fascia notturna indicata',
+    parameters: [
+      { key: 'nightStart', label: 'Inizio fascia vietata', type: 'time', defaultValue: '22:00' },
+      { key: 'nightEnd', label: 'Fine fascia vietata', type: 'time', defaultValue: '06:00' }
+    ]
+  },
+  weekly_rest_days: {
+    label: 'Giorni di riposo consecutivi',
+    description: 'Giorni consecutivi senza turni nella settimana da lunedì a domenica',
+    parameters: [{ key: 'minConsecutiveRestDays', label: 'Giorni minimi', type: 'number', defaultValue: 2 }]
+  }
+};
+
+export const getDefaultRuleParameters = (metric: CCNLRuleMetric): CCNLRuleParameters =>
+  Object.fromEntries(CCNL_RULE_METRICS[metric].parameters.map(param => [param.key, param.defaultValue]));
+
+// Regole dichiarative standard (ampliabili e modificabili da Configurazione Validazione)
+export const CCNL_DEFAULT_RULE_DEFINITIONS: CCNLRuleDefinition[] = [
+  {
+    id: 'max-daily-hours',
+    name: 'Orario Giornaliero Massimo',
+    description: 'Non più di 10 ore di lavoro nella stessa giornata, straordinario compreso',
+    articleReference: 'Art. 119 CCNL Commercio',
+    metric: 'max_daily_hours',
+    params: getDefaultRuleParameters('max_daily_hours'),
+    scope: {},
+    severity: 'warning',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'max-weekly-hours-48h',
+    name: 'Orario Settimanale Massimo',
+    description: 'Non più di 48 ore settimanali, straordinario compreso',
+    articleReference: 'Art. 4 D.Lgs. 66/2003',
+    metric: 'max_weekly_hours',
+    params: getDefaultRuleParameters('max_weekly_hours'),
+    scope: {},
+    severity: 'critical',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'night-work-limits',
+    name: 'Limiti Lavoro Notturno',
+    description: 'Turni notturni di massimo 8 ore e non più di 5 a settimana',
+    articleReference: 'Art. 13 D.Lgs. 66/2003',
+    metric: 'night_work',
+    params: getDefaultRuleParameters('night_work'),
+    scope: {},
+    severity: 'warning',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'min-shift-length-part-time',
+    name: 'Prestazione Minima Part-time',
+    description: 'Turni dei part-time orizzontali di almeno 4 ore consecutive',
+    articleReference: 'Art. 92 CCNL Commercio',
+    metric: 'min_shift_length',
+    params: getDefaultRuleParameters('min_shift_length'),
+    scope: { contractTypes: ['part_time_horizontal'] },
+    severity: 'warning',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'sunday-quota',
+    name: 'Quota Domeniche Lavorate',
+    description: 'Non più di 2 domeniche lavorate ogni 4 settimane',
+    articleReference: 'Art. 141 CCNL Commercio',
+    metric: 'sunday_quota',
+    params: getDefaultRuleParameters('sunday_quota'),
+    scope: {},
+    severity: 'warning',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'break-after-6h',
+    name: 'Pausa dopo 6 Ore',
+    description: 'Pausa di almeno 10 minuti quando il turno supera 6 ore di lavoro',
+    articleReference: 'Art. 8 D.Lgs. 66/2003',
+    metric: 'break_after_hours',
+    params: getDefaultRuleParameters('break_after_hours'),
+    scope: {},
+    severity: 'warning',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'average-weekly-hours-48h',
+    name: 'Media Settimanale 48 Ore',
+    description: 'Media di 48 ore settimanali, straordinario compreso, su 4 mesi',
+    articleReference: 'Art. 4 D.Lgs. 66/2003',
+    metric: 'average_weekly_hours',
+    params: getDefaultRuleParameters('average_weekly_hours'),
+    scope: {},
+    severity: 'critical',
+    isActive: true,
+    isBuiltIn: true
+  }
+];
+
+// ⚖️ MEDIA SETTIMANALE sul periodo di riferimento mobile che termina con la settimana valutata
+export interface CCNLAverageWorkingWeek {
+  ruleId: string;
+  periodStart: Date;
+  periodEnd: Date; // Esclusa: lunedì successivo alla settimana valutata
+  referenceMonths: number;
+  weeks: number;
+  workedHours: number; // Turni già svolti
+  plannedHours: number; // Turni pianificati da oggi in poi
+  averageHours: number; // Media proiettata (svolti + pianificati)
+  maxAverageHours: number;
+  remainingHours: number; // Ore ancora pianificabili nel periodo senza superare la media
+  status: 'ok' | 'warning' | 'exceeded';
+}
+
 export interface CCNLComplianceReport {
   employeeId: string;
+  agreementId: CCNLAgreementId; // Contratto collettivo con cui è stato valutato il dipendente
   weekStart: Date;
   weekEnd: Date;
   violations: CCNLViolation[];
@@ -47,6 +302,7 @@ export interface CCNLComplianceReport {
   };
   consecutiveDaysWorked: number;
   maxAllowedConsecutiveDays: number;
+  averageWorkingWeek: CCNLAverageWorkingWeek | null; // Assente se il contratto non prevede la regola
   complianceScore: number; // 0-100
   overallStatus: 'compliant' | 'minor_violations' | 'major_violations';
 }
@@ -94,4 +350,176 @@ export const CCNL_STANDARD_RULES: CCNLRestPeriodRule[] = [
     isActive: true,
     severity: 'critical'
   }
-];
\ No newline at end of file
+];
+// 🧒 TUTELE MINORI (L. 977/1967): regole di legge sempre bloccanti per i dipendenti con meno di 18 anni
+// alla data del turno, apprendisti minorenni compresi. Si applicano con qualunque contratto collettivo.
+export const MINOR_AGE_LIMIT = 18;
+
+export const MINOR_PROTECTION_RULES: CCNLRuleDefinition[] = [
+  {
+    id: 'minor-night-work-ban',
+    name: 'Divieto Lavoro Notturno Minori',
+    description: 'I minori non possono lavorare tra le 22:00 e le 6:00',
+    articleReference: 'Art. 15 L. 977/1967',
+    metric: 'night_work_ban',
+    params: { nightStart: '22:00', nightEnd: '06:00' },
+    scope: {},
+    severity: 'critical',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'minor-max-daily-8h',
+    name: 'Orario Giornaliero Minori',
+    description: 'Non più di 8 ore di lavoro al giorno',
+    articleReference: 'Art. 18 L. 977/1967',
+    metric: 'max_daily_hours',
+    params: { maxHours: 8 },
+    scope: {},
+    severity: 'critical',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'minor-max-weekly-40h',
+    name: 'Orario Settimanale Minori',
+    description: 'Non più di 40 ore di lavoro a settimana',
+    articleReference: 'Art. 18 L. 977/1967',
+    metric: 'max_weekly_hours',
+    params: { maxHours: 40 },
+    scope: {},
+    severity: 'critical',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'minor-break-1h',
+    name: 'Pausa Minori',
+    description: 'Pausa di almeno un\'ora quando il lavoro supera 4 ore e mezza',
+    articleReference: 'Art. 20 L. 977/1967',
+    metric: 'break_after_hours',
+    params: { thresholdHours: 4.5, minBreakMinutes: 60 },
+    scope: {},
+    severity: 'critical',
+    isActive: true,
+    isBuiltIn: true
+  },
+  {
+    id: 'minor-weekly-rest-2days',
+    name: 'Riposo Settimanale Minori',
+    description: 'Almeno 2 giorni di riposo consecutivi ogni settimana',
+    articleReference: 'Art. 22 L. 977/1967',
+    metric: 'weekly_rest_days',
+    params: { minConsecutiveRestDays: 2 },
+    scope: {},
+    severity: 'critical',
+    isActive: true,
+    isBuiltIn: true
+  }
+];
+
+// 📚 CONTRATTI COLLETTIVI: pacchetti di regole per accordo, assegnati al negozio e sovrascrivibili per dipendente
+export type CCNLAgreementId = 'commercio' | 'turismo' | 'multiservizi';
+
+export interface CCNLRulePack {
+  id: CCNLAgreementId;
+  name: string;
+  shortName: string;
+  description: string;
+  restRules: CCNLRestPeriodRule[];
+  ruleDefinitions: CCNLRuleDefinition[];
+}
+
+export const DEFAULT_CCNL_AGREEMENT: CCNLAgreementId = 'commercio';
+
+// I pacchetti derivano dalle regole del Commercio: cambiano solo limiti e riferimenti specifici dell'accordo
+const deriveRestRules = (
+  agreementId: CCNLAgreementId,
+  overrides: Record<string, Partial<CCNLRestPeriodRule>>
+): CCNLRestPeriodRule[] =>
+  CCNL_STANDARD_RULES.map(rule => ({ ...rule, ...overrides[rule.id], id: `${agreementId}-${rule.id}` }));
+
+const deriveRuleDefinitions = (
+  agreementId: CCNLAgreementId,
+  overrides: Record<string, Partial<CCNLRuleDefinition>>
+): CCNLRuleDefinition[] =>
+  CCNL_DEFAULT_RULE_DEFINITIONS.map(rule => {
+    const override = overrides[rule.id] || {};
+    return { ...rule, ...override, id: `${agreementId}-${rule.id}`, params: { ...rule.params, ...override.params } };
+  });
+
+export const CCNL_RULE_PACKS: Record<CCNLAgreementId, CCNLRulePack> = {
+  commercio: {
+    id: 'commercio',
+    name: 'CCNL Commercio, Terziario, Distribuzione e Servizi',
+    shortName: 'Commercio',
+    description: 'Negozi e punti vendita della distribuzione',
+    restRules: CCNL_STANDARD_RULES,
+    ruleDefinitions: CCNL_DEFAULT_RULE_DEFINITIONS
+  },
+  turismo: {
+    id: 'turismo',
+    name: 'CCNL Turismo - Pubblici Esercizi',
+    shortName: 'Turismo',
+    description: 'Bar, caffetterie e ristorazione: il lavoro domenicale e serale è ordinario',
+    restRules: deriveRestRules('turismo', {
+      'daily-rest-11h': { articleReference: 'Art. 7 D.Lgs. 66/2003 - CCNL Turismo' },
+      'weekly-rest-35h': { articleReference: 'Art. 9 D.Lgs. 66/2003 - CCNL Turismo' },
+      'max-consecutive-6days': { articleReference: 'CCNL Turismo - Riposo settimanale' },
+      'shift-gap-minimum': { articleReference: 'Art. 7 D.Lgs. 66/2003 - CCNL Turismo' }
+    }),
+    ruleDefinitions: deriveRuleDefinitions('turismo', {
+      'max-daily-hours': { articleReference: 'CCNL Turismo - Orario di lavoro' },
+      'night-work-limits': {
+        description: 'Turni notturni di massimo 8 ore e non più di 6 a settimana',
+        params: { maxShiftsPerWeek: 6 }
+      },
+      'min-shift-length-part-time': {
+        description: 'Turni dei part-time di almeno 3 ore',
+        articleReference: 'CCNL Turismo - Lavoro a tempo parziale',
+        params: { minHours: 3 },
+        scope: { contractTypes: ['part_time_horizontal', 'part_time_vertical'] }
+      },
+      'sunday-quota': { articleReference: 'CCNL Turismo - Lavoro domenicale', isActive: false },
+      'average-weekly-hours-48h': {
+        description: 'Media di 48 ore settimanali su 6 mesi, periodo esteso dalla contrattazione collettiva',
+        articleReference: 'Art. 4 D.Lgs. 66/2003 - CCNL Turismo',
+        params: { referenceMonths: 6 }
+      }
+    })
+  },
+  multiservizi: {
+    id: 'multiservizi',
+    name: 'CCNL Multiservizi - Pulizia e Servizi Integrati',
+    shortName: 'Multiservizi',
+    description: 'Personale di pulizia e servizi, spesso con turni brevi fuori dall\'orario di apertura',
+    restRules: deriveRestRules('multiservizi', {
+      'daily-rest-11h': { articleReference: 'Art. 7 D.Lgs. 66/2003 - CCNL Multiservizi' },
+      'weekly-rest-35h': { articleReference: 'Art. 9 D.Lgs. 66/2003 - CCNL Multiservizi' },
+      'max-consecutive-6days': { articleReference: 'CCNL Multiservizi - Riposo settimanale' },
+      'shift-gap-minimum': { articleReference: 'Art. 7 D.Lgs. 66/2003 - CCNL Multiservizi' }
+    }),
+    ruleDefinitions: deriveRuleDefinitions('multiservizi', {
+      'max-daily-hours': {
+        description: 'Non più di 8 ore di lavoro nella stessa giornata',
+        articleReference: 'CCNL Multiservizi - Orario di lavoro',
+        params: { maxHours: 8 }
+      },
+      'min-shift-length-part-time': {
+        description: 'Turni dei part-time di almeno 2 ore',
+        articleReference: 'CCNL Multiservizi - Lavoro a tempo parziale',
+        params: { minHours: 2 },
+        scope: { contractTypes: ['part_time_horizontal', 'part_time_vertical'] }
+      },
+      'sunday-quota': { articleReference: 'CCNL Multiservizi - Lavoro domenicale' },
+      'average-weekly-hours-48h': { articleReference: 'Art. 4 D.Lgs. 66/2003 - CCNL Multiservizi' }
+    })
+  }
+};
+
+// Riposi minimi del pacchetto, per riepiloghi e intestazioni
+export const getRulePackRestSummary = (pack: CCNLRulePack) => ({
+  dailyRestHours: pack.restRules.find(rule => rule.type === 'daily_rest')?.minimumHours ?? 11,
+  weeklyRestHours: pack.restRules.find(rule => rule.type === 'weekly_rest')?.minimumHours ?? 35,
+  maxConsecutiveDays: pack.restRules.find(rule => rule.type === 'consecutive_days')?.maximumConsecutiveDays ?? 6
+});
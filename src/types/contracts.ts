@@ -0,0 +1,118 @@
+// Tipologie contrattuali e regole specifiche per tipologia
+export type ContractType =
+  | 'full_time'
+  | 'part_time_horizontal'
+  | 'part_time_vertical'
+  | 'fixed_term'
+  | 'apprentice'
+  | 'on_call';
+
+export interface ContractRuleSet {
+  type: ContractType;
+  label: string;
+  description: string;
+  articleReference: string;
+  maxSupplementaryHours: number; // Ore oltre il contratto ammesse a settimana (supplementari o straordinarie)
+  overloadWarningRatio: number; // Quota delle ore contratto oltre la quale scatta l'avviso di sovraccarico
+  trainingHoursPerWeek: number; // Formazione obbligatoria: ore non pianificabili come lavoro
+  restrictToWorkingDays: boolean; // Lavoro solo nei giorni concordati (part-time verticale)
+  requiresEndDate: boolean; // Contratto con scadenza
+  guaranteesMinimumHours: boolean; // Le ore minime garantite generano avvisi di sottoutilizzo
+  accruesHourBank: boolean; // Le differenze settimanali confluiscono nella banca ore
+}
+
+// Regole standard CCNL del commercio per tipologia contrattuale
+export const CONTRACT_RULE_SETS: Record<ContractType, ContractRuleSet> = {
+  full_time: {
+    type: 'full_time',
+    label: 'Tempo pieno',
+    description: 'Orario pieno indeterminato, straordinario entro il limite settimanale',
+    articleReference: 'Art. 119 CCNL Commercio',
+    maxSupplementaryHours: 8,
+    overloadWarningRatio: 0.9,
+    trainingHoursPerWeek: 0,
+    restrictToWorkingDays: false,
+    requiresEndDate: false,
+    guaranteesMinimumHours: true,
+    accruesHourBank: true
+  },
+  part_time_horizontal: {
+    type: 'part_time_horizontal',
+    label: 'Part-time orizzontale',
+    description: 'Orario ridotto distribuito su tutti i giorni lavorativi',
+    articleReference: 'Art. 88 CCNL Commercio',
+    maxSupplementaryHours: 6,
+    overloadWarningRatio: 0.9,
+    trainingHoursPerWeek: 0,
+    restrictToWorkingDays: false,
+    requiresEndDate: false,
+    guaranteesMinimumHours: true,
+    accruesHourBank: true
+  },
+  part_time_vertical: {
+    type: 'part_time_vertical',
+    label: 'Part-time verticale',
+    description: 'Orario pieno solo in alcuni giorni della settimana concordati',
+    articleReference: 'Art. 88 CCNL Commercio',
+    maxSupplementaryHours: 6,
+    overloadWarningRatio: 0.9,
+    trainingHoursPerWeek: 0,
+    restrictToWorkingDays: true,
+    requiresEndDate: false,
+    guaranteesMinimumHours: true,
+    accruesHourBank: true
+  },
+  fixed_term: {
+    type: 'fixed_term',
+    label: 'Tempo determinato',
+    description: 'Contratto a termine: nessun turno oltre la data di scadenza',
+    articleReference: 'Art. 66 CCNL Commercio',
+    maxSupplementaryHours: 8,
+    overloadWarningRatio: 0.9,
+    trainingHoursPerWeek: 0,
+    restrictToWorkingDays: false,
+    requiresEndDate: true,
+    guaranteesMinimumHours: true,
+    accruesHourBank: true
+  },
+  apprentice: {
+    type: 'apprentice',
+    label: 'Apprendistato',
+    description: 'Formazione professionalizzante obbligatoria sottratta all\'orario di lavoro',
+    articleReference: 'Art. 45 CCNL Commercio',
+    maxSupplementaryHours: 4,
+    overloadWarningRatio: 0.85,
+    trainingHoursPerWeek: 3, // Circa 120 ore annue di formazione
+    restrictToWorkingDays: false,
+    requiresEndDate: false,
+    guaranteesMinimumHours: true,
+    accruesHourBank: true
+  },
+  on_call: {
+    type: 'on_call',
+    label: 'A chiamata',
+    description: 'Lavoro intermittente: nessun minimo garantito, le ore contratto sono la disponibilità massima',
+    articleReference: 'Art. 13 D.Lgs. 81/2015',
+    maxSupplementaryHours: 0,
+    overloadWarningRatio: 1,
+    trainingHoursPerWeek: 0,
+    restrictToWorkingDays: false,
+    requiresEndDate: false,
+    guaranteesMinimumHours: false,
+    accruesHourBank: false
+  }
+};
+
+// 📅 Periodo contrattuale con decorrenza: le modifiche al contratto non riscrivono le settimane passate
+export interface EmployeeContractPeriod {
+  id: string;
+  effectiveFrom: Date;
+  effectiveTo?: Date; // Ultimo giorno di validità (assente = in corso)
+  contractType: ContractType;
+  contractHours: number;
+  fixedHours: number;
+  storeId?: string;
+  workingDays?: string[];
+  contractEndDate?: Date;
+  createdAt: Date;
+}
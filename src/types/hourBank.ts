@@ -19,6 +19,8 @@ export interface HourBankEntry {
   contractHours: number; // Ore previste dal contratto per quella settimana
   actualHours: number; // Ore effettivamente lavorate
   difference: number; // Differenza (positive = eccesso, negative = deficit)
+  holidayHours?: number; // Ore lavorate in giorni festivi (nazionali o patronali)
+  holidaysInWeek?: number; // Festività infrasettimanali che riducono le ore dovute
   type: 'excess' | 'deficit';
   description: string;
   isProcessed: boolean; // Se è stato processato in banca ore
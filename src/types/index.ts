@@ -1,11 +1,21 @@
+import { ContractType, EmployeeContractPeriod } from './contracts';
+import { CCNLAgreementId } from './ccnl';
+
 export interface Employee {
   id: string;
-  first_name: string;
-  last_name: string;
+  firstName: string;
+  lastName: string;
+  birthDate?: Date; // Necessaria per le tutele dei lavoratori minorenni
   contractHours: number;
   fixedHours: number;
   isActive: boolean;
   storeId?: string;
+  skills?: EmployeeSkill[]; // Ruoli/competenze con livello di padronanza
+  contractType?: ContractType; // Tipologia contrattuale (assente = tempo pieno)
+  contractEndDate?: Date; // Scadenza dei contratti a termine
+  workingDays?: string[]; // Giorni concordati del part-time verticale ('lunedì', 'martedì', ...)
+  contractHistory?: EmployeeContractPeriod[]; // Storico con decorrenze; i campi sopra riflettono il contratto in vigore oggi
+  ccnlAgreementId?: CCNLAgreementId; // Contratto collettivo diverso da quello del negozio (es. addetti pulizie)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,6 +31,8 @@ export interface Store {
   };
   weeklySchedules?: WeeklyStoreSchedule[];
   closureDays?: ClosureDay[];
+  patronSaint?: PatronSaintDay; // Festa del santo patrono locale
+  ccnlAgreementId?: CCNLAgreementId; // Contratto collettivo applicato (assente = Commercio)
   isActive: boolean;
   staffRequirements?: StaffRequirement[];
   createdAt: Date;
@@ -44,6 +56,19 @@ export interface WeeklyStoreSchedule {
   updatedAt: Date;
 }
 
+// 🎉 FESTIVITÀ
+export interface PatronSaintDay {
+  name: string;  // es. "Sant'Ambrogio"
+  day: number;   // 1-31
+  month: number; // 1-12
+}
+
+export interface Holiday {
+  date: Date;
+  name: string;
+  type: 'national' | 'religious' | 'patronal';
+}
+
 export interface ClosureDay {
   id: string;
   storeId: string;
@@ -73,11 +98,72 @@ export interface Shift {
   lockedAt?: Date; // Quando è stato bloccato
   lockedBy?: string; // Chi l'ha bloccato
   validationStatus?: ShiftValidationStatus; // Nuovo campo per workflow
+  segments?: ShiftSegment[]; // Turno spezzato: startTime/endTime = inizio primo e fine ultimo segmento
+  roleId?: string; // Ruolo con cui il dipendente copre il turno (StaffRole.id)
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 📢 TURNO APERTO: fabbisogno pubblicato senza dipendente, richiedibile dai dipendenti idonei
+export type OpenShiftStatus = 'open' | 'filled' | 'cancelled';
+export type OpenShiftClaimStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn';
+
+export interface OpenShiftClaim {
+  id: string;
+  employeeId: string;
+  status: OpenShiftClaimStatus;
+  requestedAt: Date;
+  note?: string;
+  decidedAt?: Date;
+  decisionReason?: string; // Motivo del rifiuto (manuale o per ineleggibilità)
+}
+
+export interface OpenShift {
+  id: string;
+  storeId: string;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  breakDuration: number; // in minutes
+  roleId?: string; // Ruolo richiesto (StaffRole.id)
   notes?: string;
+  status: OpenShiftStatus;
+  claims: OpenShiftClaim[];
+  postedBy?: string;
+  filledShiftId?: string; // Turno creato all'approvazione
   createdAt: Date;
   updatedAt: Date;
 }
 
+// 🔄 SCAMBIO TURNI: il dipendente A offre un turno, il collega B accetta (con o senza turno in cambio),
+// il responsabile approva dopo la rivalidazione di entrambe le pianificazioni
+export type ShiftSwapStatus = 'offered' | 'accepted' | 'approved' | 'rejected' | 'cancelled';
+
+export interface ShiftSwapRequest {
+  id: string;
+  requesterId: string; // Dipendente che offre il turno
+  requesterShiftId: string;
+  targetEmployeeId?: string; // Collega a cui è rivolta l'offerta (assente = tutti i colleghi)
+  accepterId?: string; // Collega che ha accettato
+  accepterShiftId?: string; // Turno dato in cambio (assente = semplice cessione)
+  status: ShiftSwapStatus;
+  note?: string;
+  requestedAt: Date;
+  acceptedAt?: Date;
+  decidedAt?: Date;
+  decidedBy?: string;
+  decisionReason?: string; // Motivo del rifiuto (manuale o per validazione fallita)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Segmento di lavoro di un turno spezzato (es. 09:00-13:00 e 16:00-20:00)
+export interface ShiftSegment {
+  startTime: string;
+  endTime: string;
+}
+
 export interface ShiftConflict {
   type: 'outside_hours' | 'overlap' | 'insufficient_break';
   message: string;
@@ -105,16 +191,117 @@ export interface ShiftTemplate {
   startTime: string;
   endTime: string;
   breakDuration: number;
+  segments?: ShiftSegment[]; // Template di turno spezzato
   description?: string;
   category: 'apertura' | 'mediano' | 'chiusura' | 'custom';
   usageCount: number;
   createdAt: Date;
 }
 
+// 🔁 Rotazione plurisettimanale: per ogni settimana il template di ciascun giorno
+export interface RotationWeek {
+  label: string; // es. "Settimana A"
+  days: (string | null)[]; // 7 giorni da lunedì a domenica: id template oppure null = riposo
+}
+
+export interface RotationPattern {
+  id: string;
+  name: string;
+  description?: string;
+  weeks: RotationWeek[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Assegnazione di una rotazione a un dipendente o a un gruppo
+export interface RotationAssignment {
+  id: string;
+  patternId: string;
+  storeId: string;
+  employeeIds: string[];
+  startDate: Date; // Lunedì in cui inizia la settimana indicata da startWeekOffset
+  startWeekOffset: number; // Settimana della rotazione da cui si parte (0 = prima)
+  staggerMembers: boolean; // Gruppo sfalsato: ogni membro parte una settimana dopo il precedente
+  endDate?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 🗓️ Settimana tipo di un negozio: turni per giorno della settimana, riapplicabili con rimappatura dei dipendenti
+export interface WeekTemplateShift {
+  employeeId: string; // Dipendente della settimana di origine
+  dayIndex: number; // 0 = lunedì ... 6 = domenica
+  startTime: string;
+  endTime: string;
+  breakDuration: number;
+  segments?: ShiftSegment[];
+  roleId?: string;
+  notes?: string;
+}
+
+export interface WeekTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  sourceStoreId: string;
+  sourceWeekStart: Date;
+  shifts: WeekTemplateShift[];
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 🧪 Scenario: copia di lavoro di una settimana di un negozio, modificabile senza toccare i turni reali
+export type ScheduleScenarioStatus = 'draft' | 'promoted';
+
+export interface ScheduleScenario {
+  id: string;
+  name: string;
+  description?: string;
+  storeId: string;
+  weekStart: Date;
+  shifts: Shift[]; // I turni copiati dalla griglia conservano l'id del turno reale
+  sourceShiftIds: string[]; // Turni reali presenti al momento della copia
+  status: ScheduleScenarioStatus;
+  createdBy?: string;
+  promotedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 📢 Versione pubblicata: istantanea immutabile della settimana di un negozio
+export interface PublishedShiftSnapshot {
+  shiftId: string;
+  employeeId: string;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  breakDuration: number;
+  actualHours: number;
+  segments?: ShiftSegment[];
+  roleId?: string;
+  notes?: string;
+}
+
+export interface ScheduleVersion {
+  id: string;
+  storeId: string;
+  weekStart: Date;
+  version: number; // Progressivo per negozio e settimana, da 1
+  shifts: PublishedShiftSnapshot[];
+  totalHours: number;
+  publishedBy: string;
+  publishedAt: Date;
+  note?: string;
+}
+
 export interface CopiedShift {
   startTime: string;
   endTime: string;
   breakDuration: number;
+  segments?: ShiftSegment[];
   notes?: string;
 }
 
@@ -138,6 +325,14 @@ export interface StaffRole {
   priority: number; // 1 = alta priorità
 }
 
+export type SkillProficiency = 'junior' | 'intermediate' | 'senior';
+
+export interface EmployeeSkill {
+  roleId: string; // StaffRole.id
+  proficiency: SkillProficiency;
+  isPrimary?: boolean; // Ruolo usato quando il turno non indica un ruolo esplicito
+}
+
 export interface StaffRequirement {
   id: string;
   storeId: string;
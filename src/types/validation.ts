@@ -1,3 +1,6 @@
+import { CalculatedStaffNeed, StaffRole } from './index';
+import { CCNLAgreementId, CCNLRuleDefinition } from './ccnl';
+
 export interface ShiftGridValidationResult {
   isValid: boolean;
   score: number; // 0-100, percentuale di validità
@@ -21,6 +24,7 @@ export interface DailyValidationResult {
   isStoreOpen: boolean;
   isValid: boolean;
   hasShifts: boolean;
+  holiday?: string; // Nome della festività (nazionale o patronale)
   storeHours?: {
     open: string;
     close: string;
@@ -77,7 +81,7 @@ export interface UnderstaffedPeriod {
 
 export interface ValidationIssue {
   type: 'no_shifts' | 'no_opening_coverage' | 'no_closing_coverage' | 
-        'coverage_gap' | 'understaffed' | 'overstaffed' | 'invalid_shift';
+        'coverage_gap' | 'understaffed' | 'overstaffed' | 'invalid_shift' | 'holiday';
   severity: 'critical' | 'warning' | 'info';
   message: string;
   description?: string;
@@ -88,6 +92,13 @@ export interface ValidationIssue {
   };
   affectedShifts?: string[];
   date?: Date;
+  roleId?: string; // Ruolo interessato per le verifiche di copertura per ruolo
+}
+
+// Fabbisogno per ruolo usato dalla validazione (StaffRequirement ponderato dagli eventi)
+export interface RoleStaffingContext {
+  getStaffNeeds: (date: Date) => CalculatedStaffNeed | null;
+  roles: StaffRole[];
 }
 
 // Nuove interfacce per tracking dipendenti
@@ -152,6 +163,7 @@ export interface ValidationAdminSettings {
       maxWeeklyHours: number;
       overtimeThreshold: number;
     };
+    rulePacks?: Partial<Record<CCNLAgreementId, CCNLRuleDefinition[]>>; // Regole dichiarative per contratto collettivo (assenti = regole standard del pacchetto)
   };
   
   // Notifiche e soglie
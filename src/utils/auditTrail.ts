@@ -1,4 +1,5 @@
 import { Shift, Employee } from '../types';
+import { getRepository } from '../lib/repository';
 
 /**
  * 🗃️ STEP 2: AUDIT TRAIL SYSTEM
@@ -7,13 +8,26 @@ import { Shift, Employee } from '../types';
  * e monitoraggio delle modifiche ai turni.
  */
 
+export type SwapAuditOperation = 'swap_requested' | 'swap_accepted' | 'swap_approved' | 'swap_rejected' | 'swap_cancelled';
+
+// Riepilogo di una modifica in blocco dalla griglia (una sola voce per l'intero comando)
+export interface GridBatchAuditSummary {
+  label: string;
+  storeId: string;
+  shiftIds: string[];
+  employeeIds: string[];
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
 export interface LockAuditEntry {
   id: string;
   shiftId: string;
   employeeId: string;
   employeeName: string;
   storeId: string;
-  operation: 'lock' | 'unlock' | 'bulk_lock' | 'bulk_unlock' | 'validation_failed';
+  operation: 'lock' | 'unlock' | 'bulk_lock' | 'bulk_unlock' | 'validation_failed' | 'grid_batch' | SwapAuditOperation;
   timestamp: Date;
   user: string;
   reason?: string;
@@ -34,6 +48,9 @@ export interface LockAuditEntry {
   metadata?: {
     bulkOperationId?: string;
     totalAffectedShifts?: number;
+    swapRequestId?: string;
+    affectedShiftIds?: string[];
+    gridBatch?: { created: number; updated: number; deleted: number };
     ipAddress?: string;
     userAgent?: string;
   };
@@ -49,18 +66,17 @@ export interface AuditStatistics {
   recentActivity: LockAuditEntry[];
 }
 
-// 💾 LOCAL STORAGE KEYS
-const AUDIT_STORAGE_KEY = 'hr_shift_audit_trail';
+// 💾 PERSISTENZA: le voci sono record del repository (indicizzati per turno, dipendente e data),
+// le impostazioni restano in localStorage
+const AUDIT_ENTITY = 'hr_shift_audit_trail';
 const AUDIT_SETTINGS_KEY = 'hr_shift_audit_settings';
 
 interface AuditSettings {
-  maxEntries: number;
   retentionDays: number;
   enableDetailedLogging: boolean;
 }
 
 const DEFAULT_SETTINGS: AuditSettings = {
-  maxEntries: 1000,
   retentionDays: 90,
   enableDetailedLogging: true
 };
@@ -91,48 +107,30 @@ class AuditTrailManager {
     }
   }
 
-  private loadAuditEntries(): LockAuditEntry[] {
+  private async loadAuditEntries(): Promise<LockAuditEntry[]> {
     try {
-      const stored = localStorage.getItem(AUDIT_STORAGE_KEY);
-      if (!stored) return [];
-      
-      const entries: LockAuditEntry[] = JSON.parse(stored);
-      
-      // Convert timestamp strings back to Date objects
-      return entries.map(entry => ({
-        ...entry,
-        timestamp: new Date(entry.timestamp)
-      }));
+      const repository = await getRepository<LockAuditEntry>(AUDIT_ENTITY);
+      return repository.getAll();
     } catch (error) {
       console.error('Failed to load audit entries:', error);
       return [];
     }
   }
 
-  private saveAuditEntries(entries: LockAuditEntry[]): void {
+  // Salva solo le nuove voci; la conservazione elimina quelle più vecchie del periodo impostato
+  private async saveAuditEntries(entries: LockAuditEntry[]): Promise<void> {
     try {
-      // Apply retention policy
+      const repository = await getRepository<LockAuditEntry>(AUDIT_ENTITY);
+      await repository.saveMany(entries);
+
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - this.settings.retentionDays);
-      
-      const filteredEntries = entries
-        .filter(entry => entry.timestamp >= cutoffDate)
-        .slice(-this.settings.maxEntries)
-        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-      
-      localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(filteredEntries));
+      const expired = await repository.findByIndex('timestamp', IDBKeyRange.upperBound(cutoffDate, true));
+      if (expired.length > 0) {
+        await repository.removeMany(expired.map(entry => entry.id));
+      }
     } catch (error) {
       console.error('Failed to save audit entries:', error);
-      
-      // If storage is full, try to free space by removing old entries
-      if (error instanceof DOMException && error.code === 22) {
-        try {
-          const reducedEntries = entries.slice(-Math.floor(this.settings.maxEntries / 2));
-          localStorage.setItem(AUDIT_STORAGE_KEY, JSON.stringify(reducedEntries));
-        } catch (retryError) {
-          console.error('Failed to save even reduced audit entries:', retryError);
-        }
-      }
     }
   }
 
@@ -148,7 +146,7 @@ class AuditTrailManager {
       id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       shiftId: shift.id,
       employeeId: shift.employeeId,
-      employeeName: `${employee.first_name} ${employee.last_name}`,
+      employeeName: `${employee.firstName} ${employee.lastName}`,
       storeId: shift.storeId,
       operation,
       timestamp: new Date(),
@@ -169,9 +167,7 @@ class AuditTrailManager {
       } : undefined
     };
 
-    const entries = this.loadAuditEntries();
-    entries.unshift(entry);
-    this.saveAuditEntries(entries);
+    this.saveAuditEntries([entry]);
   }
 
   logBulkOperation(
@@ -182,16 +178,17 @@ class AuditTrailManager {
     results?: { successful: number; failed: number; validationResults?: any[] }
   ): void {
     const bulkOperationId = `bulk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const entries: LockAuditEntry[] = [];
     
     shifts.forEach((shift, index) => {
       const employee = employees.find(emp => emp.id === shift.employeeId);
       if (!employee) return;
 
-      const entry: LockAuditEntry = {
+      entries.push({
         id: `audit_${Date.now()}_${index}_${Math.random().toString(36).substr(2, 9)}`,
         shiftId: shift.id,
         employeeId: shift.employeeId,
-        employeeName: `${employee.first_name} ${employee.last_name}`,
+        employeeName: `${employee.firstName} ${employee.lastName}`,
         storeId: shift.storeId,
         operation,
         timestamp: new Date(),
@@ -213,12 +210,10 @@ class AuditTrailManager {
             userAgent: navigator.userAgent
           } : {})
         }
-      };
-
-      const entries = this.loadAuditEntries();
-      entries.unshift(entry);
-      this.saveAuditEntries(entries);
+      });
     });
+
+    this.saveAuditEntries(entries);
   }
 
   logValidationFailure(
@@ -231,7 +226,7 @@ class AuditTrailManager {
       id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       shiftId: shift.id,
       employeeId: shift.employeeId,
-      employeeName: `${employee.first_name} ${employee.last_name}`,
+      employeeName: `${employee.firstName} ${employee.lastName}`,
       storeId: shift.storeId,
       operation: 'validation_failed',
       timestamp: new Date(),
@@ -243,27 +238,95 @@ class AuditTrailManager {
       } : undefined
     };
 
-    const entries = this.loadAuditEntries();
-    entries.unshift(entry);
-    this.saveAuditEntries(entries);
+    this.saveAuditEntries([entry]);
   }
 
-  getAuditHistoryForShift(shiftId: string): LockAuditEntry[] {
-    const entries = this.loadAuditEntries();
-    return entries
-      .filter(entry => entry.shiftId === shiftId)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  logSwapOperation(
+    shift: Shift,
+    employee: Employee,
+    operation: SwapAuditOperation,
+    user: string,
+    swapRequestId: string,
+    reason?: string,
+    validationResult?: LockAuditEntry['validationResult']
+  ): void {
+    const entry: LockAuditEntry = {
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      shiftId: shift.id,
+      employeeId: employee.id,
+      employeeName: `${employee.firstName} ${employee.lastName}`,
+      storeId: shift.storeId,
+      operation,
+      timestamp: new Date(),
+      user,
+      reason,
+      validationResult,
+      metadata: {
+        swapRequestId,
+        ...(this.settings.enableDetailedLogging ? {
+          ipAddress: this.getClientIP(),
+          userAgent: navigator.userAgent
+        } : {})
+      }
+    };
+
+    this.saveAuditEntries([entry]);
+  }
+
+  logGridBatchOperation(summary: GridBatchAuditSummary, employees: Employee[], user: string): void {
+    const bulkOperationId = `grid_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const singleEmployee = summary.employeeIds.length === 1
+      ? employees.find(emp => emp.id === summary.employeeIds[0])
+      : undefined;
+
+    const entry: LockAuditEntry = {
+      id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      shiftId: summary.shiftIds.length === 1 ? summary.shiftIds[0] : bulkOperationId,
+      employeeId: singleEmployee?.id || '',
+      employeeName: singleEmployee
+        ? `${singleEmployee.firstName} ${singleEmployee.lastName}`
+        : `${summary.employeeIds.length} dipendenti`,
+      storeId: summary.storeId,
+      operation: 'grid_batch',
+      timestamp: new Date(),
+      user,
+      reason: summary.label,
+      metadata: {
+        bulkOperationId,
+        totalAffectedShifts: summary.shiftIds.length,
+        affectedShiftIds: summary.shiftIds,
+        gridBatch: { created: summary.created, updated: summary.updated, deleted: summary.deleted },
+        ...(this.settings.enableDetailedLogging ? {
+          ipAddress: this.getClientIP(),
+          userAgent: navigator.userAgent
+        } : {})
+      }
+    };
+
+    this.saveAuditEntries([entry]);
   }
 
-  getAuditHistoryForEmployee(employeeId: string): LockAuditEntry[] {
-    const entries = this.loadAuditEntries();
+  async getAuditHistoryForShift(shiftId: string): Promise<LockAuditEntry[]> {
+    // Le modifiche in blocco elencano i turni coinvolti nei metadati, fuori dall'indice
+    const entries = await this.loadAuditEntries();
     return entries
-      .filter(entry => entry.employeeId === employeeId)
+      .filter(entry => entry.shiftId === shiftId || entry.metadata?.affectedShiftIds?.includes(shiftId))
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
   }
 
-  getAuditStatistics(): AuditStatistics {
-    const entries = this.loadAuditEntries();
+  async getAuditHistoryForEmployee(employeeId: string): Promise<LockAuditEntry[]> {
+    try {
+      const repository = await getRepository<LockAuditEntry>(AUDIT_ENTITY);
+      const entries = await repository.findByIndex('employeeId', employeeId);
+      return entries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    } catch (error) {
+      console.error('Failed to load audit entries:', error);
+      return [];
+    }
+  }
+
+  async getAuditStatistics(): Promise<AuditStatistics> {
+    const entries = (await this.loadAuditEntries()).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
     
     const operationsByType: Record<string, number> = {};
     const operationsByUser: Record<string, number> = {};
@@ -305,8 +368,8 @@ class AuditTrailManager {
     };
   }
 
-  exportAuditData(startDate?: Date, endDate?: Date): LockAuditEntry[] {
-    let entries = this.loadAuditEntries();
+  async exportAuditData(startDate?: Date, endDate?: Date): Promise<LockAuditEntry[]> {
+    let entries = await this.loadAuditEntries();
     
     if (startDate || endDate) {
       entries = entries.filter(entry => {
@@ -320,9 +383,10 @@ class AuditTrailManager {
     return entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
-  clearAuditData(): void {
+  async clearAuditData(): Promise<void> {
     try {
-      localStorage.removeItem(AUDIT_STORAGE_KEY);
+      const repository = await getRepository<LockAuditEntry>(AUDIT_ENTITY);
+      await repository.clear();
     } catch (error) {
       console.error('Failed to clear audit data:', error);
     }
@@ -377,24 +441,40 @@ export function logValidationFailure(
   auditTrailManager.logValidationFailure(shift, employee, user, validationResult);
 }
 
-export function getAuditHistoryForShift(shiftId: string): LockAuditEntry[] {
+export function logSwapOperation(
+  shift: Shift,
+  employee: Employee,
+  operation: SwapAuditOperation,
+  user: string,
+  swapRequestId: string,
+  reason?: string,
+  validationResult?: LockAuditEntry['validationResult']
+): void {
+  auditTrailManager.logSwapOperation(shift, employee, operation, user, swapRequestId, reason, validationResult);
+}
+
+export function logGridBatchOperation(summary: GridBatchAuditSummary, employees: Employee[], user: string): void {
+  auditTrailManager.logGridBatchOperation(summary, employees, user);
+}
+
+export function getAuditHistoryForShift(shiftId: string): Promise<LockAuditEntry[]> {
   return auditTrailManager.getAuditHistoryForShift(shiftId);
 }
 
-export function getAuditHistoryForEmployee(employeeId: string): LockAuditEntry[] {
+export function getAuditHistoryForEmployee(employeeId: string): Promise<LockAuditEntry[]> {
   return auditTrailManager.getAuditHistoryForEmployee(employeeId);
 }
 
-export function getAuditStatistics(): AuditStatistics {
+export function getAuditStatistics(): Promise<AuditStatistics> {
   return auditTrailManager.getAuditStatistics();
 }
 
-export function exportAuditData(startDate?: Date, endDate?: Date): LockAuditEntry[] {
+export function exportAuditData(startDate?: Date, endDate?: Date): Promise<LockAuditEntry[]> {
   return auditTrailManager.exportAuditData(startDate, endDate);
 }
 
-export function clearAuditData(): void {
-  auditTrailManager.clearAuditData();
+export function clearAuditData(): Promise<void> {
+  return auditTrailManager.clearAuditData();
 }
 
 export function updateAuditSettings(settings: Partial<AuditSettings>): void {
@@ -417,6 +497,12 @@ export function formatAuditEntry(entry: LockAuditEntry): string {
     case 'bulk_lock': action = 'bloccato (massa)'; break;
     case 'bulk_unlock': action = 'sbloccato (massa)'; break;
     case 'validation_failed': action = 'validazione fallita'; break;
+    case 'swap_requested': action = 'offerto per scambio'; break;
+    case 'swap_accepted': action = 'accettato per scambio'; break;
+    case 'swap_approved': action = 'scambiato (approvato)'; break;
+    case 'swap_rejected': action = 'scambio rifiutato'; break;
+    case 'swap_cancelled': action = 'scambio annullato'; break;
+    case 'grid_batch': action = `modificato in blocco (${entry.reason || 'griglia'})`; break;
   }
   
   return `${date} ${time} - ${entry.employeeName}: turno ${action} da ${entry.user}`;
@@ -429,6 +515,12 @@ export function getOperationIcon(operation: string): string {
     case 'bulk_lock': return '🔒📦';
     case 'bulk_unlock': return '🔓📦';
     case 'validation_failed': return '❌';
+    case 'swap_requested':
+    case 'swap_accepted': return '🔄';
+    case 'swap_approved': return '✅🔄';
+    case 'swap_rejected': return '⛔🔄';
+    case 'swap_cancelled': return '↩️';
+    case 'grid_batch': return '▦';
     default: return '📝';
   }
 }
@@ -439,7 +531,12 @@ export function getOperationColor(operation: string): string {
     case 'bulk_lock': return 'text-green-600';
     case 'unlock': 
     case 'bulk_unlock': return 'text-blue-600';
-    case 'validation_failed': return 'text-red-600';
+    case 'validation_failed':
+    case 'swap_rejected': return 'text-red-600';
+    case 'swap_requested':
+    case 'swap_accepted': return 'text-purple-600';
+    case 'swap_approved': return 'text-green-600';
+    case 'grid_batch': return 'text-indigo-600';
     default: return 'text-gray-600';
   }
 }
\ No newline at end of file
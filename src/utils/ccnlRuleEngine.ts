@@ -0,0 +1,408 @@
+import { Employee, Shift, Store } from '../types';
+import {
+  CCNL_RULE_METRICS,
+  CCNLAgreementId,
+  CCNLAverageWorkingWeek,
+  CCNLRuleDefinition,
+  CCNLRuleMetric,
+  CCNLViolation,
+  DEFAULT_CCNL_AGREEMENT,
+  MINOR_AGE_LIMIT
+} from '../types/ccnl';
+import { getContractRuleSet, getEmployeeContractAt } from './contractRules';
+import {
+  addDays,
+  getShiftMinuteRange,
+  getShiftSegments,
+  getShiftWorkingHours,
+  getSplitGapMinutes,
+  getStartOfWeek,
+  isSplitShift,
+  timeToMinutes
+} from './timeUtils';
+
+/**
+ * 📐 MOTORE REGOLE CCNL DICHIARATIVE
+ *
+ * Ogni regola indica una misura (ore giornaliere, domeniche lavorate, ...), i suoi parametri,
+ * l'ambito di applicazione e la gravità: il motore calcola la misura sul turno e sui turni
+ * del dipendente e genera la violazione quando il limite non è rispettato.
+ */
+
+interface RuleEvaluationContext {
+  shift: Shift; // Turno valutato, con la data proposta
+  employee: Employee;
+  employeeShifts: Shift[]; // Turni del dipendente, turno valutato compreso
+}
+
+type RuleEvaluator = (rule: CCNLRuleDefinition, context: RuleEvaluationContext) => CCNLViolation | null;
+
+// Parametro numerico della regola (con il default della misura se mancante o non valido)
+const numberParam = (rule: CCNLRuleDefinition, key: string): number => {
+  const value = Number(rule.params[key]);
+  if (Number.isFinite(value)) return value;
+  const spec = CCNL_RULE_METRICS[rule.metric].parameters.find(param => param.key === key);
+  return Number(spec?.defaultValue ?? 0);
+};
+
+const timeParam = (rule: CCNLRuleDefinition, key: string): string => {
+  const value = rule.params[key];
+  if (typeof value === 'string' && /^\d{1,2}:\d{2}$/.test(value)) return value;
+  const spec = CCNL_RULE_METRICS[rule.metric].parameters.find(param => param.key === key);
+  return String(spec?.defaultValue ?? '00:00');
+};
+
+const dateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const sumHours = (shifts: Shift[]) => shifts.reduce((sum, shift) => sum + getShiftWorkingHours(shift), 0);
+
+const formatHours = (hours: number) => `${Number(hours.toFixed(1))}h`;
+
+const buildViolation = (
+  rule: CCNLRuleDefinition,
+  context: RuleEvaluationContext,
+  details: Pick<CCNLViolation, 'id' | 'shiftIds' | 'violationDate' | 'description' | 'suggestedResolution' | 'currentValue' | 'requiredValue'>
+): CCNLViolation => ({
+  ...details,
+  type: rule.metric,
+  ruleId: rule.id,
+  employeeId: context.employee.id,
+  articleReference: rule.articleReference,
+  severity: rule.severity,
+  isResolved: false
+});
+
+const shiftRef = (shift: Shift) => shift.id || 'new-shift';
+
+// Minuti del turno che ricadono nel periodo notturno (anche a cavallo della mezzanotte)
+const getNightMinutes = (shift: Shift, nightStart: string, nightEnd: string): number => {
+  const start = timeToMinutes(nightStart);
+  let end = timeToMinutes(nightEnd);
+  if (end <= start) end += 1440;
+
+  const windows = [-1440, 0, 1440].map(offset => ({ start: start + offset, end: end + offset }));
+  return getShiftSegments(shift).reduce((total, segment) => {
+    const range = getShiftMinuteRange(segment.startTime, segment.endTime);
+    return total + windows.reduce(
+      (sum, window) => sum + Math.max(0, Math.min(range.end, window.end) - Math.max(range.start, window.start)),
+      0
+    );
+  }, 0);
+};
+
+// Media di un singolo periodo di riferimento che termina (esclusa) con `periodEnd`
+const calculateAverageWindow = (
+  rule: CCNLRuleDefinition,
+  employeeShifts: Shift[],
+  periodEnd: Date,
+  today: Date
+): CCNLAverageWorkingWeek => {
+  const maxAverageHours = numberParam(rule, 'maxAverageHours');
+  const referenceMonths = Math.max(1, Math.round(numberParam(rule, 'referenceMonths')));
+  const warningRatio = numberParam(rule, 'warningPercent') / 100;
+
+  const periodStart = new Date(periodEnd);
+  periodStart.setMonth(periodStart.getMonth() - referenceMonths);
+  const weeks = Math.max(1, Math.round((periodEnd.getTime() - periodStart.getTime()) / (7 * 24 * 60 * 60 * 1000)));
+
+  const todayStart = new Date(today);
+  todayStart.setHours(0, 0, 0, 0);
+  const periodShifts = employeeShifts.filter(s => s.status !== 'cancelled' && s.date >= periodStart && s.date < periodEnd);
+  const workedHours = sumHours(periodShifts.filter(s => s.date < todayStart));
+  const plannedHours = sumHours(periodShifts.filter(s => s.date >= todayStart));
+  const averageHours = (workedHours + plannedHours) / weeks;
+
+  return {
+    ruleId: rule.id,
+    periodStart,
+    periodEnd,
+    referenceMonths,
+    weeks,
+    workedHours: Number(workedHours.toFixed(2)),
+    plannedHours: Number(plannedHours.toFixed(2)),
+    averageHours: Number(averageHours.toFixed(2)),
+    maxAverageHours,
+    remainingHours: Number((maxAverageHours * weeks - workedHours - plannedHours).toFixed(2)),
+    status: averageHours > maxAverageHours ? 'exceeded' : averageHours >= maxAverageHours * warningRatio ? 'warning' : 'ok'
+  };
+};
+
+/**
+ * ⚖️ MEDIA SETTIMANALE (Art. 4 D.Lgs. 66/2003): periodo mobile di N mesi che contiene la settimana
+ * della data indicata. I turni da oggi in poi sono già pianificati e rientrano nella proiezione:
+ * oltre al periodo che termina con la settimana si valutano quelli che terminano con le settimane
+ * successive, fino all'ultimo turno pianificato, e si restituisce il periodo con la media più alta.
+ */
+export const calculateAverageWorkingWeek = (
+  rule: CCNLRuleDefinition,
+  employeeShifts: Shift[],
+  date: Date,
+  today: Date = new Date()
+): CCNLAverageWorkingWeek => {
+  const referenceMonths = Math.max(1, Math.round(numberParam(rule, 'referenceMonths')));
+  const firstPeriodEnd = addDays(getStartOfWeek(date), 7);
+
+  // Ultimo periodo che contiene ancora la settimana valutata
+  const lastPossibleEnd = new Date(getStartOfWeek(date));
+  lastPossibleEnd.setMonth(lastPossibleEnd.getMonth() + referenceMonths);
+  const latestShiftDate = employeeShifts
+    .filter(s => s.status !== 'cancelled')
+    .reduce((latest, s) => (s.date > latest ? s.date : latest), firstPeriodEnd);
+  const lastPeriodEnd = new Date(Math.min(addDays(getStartOfWeek(latestShiftDate), 7).getTime(), lastPossibleEnd.getTime()));
+
+  let worst = calculateAverageWindow(rule, employeeShifts, firstPeriodEnd, today);
+  for (let periodEnd = addDays(firstPeriodEnd, 7); periodEnd <= lastPeriodEnd; periodEnd = addDays(periodEnd, 7)) {
+    const window = calculateAverageWindow(rule, employeeShifts, periodEnd, today);
+    if (window.averageHours > worst.averageHours) worst = window;
+  }
+  return worst;
+};
+
+const RULE_EVALUATORS: Record<CCNLRuleMetric, RuleEvaluator> = {
+  max_daily_hours: (rule, context) => {
+    const maxHours = numberParam(rule, 'maxHours');
+    const dayShifts = context.employeeShifts.filter(s => s.date.toDateString() === context.shift.date.toDateString());
+    const hours = sumHours(dayShifts);
+    if (hours <= maxHours) return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${context.employee.id}-${dateKey(context.shift.date)}`,
+      shiftIds: dayShifts.map(shiftRef),
+      violationDate: context.shift.date,
+      description: `Orario giornaliero eccessivo: ${formatHours(hours)} invece di max ${formatHours(maxHours)}`,
+      suggestedResolution: `Ridurre le ore della giornata entro ${formatHours(maxHours)}`,
+      currentValue: hours,
+      requiredValue: maxHours
+    });
+  },
+
+  max_weekly_hours: (rule, context) => {
+    const maxHours = numberParam(rule, 'maxHours');
+    const weekStart = getStartOfWeek(context.shift.date);
+    const weekEnd = addDays(weekStart, 7);
+    const weekShifts = context.employeeShifts.filter(s => s.date >= weekStart && s.date < weekEnd);
+    const hours = sumHours(weekShifts);
+    if (hours <= maxHours) return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${context.employee.id}-${dateKey(weekStart)}`,
+      shiftIds: weekShifts.map(shiftRef),
+      violationDate: context.shift.date,
+      description: `Orario settimanale eccessivo: ${formatHours(hours)} invece di max ${formatHours(maxHours)}`,
+      suggestedResolution: `Ridistribuire i turni della settimana entro ${formatHours(maxHours)}`,
+      currentValue: hours,
+      requiredValue: maxHours
+    });
+  },
+
+  night_work: (rule, context) => {
+    const nightStart = timeParam(rule, 'nightStart');
+    const nightEnd = timeParam(rule, 'nightEnd');
+    const minNightMinutes = numberParam(rule, 'minNightHours') * 60;
+    const isNightShift = (shift: Shift) => getNightMinutes(shift, nightStart, nightEnd) >= minNightMinutes;
+    if (!isNightShift(context.shift)) return null;
+
+    const maxShiftHours = numberParam(rule, 'maxShiftHours');
+    const shiftHours = getShiftWorkingHours(context.shift);
+    if (shiftHours > maxShiftHours) {
+      return buildViolation(rule, context, {
+        id: `${rule.id}-${shiftRef(context.shift)}`,
+        shiftIds: [shiftRef(context.shift)],
+        violationDate: context.shift.date,
+        description: `Turno notturno di ${formatHours(shiftHours)} oltre il limite di ${formatHours(maxShiftHours)}`,
+        suggestedResolution: `Ridurre il turno notturno a max ${formatHours(maxShiftHours)}`,
+        currentValue: shiftHours,
+        requiredValue: maxShiftHours
+      });
+    }
+
+    const maxShiftsPerWeek = numberParam(rule, 'maxShiftsPerWeek');
+    const weekStart = getStartOfWeek(context.shift.date);
+    const weekEnd = addDays(weekStart, 7);
+    const nightShifts = context.employeeShifts.filter(s => s.date >= weekStart && s.date < weekEnd && isNightShift(s));
+    if (nightShifts.length <= maxShiftsPerWeek) return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${context.employee.id}-${dateKey(weekStart)}`,
+      shiftIds: nightShifts.map(shiftRef),
+      violationDate: context.shift.date,
+      description: `Troppi turni notturni: ${nightShifts.length} nella settimana invece di max ${maxShiftsPerWeek}`,
+      suggestedResolution: `Alternare i turni notturni con altri dipendenti (max ${maxShiftsPerWeek} a settimana)`,
+      currentValue: nightShifts.length,
+      requiredValue: maxShiftsPerWeek
+    });
+  },
+
+  min_shift_length: (rule, context) => {
+    const minHours = numberParam(rule, 'minHours');
+    const hours = getShiftWorkingHours(context.shift);
+    if (hours >= minHours) return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${shiftRef(context.shift)}`,
+      shiftIds: [shiftRef(context.shift)],
+      violationDate: context.shift.date,
+      description: `Turno troppo breve: ${formatHours(hours)} invece di almeno ${formatHours(minHours)}`,
+      suggestedResolution: `Estendere il turno ad almeno ${formatHours(minHours)} o accorparlo a un altro`,
+      currentValue: hours,
+      requiredValue: minHours
+    });
+  },
+
+  sunday_quota: (rule, context) => {
+    if (context.shift.date.getDay() !== 0) return null;
+
+    const maxSundays = numberParam(rule, 'maxSundays');
+    const periodWeeks = Math.max(1, Math.round(numberParam(rule, 'periodWeeks')));
+    const periodEnd = addDays(getStartOfWeek(context.shift.date), 7);
+    const periodStart = addDays(periodEnd, -7 * periodWeeks);
+    const sundayShifts = context.employeeShifts.filter(s => s.date.getDay() === 0 && s.date >= periodStart && s.date < periodEnd);
+    const sundays = new Set(sundayShifts.map(s => s.date.toDateString())).size;
+    if (sundays <= maxSundays) return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${context.employee.id}-${dateKey(context.shift.date)}`,
+      shiftIds: sundayShifts.map(shiftRef),
+      violationDate: context.shift.date,
+      description: `Domeniche lavorate: ${sundays} nelle ultime ${periodWeeks} settimane invece di max ${maxSundays}`,
+      suggestedResolution: 'Assegnare la domenica a un dipendente con meno domeniche lavorate',
+      currentValue: sundays,
+      requiredValue: maxSundays
+    });
+  },
+
+  break_after_hours: (rule, context) => {
+    const thresholdHours = numberParam(rule, 'thresholdHours');
+    const minBreakMinutes = numberParam(rule, 'minBreakMinutes');
+    const hours = getShiftWorkingHours(context.shift);
+    if (hours <= thresholdHours) return null;
+
+    // Nei turni spezzati l'intervallo tra i segmenti vale come pausa
+    const splitGap = isSplitShift(context.shift) ? getSplitGapMinutes(getShiftSegments(context.shift)) : 0;
+    const breakMinutes = Math.max(context.shift.breakDuration || 0, splitGap);
+    if (breakMinutes >= minBreakMinutes) return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${shiftRef(context.shift)}`,
+      shiftIds: [shiftRef(context.shift)],
+      violationDate: context.shift.date,
+      description: `Pausa di ${breakMinutes} min su un turno di ${formatHours(hours)}: richiesti almeno ${minBreakMinutes} min oltre ${formatHours(thresholdHours)}`,
+      suggestedResolution: `Inserire una pausa di almeno ${minBreakMinutes} minuti`,
+      currentValue: breakMinutes,
+      requiredValue: minBreakMinutes
+    });
+  },
+
+  average_weekly_hours: (rule, context) => {
+    const average = calculateAverageWorkingWeek(rule, context.employeeShifts, context.shift.date);
+    if (average.status !== 'exceeded') return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${context.employee.id}-${dateKey(average.periodEnd)}`,
+      shiftIds: [shiftRef(context.shift)],
+      violationDate: context.shift.date,
+      description: `Media settimanale di ${formatHours(average.averageHours)} nel periodo di ${average.referenceMonths} mesi fino al ${addDays(average.periodEnd, -1).toLocaleDateString('it-IT')} invece di max ${formatHours(average.maxAverageHours)}`,
+      suggestedResolution: `Ridurre di ${formatHours(-average.remainingHours)} le ore del periodo di riferimento`,
+      currentValue: average.averageHours,
+      requiredValue: average.maxAverageHours
+    });
+  },
+
+  night_work_ban: (rule, context) => {
+    const nightStart = timeParam(rule, 'nightStart');
+    const nightEnd = timeParam(rule, 'nightEnd');
+    const nightMinutes = getNightMinutes(context.shift, nightStart, nightEnd);
+    if (nightMinutes === 0) return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${shiftRef(context.shift)}`,
+      shiftIds: [shiftRef(context.shift)],
+      violationDate: context.shift.date,
+      description: `Lavoro nella fascia vietata ${nightStart}-${nightEnd}: ${nightMinutes} min`,
+      suggestedResolution: `Spostare il turno fuori dalla fascia ${nightStart}-${nightEnd}`,
+      currentValue: nightMinutes / 60,
+      requiredValue: 0
+    });
+  },
+
+  weekly_rest_days: (rule, context) => {
+    const minRestDays = Math.max(1, Math.round(numberParam(rule, 'minConsecutiveRestDays')));
+    const weekStart = getStartOfWeek(context.shift.date);
+    const workedDays = new Set(
+      context.employeeShifts
+        .filter(s => s.date >= weekStart && s.date < addDays(weekStart, 7))
+        .map(s => s.date.toDateString())
+    );
+
+    let longestRest = 0;
+    let currentRest = 0;
+    for (let i = 0; i < 7; i++) {
+      currentRest = workedDays.has(addDays(weekStart, i).toDateString()) ? 0 : currentRest + 1;
+      longestRest = Math.max(longestRest, currentRest);
+    }
+    if (longestRest >= minRestDays) return null;
+
+    return buildViolation(rule, context, {
+      id: `${rule.id}-${context.employee.id}-${dateKey(weekStart)}`,
+      shiftIds: [shiftRef(context.shift)],
+      violationDate: context.shift.date,
+      description: `Riposo settimanale di ${longestRest} giorni consecutivi invece di almeno ${minRestDays}`,
+      suggestedResolution: `Lasciare liberi ${minRestDays} giorni consecutivi nella settimana`,
+      currentValue: longestRest,
+      requiredValue: minRestDays
+    });
+  }
+};
+
+// 🧒 Età compiuta alla data (null senza data di nascita)
+export const getAgeAt = (birthDate: Date | undefined, date: Date): number | null => {
+  if (!birthDate) return null;
+  let age = date.getFullYear() - birthDate.getFullYear();
+  const beforeBirthday = date.getMonth() < birthDate.getMonth() ||
+    (date.getMonth() === birthDate.getMonth() && date.getDate() < birthDate.getDate());
+  if (beforeBirthday) age--;
+  return age;
+};
+
+export const isMinorAt = (employee: Pick<Employee, 'birthDate'>, date: Date): boolean => {
+  const age = getAgeAt(employee.birthDate, date);
+  return age !== null && age < MINOR_AGE_LIMIT;
+};
+
+// Contratto collettivo del dipendente: quello personale prevale su quello del negozio
+export const getEmployeeAgreementId = (employee: Employee, store?: Store): CCNLAgreementId =>
+  employee.ccnlAgreementId || store?.ccnlAgreementId || DEFAULT_CCNL_AGREEMENT;
+
+// Ambito vuoto = regola valida per tutti; la tipologia contrattuale è quella in vigore alla data del turno
+export const isRuleApplicable = (rule: CCNLRuleDefinition, employee: Employee, shift: Shift): boolean => {
+  const { contractTypes, storeIds, roleIds } = rule.scope;
+  const contractType = getContractRuleSet(getEmployeeContractAt(employee, shift.date)).type;
+
+  if (contractTypes?.length && !contractTypes.includes(contractType)) return false;
+  if (storeIds?.length && !storeIds.includes(shift.storeId)) return false;
+  if (roleIds?.length && (!shift.roleId || !roleIds.includes(shift.roleId))) return false;
+  return true;
+};
+
+/**
+ * Valuta le regole attive su un turno. `employeeShifts` può contenere già il turno
+ * (in modifica): viene sostituito dalla versione proposta.
+ */
+export const evaluateRuleDefinitions = (
+  rules: CCNLRuleDefinition[],
+  shift: Shift,
+  employee: Employee,
+  employeeShifts: Shift[]
+): CCNLViolation[] => {
+  const context: RuleEvaluationContext = {
+    shift,
+    employee,
+    employeeShifts: [...employeeShifts.filter(s => s.employeeId === employee.id && s.id !== shift.id), shift]
+      .filter(s => s.status !== 'cancelled')
+  };
+
+  return rules
+    .filter(rule => rule.isActive && isRuleApplicable(rule, employee, shift))
+    .map(rule => RULE_EVALUATORS[rule.metric]?.(rule, context) ?? null)
+    .filter((violation): violation is CCNLViolation => violation !== null);
+};
@@ -1,6 +1,17 @@
-import { Shift, Employee } from '../types';
-import { CCNLRestPeriodRule, CCNLViolation, CCNLComplianceReport, CCNL_STANDARD_RULES } from '../types/ccnl';
-import { getDayOfWeek, addDays } from './timeUtils';
+import { Shift, Employee, Store } from '../types';
+import {
+  CCNLRestPeriodRule,
+  CCNLAverageWorkingWeek,
+  CCNLViolation,
+  CCNLComplianceReport,
+  CCNLAgreementId,
+  CCNLRuleDefinition,
+  CCNLRulePack,
+  CCNL_RULE_PACKS,
+  MINOR_PROTECTION_RULES
+} from '../types/ccnl';
+import { calculateAverageWorkingWeek, evaluateRuleDefinitions, getEmployeeAgreementId, isMinorAt } from './ccnlRuleEngine';
+import { getDayOfWeek, addDays, getShiftEndDateTime, getShiftMinuteRange } from './timeUtils';
 
 /**
  * CCNL del commercio compliance validation utilities
@@ -8,10 +19,53 @@ import { getDayOfWeek, addDays } from './timeUtils';
  */
 
 export class CCNLValidator {
-  private rules: CCNLRestPeriodRule[];
+  private customRules: CCNLRestPeriodRule[];
+  private rulePacks: Record<CCNLAgreementId, CCNLRulePack>;
+  private stores: Store[] = [];
 
-  constructor(customRules: CCNLRestPeriodRule[] = []) {
-    this.rules = [...CCNL_STANDARD_RULES, ...customRules].filter(rule => rule.isActive);
+  constructor(customRules: CCNLRestPeriodRule[] = [], rulePacks: Record<CCNLAgreementId, CCNLRulePack> = CCNL_RULE_PACKS) {
+    this.customRules = customRules;
+    this.rulePacks = rulePacks;
+  }
+
+  /**
+   * 📐 Aggiorna le regole dichiarative dei contratti (configurate in Configurazione Validazione)
+   */
+  setRulePackDefinitions(definitions: Partial<Record<CCNLAgreementId, CCNLRuleDefinition[]>>): void {
+    this.rulePacks = Object.fromEntries(
+      Object.values(CCNL_RULE_PACKS).map(pack => [pack.id, { ...pack, ruleDefinitions: definitions[pack.id] ?? pack.ruleDefinitions }])
+    ) as Record<CCNLAgreementId, CCNLRulePack>;
+  }
+
+  /**
+   * 🏪 Negozi noti al validatore: servono a risalire al contratto collettivo del turno
+   */
+  setStores(stores: Store[]): void {
+    this.stores = stores;
+  }
+
+  /**
+   * 📚 Pacchetto di regole applicato al dipendente (negozio del turno o, in mancanza, negozio di assegnazione)
+   */
+  getRulePack(employee: Employee, storeOrId?: Store | string): CCNLRulePack {
+    const storeId = typeof storeOrId === 'string' ? storeOrId : storeOrId?.id ?? employee.storeId;
+    const store = typeof storeOrId === 'object' ? storeOrId : this.stores.find(s => s.id === storeId);
+    return this.rulePacks[getEmployeeAgreementId(employee, store)];
+  }
+
+  /**
+   * ⚖️ Media settimanale sul periodo di riferimento del contratto del dipendente (null se la regola non è attiva)
+   */
+  getAverageWorkingWeek(employee: Employee, shifts: Shift[], date: Date, storeId?: string): CCNLAverageWorkingWeek | null {
+    const pack = this.getRulePack(employee, storeId);
+    const rule = pack.ruleDefinitions.find(r => r.isActive && r.metric === 'average_weekly_hours');
+    if (!rule) return null;
+
+    return calculateAverageWorkingWeek(rule, shifts.filter(s => s.employeeId === employee.id), date);
+  }
+
+  private getRestRules(pack: CCNLRulePack): CCNLRestPeriodRule[] {
+    return [...pack.restRules, ...this.customRules].filter(rule => rule.isActive);
   }
 
   /**
@@ -26,6 +80,8 @@ export class CCNLValidator {
   ): CCNLViolation[] {
     const violations: CCNLViolation[] = [];
     const shiftDate = proposedDate || shift.date;
+    const pack = this.getRulePack(employee, store || shift.storeId);
+    const rules = this.getRestRules(pack);
     
 
     // 🏪 VERIFICA PREREQUISITI NEGOZIO
@@ -40,21 +96,34 @@ export class CCNLValidator {
       .sort((a, b) => a.date.getTime() - b.date.getTime());
 
     // 1. VERIFICA RIPOSO GIORNALIERO (11 ore)
-    const dailyRestViolation = this.checkDailyRestPeriod(shift, shiftDate, sortedShifts, employee);
+    const dailyRestViolation = this.checkDailyRestPeriod(shift, shiftDate, sortedShifts, employee, rules);
     if (dailyRestViolation) violations.push(dailyRestViolation);
 
     // 2. VERIFICA INTERVALLO TRA TURNI
-    const shiftGapViolation = this.checkShiftGapCompliance(shift, shiftDate, sortedShifts, employee);
+    const shiftGapViolation = this.checkShiftGapCompliance(shift, shiftDate, sortedShifts, employee, rules);
     if (shiftGapViolation) violations.push(shiftGapViolation);
 
     // 3. VERIFICA GIORNI CONSECUTIVI
-    const consecutiveDaysViolation = this.checkConsecutiveDaysLimit(shift, shiftDate, sortedShifts, employee);
+    const consecutiveDaysViolation = this.checkConsecutiveDaysLimit(shift, shiftDate, sortedShifts, employee, rules);
     if (consecutiveDaysViolation) violations.push(consecutiveDaysViolation);
 
+    // 4. REGOLE DICHIARATIVE (ore massime, lavoro notturno, domeniche, pause...)
+    violations.push(...evaluateRuleDefinitions(pack.ruleDefinitions, { ...shift, date: shiftDate }, employee, sortedShifts));
+
+    // 5. TUTELE MINORI (sempre bloccanti)
+    violations.push(...this.validateMinorProtections({ ...shift, date: shiftDate }, employee, sortedShifts));
 
     return violations;
   }
 
+  /**
+   * 🧒 Tutele di legge per i dipendenti minorenni alla data del turno (nessuna violazione per i maggiorenni)
+   */
+  validateMinorProtections(shift: Shift, employee: Employee, allEmployeeShifts: Shift[]): CCNLViolation[] {
+    if (!isMinorAt(employee, shift.date)) return [];
+    return evaluateRuleDefinitions(MINOR_PROTECTION_RULES, shift, employee, allEmployeeShifts);
+  }
+
   /**
    * 🏪 VALIDA VINCOLI SPECIFICI DEL NEGOZIO
    */
@@ -109,8 +178,7 @@ export class CCNLValidator {
     }
     
     // 3. VERIFICA COMPATIBILITÀ ORARI TURNO CON NEGOZIO
-    const shiftStartMinutes = this.timeToMinutes(shift.startTime);
-    const shiftEndMinutes = this.timeToMinutes(shift.endTime);
+    const { start: shiftStartMinutes, end: shiftEndMinutes } = getShiftMinuteRange(shift.startTime, shift.endTime);
     const storeOpenMinutes = this.timeToMinutes(effectiveStoreHours.open);
     const storeCloseMinutes = this.timeToMinutes(effectiveStoreHours.close);
     
@@ -202,9 +270,10 @@ export class CCNLValidator {
     shift: Shift, 
     shiftDate: Date, 
     allShifts: Shift[], 
-    employee: Employee
+    employee: Employee,
+    rules: CCNLRestPeriodRule[]
   ): CCNLViolation | null {
-    const rule = this.rules.find(r => r.type === 'daily_rest');
+    const rule = rules.find(r => r.type === 'daily_rest');
     if (!rule) return null;
 
     // Trova turno precedente e successivo
@@ -274,9 +343,10 @@ export class CCNLValidator {
     shift: Shift,
     shiftDate: Date,
     allShifts: Shift[],
-    employee: Employee
+    employee: Employee,
+    rules: CCNLRestPeriodRule[]
   ): CCNLViolation | null {
-    const rule = this.rules.find(r => r.type === 'shift_gap');
+    const rule = rules.find(r => r.type === 'shift_gap');
     if (!rule) return null;
 
     // Trova tutti i turni adiacenti
@@ -313,9 +383,10 @@ export class CCNLValidator {
     shift: Shift,
     shiftDate: Date,
     allShifts: Shift[],
-    employee: Employee
+    employee: Employee,
+    rules: CCNLRestPeriodRule[]
   ): CCNLViolation | null {
-    const rule = this.rules.find(r => r.type === 'consecutive_days');
+    const rule = rules.find(r => r.type === 'consecutive_days');
     if (!rule || !rule.maximumConsecutiveDays) return null;
 
     const consecutiveDays = this.calculateConsecutiveDaysAtDate(shiftDate, allShifts);
@@ -352,14 +423,22 @@ export class CCNLValidator {
     const employeeShifts = shifts.filter(s => s.employeeId === employee.id);
     const weekShifts = employeeShifts.filter(s => s.date >= weekStart && s.date <= weekEnd);
     
-    console.log(`📊 Generating CCNL compliance report for ${employee.firstName} ${employee.lastName}`);
+    // Contratto del negozio in cui lavora nella settimana (o di assegnazione se senza turni)
+    const pack = this.getRulePack(employee, weekShifts[0]?.storeId);
+    const rules = this.getRestRules(pack);
+    const requiredDailyRest = rules.find(r => r.type === 'daily_rest')?.minimumHours ?? 11;
+    const requiredWeeklyRest = rules.find(r => r.type === 'weekly_rest')?.minimumHours ?? 35;
+    const maxConsecutiveDays = rules.find(r => r.type === 'consecutive_days')?.maximumConsecutiveDays ?? 6;
+
+    console.log(`📊 Generating CCNL compliance report for ${employee.firstName} ${employee.lastName} (${pack.shortName})`);
 
     // Raccogli tutte le violazioni della settimana
     const allViolations: CCNLViolation[] = [];
     
+    // Le regole su giornata o settimana producono la stessa violazione per ogni turno coinvolto
     weekShifts.forEach(shift => {
       const violations = this.validateShift(shift, employee, employeeShifts);
-      allViolations.push(...violations);
+      allViolations.push(...violations.filter(violation => !allViolations.some(existing => existing.id === violation.id)));
     });
 
     // Analizza compliance riposo giornaliero
@@ -369,18 +448,18 @@ export class CCNLValidator {
       const dayShift = weekShifts.find(s => s.date.toDateString() === date.toDateString());
       
       if (dayShift) {
-        const restAnalysis = this.analyzeDailyRest(dayShift, date, employeeShifts);
+        const restAnalysis = this.analyzeDailyRest(dayShift, date, employeeShifts, requiredDailyRest);
         dailyRestCompliance.push({
           date,
           hasMinimumRest: restAnalysis.compliant,
           restHours: restAnalysis.actualRest,
-          requiredHours: 11
+          requiredHours: requiredDailyRest
         });
       }
     }
 
     // Analizza compliance riposo settimanale
-    const weeklyRestAnalysis = this.analyzeWeeklyRest(weekShifts, weekStart);
+    const weeklyRestAnalysis = this.analyzeWeeklyRest(weekShifts, requiredWeeklyRest);
     
     // Calcola giorni consecutivi
     const consecutiveDays = this.calculateMaxConsecutiveDaysInWeek(weekShifts, employeeShifts);
@@ -390,13 +469,15 @@ export class CCNLValidator {
 
     return {
       employeeId: employee.id,
+      agreementId: pack.id,
       weekStart,
       weekEnd,
       violations: allViolations,
       dailyRestCompliance,
       weeklyRestCompliance: weeklyRestAnalysis,
       consecutiveDaysWorked: consecutiveDays,
-      maxAllowedConsecutiveDays: 6,
+      maxAllowedConsecutiveDays: maxConsecutiveDays,
+      averageWorkingWeek: this.getAverageWorkingWeek(employee, employeeShifts, weekStart, weekShifts[0]?.storeId),
       complianceScore,
       overallStatus: this.determineComplianceStatus(allViolations, complianceScore)
     };
@@ -409,10 +490,8 @@ export class CCNLValidator {
     secondShift: Shift, 
     secondShiftDate: Date
   ): number {
-    // Calcola fine primo turno
-    const [endHour, endMin] = firstShift.endTime.split(':').map(Number);
-    const firstEnd = new Date(firstShift.date);
-    firstEnd.setHours(endHour, endMin, 0, 0);
+    // Calcola fine primo turno (giorno successivo se il turno attraversa la mezzanotte)
+    const firstEnd = getShiftEndDateTime(firstShift);
 
     // Calcola inizio secondo turno
     const [startHour, startMin] = secondShift.startTime.split(':').map(Number);
@@ -496,7 +575,7 @@ export class CCNLValidator {
     return consecutive;
   }
 
-  private analyzeDailyRest(shift: Shift, date: Date, allShifts: Shift[]): { compliant: boolean; actualRest: number } {
+  private analyzeDailyRest(shift: Shift, date: Date, allShifts: Shift[], requiredHours: number): { compliant: boolean; actualRest: number } {
     const adjacent = this.findAdjacentShifts(shift, date, allShifts);
     let minRest = 24; // Default se non ci sono turni adiacenti
 
@@ -506,17 +585,17 @@ export class CCNLValidator {
     }
 
     return {
-      compliant: minRest >= 11,
+      compliant: minRest >= requiredHours,
       actualRest: minRest
     };
   }
 
-  private analyzeWeeklyRest(weekShifts: Shift[], weekStart: Date): { hasWeeklyRest: boolean; weeklyRestHours: number; requiredWeeklyRest: number } {
+  private analyzeWeeklyRest(weekShifts: Shift[], requiredWeeklyRest: number): { hasWeeklyRest: boolean; weeklyRestHours: number; requiredWeeklyRest: number } {
     if (weekShifts.length === 0) {
       return {
         hasWeeklyRest: true,
         weeklyRestHours: 168, // 7 giorni * 24 ore
-        requiredWeeklyRest: 35
+        requiredWeeklyRest
       };
     }
 
@@ -535,13 +614,13 @@ export class CCNLValidator {
     // Controlla periodo weekend (da domenica a lunedì)
     const hasWeekendRest = !workDays.includes(0) || !workDays.includes(6);
     if (hasWeekendRest) {
-      maxRestPeriod = Math.max(maxRestPeriod, 35);
+      maxRestPeriod = Math.max(maxRestPeriod, requiredWeeklyRest);
     }
 
     return {
-      hasWeeklyRest: maxRestPeriod >= 35,
+      hasWeeklyRest: maxRestPeriod >= requiredWeeklyRest,
       weeklyRestHours: maxRestPeriod,
-      requiredWeeklyRest: 35
+      requiredWeeklyRest
     };
   }
 
@@ -622,6 +701,7 @@ export class CCNLValidator {
       endTime: proposedShift.endTime,
       breakDuration: proposedShift.breakDuration || 30,
       actualHours: proposedShift.actualHours || 8,
+      segments: proposedShift.segments,
       status: 'scheduled',
       isLocked: false,
       createdAt: new Date(),
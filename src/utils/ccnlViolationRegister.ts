@@ -0,0 +1,128 @@
+import { Shift } from '../types';
+import { CCNLViolation, CCNLViolationRecord, CCNLViolationStatus } from '../types/ccnl';
+import { formatShiftTimes } from './timeUtils';
+
+// 📒 REGISTRO VIOLAZIONI: presa visione, giustificazione e risoluzione delle violazioni CCNL
+
+export interface ViolationRegisterEntry {
+  record: CCNLViolationRecord;
+  status: CCNLViolationStatus; // Stato effettivo: "aperta" se i turni sono cambiati dopo la registrazione
+  isReopened: boolean;
+}
+
+export const VIOLATION_STATUS_LABELS: Record<CCNLViolationStatus, string> = {
+  open: 'Aperta',
+  acknowledged: 'Presa visione',
+  justified: 'Giustificata',
+  resolved: 'Risolta'
+};
+
+export const VIOLATION_STATUS_STYLES: Record<CCNLViolationStatus, string> = {
+  open: 'bg-red-100 text-red-800',
+  acknowledged: 'bg-blue-100 text-blue-800',
+  justified: 'bg-purple-100 text-purple-800',
+  resolved: 'bg-green-100 text-green-800'
+};
+
+// Stati che chiudono la violazione (la presa visione la lascia aperta)
+const CLOSED_STATUSES: CCNLViolationStatus[] = ['justified', 'resolved'];
+
+export const isViolationClosed = (status: CCNLViolationStatus) => CLOSED_STATUSES.includes(status);
+
+/**
+ * 🔏 IMPRONTA DEI TURNI: dipendente, giorno, orari, pausa e stato di ogni turno coinvolto.
+ * Un turno eliminato compare come rimosso, quindi anche la cancellazione riapre la violazione.
+ */
+export const getShiftFingerprint = (shiftIds: string[], shifts: Shift[]): string => {
+  const byId = new Map(shifts.map(shift => [shift.id, shift]));
+  return [...shiftIds]
+    .sort()
+    .map(id => {
+      const shift = byId.get(id);
+      if (!shift || shift.status === 'cancelled') return `${id}:removed`;
+      return `${id}:${shift.employeeId}:${shift.date.toDateString()}:${formatShiftTimes(shift)}:${shift.breakDuration}`;
+    })
+    .join('|');
+};
+
+const REOPEN_NOTE = 'Riaperta: turni modificati dopo la registrazione';
+const REOPEN_AUTHOR = 'Sistema';
+
+export const resolveRegisterEntry = (record: CCNLViolationRecord, shifts: Shift[]): ViolationRegisterEntry => {
+  const isReopened = record.status !== 'open' && getShiftFingerprint(record.shiftIds, shifts) !== record.shiftFingerprint;
+  return { record, status: isReopened ? 'open' : record.status, isReopened };
+};
+
+/**
+ * 🔓 RIAPERTURA: i turni sono cambiati dopo la registrazione, quindi l'esito non vale più.
+ * L'impronta viene aggiornata così che riportare i turni com'erano non richiuda la violazione.
+ */
+export const reopenViolationRecord = (record: CCNLViolationRecord, shifts: Shift[]): CCNLViolationRecord => {
+  const now = new Date();
+  return {
+    ...record,
+    status: 'open',
+    note: REOPEN_NOTE,
+    updatedBy: REOPEN_AUTHOR,
+    shiftFingerprint: getShiftFingerprint(record.shiftIds, shifts),
+    history: [...record.history, { status: 'open', note: REOPEN_NOTE, changedBy: REOPEN_AUTHOR, changedAt: now }],
+    updatedAt: now
+  };
+};
+
+/**
+ * Registra un nuovo stato per la violazione. Se i turni erano cambiati dopo l'ultima
+ * registrazione lo storico riporta prima la riapertura automatica.
+ */
+export const applyViolationStatus = (
+  violation: CCNLViolation,
+  existing: CCNLViolationRecord | undefined,
+  storeId: string,
+  status: CCNLViolationStatus,
+  changedBy: string,
+  shifts: Shift[],
+  note?: string
+): CCNLViolationRecord => {
+  const now = new Date();
+  const history = [...(existing?.history || [])];
+
+  if (existing && resolveRegisterEntry(existing, shifts).isReopened) {
+    history.push({ status: 'open', note: REOPEN_NOTE, changedBy: REOPEN_AUTHOR, changedAt: now });
+  }
+  history.push({ status, note, changedBy, changedAt: now });
+
+  return {
+    id: violation.id,
+    employeeId: violation.employeeId,
+    storeId,
+    type: violation.type,
+    ruleId: violation.ruleId,
+    severity: violation.severity,
+    description: violation.description,
+    articleReference: violation.articleReference,
+    violationDate: new Date(violation.violationDate),
+    shiftIds: [...violation.shiftIds],
+    shiftFingerprint: getShiftFingerprint(violation.shiftIds, shifts),
+    status,
+    note,
+    updatedBy: changedBy,
+    history,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+};
+
+// Riporta sulle violazioni ricalcolate l'esito registrato (solo se ancora valido)
+export const annotateViolations = (
+  violations: CCNLViolation[],
+  entries: Map<string, ViolationRegisterEntry>
+): CCNLViolation[] => violations.map(violation => {
+  const entry = entries.get(violation.id);
+  if (!entry || !isViolationClosed(entry.status)) return violation;
+  return {
+    ...violation,
+    isResolved: true,
+    resolvedAt: entry.record.updatedAt,
+    resolvedBy: entry.record.updatedBy
+  };
+});
@@ -0,0 +1,207 @@
+import { Employee, Shift, ShiftConflict } from '../types';
+import { CONTRACT_RULE_SETS, ContractRuleSet, EmployeeContractPeriod } from '../types/contracts';
+import { addDays, getDayOfWeek } from './timeUtils';
+
+// 📑 TIPOLOGIE CONTRATTUALI: limiti settimanali e vincoli per tipologia
+
+export interface ContractLimits {
+  ruleSet: ContractRuleSet;
+  ordinaryHours: number;   // Ore contratto pianificabili come lavoro (al netto della formazione)
+  maxWeeklyHours: number;  // Ordinarie + supplementari/straordinarie ammesse dalla tipologia
+  minWeeklyHours: number;  // Ore minime garantite (0 se la tipologia non garantisce un minimo)
+  trainingHours: number;
+}
+
+// Condizioni contrattuali soggette a decorrenza
+export type ContractTerms = Pick<Employee, 'contractType' | 'contractHours' | 'fixedHours' | 'storeId' | 'workingDays' | 'contractEndDate'>;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const getContractTerms = (employee: ContractTerms): ContractTerms => ({
+  contractType: employee.contractType || 'full_time',
+  contractHours: employee.contractHours,
+  fixedHours: employee.fixedHours,
+  storeId: employee.storeId,
+  workingDays: employee.workingDays,
+  contractEndDate: employee.contractEndDate
+});
+
+export const sameContractTerms = (a: ContractTerms, b: ContractTerms): boolean => {
+  const termsA = getContractTerms(a);
+  const termsB = getContractTerms(b);
+  return termsA.contractType === termsB.contractType &&
+    termsA.contractHours === termsB.contractHours &&
+    termsA.fixedHours === termsB.fixedHours &&
+    (termsA.storeId || '') === (termsB.storeId || '') &&
+    (termsA.workingDays || []).join(',') === (termsB.workingDays || []).join(',') &&
+    termsA.contractEndDate?.toDateString() === termsB.contractEndDate?.toDateString();
+};
+
+/**
+ * 📅 Periodo contrattuale in vigore alla data. Le date precedenti al primo periodo
+ * (es. turni importati prima dell'assunzione registrata) usano il primo periodo.
+ */
+export const getContractPeriodAt = (employee: Employee, date: Date): EmployeeContractPeriod | undefined => {
+  const periods = [...(employee.contractHistory || [])].sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+  if (periods.length === 0) return undefined;
+
+  const day = startOfDay(date);
+  const current = periods.filter(period => startOfDay(period.effectiveFrom) <= day).pop();
+  return current || periods[0];
+};
+
+// Dipendente con le condizioni contrattuali valide alla data (senza storico: condizioni attuali)
+export const getEmployeeContractAt = (employee: Employee, date: Date): Employee => {
+  const period = getContractPeriodAt(employee, date);
+  if (!period) return employee;
+
+  return {
+    ...employee,
+    contractType: period.contractType,
+    contractHours: period.contractHours,
+    fixedHours: period.fixedHours,
+    storeId: period.storeId,
+    workingDays: period.workingDays,
+    contractEndDate: period.contractEndDate
+  };
+};
+
+/**
+ * Registra nuove condizioni con decorrenza: il periodo in corso viene chiuso il giorno prima,
+ * i periodi futuri già pianificati dalla stessa data in poi vengono sostituiti.
+ * Restituisce lo storico aggiornato e le condizioni in vigore oggi per i campi del dipendente.
+ */
+export const applyContractChange = (
+  employee: Employee | undefined,
+  terms: ContractTerms,
+  effectiveFrom: Date
+): ContractTerms & { contractHistory: EmployeeContractPeriod[] } => {
+  const from = startOfDay(effectiveFrom);
+
+  // Dipendenti senza storico: le condizioni attuali diventano il primo periodo
+  const existing: EmployeeContractPeriod[] = employee
+    ? employee.contractHistory?.length
+      ? employee.contractHistory
+      : [{
+          id: crypto.randomUUID(),
+          ...getContractTerms(employee),
+          effectiveFrom: startOfDay(employee.createdAt),
+          contractType: employee.contractType || 'full_time',
+          createdAt: new Date()
+        }]
+    : [];
+
+  const kept = existing
+    .filter(period => startOfDay(period.effectiveFrom) < from)
+    .map(period => (!period.effectiveTo || startOfDay(period.effectiveTo) >= from)
+      ? { ...period, effectiveTo: addDays(from, -1) }
+      : period);
+
+  const contractHistory: EmployeeContractPeriod[] = [
+    ...kept,
+    {
+      id: crypto.randomUUID(),
+      effectiveFrom: from,
+      ...getContractTerms(terms),
+      contractType: terms.contractType || 'full_time',
+      createdAt: new Date()
+    }
+  ];
+
+  const current = getContractPeriodAt({ ...employee, contractHistory } as Employee, new Date())!;
+  return { ...getContractTerms(current), contractHistory };
+};
+
+// I dipendenti senza tipologia registrata (o con un valore non riconosciuto) sono considerati a tempo pieno
+export const getContractRuleSet = (employee: Pick<Employee, 'contractType'>): ContractRuleSet => {
+  return (employee.contractType && CONTRACT_RULE_SETS[employee.contractType]) || CONTRACT_RULE_SETS.full_time;
+};
+
+export const getContractLimits = (employee: Employee): ContractLimits => {
+  const ruleSet = getContractRuleSet(employee);
+  const trainingHours = Math.min(ruleSet.trainingHoursPerWeek, employee.contractHours);
+  const ordinaryHours = employee.contractHours - trainingHours;
+
+  return {
+    ruleSet,
+    ordinaryHours,
+    maxWeeklyHours: ordinaryHours + ruleSet.maxSupplementaryHours,
+    minWeeklyHours: ruleSet.guaranteesMinimumHours ? Math.min(employee.fixedHours, ordinaryHours) : 0,
+    trainingHours
+  };
+};
+
+/**
+ * Ore dovute nella settimana (da lunedì) con il contratto in vigore giorno per giorno:
+ * un cambio di orario a metà settimana pesa per i soli giorni successivi alla decorrenza.
+ */
+export const getDueHoursForWeek = (employee: Employee, weekStart: Date, holidayDates: Date[]): number => {
+  const workDays = Array.from({ length: 6 }, (_, i) => addDays(weekStart, i)); // lunedì-sabato
+  const due = workDays.reduce((sum, day) => sum + getDueWeeklyHours(getEmployeeContractAt(employee, day), holidayDates) / 6, 0);
+  return Number(due.toFixed(1));
+};
+
+/**
+ * Ore dovute nella settimana al netto delle festività infrasettimanali.
+ * Ogni festività riduce le ore di una giornata lavorativa: 1/6 dell'orario,
+ * oppure 1/n per il part-time verticale ma solo se cade in un giorno concordato.
+ */
+export const getDueWeeklyHours = (employee: Employee, holidayDates: Date[]): number => {
+  const { ruleSet, ordinaryHours } = getContractLimits(employee);
+  const workingDays = ruleSet.restrictToWorkingDays ? employee.workingDays || [] : [];
+
+  if (workingDays.length > 0) {
+    const holidaysOnWorkingDays = holidayDates.filter(date => workingDays.includes(getDayOfWeek(date))).length;
+    return Number((ordinaryHours * (1 - holidaysOnWorkingDays / workingDays.length)).toFixed(1));
+  }
+  return Number((ordinaryHours * (1 - holidayDates.length / 6)).toFixed(1));
+};
+
+/**
+ * Vincoli di calendario della tipologia sui singoli turni:
+ * giorni concordati del part-time verticale e scadenza del tempo determinato
+ */
+export const validateContractShifts = (employee: Employee, shifts: Pick<Shift, 'date'>[]): ShiftConflict[] => {
+  const conflicts: ShiftConflict[] = [];
+  let missingEndDateReported = false;
+
+  // Ogni turno si confronta con il contratto in vigore alla sua data
+  shifts.forEach(shift => {
+    const contract = getEmployeeContractAt(employee, shift.date);
+    const ruleSet = getContractRuleSet(contract);
+    const day = getDayOfWeek(shift.date);
+
+    if (ruleSet.restrictToWorkingDays && contract.workingDays?.length && !contract.workingDays.includes(day)) {
+      conflicts.push({
+        type: 'outside_hours',
+        message: `${ruleSet.label}: ${day} ${shift.date.toLocaleDateString('it-IT')} non è un giorno concordato (${contract.workingDays.join(', ')})`,
+        severity: 'error'
+      });
+    }
+
+    if (!ruleSet.requiresEndDate) return;
+    if (!contract.contractEndDate) {
+      if (!missingEndDateReported) {
+        conflicts.push({
+          type: 'outside_hours',
+          message: `${ruleSet.label}: data di scadenza del contratto non impostata`,
+          severity: 'warning'
+        });
+        missingEndDateReported = true;
+      }
+      return;
+    }
+
+    const endOfContract = new Date(contract.contractEndDate);
+    endOfContract.setHours(23, 59, 59, 999);
+    if (shift.date > endOfContract) {
+      conflicts.push({
+        type: 'outside_hours',
+        message: `${ruleSet.label}: turno del ${shift.date.toLocaleDateString('it-IT')} oltre la scadenza del ${contract.contractEndDate.toLocaleDateString('it-IT')}`,
+        severity: 'error'
+      });
+    }
+  });
+
+  return conflicts;
+};
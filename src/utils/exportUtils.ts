@@ -1,6 +1,8 @@
 import * as XLSX from 'xlsx';
 import { Employee, Store, Shift } from '../types';
-import { formatDate, calculateWorkingHours } from './timeUtils';
+import { formatDate, formatShiftTimes, isSplitShift, getSplitGapMinutes, getShiftSegments, getShiftWorkingHours } from './timeUtils';
+import { getContractRuleSet, getEmployeeContractAt } from './contractRules';
+import { ScheduleDiff, SCHEDULE_CHANGE_LABELS } from './scheduleVersions';
 
 export const exportScheduleToExcel = (
   shifts: Shift[],
@@ -14,15 +16,21 @@ export const exportScheduleToExcel = (
   const data = shifts.map(shift => {
     const employee = employeeMap.get(shift.employeeId);
     const store = storeMap.get(shift.storeId);
+    // 📅 Contratto in vigore alla data del turno
+    const contract = employee ? getEmployeeContractAt(employee, shift.date) : undefined;
     
     return {
       Data: shift.date.toLocaleDateString('it-IT'),
       'Nome Dipendente': employee ? `${employee.firstName} ${employee.lastName}` : 'Sconosciuto',
       Negozio: store?.name || 'Sconosciuto',
+      'Tipologia Contratto': contract ? getContractRuleSet(contract).label : '',
+      'Ore Contratto': contract?.contractHours ?? '',
       'Orario Inizio': shift.startTime,
       'Orario Fine': shift.endTime,
+      'Segmenti': formatShiftTimes(shift),
+      'Intervallo Non Retribuito (min)': isSplitShift(shift) ? getSplitGapMinutes(getShiftSegments(shift)) : 0,
       'Durata Pausa (min)': shift.breakDuration,
-      'Ore Lavorate': shift.actualHours.toFixed(2),
+      'Ore Lavorate': getShiftWorkingHours(shift).toFixed(2),
       Stato: shift.status === 'scheduled' ? 'Programmato' : 
              shift.status === 'confirmed' ? 'Confermato' :
              shift.status === 'completed' ? 'Completato' : 'Annullato',
@@ -39,8 +47,12 @@ export const exportScheduleToExcel = (
     { wch: 12 }, // Data
     { wch: 20 }, // Nome Dipendente
     { wch: 15 }, // Negozio
+    { wch: 20 }, // Tipologia Contratto
+    { wch: 14 }, // Ore Contratto
     { wch: 12 }, // Orario Inizio
     { wch: 12 }, // Orario Fine
+    { wch: 26 }, // Segmenti
+    { wch: 18 }, // Intervallo Non Retribuito
     { wch: 18 }, // Durata Pausa
     { wch: 15 }, // Ore Lavorate
     { wch: 12 }, // Stato
@@ -58,6 +70,7 @@ export const exportEmployeesToExcel = (employees: Employee[], stores: Store[]) =
   const data = employees.map(employee => ({
     Nome: employee.firstName,
     Cognome: employee.lastName,
+    'Tipologia Contratto': getContractRuleSet(employee).label,
     'Ore Contratto': employee.contractHours,
     'Ore Fisse': employee.fixedHours,
     Stato: employee.isActive ? 'Attivo' : 'Inattivo',
@@ -72,6 +85,7 @@ export const exportEmployeesToExcel = (employees: Employee[], stores: Store[]) =
   worksheet['!cols'] = [
     { wch: 15 }, // Nome
     { wch: 15 }, // Cognome
+    { wch: 20 }, // Tipologia Contratto
     { wch: 15 }, // Ore Contratto
     { wch: 12 }, // Ore Fisse
     { wch: 10 }, // Stato
@@ -79,5 +93,91 @@ export const exportEmployeesToExcel = (employees: Employee[], stores: Store[]) =
     { wch: 15 }  // Data Creazione
   ];
 
+  // 📅 Storico contrattuale con decorrenze
+  const historyData = employees.flatMap(employee =>
+    [...(employee.contractHistory || [])]
+      .sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime())
+      .map(period => ({
+        Nome: employee.firstName,
+        Cognome: employee.lastName,
+        'Valido Dal': period.effectiveFrom.toLocaleDateString('it-IT'),
+        'Valido Al': period.effectiveTo ? period.effectiveTo.toLocaleDateString('it-IT') : 'In corso',
+        'Tipologia Contratto': getContractRuleSet(period).label,
+        'Ore Contratto': period.contractHours,
+        'Ore Fisse': period.fixedHours,
+        Negozio: period.storeId ? (storeMap.get(period.storeId)?.name || 'Sconosciuto') : 'Non Assegnato'
+      }))
+  );
+  if (historyData.length > 0) {
+    const historySheet = XLSX.utils.json_to_sheet(historyData);
+    historySheet['!cols'] = [
+      { wch: 15 }, // Nome
+      { wch: 15 }, // Cognome
+      { wch: 12 }, // Valido Dal
+      { wch: 12 }, // Valido Al
+      { wch: 20 }, // Tipologia Contratto
+      { wch: 15 }, // Ore Contratto
+      { wch: 12 }, // Ore Fisse
+      { wch: 20 }  // Negozio
+    ];
+    XLSX.utils.book_append_sheet(workbook, historySheet, 'Storico Contratti');
+  }
+
   XLSX.writeFile(workbook, 'Dipendenti.xlsx');
-};
\ No newline at end of file
+};
+// 📢 Modifiche rispetto all'ultima versione pubblicata, una riga per dipendente coinvolto
+export const exportScheduleDiffToExcel = (diff: ScheduleDiff, employees: Employee[], store: Store) => {
+  const employeeName = (id: string) => {
+    const employee = employees.find(emp => emp.id === id);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente rimosso';
+  };
+  const { baseVersion } = diff;
+
+  const changesData = diff.byEmployee.flatMap(group => group.changes.map(change => ({
+    Dipendente: group.employeeName,
+    Modifica: SCHEDULE_CHANGE_LABELS[change.type],
+    'Data Pubblicata': change.before ? change.before.date.toLocaleDateString('it-IT') : '',
+    'Orario Pubblicato': change.before ? formatShiftTimes(change.before) : '',
+    'Dipendente Pubblicato': change.before ? employeeName(change.before.employeeId) : '',
+    'Data Attuale': change.after ? change.after.date.toLocaleDateString('it-IT') : '',
+    'Orario Attuale': change.after ? formatShiftTimes(change.after) : '',
+    'Dipendente Attuale': change.after ? employeeName(change.after.employeeId) : '',
+    Descrizione: change.description
+  })));
+
+  const worksheet = XLSX.utils.json_to_sheet(changesData.length > 0 ? changesData : [{ Dipendente: 'Nessuna modifica dopo la pubblicazione' }]);
+  worksheet['!cols'] = [
+    { wch: 20 }, // Dipendente
+    { wch: 18 }, // Modifica
+    { wch: 14 }, // Data Pubblicata
+    { wch: 26 }, // Orario Pubblicato
+    { wch: 20 }, // Dipendente Pubblicato
+    { wch: 14 }, // Data Attuale
+    { wch: 26 }, // Orario Attuale
+    { wch: 20 }, // Dipendente Attuale
+    { wch: 60 }  // Descrizione
+  ];
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Modifiche');
+
+  const versionSheet = XLSX.utils.json_to_sheet(baseVersion.shifts.map(snapshot => ({
+    Data: snapshot.date.toLocaleDateString('it-IT'),
+    'Nome Dipendente': employeeName(snapshot.employeeId),
+    Segmenti: formatShiftTimes(snapshot),
+    'Durata Pausa (min)': snapshot.breakDuration,
+    'Ore Lavorate': snapshot.actualHours.toFixed(2),
+    Note: snapshot.notes || ''
+  })));
+  versionSheet['!cols'] = [
+    { wch: 12 }, // Data
+    { wch: 20 }, // Nome Dipendente
+    { wch: 26 }, // Segmenti
+    { wch: 18 }, // Durata Pausa
+    { wch: 15 }, // Ore Lavorate
+    { wch: 30 }  // Note
+  ];
+  XLSX.utils.book_append_sheet(workbook, versionSheet, `Versione ${baseVersion.version}`);
+
+  const fileName = `Modifiche_${store.name.replace(/\s+/g, '_')}_${baseVersion.weekStart.toLocaleDateString('it-IT').replace(/\//g, '_')}_v${baseVersion.version}.xlsx`;
+  XLSX.writeFile(workbook, fileName);
+};
@@ -0,0 +1,296 @@
+import { Employee, Shift, ShiftSegment, ShiftTemplate, Store } from '../types';
+import { buildSplitShiftTimes, calculateSegmentedWorkingHours, calculateWorkingHours, formatTime, isSplitShift, timeToMinutes } from './timeUtils';
+import { getStoreHoursForDate } from './scheduleGenerator';
+import { ShiftWorkflowEngine } from './workflowEngine';
+
+// ⌨️ GRIGLIA A FOGLIO DI CALCOLO: cella attiva, selezione rettangolare e modifiche in blocco
+
+export interface GridCellPosition {
+  row: number; // Indice del dipendente nella griglia
+  col: number; // Indice del giorno della settimana
+}
+
+export interface GridSelection {
+  anchor: GridCellPosition; // Cella da cui parte la selezione
+  focus: GridCellPosition;  // Cella attiva (estremo mobile della selezione)
+}
+
+export interface GridSelectionBounds {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// Cella della selezione risolta sui dati della griglia
+export interface GridSelectionCell {
+  employee: Employee;
+  date: Date;
+  row: number;
+  col: number;
+  shift?: Shift;
+}
+
+export type GridNewShift = Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Insieme di modifiche applicate come un unico comando annullabile
+export interface ShiftGridBatch {
+  creates: GridNewShift[];
+  updates: { id: string; data: Partial<Shift> }[];
+  deletes: string[];
+  skipped: string[]; // Celle escluse, con il motivo
+}
+
+export type GridNavigationKey = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight' | 'Home' | 'End';
+
+export interface QuickShiftEntry {
+  startTime: string;
+  endTime: string;
+  segments?: ShiftSegment[];
+}
+
+export const getSelectionBounds = (selection: GridSelection): GridSelectionBounds => ({
+  top: Math.min(selection.anchor.row, selection.focus.row),
+  bottom: Math.max(selection.anchor.row, selection.focus.row),
+  left: Math.min(selection.anchor.col, selection.focus.col),
+  right: Math.max(selection.anchor.col, selection.focus.col)
+});
+
+export const isCellInSelection = (selection: GridSelection | null, row: number, col: number): boolean => {
+  if (!selection) return false;
+  const bounds = getSelectionBounds(selection);
+  return row >= bounds.top && row <= bounds.bottom && col >= bounds.left && col <= bounds.right;
+};
+
+export const getSelectionSize = (selection: GridSelection): number => {
+  const bounds = getSelectionBounds(selection);
+  return (bounds.bottom - bounds.top + 1) * (bounds.right - bounds.left + 1);
+};
+
+// Spostamento della cella attiva, sempre entro i limiti della griglia
+export const moveGridCell = (cell: GridCellPosition, key: GridNavigationKey, rowCount: number, colCount: number): GridCellPosition => {
+  const clamp = (value: number, max: number) => Math.max(0, Math.min(max - 1, value));
+  switch (key) {
+    case 'ArrowUp': return { row: clamp(cell.row - 1, rowCount), col: cell.col };
+    case 'ArrowDown': return { row: clamp(cell.row + 1, rowCount), col: cell.col };
+    case 'ArrowLeft': return { row: cell.row, col: clamp(cell.col - 1, colCount) };
+    case 'ArrowRight': return { row: cell.row, col: clamp(cell.col + 1, colCount) };
+    case 'Home': return { row: cell.row, col: 0 };
+    case 'End': return { row: cell.row, col: colCount - 1 };
+  }
+};
+
+// "9", "930", "9:30", "9.30", "09:30" → "09:30"
+const parseQuickTime = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{1,2})(?:[:.]?(\d{2}))?$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return formatTime(hours % 24, minutes);
+};
+
+/**
+ * ✏️ INSERIMENTO RAPIDO: "9-17", "9:30-13", "22-6" (notturno) oppure
+ * "9-13 16-20" / "9-13/16-20" per un turno spezzato
+ */
+export const parseQuickShiftEntry = (text: string): QuickShiftEntry | null => {
+  const ranges = text.trim().split(/\s*[/,;]\s*|\s+/).filter(Boolean);
+  if (ranges.length === 0) return null;
+
+  const segments: ShiftSegment[] = [];
+  for (const range of ranges) {
+    const parts = range.split('-');
+    if (parts.length !== 2) return null;
+    const startTime = parseQuickTime(parts[0]);
+    const endTime = parseQuickTime(parts[1]);
+    if (!startTime || !endTime || startTime === endTime) return null;
+    segments.push({ startTime, endTime });
+  }
+
+  if (segments.length === 1) {
+    return { startTime: segments[0].startTime, endTime: segments[0].endTime };
+  }
+
+  // I segmenti di un turno spezzato stanno nello stesso giorno e non si sovrappongono
+  const split = buildSplitShiftTimes(segments);
+  const isValid = split.segments.every((segment, index) =>
+    timeToMinutes(segment.endTime) > timeToMinutes(segment.startTime) &&
+    (index === 0 || timeToMinutes(segment.startTime) >= timeToMinutes(split.segments[index - 1].endTime))
+  );
+  return isValid ? split : null;
+};
+
+const getWorkingHours = (times: QuickShiftEntry, breakDuration: number) =>
+  times.segments && isSplitShift(times)
+    ? calculateSegmentedWorkingHours(times.segments, breakDuration)
+    : calculateWorkingHours(times.startTime, times.endTime, breakDuration);
+
+/**
+ * Un turno bloccato si modifica solo come amministratore, come nella singola cella;
+ * uno stato di workflow non modificabile (es. locked_final) esclude la cella come nel trascinamento.
+ */
+const getEditRefusal = (shift: Shift, userRole: string, workflowEngine: ShiftWorkflowEngine): string | null => {
+  if (shift.isLocked && userRole !== 'admin') return 'turno bloccato';
+  if (!workflowEngine.canEditShift(shift)) {
+    return `turno in stato "${workflowEngine.getStatusDisplayName(shift.validationStatus || 'draft')}"`;
+  }
+  return null;
+};
+
+const describeCell = (cell: GridSelectionCell) =>
+  `${cell.employee.firstName} ${cell.employee.lastName} ${cell.date.toLocaleDateString('it-IT')}`;
+
+const emptyBatch = (): ShiftGridBatch => ({ creates: [], updates: [], deletes: [], skipped: [] });
+
+/**
+ * Scrive gli orari indicati su ogni cella: aggiorna i turni esistenti e crea quelli mancanti.
+ * I giorni di chiusura e i turni bloccati restano invariati.
+ */
+const buildWriteBatch = (
+  cells: GridSelectionCell[],
+  times: QuickShiftEntry & { breakDuration: number; notes?: string; roleId?: string },
+  store: Store,
+  userRole: string,
+  workflowEngine: ShiftWorkflowEngine
+): ShiftGridBatch => {
+  const batch = emptyBatch();
+  const segments = times.segments && isSplitShift(times) ? times.segments : undefined;
+  const data = {
+    startTime: times.startTime,
+    endTime: times.endTime,
+    breakDuration: times.breakDuration,
+    segments,
+    actualHours: getWorkingHours(times, times.breakDuration)
+  };
+
+  cells.forEach(cell => {
+    if (cell.shift) {
+      const refusal = getEditRefusal(cell.shift, userRole, workflowEngine);
+      if (refusal) {
+        batch.skipped.push(`${describeCell(cell)}: ${refusal}`);
+        return;
+      }
+      batch.updates.push({ id: cell.shift.id, data });
+      return;
+    }
+
+    if (!getStoreHoursForDate(store, cell.date)) {
+      batch.skipped.push(`${describeCell(cell)}: negozio chiuso`);
+      return;
+    }
+
+    batch.creates.push({
+      ...data,
+      employeeId: cell.employee.id,
+      storeId: store.id,
+      date: new Date(cell.date.getFullYear(), cell.date.getMonth(), cell.date.getDate()),
+      status: 'scheduled',
+      isLocked: false,
+      validationStatus: 'draft',
+      roleId: times.roleId,
+      notes: times.notes
+    });
+  });
+
+  return batch;
+};
+
+export const buildQuickEntryBatch = (
+  cells: GridSelectionCell[],
+  entry: QuickShiftEntry,
+  store: Store,
+  userRole: string,
+  defaultBreakDuration: number,
+  workflowEngine: ShiftWorkflowEngine
+): ShiftGridBatch => {
+  // Ogni turno esistente conserva la propria pausa
+  const batches = cells.map(cell => buildWriteBatch(
+    [cell],
+    { ...entry, breakDuration: cell.shift?.breakDuration ?? defaultBreakDuration },
+    store,
+    userRole,
+    workflowEngine
+  ));
+  return mergeBatches(batches);
+};
+
+export const buildTemplateBatch = (
+  cells: GridSelectionCell[],
+  template: ShiftTemplate,
+  store: Store,
+  userRole: string,
+  workflowEngine: ShiftWorkflowEngine
+): ShiftGridBatch => buildWriteBatch(cells, template, store, userRole, workflowEngine);
+
+export const buildDeleteBatch = (
+  cells: GridSelectionCell[],
+  userRole: string,
+  workflowEngine: ShiftWorkflowEngine
+): ShiftGridBatch => {
+  const batch = emptyBatch();
+  cells.forEach(cell => {
+    if (!cell.shift) return;
+    const refusal = getEditRefusal(cell.shift, userRole, workflowEngine);
+    if (refusal) {
+      batch.skipped.push(`${describeCell(cell)}: ${refusal}`);
+      return;
+    }
+    batch.deletes.push(cell.shift.id);
+  });
+  return batch;
+};
+
+export const buildLockBatch = (cells: GridSelectionCell[], lock: boolean, userName: string): ShiftGridBatch => {
+  const batch = emptyBatch();
+  cells.forEach(cell => {
+    if (!cell.shift || cell.shift.isLocked === lock) return;
+    batch.updates.push({
+      id: cell.shift.id,
+      data: {
+        isLocked: lock,
+        lockedAt: lock ? new Date() : undefined,
+        lockedBy: lock ? userName : undefined
+      }
+    });
+  });
+  return batch;
+};
+
+/**
+ * ⬇️ RIEMPI IN BASSO: in ogni colonna della selezione il turno della prima riga
+ * viene copiato sulle righe sottostanti (colonne con la prima cella vuota ignorate)
+ */
+export const buildFillDownBatch = (
+  cells: GridSelectionCell[],
+  store: Store,
+  userRole: string,
+  workflowEngine: ShiftWorkflowEngine
+): ShiftGridBatch => {
+  const columns = Array.from(new Set(cells.map(cell => cell.col)));
+
+  return mergeBatches(columns.map(col => {
+    const columnCells = cells.filter(cell => cell.col === col).sort((a, b) => a.row - b.row);
+    const [source, ...targets] = columnCells;
+    if (!source?.shift || targets.length === 0) return emptyBatch();
+
+    return buildWriteBatch(targets, {
+      startTime: source.shift.startTime,
+      endTime: source.shift.endTime,
+      segments: source.shift.segments,
+      breakDuration: source.shift.breakDuration,
+      roleId: source.shift.roleId,
+      notes: source.shift.notes
+    }, store, userRole, workflowEngine);
+  }));
+};
+
+export const mergeBatches = (batches: ShiftGridBatch[]): ShiftGridBatch => batches.reduce((merged, batch) => ({
+  creates: [...merged.creates, ...batch.creates],
+  updates: [...merged.updates, ...batch.updates],
+  deletes: [...merged.deletes, ...batch.deletes],
+  skipped: [...merged.skipped, ...batch.skipped]
+}), emptyBatch());
+
+export const getBatchSize = (batch: ShiftGridBatch): number =>
+  batch.creates.length + batch.updates.length + batch.deletes.length;
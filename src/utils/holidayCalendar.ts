@@ -0,0 +1,108 @@
+import { Holiday, Store } from '../types';
+
+// 🎉 CALENDARIO FESTIVITÀ ITALIANE
+// Festività nazionali a data fissa (mese 1-12)
+const FIXED_HOLIDAYS: { day: number; month: number; name: string; type: Holiday['type'] }[] = [
+  { day: 1, month: 1, name: 'Capodanno', type: 'national' },
+  { day: 6, month: 1, name: 'Epifania', type: 'religious' },
+  { day: 25, month: 4, name: 'Festa della Liberazione', type: 'national' },
+  { day: 1, month: 5, name: 'Festa dei Lavoratori', type: 'national' },
+  { day: 2, month: 6, name: 'Festa della Repubblica', type: 'national' },
+  { day: 15, month: 8, name: 'Ferragosto', type: 'religious' },
+  { day: 1, month: 11, name: 'Ognissanti', type: 'religious' },
+  { day: 8, month: 12, name: 'Immacolata Concezione', type: 'religious' },
+  { day: 25, month: 12, name: 'Natale', type: 'religious' },
+  { day: 26, month: 12, name: 'Santo Stefano', type: 'religious' }
+];
+
+const holidayCache = new Map<number, Holiday[]>();
+
+/**
+ * Calcola la domenica di Pasqua (algoritmo gregoriano anonimo di Meeus/Jones/Butcher)
+ */
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Festività nazionali italiane per l'anno indicato (incluse Pasqua e Pasquetta)
+ */
+export const getItalianHolidays = (year: number): Holiday[] => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+  
+  const easter = getEasterSunday(year);
+  const easterMonday = new Date(easter);
+  easterMonday.setDate(easter.getDate() + 1);
+  
+  const holidays: Holiday[] = [
+    ...FIXED_HOLIDAYS.map(holiday => ({
+      date: new Date(year, holiday.month - 1, holiday.day),
+      name: holiday.name,
+      type: holiday.type
+    })),
+    { date: easter, name: 'Pasqua', type: 'religious' as const },
+    { date: easterMonday, name: 'Lunedì dell\'Angelo (Pasquetta)', type: 'religious' as const }
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+  
+  holidayCache.set(year, holidays);
+  return holidays;
+};
+
+/**
+ * Festività valide per un negozio: nazionali + santo patrono configurato
+ */
+export const getStoreHolidays = (year: number, store?: Store): Holiday[] => {
+  const holidays = getItalianHolidays(year);
+  if (!store?.patronSaint) return holidays;
+  
+  const { name, day, month } = store.patronSaint;
+  const patronDate = new Date(year, month - 1, day);
+  
+  // Se il patrono coincide con una festività nazionale non si aggiunge un secondo giorno
+  if (holidays.some(holiday => holiday.date.toDateString() === patronDate.toDateString())) {
+    return holidays;
+  }
+  
+  return [...holidays, { date: patronDate, name: `Santo Patrono: ${name}`, type: 'patronal' as const }]
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+export const getHoliday = (date: Date, store?: Store): Holiday | undefined => {
+  return getStoreHolidays(date.getFullYear(), store)
+    .find(holiday => holiday.date.toDateString() === date.toDateString());
+};
+
+export const isHoliday = (date: Date, store?: Store): boolean => {
+  return !!getHoliday(date, store);
+};
+
+// Festività comprese nell'intervallo [startDate, endDate]
+export const getHolidaysInRange = (startDate: Date, endDate: Date, store?: Store): Holiday[] => {
+  const from = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const to = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+  const holidays: Holiday[] = [];
+  
+  for (let year = from.getFullYear(); year <= to.getFullYear(); year++) {
+    holidays.push(...getStoreHolidays(year, store).filter(holiday => 
+      holiday.date >= from && holiday.date <= to
+    ));
+  }
+  
+  return holidays;
+};
@@ -0,0 +1,94 @@
+import { Employee, EmployeeUnavailability, OpenShift, Shift, StaffRole, Store } from '../types';
+import { addDays, calculateWorkingHours, getShiftWorkingHours, getStartOfWeek } from './timeUtils';
+import { validateShiftComplete } from './validationUtils';
+import { canCoverRole } from './staffNeeds';
+import { getContractLimits, getEmployeeContractAt } from './contractRules';
+
+// 📢 TURNI APERTI: idoneità dei dipendenti e conversione in turno assegnato
+
+export interface OpenShiftEligibilityContext {
+  store: Store;
+  shifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  roles?: StaffRole[]; // Solo per i nomi dei ruoli nei messaggi
+}
+
+export interface OpenShiftEligibility {
+  eligible: boolean;
+  reasons: string[];  // Motivi bloccanti
+  warnings: string[]; // Segnalazioni che non impediscono la richiesta
+  weeklyHoursAfter: number; // Ore della settimana se il turno venisse assegnato
+}
+
+export const getOpenShiftHours = (openShift: Pick<OpenShift, 'startTime' | 'endTime' | 'breakDuration'>): number => {
+  return calculateWorkingHours(openShift.startTime, openShift.endTime, openShift.breakDuration);
+};
+
+export const buildShiftFromOpenShift = (
+  openShift: OpenShift,
+  employeeId: string
+): Omit<Shift, 'id' | 'createdAt' | 'updatedAt'> => ({
+  employeeId,
+  storeId: openShift.storeId,
+  date: new Date(openShift.date.getFullYear(), openShift.date.getMonth(), openShift.date.getDate()),
+  startTime: openShift.startTime,
+  endTime: openShift.endTime,
+  breakDuration: openShift.breakDuration,
+  actualHours: getOpenShiftHours(openShift),
+  status: 'scheduled',
+  isLocked: false,
+  validationStatus: 'draft',
+  roleId: openShift.roleId,
+  notes: openShift.notes || 'Assegnato da turno aperto'
+});
+
+/**
+ * ✅ IDONEITÀ: negozio, competenza per il ruolo, indisponibilità, sovrapposizioni,
+ * riposi CCNL e ore contratto della settimana. Ricalcolata anche all'approvazione,
+ * perché nel frattempo la griglia può essere cambiata.
+ */
+export const checkOpenShiftEligibility = (
+  openShift: OpenShift,
+  employee: Employee,
+  context: OpenShiftEligibilityContext
+): OpenShiftEligibility => {
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+  const contract = getEmployeeContractAt(employee, openShift.date);
+
+  if (!employee.isActive) {
+    reasons.push('Dipendente non attivo');
+  }
+  if (contract.storeId && contract.storeId !== 'all' && contract.storeId !== openShift.storeId) {
+    reasons.push('Dipendente assegnato a un altro negozio');
+  }
+  if (!canCoverRole(employee, openShift.roleId)) {
+    const roleName = context.roles?.find(role => role.id === openShift.roleId)?.name || openShift.roleId;
+    reasons.push(`Competenza "${roleName}" non presente`);
+  }
+
+  const candidate: Shift = {
+    ...buildShiftFromOpenShift(openShift, employee.id),
+    id: `open-shift-${openShift.id}`,
+    createdAt: openShift.createdAt,
+    updatedAt: openShift.updatedAt
+  };
+  const employeeShifts = context.shifts.filter(shift => shift.employeeId === employee.id && shift.status !== 'cancelled');
+
+  validateShiftComplete(candidate, context.store, employee, employeeShifts, context.unavailabilities)
+    .forEach(conflict => (conflict.severity === 'error' ? reasons : warnings).push(conflict.message));
+
+  const weekStart = getStartOfWeek(openShift.date);
+  const weekEnd = addDays(weekStart, 7);
+  const weeklyHours = employeeShifts
+    .filter(shift => shift.date >= weekStart && shift.date < weekEnd)
+    .reduce((sum, shift) => sum + getShiftWorkingHours(shift), 0);
+  const weeklyHoursAfter = weeklyHours + candidate.actualHours;
+
+  const { maxWeeklyHours } = getContractLimits(contract);
+  if (weeklyHoursAfter > maxWeeklyHours) {
+    reasons.push(`Supererebbe il limite del contratto: ${weeklyHoursAfter.toFixed(1)}h su ${maxWeeklyHours}h settimanali`);
+  }
+
+  return { eligible: reasons.length === 0, reasons, warnings, weeklyHoursAfter };
+};
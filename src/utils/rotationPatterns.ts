@@ -0,0 +1,159 @@
+import { Employee, EmployeeUnavailability, RotationAssignment, RotationPattern, Shift, ShiftTemplate, Store } from '../types';
+import { addDays, buildSplitShiftTimes, calculateSegmentedWorkingHours, calculateWorkingHours, getDayOfWeek, getStartOfWeek, getWeekDayIndex } from './timeUtils';
+import { findApprovedUnavailability, getStoreDayClosure } from './scheduleGenerator';
+
+// 🔁 ROTAZIONI PLURISETTIMANALI: calcolo della settimana di rotazione e generazione dei turni
+
+export type RotationShift = Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface RotationSkippedDay {
+  employeeId: string;
+  date: Date;
+  reason: string;
+}
+
+export interface RotationGenerationInput {
+  patterns: RotationPattern[];
+  assignments: RotationAssignment[];
+  templates: ShiftTemplate[];
+  stores: Store[];
+  employees: Employee[];
+  existingShifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  from: Date;
+  to: Date; // Incluso
+}
+
+export interface RotationGenerationResult {
+  shifts: RotationShift[];
+  skipped: RotationSkippedDay[];
+}
+
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const createEmptyRotationWeek = (label: string) => ({ label, days: new Array<string | null>(7).fill(null) });
+
+/**
+ * Settimana della rotazione in vigore alla data per un membro dell'assegnazione.
+ * Nei gruppi sfalsati il membro n parte n settimane dopo il primo, così ogni settimana
+ * della rotazione è coperta da una persona diversa. Restituisce null fuori validità.
+ */
+export const getRotationWeekIndex = (
+  pattern: RotationPattern,
+  assignment: RotationAssignment,
+  memberIndex: number,
+  date: Date
+): number | null => {
+  if (pattern.weeks.length === 0) return null;
+
+  const day = startOfDay(date);
+  const firstWeek = getStartOfWeek(assignment.startDate);
+  if (day < startOfDay(firstWeek)) return null;
+  if (assignment.endDate && day > startOfDay(assignment.endDate)) return null;
+
+  // Arrotondamento per assorbire i cambi di ora legale
+  const weeksElapsed = Math.round((getStartOfWeek(day).getTime() - firstWeek.getTime()) / MS_PER_WEEK);
+  const offset = assignment.startWeekOffset + (assignment.staggerMembers ? memberIndex : 0);
+  const length = pattern.weeks.length;
+  return ((weeksElapsed + offset) % length + length) % length;
+};
+
+// Turno concreto a partire dal template (i template spezzati mantengono i segmenti)
+export const buildShiftFromTemplate = (
+  template: ShiftTemplate,
+  employeeId: string,
+  storeId: string,
+  date: Date,
+  notes?: string
+): RotationShift => {
+  const times = template.segments && template.segments.length > 1
+    ? buildSplitShiftTimes(template.segments)
+    : { startTime: template.startTime, endTime: template.endTime, segments: undefined };
+
+  return {
+    employeeId,
+    storeId,
+    date: startOfDay(date),
+    ...times,
+    breakDuration: template.breakDuration,
+    actualHours: times.segments
+      ? calculateSegmentedWorkingHours(times.segments, template.breakDuration)
+      : calculateWorkingHours(template.startTime, template.endTime, template.breakDuration),
+    status: 'scheduled',
+    isLocked: false,
+    validationStatus: 'draft',
+    notes
+  };
+};
+
+/**
+ * 📅 GENERAZIONE: per ogni giorno dell'intervallo e ogni membro delle assegnazioni attive
+ * si applica il template della settimana di rotazione. Si saltano i giorni di riposo,
+ * le chiusure del negozio, le festività senza orario configurato, le indisponibilità
+ * approvate e i giorni in cui il dipendente ha già un turno.
+ */
+export const generateRotationShifts = (input: RotationGenerationInput): RotationGenerationResult => {
+  const shifts: RotationShift[] = [];
+  const skipped: RotationSkippedDay[] = [];
+  const from = startOfDay(input.from);
+  const to = startOfDay(input.to);
+
+  const occupied = new Set(input.existingShifts
+    .filter(shift => shift.status !== 'cancelled')
+    .map(shift => `${shift.employeeId}-${shift.date.toDateString()}`));
+
+  input.assignments.filter(assignment => assignment.isActive).forEach(assignment => {
+    const pattern = input.patterns.find(p => p.id === assignment.patternId && p.isActive);
+    const store = input.stores.find(s => s.id === assignment.storeId);
+    if (!pattern || !store) return;
+
+    assignment.employeeIds.forEach((employeeId, memberIndex) => {
+      const employee = input.employees.find(emp => emp.id === employeeId);
+      if (!employee?.isActive) return;
+
+      const skip = (date: Date, reason: string) => skipped.push({ employeeId, date, reason });
+
+      for (let date = from; date <= to; date = addDays(date, 1)) {
+        const weekIndex = getRotationWeekIndex(pattern, assignment, memberIndex, date);
+        if (weekIndex === null) continue;
+
+        const week = pattern.weeks[weekIndex];
+        const templateId = week.days[getWeekDayIndex(date)];
+        if (!templateId) continue; // Riposo previsto dalla rotazione
+
+        const template = input.templates.find(t => t.id === templateId);
+        if (!template) {
+          skip(date, `template non più disponibile (${week.label})`);
+          continue;
+        }
+
+        const closure = getStoreDayClosure(store, date);
+        if (closure) {
+          skip(date, closure.type === 'closed' ? `${store.name} chiuso ${getDayOfWeek(date)}` : `festività "${closure.holiday.name}"`);
+          continue;
+        }
+
+        const unavailability = findApprovedUnavailability(employeeId, date, input.unavailabilities);
+        if (unavailability) {
+          skip(date, `indisponibilità approvata${unavailability.reason ? ` (${unavailability.reason})` : ''}`);
+          continue;
+        }
+
+        const key = `${employeeId}-${date.toDateString()}`;
+        if (occupied.has(key)) {
+          skip(date, 'turno già presente');
+          continue;
+        }
+
+        occupied.add(key);
+        shifts.push(buildShiftFromTemplate(template, employeeId, store.id, date, `Rotazione ${pattern.name} • ${week.label}`));
+      }
+    });
+  });
+
+  shifts.sort((a, b) => a.date.getTime() - b.date.getTime() || a.employeeId.localeCompare(b.employeeId));
+  skipped.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return { shifts, skipped };
+};
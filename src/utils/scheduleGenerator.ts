@@ -0,0 +1,542 @@
+import { Employee, EmployeeUnavailability, Holiday, Shift, StaffRequirement, StaffRole, Store, WeightingEvent } from '../types';
+import {
+  getDayOfWeek,
+  getStartOfWeek,
+  getWeekDays,
+  addDays,
+  timeToMinutes,
+  formatTime,
+  getShiftSegments,
+  getShiftStartDateTime,
+  getShiftEndDateTime,
+  getShiftWorkingHours
+} from './timeUtils';
+import { getHoliday } from './holidayCalendar';
+import { calculateStaffNeeds, canCoverRole, getPeakExtraStaff, getPrimaryRoleId, getShiftRoleId } from './staffNeeds';
+import { getContractLimits, getEmployeeContractAt, validateContractShifts } from './contractRules';
+
+/**
+ * 🧩 GENERATORE TURNI A VINCOLI
+ * Costruisce una proposta di settimana in modo deterministico (stessi dati = stessa proposta):
+ * 1. fabbisogno per ruolo e fascia oraria da orari negozio, StaffRequirement, picchi ed eventi ponderati;
+ * 2. copertura dei minimi con turni assegnati ai dipendenti idonei (competenze, indisponibilità, riposi CCNL, ore contratto);
+ * 3. completamento delle ore contratto entro i massimi di fabbisogno.
+ * I vincoli non soddisfatti vengono riportati, mai ignorati in silenzio.
+ */
+
+export interface GeneratorRules {
+  slotMinutes: number;          // Granularità delle fasce di copertura
+  minShiftHours: number;        // Durata minima di un turno proposto
+  maxDailyHours: number;        // Ore lavorate massime per turno
+  minDailyRestHours: number;    // Riposo minimo tra due turni (CCNL: 11h)
+  maxConsecutiveDays: number;   // Giorni lavorativi consecutivi massimi (CCNL: 6)
+  breakThresholdHours: number;  // Oltre questa durata il turno include una pausa
+  breakMinutes: number;
+  defaultMinStaff: number;      // Copertura minima senza fabbisogno configurato
+  scheduleHolidays: boolean;    // Genera turni anche nei festivi senza chiusura configurata
+}
+
+export const DEFAULT_GENERATOR_RULES: GeneratorRules = {
+  slotMinutes: 30,
+  minShiftHours: 4,
+  maxDailyHours: 8,
+  minDailyRestHours: 11,
+  maxConsecutiveDays: 6,
+  breakThresholdHours: 6,
+  breakMinutes: 30,
+  defaultMinStaff: 1,
+  scheduleHolidays: false
+};
+
+export interface ScheduleGeneratorInput {
+  store: Store;
+  weekStart: Date;
+  employees: Employee[];
+  existingShifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+  staffRequirements: StaffRequirement[];
+  weightingEvents: WeightingEvent[];
+  staffRoles?: StaffRole[]; // Solo per i nomi dei ruoli nei messaggi
+  rules?: Partial<GeneratorRules>;
+}
+
+export type GeneratedShift = Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ShiftProposal {
+  id: string;
+  shift: GeneratedShift;
+  reason: string;
+}
+
+export type UnsatisfiedConstraintType =
+  | 'coverage'        // Minimo di personale non raggiunto
+  | 'max_staff'       // Personale oltre il massimo per fascia
+  | 'contract_hours'  // Ore contratto non raggiunte o superate
+  | 'no_requirement'  // Nessun fabbisogno configurato per il giorno
+  | 'holiday';        // Festività senza chiusura configurata
+
+export interface UnsatisfiedConstraint {
+  type: UnsatisfiedConstraintType;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  date?: Date;
+  employeeId?: string;
+}
+
+export interface ScheduleGenerationResult {
+  storeId: string;
+  weekStart: Date;
+  proposals: ShiftProposal[];
+  unsatisfied: UnsatisfiedConstraint[];
+  coverage: {
+    requiredHours: number; // Somma dei minimi per fascia (persona-ore)
+    coveredHours: number;  // Persona-ore dei minimi coperte dopo la proposta
+  };
+}
+
+// Fabbisogno di un ruolo per fascia; roleId assente = qualsiasi ruolo (nessun fabbisogno configurato)
+interface RoleDemand {
+  roleId?: string;
+  minStaff: number[];
+  maxStaff: number[];
+  coverage: number[];
+}
+
+interface DayPlan {
+  date: Date;
+  openMinutes: number;
+  closeMinutes: number;
+  slotCount: number;
+  demands: RoleDemand[];
+}
+
+interface EmployeeState {
+  employee: Employee;
+  plannedHours: number;
+  shifts: Array<Pick<Shift, 'date' | 'startTime' | 'endTime' | 'segments'>>;
+}
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const minutesToTime = (minutes: number) => formatTime(Math.floor(minutes / 60) % 24, minutes % 60);
+
+// Orari effettivi: chiusura straordinaria > orari settimanali > orari standard
+export const getStoreHoursForDate = (store: Store, date: Date): { open: string; close: string } | null => {
+  const dayOfWeek = getDayOfWeek(date);
+  const closureDay = store.closureDays?.find(closure => isSameDay(closure.date, date));
+  if (closureDay) {
+    return closureDay.isFullDay ? null : closureDay.customHours || null;
+  }
+
+  const weekStart = getStartOfWeek(date);
+  const weeklySchedule = store.weeklySchedules?.find(schedule =>
+    schedule.isActive && isSameDay(schedule.weekStartDate, weekStart)
+  );
+  if (weeklySchedule) {
+    return weeklySchedule.openingHours[dayOfWeek] || null;
+  }
+
+  return store.openingHours[dayOfWeek] || null;
+};
+
+// Giorno non pianificabile: negozio chiuso, oppure festività senza chiusura o orario ridotto configurato
+export type StoreDayClosure = { type: 'closed' } | { type: 'holiday'; holiday: Holiday };
+
+export const getStoreDayClosure = (store: Store, date: Date): StoreDayClosure | null => {
+  if (!getStoreHoursForDate(store, date)) return { type: 'closed' };
+
+  const holiday = getHoliday(date, store);
+  const hasClosureConfig = !!store.closureDays?.some(closure => isSameDay(closure.date, date));
+  return holiday && !hasClosureConfig ? { type: 'holiday', holiday } : null;
+};
+
+// Solo le indisponibilità approvate bloccano la pianificazione, come nella validazione del turno
+export const findApprovedUnavailability = (
+  employeeId: string,
+  date: Date,
+  unavailabilities: EmployeeUnavailability[]
+): EmployeeUnavailability | undefined => {
+  const day = startOfDay(date);
+  return unavailabilities.find(unavailability =>
+    unavailability.employeeId === employeeId &&
+    unavailability.isApproved &&
+    startOfDay(unavailability.startDate) <= day &&
+    startOfDay(unavailability.endDate) >= day
+  );
+};
+
+const sumSlots = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+export const generateWeekSchedule = (input: ScheduleGeneratorInput): ScheduleGenerationResult => {
+  const rules = { ...DEFAULT_GENERATOR_RULES, ...input.rules };
+  const { store, employees, existingShifts, unavailabilities, staffRequirements, weightingEvents, staffRoles = [] } = input;
+  const weekStart = getStartOfWeek(input.weekStart);
+  const weekEnd = addDays(weekStart, 7);
+  const slot = rules.slotMinutes;
+
+  const proposals: ShiftProposal[] = [];
+  const unsatisfied: UnsatisfiedConstraint[] = [];
+  const activeShifts = existingShifts.filter(shift => shift.status !== 'cancelled');
+
+  // Dipendenti del negozio in ordine stabile (il generatore non usa mai valori casuali)
+  // Negozio e ore contratto sono quelli in vigore a inizio settimana
+  const states: EmployeeState[] = employees
+    .map(employee => getEmployeeContractAt(employee, weekStart))
+    .filter(employee => employee.isActive && employee.storeId === store.id)
+    .sort((a, b) => `${a.lastName} ${a.firstName} ${a.id}`.localeCompare(`${b.lastName} ${b.firstName} ${b.id}`))
+    .map(employee => {
+      const shifts = activeShifts.filter(shift => shift.employeeId === employee.id);
+      const plannedHours = shifts
+        .filter(shift => shift.date >= weekStart && shift.date < weekEnd)
+        .reduce((sum, shift) => sum + getShiftWorkingHours(shift), 0);
+      return { employee, plannedHours, shifts };
+    });
+
+  const roleLabel = (roleId?: string) => {
+    if (!roleId) return 'persona/e';
+    return staffRoles.find(role => role.id === roleId)?.name || roleId;
+  };
+
+  // 📊 FABBISOGNO PER RUOLO E FASCIA
+  const dayPlans: DayPlan[] = [];
+  getWeekDays(weekStart).forEach(date => {
+    const hours = getStoreHoursForDate(store, date);
+    if (!hours) return;
+
+    const closure = getStoreDayClosure(store, date);
+    if (closure?.type === 'holiday' && !rules.scheduleHolidays) {
+      unsatisfied.push({
+        type: 'holiday',
+        severity: 'info',
+        date,
+        message: `${getDayOfWeek(date)}: festività "${closure.holiday.name}", nessun turno generato (configurare una chiusura o un orario ridotto)`
+      });
+      return;
+    }
+
+    const openMinutes = timeToMinutes(hours.open);
+    let closeMinutes = timeToMinutes(hours.close);
+    if (closeMinutes <= openMinutes) closeMinutes += 24 * 60;
+    const slotCount = Math.floor((closeMinutes - openMinutes) / slot);
+    if (slotCount <= 0) return;
+
+    const need = calculateStaffNeeds(staffRequirements, weightingEvents, store.id, date);
+    const demands: RoleDemand[] = [];
+
+    if (need && need.calculatedStaff.length > 0) {
+      need.calculatedStaff.forEach(role => {
+        const weightedMax = Math.max(role.weightedMin, role.weightedMax);
+        const demand: RoleDemand = {
+          roleId: role.roleId,
+          minStaff: new Array(slotCount).fill(0),
+          maxStaff: new Array(slotCount).fill(0),
+          coverage: new Array(slotCount).fill(0)
+        };
+        for (let i = 0; i < slotCount; i++) {
+          const peakExtra = getPeakExtraStaff(need, role.roleId, openMinutes + i * slot);
+          demand.minStaff[i] = role.weightedMin + peakExtra;
+          demand.maxStaff[i] = weightedMax + peakExtra;
+        }
+        demands.push(demand);
+      });
+    } else {
+      const multiplier = need?.finalMultiplier ?? 1;
+      const minStaff = Math.ceil(rules.defaultMinStaff * multiplier);
+      demands.push({
+        minStaff: new Array(slotCount).fill(minStaff),
+        maxStaff: new Array(slotCount).fill(Math.max(states.length, 1)),
+        coverage: new Array(slotCount).fill(0)
+      });
+      unsatisfied.push({
+        type: 'no_requirement',
+        severity: 'info',
+        date,
+        message: `${getDayOfWeek(date)}: nessun fabbisogno configurato, usata la copertura minima di ${minStaff} persona/e`
+      });
+    }
+
+    // Turni già presenti (anche bloccati) contano come copertura acquisita del loro ruolo;
+    // quelli senza ruolo coprono la prima fascia scoperta di qualsiasi ruolo
+    activeShifts
+      .filter(shift => shift.storeId === store.id && isSameDay(shift.date, date))
+      .forEach(shift => {
+        const roleId = getShiftRoleId(shift, employees.find(employee => employee.id === shift.employeeId));
+        const roleDemand = demands.find(demand => demand.roleId === roleId);
+        if (roleId && !roleDemand && demands[0].roleId) return; // Ruolo non richiesto in questo giorno
+
+        getShiftSegments(shift).forEach(segment => {
+          let start = timeToMinutes(segment.startTime);
+          let end = timeToMinutes(segment.endTime);
+          if (end <= start) end += 24 * 60;
+          if (start < openMinutes && end <= openMinutes) { start += 24 * 60; end += 24 * 60; }
+          for (let i = 0; i < slotCount; i++) {
+            const slotStart = openMinutes + i * slot;
+            if (slotStart < start || slotStart >= end) continue;
+            const target = roleDemand
+              || demands.find(demand => demand.coverage[i] < demand.minStaff[i])
+              || demands[0];
+            target.coverage[i]++;
+          }
+        });
+      });
+
+    demands.forEach(demand => {
+      const overMax = demand.coverage.findIndex((count, i) => count > demand.maxStaff[i]);
+      if (overMax >= 0) {
+        unsatisfied.push({
+          type: 'max_staff',
+          severity: 'warning',
+          date,
+          message: `${getDayOfWeek(date)} ${minutesToTime(openMinutes + overMax * slot)}: i turni esistenti superano il massimo di ${demand.maxStaff[overMax]} ${roleLabel(demand.roleId)}`
+        });
+      }
+    });
+
+    dayPlans.push({ date, openMinutes, closeMinutes, slotCount, demands });
+  });
+
+  const requiredHours = dayPlans.reduce((sum, plan) =>
+    sum + plan.demands.reduce((acc, demand) => acc + sumSlots(demand.minStaff), 0), 0) * slot / 60;
+
+  // ⏱️ Durata del turno a partire dalle ore lavorate (pausa inclusa oltre la soglia)
+  const spanForWorkHours = (workHours: number) => {
+    const workMinutes = Math.round(workHours * 60 / slot) * slot;
+    return workMinutes > rules.breakThresholdHours * 60 ? workMinutes + rules.breakMinutes : workMinutes;
+  };
+
+  const workHoursForSpan = (spanMinutes: number) => {
+    const breakMinutes = spanMinutes / 60 > rules.breakThresholdHours + rules.breakMinutes / 60 ? rules.breakMinutes : 0;
+    return { workHours: (spanMinutes - breakMinutes) / 60, breakMinutes };
+  };
+
+  // Il generatore pianifica solo ore ordinarie: le supplementari restano una scelta del responsabile
+  const contractTargetHours = (employee: Employee) => getContractLimits(employee).ordinaryHours;
+
+  const dailyTargetHours = (state: EmployeeState) =>
+    Math.min(rules.maxDailyHours, Math.max(rules.minShiftHours, contractTargetHours(state.employee) / 5));
+
+  const remainingHours = (state: EmployeeState) => contractTargetHours(state.employee) - state.plannedHours;
+
+  const buildShift = (state: EmployeeState, plan: DayPlan, demand: RoleDemand, startMinutes: number, endMinutes: number): GeneratedShift => {
+    const { workHours, breakMinutes } = workHoursForSpan(endMinutes - startMinutes);
+    return {
+      employeeId: state.employee.id,
+      storeId: store.id,
+      roleId: demand.roleId || getPrimaryRoleId(state.employee),
+      date: new Date(plan.date.getFullYear(), plan.date.getMonth(), plan.date.getDate()),
+      startTime: minutesToTime(startMinutes),
+      endTime: minutesToTime(endMinutes),
+      breakDuration: breakMinutes,
+      actualHours: workHours,
+      status: 'scheduled',
+      isLocked: false,
+      validationStatus: 'draft',
+      notes: 'Proposta generatore automatico'
+    };
+  };
+
+  // 🛡️ VINCOLI RIGIDI: indisponibilità, un turno al giorno, riposo giornaliero, giorni consecutivi, ore contratto
+  const canWork = (state: EmployeeState, shift: GeneratedShift): boolean => {
+    if (findApprovedUnavailability(state.employee.id, shift.date, unavailabilities)) return false;
+    if (state.shifts.some(existing => isSameDay(existing.date, shift.date))) return false;
+    if (state.plannedHours + shift.actualHours > contractTargetHours(state.employee)) return false;
+    if (validateContractShifts(state.employee, [shift]).some(conflict => conflict.severity === 'error')) return false;
+
+    const start = getShiftStartDateTime(shift).getTime();
+    const end = getShiftEndDateTime(shift).getTime();
+    const minRest = rules.minDailyRestHours * 60 * 60 * 1000;
+    const restViolated = state.shifts.some(existing => {
+      const otherStart = getShiftStartDateTime(existing).getTime();
+      const otherEnd = getShiftEndDateTime(existing).getTime();
+      return otherEnd <= start ? start - otherEnd < minRest : otherStart >= end ? otherStart - end < minRest : true;
+    });
+    if (restViolated) return false;
+
+    const worksOn = (offset: number) => state.shifts.some(existing => isSameDay(existing.date, addDays(shift.date, offset)));
+    let consecutive = 1;
+    for (let offset = -1; worksOn(offset); offset--) consecutive++;
+    for (let offset = 1; worksOn(offset); offset++) consecutive++;
+    return consecutive <= rules.maxConsecutiveDays;
+  };
+
+  const fitsMax = (demand: RoleDemand, fromSlot: number, toSlot: number) => {
+    for (let i = fromSlot; i < toSlot; i++) {
+      if (demand.coverage[i] >= demand.maxStaff[i]) return false;
+    }
+    return true;
+  };
+
+  const assign = (state: EmployeeState, demand: RoleDemand, shift: GeneratedShift, fromSlot: number, toSlot: number, reason: string) => {
+    for (let i = fromSlot; i < toSlot; i++) demand.coverage[i]++;
+    state.plannedHours += shift.actualHours;
+    state.shifts.push(shift);
+    proposals.push({ id: crypto.randomUUID(), shift, reason });
+  };
+
+  // Intervallo di fasce per un turno che include la fascia indicata (o allineato alla chiusura)
+  const shiftWindow = (state: EmployeeState, plan: DayPlan, demand: RoleDemand, anchorSlot: number, alignToClose = false, respectMax = true) => {
+    const { slotCount } = plan;
+    const workHours = Math.min(dailyTargetHours(state), remainingHours(state));
+    if (workHours < rules.minShiftHours) return null;
+
+    const spanSlots = Math.min(Math.ceil(spanForWorkHours(workHours) / slot), slotCount);
+    if (alignToClose) anchorSlot = Math.max(0, slotCount - spanSlots);
+    let fromSlot = anchorSlot;
+    let toSlot = fromSlot + spanSlots;
+    if (toSlot > slotCount) {
+      toSlot = slotCount;
+      fromSlot = Math.max(0, toSlot - spanSlots);
+    }
+
+    // Il turno si accorcia prima di una fascia già al massimo
+    if (respectMax) {
+      for (let i = anchorSlot; i < toSlot; i++) {
+        if (demand.coverage[i] >= demand.maxStaff[i]) {
+          toSlot = i;
+          break;
+        }
+      }
+      if (!fitsMax(demand, fromSlot, anchorSlot)) fromSlot = anchorSlot;
+    }
+    if ((toSlot - fromSlot) * slot < rules.minShiftHours * 60) return null;
+
+    return { fromSlot, toSlot };
+  };
+
+  // 1️⃣ COPERTURA DEI MINIMI: la prima fascia scoperta di ogni ruolo riceve il dipendente idoneo con più ore residue
+  const overMaxDays = new Set<string>();
+  dayPlans.forEach(plan => {
+    plan.demands.forEach(demand => {
+      const uncovered = new Set<number>();
+
+      for (;;) {
+        const target = demand.minStaff.findIndex((min, i) => demand.coverage[i] < min && !uncovered.has(i));
+        if (target < 0) break;
+
+        // A parità di condizioni, prima chi ha il ruolo come principale
+        const isPrimary = (state: EmployeeState) => (demand.roleId && getPrimaryRoleId(state.employee) === demand.roleId ? 0 : 1);
+        const candidates = states
+          .filter(state => canCoverRole(state.employee, demand.roleId))
+          .sort((a, b) => isPrimary(a) - isPrimary(b) || remainingHours(b) - remainingHours(a));
+        const tryAssign = (respectMax: boolean) => candidates.some(state => {
+          const window = shiftWindow(state, plan, demand, target, false, respectMax);
+          if (!window) return false;
+
+          const shift = buildShift(state, plan, demand, plan.openMinutes + window.fromSlot * slot, plan.openMinutes + window.toSlot * slot);
+          if (!canWork(state, shift)) return false;
+
+          assign(state, demand, shift, window.fromSlot, window.toSlot, `Copertura minima ${roleLabel(demand.roleId)} dalle ${minutesToTime(plan.openMinutes + target * slot)}`);
+          return true;
+        });
+
+        // Il minimo prevale sul massimo: se serve, il turno sfora il massimo in altre fasce
+        if (tryAssign(true)) continue;
+        if (tryAssign(false)) {
+          overMaxDays.add(plan.date.toDateString());
+          continue;
+        }
+        uncovered.add(target);
+      }
+
+      // Fasce scoperte raggruppate in intervalli contigui
+      const sorted = Array.from(uncovered).sort((a, b) => a - b);
+      sorted.forEach((index, position) => {
+        if (position > 0 && sorted[position - 1] === index - 1) return;
+        let end = index;
+        while (uncovered.has(end + 1)) end++;
+        const missing = Math.max(...sorted.filter(i => i >= index && i <= end).map(i => demand.minStaff[i] - demand.coverage[i]));
+        unsatisfied.push({
+          type: 'coverage',
+          severity: 'error',
+          date: plan.date,
+          message: `${getDayOfWeek(plan.date)} ${minutesToTime(plan.openMinutes + index * slot)}-${minutesToTime(plan.openMinutes + (end + 1) * slot)}: mancano ${missing} ${roleLabel(demand.roleId)} rispetto al minimo`
+        });
+      });
+    });
+  });
+
+  dayPlans
+    .filter(plan => overMaxDays.has(plan.date.toDateString()))
+    .forEach(plan => unsatisfied.push({
+      type: 'max_staff',
+      severity: 'warning',
+      date: plan.date,
+      message: `${getDayOfWeek(plan.date)}: superato il massimo di personale in alcune fasce per garantire la copertura minima`
+    }));
+
+  // 2️⃣ COMPLETAMENTO ORE CONTRATTO: turni aggiuntivi dove il fabbisogno massimo lo consente
+  [...states]
+    .sort((a, b) => remainingHours(b) - remainingHours(a))
+    .forEach(state => {
+      let added = true;
+      while (added && remainingHours(state) >= rules.minShiftHours) {
+        added = false;
+
+        // Giorni meno coperti per primi, turno di apertura o di chiusura
+        const fillRatio = (plan: DayPlan) =>
+          plan.demands.reduce((sum, demand) => sum + sumSlots(demand.coverage), 0) /
+          Math.max(1, plan.demands.reduce((sum, demand) => sum + sumSlots(demand.maxStaff), 0));
+        const plans = [...dayPlans].sort((a, b) => fillRatio(a) - fillRatio(b) || a.date.getTime() - b.date.getTime());
+
+        // Ruolo principale del dipendente per primo, poi gli altri ruoli per cui è abilitato
+        const primaryRoleId = getPrimaryRoleId(state.employee);
+        const demandsFor = (plan: DayPlan) => plan.demands
+          .filter(demand => canCoverRole(state.employee, demand.roleId))
+          .sort((a, b) => (a.roleId === primaryRoleId ? 0 : 1) - (b.roleId === primaryRoleId ? 0 : 1));
+
+        for (const plan of plans) {
+          for (const demand of demandsFor(plan)) {
+            for (const alignToClose of [false, true]) {
+              const window = shiftWindow(state, plan, demand, 0, alignToClose);
+              if (!window || !fitsMax(demand, window.fromSlot, window.toSlot)) continue;
+
+              const shift = buildShift(state, plan, demand, plan.openMinutes + window.fromSlot * slot, plan.openMinutes + window.toSlot * slot);
+              if (!canWork(state, shift)) continue;
+
+              assign(state, demand, shift, window.fromSlot, window.toSlot, 'Completamento ore contratto');
+              added = true;
+              break;
+            }
+            if (added) break;
+          }
+          if (added) break;
+        }
+      }
+    });
+
+  states.forEach(state => {
+    const { employee, plannedHours } = state;
+    const name = `${employee.firstName} ${employee.lastName}`;
+    const targetHours = contractTargetHours(employee);
+    if (plannedHours > targetHours) {
+      unsatisfied.push({
+        type: 'contract_hours',
+        severity: 'warning',
+        employeeId: employee.id,
+        message: `${name}: ${plannedHours.toFixed(1)}h pianificate, oltre le ${targetHours}h di contratto (turni esistenti)`
+      });
+    } else if (targetHours - plannedHours >= rules.minShiftHours) {
+      unsatisfied.push({
+        type: 'contract_hours',
+        severity: 'warning',
+        employeeId: employee.id,
+        message: `${name}: ${plannedHours.toFixed(1)}h su ${targetHours}h di contratto (fabbisogno o vincoli di riposo non consentono altri turni)`
+      });
+    }
+  });
+
+  const coveredHours = dayPlans.reduce((sum, plan) => sum + plan.demands.reduce((acc, demand) =>
+    acc + demand.minStaff.reduce((covered, min, i) => covered + Math.min(min, demand.coverage[i]), 0), 0), 0) * slot / 60;
+
+  console.log(`🧩 Generatore turni: ${proposals.length} proposte, ${unsatisfied.length} vincoli non soddisfatti`);
+
+  return {
+    storeId: store.id,
+    weekStart,
+    proposals,
+    unsatisfied,
+    coverage: { requiredHours, coveredHours }
+  };
+};
@@ -0,0 +1,186 @@
+import { Employee, ScheduleScenario, Shift, Store } from '../types';
+import { RoleStaffingContext, ValidationAdminSettings } from '../types/validation';
+import { validateShiftGrid } from './shiftGridValidation';
+import { ccnlValidator } from './ccnlValidation';
+import { getEmployeeContractAt } from './contractRules';
+import { addDays, formatShiftTimes, getStartOfWeek } from './timeUtils';
+import { ShiftGridBatch } from './gridSelection';
+
+// 🧪 SCENARI: alternative di una settimana confrontate tra loro e promuovibili alla pianificazione reale
+
+export interface ScenarioMetrics {
+  score: number; // Punteggio validateShiftGrid (0-100)
+  isValid: boolean;
+  criticalIssues: number;
+  warnings: number;
+  ccnlViolations: number;
+  ccnlCriticalViolations: number;
+  totalHours: number;
+  shiftCount: number;
+  equityScore: number; // 100 = ore perfettamente distribuite tra i dipendenti
+  hoursStandardDeviation: number;
+}
+
+export interface ScenarioPromotionPlan {
+  batch: ShiftGridBatch;
+  warnings: string[]; // Modifiche alla griglia reale avvenute dopo la creazione dello scenario
+}
+
+// Campi del turno che uno scenario può cambiare e che la promozione riporta sulla griglia
+const PROMOTED_FIELDS = [
+  'employeeId', 'startTime', 'endTime', 'breakDuration', 'actualHours', 'status', 'segments', 'roleId', 'notes'
+] as const;
+
+const isInWeek = (shift: Shift, storeId: string, weekStart: Date) => {
+  const start = getStartOfWeek(weekStart);
+  return shift.storeId === storeId && shift.date >= start && shift.date < addDays(start, 7);
+};
+
+export const getWeekShifts = (shifts: Shift[], storeId: string, weekStart: Date): Shift[] =>
+  shifts.filter(shift => isInWeek(shift, storeId, weekStart));
+
+// Copia indipendente dei turni della settimana: le modifiche allo scenario non toccano i turni reali
+export const forkScenarioShifts = (shifts: Shift[], storeId: string, weekStart: Date): Shift[] =>
+  getWeekShifts(shifts, storeId, weekStart)
+    .filter(shift => shift.status !== 'cancelled')
+    .map(shift => ({
+      ...shift,
+      date: new Date(shift.date),
+      segments: shift.segments?.map(segment => ({ ...segment }))
+    }));
+
+// Dipendenti del negozio con il contratto in vigore nella settimana
+export const getScenarioEmployees = (employees: Employee[], storeId: string, weekStart: Date): Employee[] =>
+  employees
+    .filter(employee => employee.isActive)
+    .map(employee => getEmployeeContractAt(employee, weekStart))
+    .filter(employee => employee.storeId === storeId);
+
+export const evaluateScenarioShifts = (
+  store: Store,
+  shifts: Shift[],
+  employees: Employee[],
+  weekStart: Date,
+  adminSettings?: ValidationAdminSettings,
+  roleStaffing?: RoleStaffingContext
+): ScenarioMetrics => {
+  const activeShifts = shifts.filter(shift => shift.status !== 'cancelled');
+  const result = validateShiftGrid(store, activeShifts, employees, weekStart, adminSettings, roleStaffing);
+
+  const violations = employees.flatMap(employee =>
+    ccnlValidator.generateWeeklyComplianceReport(employee, getStartOfWeek(weekStart), activeShifts).violations
+  );
+
+  return {
+    score: result.score,
+    isValid: result.isValid,
+    criticalIssues: result.summary.criticalIssues,
+    warnings: result.summary.warnings,
+    ccnlViolations: violations.length,
+    ccnlCriticalViolations: violations.filter(violation => violation.severity === 'critical').length,
+    totalHours: Number(activeShifts.reduce((sum, shift) => sum + shift.actualHours, 0).toFixed(1)),
+    shiftCount: activeShifts.length,
+    equityScore: Number((100 - result.workloadDistribution.inequityScore).toFixed(1)),
+    hoursStandardDeviation: Number(result.workloadDistribution.standardDeviation.toFixed(1))
+  };
+};
+
+const hasChanged = (scenarioShift: Shift, liveShift: Shift) =>
+  scenarioShift.date.toDateString() !== liveShift.date.toDateString() ||
+  PROMOTED_FIELDS.some(field => JSON.stringify(scenarioShift[field]) !== JSON.stringify(liveShift[field]));
+
+const describeShift = (shift: Shift, employees: Employee[]) => {
+  const employee = employees.find(emp => emp.id === shift.employeeId);
+  const name = employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente rimosso';
+  return `${name} ${shift.date.toLocaleDateString('it-IT')} ${formatShiftTimes(shift)}`;
+};
+
+/**
+ * 🚀 PROMOZIONE: differenze tra scenario e settimana reale.
+ * I turni bloccati non vengono mai toccati; i turni aggiunti alla griglia dopo la creazione
+ * dello scenario restano, quelli eliminati dallo scenario vengono rimossi.
+ */
+export const planScenarioPromotion = (
+  scenario: ScheduleScenario,
+  liveShifts: Shift[],
+  employees: Employee[]
+): ScenarioPromotionPlan => {
+  const batch: ShiftGridBatch = { creates: [], updates: [], deletes: [], skipped: [] };
+  const warnings: string[] = [];
+  const liveWeek = getWeekShifts(liveShifts, scenario.storeId, scenario.weekStart);
+  const liveById = new Map(liveWeek.map(shift => [shift.id, shift]));
+  const scenarioIds = new Set(scenario.shifts.map(shift => shift.id));
+  const sourceIds = new Set(scenario.sourceShiftIds);
+
+  scenario.shifts.forEach(shift => {
+    const live = liveById.get(shift.id);
+
+    if (!live) {
+      if (sourceIds.has(shift.id)) {
+        warnings.push(`${describeShift(shift, employees)}: eliminato dalla griglia dopo la creazione dello scenario, verrà ricreato`);
+      }
+      batch.creates.push({
+        employeeId: shift.employeeId,
+        storeId: scenario.storeId,
+        date: new Date(shift.date),
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        breakDuration: shift.breakDuration,
+        actualHours: shift.actualHours,
+        status: shift.status,
+        isLocked: false,
+        validationStatus: 'draft',
+        segments: shift.segments,
+        roleId: shift.roleId,
+        notes: shift.notes
+      });
+      return;
+    }
+
+    if (!hasChanged(shift, live)) return;
+    if (live.isLocked) {
+      batch.skipped.push(`${describeShift(live, employees)}: turno bloccato nella griglia`);
+      return;
+    }
+    if (live.updatedAt > scenario.createdAt) {
+      warnings.push(`${describeShift(live, employees)}: modificato nella griglia dopo la creazione dello scenario, verrà sovrascritto`);
+    }
+
+    const data: Partial<Shift> = { date: new Date(shift.date) };
+    PROMOTED_FIELDS.forEach(field => {
+      Object.assign(data, { [field]: shift[field] });
+    });
+    batch.updates.push({ id: shift.id, data });
+  });
+
+  liveWeek.forEach(shift => {
+    if (scenarioIds.has(shift.id)) return;
+    // I turni annullati non vengono copiati nello scenario: la promozione li lascia invariati
+    if (shift.status === 'cancelled') return;
+    if (!sourceIds.has(shift.id)) {
+      warnings.push(`${describeShift(shift, employees)}: aggiunto alla griglia dopo la creazione dello scenario, viene mantenuto`);
+      return;
+    }
+    if (shift.isLocked) {
+      batch.skipped.push(`${describeShift(shift, employees)}: turno bloccato nella griglia, non eliminato`);
+      return;
+    }
+    batch.deletes.push(shift.id);
+  });
+
+  return { batch, warnings };
+};
+
+// Applica allo scenario le modifiche in blocco prodotte dalla griglia
+export const applyBatchToScenarioShifts = (shifts: Shift[], batch: ShiftGridBatch): Shift[] => {
+  const now = new Date();
+  const deleted = new Set(batch.deletes);
+  const updates = new Map(batch.updates.map(update => [update.id, update.data]));
+
+  return [
+    ...shifts
+      .filter(shift => !deleted.has(shift.id))
+      .map(shift => (updates.has(shift.id) ? { ...shift, ...updates.get(shift.id), updatedAt: now } : shift)),
+    ...batch.creates.map(data => ({ ...data, id: crypto.randomUUID(), createdAt: now, updatedAt: now }))
+  ];
+};
@@ -0,0 +1,175 @@
+import { Employee, PublishedShiftSnapshot, ScheduleVersion, Shift } from '../types';
+import { addDays, formatShiftTimes, getDayOfWeek, getStartOfWeek } from './timeUtils';
+
+// 📢 VERSIONI PUBBLICATE: istantanee della settimana e differenze rispetto all'ultima pubblicazione
+
+export type ScheduleChangeType = 'added' | 'removed' | 'moved' | 'retimed';
+
+export interface ScheduleChange {
+  type: ScheduleChangeType;
+  shiftId: string;
+  employeeId: string; // Dipendente attuale (per i turni rimossi quello della versione pubblicata)
+  previousEmployeeId?: string; // Solo per i turni spostati su un altro dipendente
+  before?: PublishedShiftSnapshot;
+  after?: PublishedShiftSnapshot;
+  description: string;
+}
+
+export interface EmployeeScheduleChanges {
+  employeeId: string;
+  employeeName: string;
+  changes: ScheduleChange[];
+}
+
+export interface ScheduleDiff {
+  baseVersion: ScheduleVersion;
+  changes: ScheduleChange[];
+  byEmployee: EmployeeScheduleChanges[];
+}
+
+export const SCHEDULE_CHANGE_LABELS: Record<ScheduleChangeType, string> = {
+  added: 'Aggiunto',
+  removed: 'Rimosso',
+  moved: 'Spostato',
+  retimed: 'Orario modificato'
+};
+
+// Turni che compongono la settimana pubblicata (i turni annullati non sono visibili ai dipendenti)
+export const getPublishableWeekShifts = (shifts: Shift[], storeId: string, weekStart: Date): Shift[] => {
+  const start = getStartOfWeek(weekStart);
+  const end = addDays(start, 7);
+  return shifts
+    .filter(shift => shift.storeId === storeId && shift.status !== 'cancelled' && shift.date >= start && shift.date < end)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime));
+};
+
+// Stati visibili ai dipendenti: solo questi turni entrano nell'istantanea della versione
+export const isPublishedShift = (shift: Shift) =>
+  shift.validationStatus === 'published' || shift.validationStatus === 'locked_final';
+
+export const getPublishedWeekShifts = (shifts: Shift[], storeId: string, weekStart: Date): Shift[] =>
+  getPublishableWeekShifts(shifts, storeId, weekStart).filter(isPublishedShift);
+
+export const captureShiftSnapshot = (shift: Shift): PublishedShiftSnapshot => ({
+  shiftId: shift.id,
+  employeeId: shift.employeeId,
+  date: new Date(shift.date),
+  startTime: shift.startTime,
+  endTime: shift.endTime,
+  breakDuration: shift.breakDuration,
+  actualHours: shift.actualHours,
+  segments: shift.segments?.map(segment => ({ ...segment })),
+  roleId: shift.roleId,
+  notes: shift.notes
+});
+
+export const getWeekVersions = (versions: ScheduleVersion[], storeId: string, weekStart: Date): ScheduleVersion[] => {
+  const weekKey = getStartOfWeek(weekStart).toDateString();
+  return versions
+    .filter(version => version.storeId === storeId && version.weekStart.toDateString() === weekKey)
+    .sort((a, b) => b.version - a.version);
+};
+
+export const getLatestVersion = (versions: ScheduleVersion[], storeId: string, weekStart: Date): ScheduleVersion | undefined =>
+  getWeekVersions(versions, storeId, weekStart)[0];
+
+const formatSlot = (snapshot: PublishedShiftSnapshot) =>
+  `${getDayOfWeek(snapshot.date)} ${snapshot.date.toLocaleDateString('it-IT')} ${formatShiftTimes(snapshot)}`;
+
+const sameTimes = (a: PublishedShiftSnapshot, b: PublishedShiftSnapshot) =>
+  a.startTime === b.startTime &&
+  a.endTime === b.endTime &&
+  a.breakDuration === b.breakDuration &&
+  formatShiftTimes(a) === formatShiftTimes(b);
+
+/**
+ * 🔍 DIFFERENZE: confronto per id del turno tra la versione pubblicata e la griglia attuale.
+ * Un turno che cambia dipendente o giorno è "spostato" (anche se cambia orario),
+ * uno che cambia solo orari o pausa è "con orario modificato".
+ */
+export const diffScheduleVersion = (
+  baseVersion: ScheduleVersion,
+  currentShifts: Shift[],
+  employees: Employee[]
+): ScheduleDiff => {
+  const employeeName = (id: string) => {
+    const employee = employees.find(emp => emp.id === id);
+    return employee ? `${employee.firstName} ${employee.lastName}` : 'Dipendente rimosso';
+  };
+
+  const current = getPublishableWeekShifts(currentShifts, baseVersion.storeId, baseVersion.weekStart).map(captureShiftSnapshot);
+  const currentById = new Map(current.map(snapshot => [snapshot.shiftId, snapshot]));
+  const publishedIds = new Set(baseVersion.shifts.map(snapshot => snapshot.shiftId));
+  const changes: ScheduleChange[] = [];
+
+  baseVersion.shifts.forEach(before => {
+    const after = currentById.get(before.shiftId);
+
+    if (!after) {
+      changes.push({
+        type: 'removed',
+        shiftId: before.shiftId,
+        employeeId: before.employeeId,
+        before,
+        description: `Turno ${formatSlot(before)} rimosso`
+      });
+      return;
+    }
+
+    const employeeChanged = after.employeeId !== before.employeeId;
+    const dateChanged = after.date.toDateString() !== before.date.toDateString();
+    if (employeeChanged || dateChanged) {
+      changes.push({
+        type: 'moved',
+        shiftId: before.shiftId,
+        employeeId: after.employeeId,
+        previousEmployeeId: employeeChanged ? before.employeeId : undefined,
+        before,
+        after,
+        description: employeeChanged
+          ? `Turno ${formatSlot(before)} passato da ${employeeName(before.employeeId)} a ${employeeName(after.employeeId)}${dateChanged || !sameTimes(before, after) ? ` (${formatSlot(after)})` : ''}`
+          : `Turno spostato da ${formatSlot(before)} a ${formatSlot(after)}`
+      });
+      return;
+    }
+
+    if (!sameTimes(before, after)) {
+      changes.push({
+        type: 'retimed',
+        shiftId: before.shiftId,
+        employeeId: after.employeeId,
+        before,
+        after,
+        description: `${getDayOfWeek(after.date)} ${after.date.toLocaleDateString('it-IT')}: ${formatShiftTimes(before)} → ${formatShiftTimes(after)}` +
+          (before.breakDuration !== after.breakDuration ? ` (pausa ${before.breakDuration} → ${after.breakDuration} min)` : '')
+      });
+    }
+  });
+
+  current
+    .filter(after => !publishedIds.has(after.shiftId))
+    .forEach(after => changes.push({
+      type: 'added',
+      shiftId: after.shiftId,
+      employeeId: after.employeeId,
+      after,
+      description: `Nuovo turno ${formatSlot(after)}`
+    }));
+
+  const slotDate = (change: ScheduleChange) => (change.after || change.before)?.date.getTime() ?? 0;
+  changes.sort((a, b) => slotDate(a) - slotDate(b));
+
+  // Uno spostamento tra dipendenti compare nelle modifiche di entrambi
+  const grouped = new Map<string, ScheduleChange[]>();
+  changes.forEach(change => {
+    [change.employeeId, change.previousEmployeeId].filter((id): id is string => !!id).forEach(id => {
+      grouped.set(id, [...(grouped.get(id) || []), change]);
+    });
+  });
+
+  const byEmployee = Array.from(grouped.entries())
+    .map(([employeeId, employeeChanges]) => ({ employeeId, employeeName: employeeName(employeeId), changes: employeeChanges }))
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+
+  return { baseVersion, changes, byEmployee };
+};
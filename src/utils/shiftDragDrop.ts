@@ -0,0 +1,89 @@
+import { Employee, EmployeeUnavailability, Shift, Store } from '../types';
+import { validateShiftComplete } from './validationUtils';
+import { ShiftWorkflowEngine } from './workflowEngine';
+
+// 🖐️ TRASCINAMENTO TURNI: spostamento (o copia con modificatore) su un altro dipendente o giorno
+
+export type ShiftDropMode = 'move' | 'copy';
+
+export interface ShiftDropValidation {
+  allowed: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ShiftDropContext {
+  store: Store;
+  shifts: Shift[]; // Turni della griglia usati per sovrapposizioni e riposi CCNL
+  unavailabilities: EmployeeUnavailability[];
+  workflowEngine: ShiftWorkflowEngine;
+}
+
+// Ctrl (Windows/Linux) o Alt/Option (macOS) durante il trascinamento = copia
+export const getShiftDropMode = (event: { ctrlKey: boolean; metaKey: boolean; altKey: boolean }): ShiftDropMode =>
+  event.ctrlKey || event.metaKey || event.altKey ? 'copy' : 'move';
+
+/**
+ * Un turno bloccato o in uno stato di workflow non modificabile (es. locked_final)
+ * non può essere spostato. La copia resta consentita: il nuovo turno nasce in bozza.
+ */
+export const getShiftDragRefusal = (shift: Shift, mode: ShiftDropMode, workflowEngine: ShiftWorkflowEngine): string | null => {
+  if (mode === 'copy') return null;
+  if (shift.isLocked) return 'Turno bloccato: sbloccalo prima di spostarlo oppure copialo';
+  if (!workflowEngine.canEditShift(shift)) {
+    return `Turno in stato "${workflowEngine.getStatusDisplayName(shift.validationStatus || 'draft')}": non modificabile`;
+  }
+  return null;
+};
+
+// Turno risultante dal rilascio: lo spostamento conserva l'id, la copia ne riceve uno nuovo alla creazione
+export const buildDroppedShift = (shift: Shift, employeeId: string, date: Date, mode: ShiftDropMode): Shift => ({
+  ...shift,
+  id: mode === 'move' ? shift.id : `drop-copy-${shift.id}`,
+  employeeId,
+  date: new Date(date.getFullYear(), date.getMonth(), date.getDate()),
+  ...(mode === 'copy' ? { isLocked: false, validationStatus: 'draft' as const, status: 'scheduled' as const } : {})
+});
+
+/**
+ * ✅ Validazione in tempo reale sulla cella di destinazione: stato del turno,
+ * cella già occupata, orari negozio, sovrapposizioni, riposi CCNL, indisponibilità e contratto
+ */
+export const validateShiftDrop = (
+  shift: Shift,
+  targetEmployee: Employee,
+  targetDate: Date,
+  mode: ShiftDropMode,
+  context: ShiftDropContext
+): ShiftDropValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const refusal = getShiftDragRefusal(shift, mode, context.workflowEngine);
+  if (refusal) {
+    return { allowed: false, errors: [refusal], warnings };
+  }
+
+  if (mode === 'move' && shift.employeeId === targetEmployee.id && shift.date.toDateString() === targetDate.toDateString()) {
+    return { allowed: false, errors: ['Stessa cella di partenza'], warnings };
+  }
+
+  // La griglia ammette un solo turno per dipendente e giorno
+  const occupant = context.shifts.find(s =>
+    s.id !== shift.id &&
+    s.employeeId === targetEmployee.id &&
+    s.status !== 'cancelled' &&
+    s.date.toDateString() === targetDate.toDateString()
+  );
+  if (occupant) {
+    errors.push(`${targetEmployee.firstName} ha già un turno ${occupant.startTime}-${occupant.endTime} in questo giorno`);
+  }
+
+  const candidate = buildDroppedShift(shift, targetEmployee.id, targetDate, mode);
+  const otherShifts = context.shifts.filter(s => s.id !== candidate.id && s.status !== 'cancelled');
+
+  validateShiftComplete(candidate, context.store, targetEmployee, otherShifts, context.unavailabilities)
+    .forEach(conflict => (conflict.severity === 'error' ? errors : warnings).push(conflict.message));
+
+  return { allowed: errors.length === 0, errors, warnings };
+};
@@ -11,9 +11,22 @@ import {
   EmployeeShiftDetail,
   EmployeeWorkload,
   WorkloadDistribution,
-  ValidationAdminSettings
+  ValidationAdminSettings,
+  RoleStaffingContext
 } from '../types/validation';
-import { getDayOfWeek, getWeekDays, formatDate, addDays, getStartOfWeek, formatWeekNumber } from './timeUtils';
+import { getDayOfWeek, getWeekDays, formatDate, addDays, getStartOfWeek, formatWeekNumber, getShiftMinuteRange, getShiftSegments } from './timeUtils';
+import { getHoliday } from './holidayCalendar';
+import { getPeakExtraStaff, getShiftRoleId } from './staffNeeds';
+
+const MINUTES_PER_DAY = 24 * 60;
+const ROLE_SLOT_MINUTES = 30;
+
+interface ShiftDayRange {
+  shift: Shift;
+  start: number;
+  end: number;
+  isCarryOver: boolean;
+}
 
 /**
  * Algoritmo principale di validazione della griglia turni
@@ -23,13 +36,15 @@ import { getDayOfWeek, getWeekDays, formatDate, addDays, getStartOfWeek, formatW
  * @param employees - Lista dei dipendenti
  * @param weekStart - Data di inizio settimana (lunedì)
  * @param adminSettings - Configurazioni amministratore per la validazione
+ * @param roleStaffing - Fabbisogno per ruolo: se presente verifica la copertura di ogni ruolo
  */
 export function validateShiftGrid(
   store: Store,
   shifts: Shift[],
   employees: Employee[],
   weekStart: Date,
-  adminSettings?: ValidationAdminSettings
+  adminSettings?: ValidationAdminSettings,
+  roleStaffing?: RoleStaffingContext
 ): ShiftGridValidationResult {
   
   console.log('🔍 Avvio validazione griglia turni per settimana:', weekStart.toISOString());
@@ -82,7 +97,8 @@ export function validateShiftGrid(
       shifts, 
       employees, 
       weekStart,
-      { minimumStaffPerHour, minimumOverlapMinutes, allowSinglePersonCoverage }
+      { minimumStaffPerHour, minimumOverlapMinutes, allowSinglePersonCoverage },
+      roleStaffing
     );
     dailyResults.push(dayResult);
   }
@@ -117,7 +133,8 @@ function validateSingleDay(
   allShifts: Shift[],
   employees: Employee[],
   weekStart: Date,
-  options: { minimumStaffPerHour: number; minimumOverlapMinutes: number; allowSinglePersonCoverage: boolean }
+  options: { minimumStaffPerHour: number; minimumOverlapMinutes: number; allowSinglePersonCoverage: boolean },
+  roleStaffing?: RoleStaffingContext
 ): DailyValidationResult {
   
   const dayOfWeek = getDayOfWeek(date);
@@ -126,6 +143,12 @@ function validateSingleDay(
   const effectiveStoreHours = getEffectiveStoreHours(date, store, weekStart);
   const isStoreOpen = !!effectiveStoreHours;
   
+  // 🎉 Festività nazionale o patronale del negozio
+  const holiday = getHoliday(date, store);
+  const hasConfiguredClosure = !!store.closureDays?.some(closure => 
+    closure.date.toDateString() === date.toDateString()
+  );
+  
   console.log(`📅 Validazione ${dayOfWeek} ${date.toLocaleDateString('it-IT')} - Aperto: ${isStoreOpen}`, {
     effectiveHours: effectiveStoreHours ? `${effectiveStoreHours.open}-${effectiveStoreHours.close}` : 'CHIUSO',
     reason: !effectiveStoreHours ? getClosureReason(date, store, weekStart) : 'Aperto'
@@ -135,6 +158,9 @@ function validateSingleDay(
   const dayShifts = allShifts.filter(shift => 
     shift.date.toDateString() === date.toDateString()
   );
+  
+  // 🌙 Include la coda dei turni notturni iniziati il giorno precedente
+  const dayRanges = getShiftRangesForDay(allShifts, date);
 
   const issues: ValidationIssue[] = [];
   
@@ -148,6 +174,7 @@ function validateSingleDay(
       isStoreOpen: false,
       isValid: true,
       hasShifts: dayShifts.length > 0,
+      holiday: holiday?.name,
       coverage: createEmptyCoverage(),
       staffing: createEmptyStaffing(),
       issues: dayShifts.length > 0 ? [{
@@ -162,9 +189,39 @@ function validateSingleDay(
     };
   }
 
-  const hasShifts = dayShifts.length > 0;
+  const hasShifts = dayRanges.length > 0;
+
+  // 🎉 Festività senza chiusura o orario ridotto configurato
+  if (holiday && !hasConfiguredClosure) {
+    issues.push({
+      type: 'holiday',
+      severity: hasShifts ? 'warning' : 'info',
+      message: `Festività: ${holiday.name}`,
+      description: hasShifts
+        ? `Il negozio risulta aperto con orario ${effectiveStoreHours.open}-${effectiveStoreHours.close} in un giorno festivo`
+        : 'Giorno festivo senza turni: probabile chiusura non ancora configurata',
+      suggestedAction: 'Configurare una chiusura o un orario ridotto per la festività',
+      date
+    });
+  }
 
   // 1. VERIFICA PRESENZA TURNI
+  if (!hasShifts && holiday) {
+    // Nessun turno in un giorno festivo: chiusura attesa, non è un errore critico
+    return {
+      date,
+      dayOfWeek,
+      isStoreOpen: true,
+      isValid: true,
+      hasShifts: false,
+      holiday: holiday.name,
+      storeHours: effectiveStoreHours,
+      coverage: createEmptyCoverage(),
+      staffing: createEmptyStaffing(),
+      issues
+    };
+  }
+
   if (!hasShifts) {
     issues.push({
       type: 'no_shifts',
@@ -181,6 +238,7 @@ function validateSingleDay(
       isStoreOpen: true,
       isValid: false,
       hasShifts: false,
+      holiday: holiday?.name,
       storeHours: effectiveStoreHours,
       coverage: createEmptyCoverage(),
       staffing: createEmptyStaffing(),
@@ -189,14 +247,19 @@ function validateSingleDay(
   }
 
   // 2. ANALISI COPERTURA ORARIA
-  const coverage = analyzeCoverage(dayShifts, effectiveStoreHours, date, issues);
+  const coverage = analyzeCoverage(dayRanges, effectiveStoreHours, date, issues);
   
   // 3. ANALISI PERSONALE
-  const staffing = analyzeStaffing(dayShifts, effectiveStoreHours, employees, options, issues, store, date);
+  const staffing = analyzeStaffing(dayRanges, effectiveStoreHours, employees, options, issues, store, date);
 
   // 4. VERIFICHE SPECIFICHE
-  checkOpeningClosingCoverage(dayShifts, effectiveStoreHours, issues, date);
-  checkContinuousCoverage(dayShifts, effectiveStoreHours, issues, date, options.minimumOverlapMinutes);
+  checkOpeningClosingCoverage(dayRanges, effectiveStoreHours, issues, date);
+  checkContinuousCoverage(dayRanges, effectiveStoreHours, issues, date, options.minimumOverlapMinutes);
+
+  // 5. COPERTURA PER RUOLO
+  if (roleStaffing) {
+    checkRoleCoverage(dayRanges, effectiveStoreHours, employees, roleStaffing, issues, date);
+  }
 
   const isValid = !issues.some(issue => issue.severity === 'critical');
 
@@ -206,6 +269,7 @@ function validateSingleDay(
     isStoreOpen: true,
     isValid,
     hasShifts: true,
+    holiday: holiday?.name,
     storeHours: effectiveStoreHours,
     coverage,
     staffing,
@@ -295,7 +359,7 @@ function getClosureReason(date: Date, store: Store, weekStart: Date): string {
  * Analizza la copertura oraria del giorno
  */
 function analyzeCoverage(
-  shifts: Shift[], 
+  ranges: ShiftDayRange[], 
   storeHours: { open: string; close: string },
   date: Date,
   issues: ValidationIssue[]
@@ -309,9 +373,9 @@ function analyzeCoverage(
   const coverageArray = new Array(totalOperatingMinutes).fill(0);
   
   // Segna i minuti coperti da ogni turno
-  shifts.forEach(shift => {
-    const shiftStart = Math.max(timeToMinutes(shift.startTime), storeOpenMinutes);
-    const shiftEnd = Math.min(timeToMinutes(shift.endTime), storeCloseMinutes);
+  ranges.forEach(range => {
+    const shiftStart = Math.max(range.start, storeOpenMinutes);
+    const shiftEnd = Math.min(range.end, storeCloseMinutes);
     
     for (let minute = shiftStart; minute < shiftEnd; minute++) {
       const index = minute - storeOpenMinutes;
@@ -397,7 +461,7 @@ function analyzeCoverage(
  * Analizza il personale presente per fascia oraria
  */
 function analyzeStaffing(
-  shifts: Shift[], 
+  ranges: ShiftDayRange[], 
   storeHours: { open: string; close: string },
   employees: Employee[],
   options: { minimumStaffPerHour: number; allowSinglePersonCoverage: boolean },
@@ -442,13 +506,12 @@ function analyzeStaffing(
     const hourStart = minutesToTime(hourStartMinutes);
     
     // Conta staff presente in questa ora
-    const activeShifts = shifts.filter(shift => {
-      const shiftStart = timeToMinutes(shift.startTime);
-      const shiftEnd = timeToMinutes(shift.endTime);
-      
+    const activeRanges = ranges.filter(range => {
       // Verifica sovrapposizione con questa ora
-      return shiftStart < hourEndMinutes && shiftEnd > hourStartMinutes;
+      return range.start < hourEndMinutes && range.end > hourStartMinutes;
     });
+    // Un turno spezzato può avere più segmenti nella stessa ora: conta la persona una volta sola
+    const activeShifts = Array.from(new Set(activeRanges.map(range => range.shift)));
 
     const staffCount = activeShifts.length;
     const recommendedMin = Math.max(dynamicMinStaff, 1);
@@ -457,9 +520,9 @@ function analyzeStaffing(
     // 🆕 CREA DETTAGLI DIPENDENTI PER QUESTA FASCIA ORARIA
     const employeeShiftDetails: EmployeeShiftDetail[] = activeShifts.map(shift => {
       const employee = employees.find(emp => emp.id === shift.employeeId);
-      const shiftStart = timeToMinutes(shift.startTime);
-      const shiftEnd = timeToMinutes(shift.endTime);
-      const hoursWorked = (Math.min(shiftEnd, hourEndMinutes) - Math.max(shiftStart, hourStartMinutes)) / 60;
+      const hoursWorked = activeRanges
+        .filter(range => range.shift === shift)
+        .reduce((sum, { start, end }) => sum + (Math.min(end, hourEndMinutes) - Math.max(start, hourStartMinutes)) / 60, 0);
       
       return {
         employeeId: shift.employeeId,
@@ -534,11 +597,109 @@ function analyzeStaffing(
   };
 }
 
+/**
+ * 👥 Verifica la copertura di ogni ruolo richiesto (es. "2 cassieri + 1 responsabile") per fasce di 30 minuti.
+ * Il ruolo di un turno è quello indicato sul turno o il ruolo principale del dipendente;
+ * i turni senza ruolo coprono la prima carenza disponibile, per non penalizzare i dati esistenti.
+ */
+function checkRoleCoverage(
+  ranges: ShiftDayRange[],
+  storeHours: { open: string; close: string },
+  employees: Employee[],
+  staffing: RoleStaffingContext,
+  issues: ValidationIssue[],
+  date: Date
+) {
+  const need = staffing.getStaffNeeds(date);
+  if (!need || need.calculatedStaff.length === 0) return;
+
+  const openMinutes = timeToMinutes(storeHours.open);
+  let closeMinutes = timeToMinutes(storeHours.close);
+  if (closeMinutes <= openMinutes) closeMinutes += MINUTES_PER_DAY;
+  const slotCount = Math.floor((closeMinutes - openMinutes) / ROLE_SLOT_MINUTES);
+
+  const roles = need.calculatedStaff.map(role => ({
+    ...role,
+    name: staffing.roles.find(r => r.id === role.roleId)?.name || role.roleId,
+    present: new Array(slotCount).fill(0) as number[]
+  }));
+
+  for (let i = 0; i < slotCount; i++) {
+    const slotStart = openMinutes + i * ROLE_SLOT_MINUTES;
+    const activeShifts = Array.from(new Set(ranges
+      .filter(range => range.start <= slotStart && range.end > slotStart)
+      .map(range => range.shift)));
+    const unassigned: Shift[] = [];
+
+    activeShifts.forEach(shift => {
+      const roleId = getShiftRoleId(shift, employees.find(emp => emp.id === shift.employeeId));
+      const role = roles.find(r => r.roleId === roleId);
+      if (role) role.present[i]++;
+      else if (!roleId) unassigned.push(shift);
+    });
+
+    unassigned.forEach(() => {
+      const role = roles.find(r => r.present[i] < r.weightedMin + getPeakExtraStaff(need, r.roleId, slotStart));
+      if (role) role.present[i]++;
+    });
+  }
+
+  roles.forEach(role => {
+    const requiredAt = (i: number) => role.weightedMin + getPeakExtraStaff(need, role.roleId, openMinutes + i * ROLE_SLOT_MINUTES);
+    const maxAt = (i: number) => Math.max(role.weightedMin, role.weightedMax) + getPeakExtraStaff(need, role.roleId, openMinutes + i * ROLE_SLOT_MINUTES);
+
+    // Fasce contigue con lo stesso esito diventano un'unica segnalazione
+    let i = 0;
+    while (i < slotCount) {
+      const isUnder = role.present[i] < requiredAt(i);
+      const isOver = role.present[i] > maxAt(i);
+      if (!isUnder && !isOver) {
+        i++;
+        continue;
+      }
+
+      let end = i + 1;
+      while (end < slotCount && (isUnder ? role.present[end] < requiredAt(end) : role.present[end] > maxAt(end))) end++;
+
+      const start = minutesToTime((openMinutes + i * ROLE_SLOT_MINUTES) % MINUTES_PER_DAY);
+      const finish = minutesToTime((openMinutes + end * ROLE_SLOT_MINUTES) % MINUTES_PER_DAY);
+      const present = Math.min(...role.present.slice(i, end));
+      const required = Math.max(...Array.from({ length: end - i }, (_, k) => requiredAt(i + k)));
+
+      if (isUnder) {
+        issues.push({
+          type: 'understaffed',
+          severity: present === 0 ? 'critical' : 'warning',
+          message: `${role.name} insufficienti: ${start}-${finish}`,
+          description: `Presenti ${present} ${role.name}, richiesti ${required}${need.finalMultiplier !== 1 ? ` (fabbisogno ponderato x${need.finalMultiplier})` : ''}`,
+          suggestedAction: `Assegnare ${required - present} turni con ruolo ${role.name} in questa fascia`,
+          timeRange: { start, end: finish },
+          roleId: role.roleId,
+          date
+        });
+      } else {
+        const maximum = Math.min(...Array.from({ length: end - i }, (_, k) => maxAt(i + k)));
+        issues.push({
+          type: 'overstaffed',
+          severity: 'info',
+          message: `${role.name} oltre il massimo: ${start}-${finish}`,
+          description: `Presenti ${Math.max(...role.present.slice(i, end))} ${role.name}, massimo ${maximum}`,
+          suggestedAction: `Valutare lo spostamento di un turno ${role.name} in un'altra fascia`,
+          timeRange: { start, end: finish },
+          roleId: role.roleId,
+          date
+        });
+      }
+      i = end;
+    }
+  });
+}
+
 /**
  * Verifica copertura specifica di apertura e chiusura
  */
 function checkOpeningClosingCoverage(
-  shifts: Shift[],
+  ranges: ShiftDayRange[],
   storeHours: { open: string; close: string },
   issues: ValidationIssue[],
   date: Date
@@ -548,10 +709,8 @@ function checkOpeningClosingCoverage(
   const closeTime = timeToMinutes(storeHours.close);
 
   // Verifica copertura apertura (± 15 minuti)
-  const hasOpeningStaff = shifts.some(shift => {
-    const shiftStart = timeToMinutes(shift.startTime);
-    const shiftEnd = timeToMinutes(shift.endTime);
-    return shiftStart <= openTime + 15 && shiftEnd > openTime;
+  const hasOpeningStaff = ranges.some(range => {
+    return range.start <= openTime + 15 && range.end > openTime;
   });
 
   if (!hasOpeningStaff) {
@@ -570,10 +729,8 @@ function checkOpeningClosingCoverage(
   }
 
   // Verifica copertura chiusura (± 15 minuti)
-  const hasClosingStaff = shifts.some(shift => {
-    const shiftStart = timeToMinutes(shift.startTime);
-    const shiftEnd = timeToMinutes(shift.endTime);
-    return shiftStart < closeTime && shiftEnd >= closeTime - 15;
+  const hasClosingStaff = ranges.some(range => {
+    return range.start < closeTime && range.end >= closeTime - 15;
   });
 
   if (!hasClosingStaff) {
@@ -596,14 +753,14 @@ function checkOpeningClosingCoverage(
  * 🆕 VERIFICA COPERTURA CONTINUA MIGLIORATA - Considera sovrapposizioni multiple
  */
 function checkContinuousCoverage(
-  shifts: Shift[],
+  ranges: ShiftDayRange[],
   storeHours: { open: string; close: string },
   issues: ValidationIssue[],
   date: Date,
   minimumOverlapMinutes: number
 ): void {
   
-  if (shifts.length === 0) return;
+  if (ranges.length === 0) return;
 
   const storeOpenMinutes = timeToMinutes(storeHours.open);
   const storeCloseMinutes = timeToMinutes(storeHours.close);
@@ -613,9 +770,9 @@ function checkContinuousCoverage(
   const coverageArray = new Array(totalOperatingMinutes).fill(0);
   
   // Marca tutti i minuti coperti da ogni turno
-  shifts.forEach(shift => {
-    const shiftStart = Math.max(timeToMinutes(shift.startTime), storeOpenMinutes);
-    const shiftEnd = Math.min(timeToMinutes(shift.endTime), storeCloseMinutes);
+  ranges.forEach(range => {
+    const shiftStart = Math.max(range.start, storeOpenMinutes);
+    const shiftEnd = Math.min(range.end, storeCloseMinutes);
     
     for (let minute = shiftStart; minute < shiftEnd; minute++) {
       const index = minute - storeOpenMinutes;
@@ -671,15 +828,13 @@ function checkContinuousCoverage(
   // 🆕 CREA ISSUES PER OGNI GAP REALE TROVATO
   gaps.forEach(gap => {
     // Trova turni coinvolti nel gap
-    const affectedShifts = shifts.filter(shift => {
-      const shiftStart = timeToMinutes(shift.startTime);
-      const shiftEnd = timeToMinutes(shift.endTime);
+    const affectedShifts = ranges.filter(range => {
       const gapStart = timeToMinutes(gap.startTime);
       const gapEnd = timeToMinutes(gap.endTime);
       
       // Turno finisce poco prima del gap o inizia poco dopo
-      return (shiftEnd <= gapStart + 30) || (shiftStart >= gapEnd - 30);
-    }).map(s => s.id);
+      return (range.end <= gapStart + 30) || (range.start >= gapEnd - 30);
+    }).map(range => range.shift.id);
 
     issues.push({
       type: 'coverage_gap',
@@ -715,7 +870,7 @@ function analyzeCrossDay(
   
   // Verifica pattern di giorni senza turni
   const daysWithoutShifts = dailyResults.filter(day => 
-    day.isStoreOpen && !day.hasShifts
+    day.isStoreOpen && !day.hasShifts && !day.holiday
   );
 
   if (daysWithoutShifts.length > 1) {
@@ -859,7 +1014,7 @@ function calculateSummary(dailyResults: DailyValidationResult[]) {
   const openDays = dailyResults.filter(day => day.isStoreOpen);
   const validDays = openDays.filter(day => day.isValid);
   const daysWithIssues = openDays.filter(day => day.issues.length > 0);
-  const daysWithoutShifts = openDays.filter(day => !day.hasShifts);
+  const daysWithoutShifts = openDays.filter(day => !day.hasShifts && !day.holiday);
 
   const allIssues = dailyResults.flatMap(day => day.issues);
   const criticalIssues = allIssues.filter(issue => issue.severity === 'critical').length;
@@ -911,6 +1066,30 @@ function calculateValidationScore(
   return Math.max(0, Math.min(100, Math.round(score)));
 }
 
+/**
+ * 🌙 Porzioni dei turni che cadono in un giorno, in minuti dalla mezzanotte.
+ * I turni notturni del giorno precedente contribuiscono con la parte dopo la mezzanotte;
+ * i turni spezzati contribuiscono con un intervallo per ogni segmento di lavoro.
+ */
+function getShiftRangesForDay(allShifts: Shift[], date: Date): ShiftDayRange[] {
+  const previousDay = addDays(date, -1);
+  const ranges: ShiftDayRange[] = [];
+
+  allShifts.forEach(shift => {
+    getShiftSegments(shift).forEach(segment => {
+      const { start, end } = getShiftMinuteRange(segment.startTime, segment.endTime);
+
+      if (shift.date.toDateString() === date.toDateString()) {
+        ranges.push({ shift, start, end, isCarryOver: false });
+      } else if (shift.date.toDateString() === previousDay.toDateString() && end > MINUTES_PER_DAY) {
+        ranges.push({ shift, start: 0, end: end - MINUTES_PER_DAY, isCarryOver: true });
+      }
+    });
+  });
+
+  return ranges;
+}
+
 // Utility functions
 function timeToMinutes(time: string): number {
   const [hours, minutes] = time.split(':').map(Number);
@@ -0,0 +1,183 @@
+import { Employee, EmployeeUnavailability, Shift, ShiftSwapRequest, Store } from '../types';
+import { addDays, formatShiftTimes, getShiftWorkingHours, getStartOfWeek } from './timeUtils';
+import { validateShift, validateUnavailability } from './validationUtils';
+import { ccnlValidator } from './ccnlValidation';
+import { canCoverRole } from './staffNeeds';
+import { getContractLimits, getEmployeeContractAt, validateContractShifts } from './contractRules';
+import { logSwapOperation, SwapAuditOperation } from './auditTrail';
+
+// 🔄 SCAMBIO TURNI: pianificazioni risultanti, rivalidazione e tracciamento audit
+
+export interface ShiftSwapContext {
+  shifts: Shift[];
+  employees: Employee[];
+  stores: Store[];
+  unavailabilities: EmployeeUnavailability[];
+}
+
+export interface ShiftSwapValidation {
+  isValid: boolean;
+  errors: string[];   // Bloccanti: lo scambio non può essere approvato
+  warnings: string[]; // Da valutare dal responsabile
+}
+
+// Passaggi di proprietà previsti dallo scambio (turno → nuovo dipendente)
+export const getSwapTransfers = (request: ShiftSwapRequest): { shiftId: string; fromId: string; toId: string }[] => {
+  if (!request.accepterId) return [];
+
+  const transfers = [{ shiftId: request.requesterShiftId, fromId: request.requesterId, toId: request.accepterId }];
+  if (request.accepterShiftId) {
+    transfers.push({ shiftId: request.accepterShiftId, fromId: request.accepterId, toId: request.requesterId });
+  }
+  return transfers;
+};
+
+// Aggiornamenti da applicare alla griglia all'approvazione
+export const buildSwapUpdates = (request: ShiftSwapRequest): { id: string; data: Partial<Shift> }[] => {
+  return getSwapTransfers(request).map(transfer => ({
+    id: transfer.shiftId,
+    data: { employeeId: transfer.toId, updatedAt: new Date() }
+  }));
+};
+
+// Griglia come sarebbe dopo lo scambio
+export const applySwapToShifts = (request: ShiftSwapRequest, shifts: Shift[]): Shift[] => {
+  const transfers = getSwapTransfers(request);
+  return shifts.map(shift => {
+    const transfer = transfers.find(t => t.shiftId === shift.id);
+    return transfer ? { ...shift, employeeId: transfer.toId } : shift;
+  });
+};
+
+const describeShift = (shift: Shift) => `${shift.date.toLocaleDateString('it-IT')} ${formatShiftTimes(shift)}`;
+
+/**
+ * ✅ RIVALIDAZIONE: per ciascun dipendente coinvolto il turno ricevuto viene controllato
+ * sulla pianificazione risultante con validateShift (orari negozio, sovrapposizioni, pause)
+ * e CCNLValidator (riposi, giorni consecutivi), oltre a competenze, indisponibilità e ore settimanali.
+ */
+export const validateShiftSwap = (request: ShiftSwapRequest, context: ShiftSwapContext): ShiftSwapValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const transfers = getSwapTransfers(request);
+  if (transfers.length === 0) {
+    return { isValid: false, errors: ['Nessun collega ha ancora accettato lo scambio'], warnings };
+  }
+
+  // La griglia può essere cambiata dopo l'offerta: i turni devono esistere ed essere ancora dei proponenti
+  for (const transfer of transfers) {
+    const shift = context.shifts.find(s => s.id === transfer.shiftId);
+    if (!shift || shift.status === 'cancelled') {
+      errors.push('Un turno dello scambio non esiste più');
+    } else if (shift.employeeId !== transfer.fromId) {
+      errors.push(`Il turno del ${describeShift(shift)} è stato riassegnato nel frattempo`);
+    } else if (shift.isLocked) {
+      errors.push(`Il turno del ${describeShift(shift)} è bloccato: va sbloccato prima dello scambio`);
+    }
+  }
+  if (errors.length > 0) {
+    return { isValid: false, errors, warnings };
+  }
+
+  const resultingShifts = applySwapToShifts(request, context.shifts).filter(shift => shift.status !== 'cancelled');
+
+  transfers.forEach(transfer => {
+    const shift = resultingShifts.find(s => s.id === transfer.shiftId)!;
+    const employee = context.employees.find(emp => emp.id === transfer.toId);
+    const store = context.stores.find(s => s.id === shift.storeId);
+    if (!employee) {
+      errors.push('Dipendente dello scambio non trovato');
+      return;
+    }
+    if (!store) {
+      errors.push(`Negozio del turno del ${describeShift(shift)} non trovato`);
+      return;
+    }
+
+    const name = `${employee.firstName} ${employee.lastName}`;
+    const add = (severity: 'error' | 'warning', message: string) =>
+      (severity === 'error' ? errors : warnings).push(`${name}: ${message}`);
+
+    if (!employee.isActive) {
+      add('error', 'dipendente non attivo');
+    }
+    const contract = getEmployeeContractAt(employee, shift.date);
+    if (contract.storeId && contract.storeId !== 'all' && contract.storeId !== shift.storeId) {
+      add('error', `assegnato a un altro negozio (${store.name})`);
+    }
+    if (!canCoverRole(employee, shift.roleId)) {
+      add('error', 'competenza richiesta dal turno non presente');
+    }
+
+    const employeeShifts = resultingShifts.filter(s => s.employeeId === employee.id);
+
+    validateShift(shift, store, employeeShifts)
+      .forEach(conflict => add(conflict.severity === 'error' ? 'error' : 'warning', conflict.message));
+    validateUnavailability(shift, employee, context.unavailabilities)
+      .forEach(conflict => add('error', conflict.message));
+    validateContractShifts(employee, [shift])
+      .forEach(conflict => add(conflict.severity === 'error' ? 'error' : 'warning', conflict.message));
+    ccnlValidator.validateShift(shift, employee, employeeShifts)
+      .forEach(violation => add(violation.severity === 'critical' ? 'error' : 'warning', `🏛️ CCNL: ${violation.description}`));
+
+    const weekStart = getStartOfWeek(shift.date);
+    const weekEnd = addDays(weekStart, 7);
+    const weeklyHours = employeeShifts
+      .filter(s => s.date >= weekStart && s.date < weekEnd)
+      .reduce((sum, s) => sum + getShiftWorkingHours(s), 0);
+    const { maxWeeklyHours } = getContractLimits(contract);
+    if (weeklyHours > maxWeeklyHours) {
+      add('warning', `${weeklyHours.toFixed(1)}h nella settimana, oltre il limite del contratto di ${maxWeeklyHours}h`);
+    }
+  });
+
+  return { isValid: errors.length === 0, errors, warnings };
+};
+
+// Formato validationResult del registro audit
+export const toAuditValidationResult = (validation: ShiftSwapValidation) => ({
+  isValid: validation.isValid,
+  score: validation.isValid ? 100 : 0,
+  errors: validation.errors,
+  warnings: validation.warnings
+});
+
+/**
+ * 🗃️ AUDIT: ogni passaggio dello scambio registra una voce per turno coinvolto,
+ * intestata al dipendente che in quel momento ne risponde
+ */
+export const logSwapStep = (
+  request: ShiftSwapRequest,
+  operation: SwapAuditOperation,
+  context: Pick<ShiftSwapContext, 'shifts' | 'employees'>,
+  user: string,
+  reason?: string,
+  validation?: ShiftSwapValidation
+) => {
+  const entries: { shiftId: string; employeeId: string }[] = [];
+
+  if (operation === 'swap_approved') {
+    getSwapTransfers(request).forEach(transfer => entries.push({ shiftId: transfer.shiftId, employeeId: transfer.toId }));
+  } else {
+    entries.push({ shiftId: request.requesterShiftId, employeeId: request.requesterId });
+    if (request.accepterId && request.accepterShiftId) {
+      entries.push({ shiftId: request.accepterShiftId, employeeId: request.accepterId });
+    }
+  }
+
+  entries.forEach(({ shiftId, employeeId }) => {
+    const shift = context.shifts.find(s => s.id === shiftId);
+    const employee = context.employees.find(emp => emp.id === employeeId);
+    if (!shift || !employee) return;
+    logSwapOperation(
+      shift,
+      employee,
+      operation,
+      user,
+      request.id,
+      reason,
+      validation ? toAuditValidationResult(validation) : undefined
+    );
+  });
+};
@@ -1,4 +1,5 @@
 import { Shift, Employee, Store } from '../types';
+import { getShiftSpanMinutes, getShiftStartDateTime, getShiftEndDateTime } from './timeUtils';
 
 /**
  * 🔍 STEP 1: SHIFT VALIDATION RULES
@@ -70,14 +71,13 @@ export const VALIDATION_RULES: ValidationRule[] = [
         return { isValid: false, errors: ['Orari di inizio e fine obbligatori'], warnings: [], score: 0 };
       }
       
-      const start = new Date(`2000-01-01T${shift.startTime}:00`);
-      const end = new Date(`2000-01-01T${shift.endTime}:00`);
+      // 🌙 Fine precedente all'inizio = turno notturno che termina il giorno dopo
+      const duration = getShiftSpanMinutes(shift.startTime, shift.endTime) / 60;
       
-      if (start >= end) {
+      if (duration <= 0) {
         return { isValid: false, errors: ['Orario di fine deve essere successivo all\'inizio'], warnings: [], score: 0 };
       }
-      
-      const duration = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
+
       if (duration > 12) {
         return { isValid: false, errors: ['Turno non può superare le 12 ore'], warnings: [], score: 20 };
       }
@@ -94,18 +94,26 @@ export const VALIDATION_RULES: ValidationRule[] = [
     category: 'critical',
     weight: 25,
     validator: (shift, context) => {
+      const dayBefore = new Date(shift.date);
+      dayBefore.setDate(dayBefore.getDate() - 1);
+      const dayAfter = new Date(shift.date);
+      dayAfter.setDate(dayAfter.getDate() + 1);
+      
+      const shiftStart = getShiftStartDateTime(shift);
+      const shiftEnd = getShiftEndDateTime(shift);
+
+      // Anche i turni del giorno dopo che iniziano prima della fine di un turno notturno
       const sameEmployeeShifts = context.allShifts.filter(s => 
         s.id !== shift.id && 
         s.employeeId === shift.employeeId &&
-        s.date.toDateString() === shift.date.toDateString()
+        (s.date.toDateString() === shift.date.toDateString() ||
+         s.date.toDateString() === dayBefore.toDateString() ||
+         (s.date.toDateString() === dayAfter.toDateString() && getShiftStartDateTime(s) < shiftEnd))
       );
       
-      const shiftStart = new Date(`${shift.date.toDateString()} ${shift.startTime}`);
-      const shiftEnd = new Date(`${shift.date.toDateString()} ${shift.endTime}`);
-      
       for (const otherShift of sameEmployeeShifts) {
-        const otherStart = new Date(`${otherShift.date.toDateString()} ${otherShift.startTime}`);
-        const otherEnd = new Date(`${otherShift.date.toDateString()} ${otherShift.endTime}`);
+        const otherStart = getShiftStartDateTime(otherShift);
+        const otherEnd = getShiftEndDateTime(otherShift);
         
         if (shiftStart < otherEnd && shiftEnd > otherStart) {
           return { 
@@ -178,16 +186,18 @@ export const VALIDATION_RULES: ValidationRule[] = [
       );
       
       const warnings: string[] = [];
-      const shiftStart = new Date(`${shift.date.toDateString()} ${shift.startTime}`);
-      const shiftEnd = new Date(`${shift.date.toDateString()} ${shift.endTime}`);
+      const shiftStart = getShiftStartDateTime(shift);
+      const shiftEnd = getShiftEndDateTime(shift);
       
       for (const adjacentShift of adjacentShifts) {
-        const adjStart = new Date(`${adjacentShift.date.toDateString()} ${adjacentShift.startTime}`);
-        const adjEnd = new Date(`${adjacentShift.date.toDateString()} ${adjacentShift.endTime}`);
+        const adjStart = getShiftStartDateTime(adjacentShift);
+        const adjEnd = getShiftEndDateTime(adjacentShift);
         
-        const restHours = Math.abs(shiftStart.getTime() - adjEnd.getTime()) / (1000 * 60 * 60);
-        const restHours2 = Math.abs(adjStart.getTime() - shiftEnd.getTime()) / (1000 * 60 * 60);
-        const minRest = Math.min(restHours, restHours2);
+        // Il riposo si misura dalla fine del turno precedente all'inizio del successivo
+        const isBefore = adjStart < shiftStart;
+        const minRest = isBefore
+          ? (shiftStart.getTime() - adjEnd.getTime()) / (1000 * 60 * 60)
+          : (adjStart.getTime() - shiftEnd.getTime()) / (1000 * 60 * 60);
         
         if (minRest < 11) {
           warnings.push(`Riposo insufficiente tra turni (${minRest.toFixed(1)}h)`);
@@ -0,0 +1,93 @@
+import { CalculatedStaffNeed, Employee, Shift, SkillProficiency, StaffRequirement, WeightingEvent } from '../types';
+import { getDayOfWeek, timeToMinutes } from './timeUtils';
+
+// 👥 FABBISOGNO PERSONALE PER RUOLO: calcoli puri condivisi da pianificazione, validazione e generatore
+
+export const PROFICIENCY_LABELS: Record<SkillProficiency, string> = {
+  junior: 'Junior',
+  intermediate: 'Intermedio',
+  senior: 'Senior'
+};
+
+// Eventi ponderati attivi per negozio e data
+export const getApplicableWeightingEvents = (events: WeightingEvent[], storeId: string, date: Date): WeightingEvent[] => {
+  const dayOfWeek = getDayOfWeek(date);
+  const checkDate = new Date(date);
+  checkDate.setHours(12, 0, 0, 0); // Mezzogiorno per evitare problemi di fuso orario
+
+  return events.filter(event => {
+    if (!event.isActive) return false;
+
+    // Controllo date - confronta solo anno, mese, giorno (ignora ore)
+    const eventStart = new Date(event.startDate);
+    eventStart.setHours(0, 0, 0, 0);
+    const eventEnd = new Date(event.endDate);
+    eventEnd.setHours(23, 59, 59, 999);
+    if (checkDate < eventStart || checkDate > eventEnd) return false;
+
+    if (event.storeIds && !event.storeIds.includes(storeId)) return false;
+    if (event.daysOfWeek && !event.daysOfWeek.includes(dayOfWeek)) return false;
+    return true;
+  });
+};
+
+// Fabbisogno ponderato per ruolo (moltiplicatore = prodotto degli eventi applicabili)
+export const calculateStaffNeeds = (
+  staffRequirements: StaffRequirement[],
+  weightingEvents: WeightingEvent[],
+  storeId: string,
+  date: Date
+): CalculatedStaffNeed | null => {
+  const dayOfWeek = getDayOfWeek(date);
+  const baseRequirement = staffRequirements.find(req =>
+    req.storeId === storeId && req.dayOfWeek === dayOfWeek
+  );
+  if (!baseRequirement) return null;
+
+  const appliedEvents = getApplicableWeightingEvents(weightingEvents, storeId, date);
+  const finalMultiplier = appliedEvents.reduce((acc, event) => acc * event.multiplier, 1);
+
+  return {
+    storeId,
+    date,
+    dayOfWeek,
+    baseRequirement,
+    appliedEvents,
+    finalMultiplier,
+    calculatedStaff: baseRequirement.roles.map(role => ({
+      roleId: role.roleId,
+      baseMin: role.minStaff,
+      baseMax: role.maxStaff,
+      weightedMin: Math.ceil(role.minStaff * finalMultiplier),
+      weightedMax: Math.ceil(role.maxStaff * finalMultiplier)
+    }))
+  };
+};
+
+// Personale aggiuntivo richiesto per un ruolo nelle fasce di picco (minuti dalla mezzanotte)
+export const getPeakExtraStaff = (need: CalculatedStaffNeed, roleId: string, minutes: number): number => {
+  const role = need.baseRequirement.roles.find(r => r.roleId === roleId);
+  return (role?.peakHours || [])
+    .filter(peak => minutes >= timeToMinutes(peak.startTime) && minutes < timeToMinutes(peak.endTime))
+    .reduce((sum, peak) => sum + Math.ceil(peak.additionalStaff * need.finalMultiplier), 0);
+};
+
+// Ruolo principale del dipendente (esplicito o primo della lista)
+export const getPrimaryRoleId = (employee?: Employee): string | undefined => {
+  const skills = employee?.skills || [];
+  return (skills.find(skill => skill.isPrimary) || skills[0])?.roleId;
+};
+
+// Ruolo con cui il turno conta nella copertura: quello indicato sul turno o il principale del dipendente
+export const getShiftRoleId = (shift: Pick<Shift, 'roleId'>, employee?: Employee): string | undefined => {
+  return shift.roleId || getPrimaryRoleId(employee);
+};
+
+export const hasSkill = (employee: Employee, roleId: string): boolean => {
+  return !!employee.skills?.some(skill => skill.roleId === roleId);
+};
+
+// I dipendenti senza competenze registrate possono coprire qualsiasi ruolo
+export const canCoverRole = (employee: Employee, roleId?: string): boolean => {
+  return !roleId || !employee.skills?.length || hasSkill(employee, roleId);
+};
@@ -1,3 +1,5 @@
+import { Shift, ShiftSegment } from '../types';
+
 export const parseTime = (timeStr: string): { hours: number; minutes: number } => {
   const [hours, minutes] = timeStr.split(':').map(Number);
   return { hours, minutes };
@@ -15,18 +17,107 @@ export const formatTime = (hours: number, minutes: number): string => {
 };
 
 export const calculateWorkingHours = (startTime: string, endTime: string, breakMinutes: number): number => {
-  const start = parseTime(startTime);
-  const end = parseTime(endTime);
-  
-  const startMinutes = start.hours * 60 + start.minutes;
-  const endMinutes = end.hours * 60 + end.minutes;
-  
-  const totalMinutes = endMinutes - startMinutes;
+  const totalMinutes = getShiftSpanMinutes(startTime, endTime);
   const workingMinutes = totalMinutes - breakMinutes;
   
   return workingMinutes / 60;
 };
 
+// 🌙 TURNI NOTTURNI: un turno che finisce prima dell'inizio (es. 22:00-06:00)
+// attraversa la mezzanotte e termina il giorno successivo
+export const isOvernightShift = (startTime: string, endTime: string): boolean => {
+  return timeToMinutes(endTime) < timeToMinutes(startTime);
+};
+
+// Durata complessiva del turno in minuti, considerando il passaggio della mezzanotte
+export const getShiftSpanMinutes = (startTime: string, endTime: string): number => {
+  const startMinutes = timeToMinutes(startTime);
+  const endMinutes = timeToMinutes(endTime);
+  
+  return isOvernightShift(startTime, endTime)
+    ? endMinutes + 24 * 60 - startMinutes
+    : endMinutes - startMinutes;
+};
+
+// Intervallo del turno in minuti dalla mezzanotte del giorno di inizio (la fine può superare 1440)
+export const getShiftMinuteRange = (startTime: string, endTime: string): { start: number; end: number } => {
+  const start = timeToMinutes(startTime);
+  return { start, end: start + getShiftSpanMinutes(startTime, endTime) };
+};
+
+// ✂️ TURNI SPEZZATI: segmenti di lavoro ordinati (un turno normale ha un solo segmento)
+export const getShiftSegments = (shift: { startTime: string; endTime: string; segments?: ShiftSegment[] }): ShiftSegment[] => {
+  if (shift.segments && shift.segments.length > 0) {
+    return [...shift.segments].sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+  }
+  return [{ startTime: shift.startTime, endTime: shift.endTime }];
+};
+
+export const isSplitShift = (shift: { segments?: ShiftSegment[] }): boolean => {
+  return !!shift.segments && shift.segments.length > 1;
+};
+
+// Intervallo non retribuito tra i segmenti, calcolato automaticamente
+export const getSplitGapMinutes = (segments: ShiftSegment[]): number => {
+  const sorted = [...segments].sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+  let gap = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    gap += Math.max(0, timeToMinutes(sorted[i].startTime) - timeToMinutes(sorted[i - 1].endTime));
+  }
+  return gap;
+};
+
+// Ore lavorate sommando i segmenti (l'intervallo tra i segmenti non è retribuito)
+export const calculateSegmentedWorkingHours = (segments: ShiftSegment[], breakMinutes: number): number => {
+  const totalMinutes = segments.reduce((sum, segment) => sum + getShiftSpanMinutes(segment.startTime, segment.endTime), 0);
+  return (totalMinutes - breakMinutes) / 60;
+};
+
+// Ore lavorate di un turno, ricalcolate dai segmenti per i turni spezzati
+export const getShiftWorkingHours = (shift: Pick<Shift, 'startTime' | 'endTime' | 'breakDuration' | 'actualHours' | 'segments'>): number => {
+  if (isSplitShift(shift)) {
+    return Math.max(0, calculateSegmentedWorkingHours(getShiftSegments(shift), shift.breakDuration || 0));
+  }
+  return shift.actualHours;
+};
+
+// Normalizza i segmenti e ricava gli estremi del turno
+export const buildSplitShiftTimes = (segments: ShiftSegment[]): { startTime: string; endTime: string; segments: ShiftSegment[] } => {
+  const sorted = [...segments].sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime));
+  return {
+    startTime: sorted[0].startTime,
+    endTime: sorted[sorted.length - 1].endTime,
+    segments: sorted
+  };
+};
+
+// Etichetta compatta degli orari (es. "09:00-13:00 / 16:00-20:00")
+export const formatShiftTimes = (shift: { startTime: string; endTime: string; segments?: ShiftSegment[] }): string => {
+  return getShiftSegments(shift).map(segment => `${segment.startTime}-${segment.endTime}`).join(' / ');
+};
+
+// Data/ora assolute di inizio turno (il turno è sempre attribuito al giorno di inizio)
+export const getShiftStartDateTime = (shift: { date: Date; startTime: string; endTime: string; segments?: ShiftSegment[] }): Date => {
+  const { hours, minutes } = parseTime(getShiftSegments(shift)[0].startTime);
+  const result = new Date(shift.date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+// Data/ora assolute di fine turno (fine dell'ultimo segmento), spostate al giorno successivo per i turni notturni
+export const getShiftEndDateTime = (shift: { date: Date; startTime: string; endTime: string; segments?: ShiftSegment[] }): Date => {
+  const segments = getShiftSegments(shift);
+  const startTime = segments[0].startTime;
+  const endTime = segments[segments.length - 1].endTime;
+  const { hours, minutes } = parseTime(endTime);
+  const result = new Date(shift.date);
+  result.setHours(hours, minutes, 0, 0);
+  if (isOvernightShift(startTime, endTime)) {
+    result.setDate(result.getDate() + 1);
+  }
+  return result;
+};
+
 export const isTimeInRange = (time: string, startRange: string, endRange: string): boolean => {
   const timeMinutes = parseTime(time).hours * 60 + parseTime(time).minutes;
   const startMinutes = parseTime(startRange).hours * 60 + parseTime(startRange).minutes;
@@ -89,6 +180,9 @@ export const getWeekDays = (startOfWeek: Date): Date[] => {
   return Array.from({ length: 7 }, (_, i) => addDays(startOfWeek, i));
 };
 
+// Indice del giorno nella settimana: lunedì = 0 ... domenica = 6
+export const getWeekDayIndex = (date: Date): number => (date.getDay() + 6) % 7;
+
 // Calcola il numero della settimana dell'anno (ISO 8601)
 export const getWeekNumber = (date: Date): number => {
   const tempDate = new Date(date.getTime());
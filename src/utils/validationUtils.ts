@@ -2,7 +2,8 @@ import { Shift, Store, ShiftConflict, Employee } from '../types';
 import { EmployeeUnavailability } from '../types';
 import { CCNLViolation } from '../types/ccnl';
 import { ccnlValidator } from './ccnlValidation';
-import { getDayOfWeek, isTimeInRange, parseTime, getStartOfWeek } from './timeUtils';
+import { getContractLimits, validateContractShifts } from './contractRules';
+import { getDayOfWeek, isTimeInRange, getStartOfWeek, isOvernightShift, getShiftSpanMinutes, getShiftStartDateTime, getShiftEndDateTime, getShiftSegments, formatShiftTimes } from './timeUtils';
 
 export const validateShift = (shift: Shift, store: Store, existingShifts: Shift[] = []): ShiftConflict[] => {
   const conflicts: ShiftConflict[] = [];
@@ -54,16 +55,28 @@ export const validateShift = (shift: Shift, store: Store, existingShifts: Shift[
     return conflicts;
   }
 
+  // 🌙 I turni notturni (inventari, logistica) si svolgono per natura fuori orario:
+  // gli sforamenti diventano avvisi e la fine cade il giorno successivo
+  const isOvernight = isOvernightShift(shift.startTime, shift.endTime);
+  
+  if (isOvernight) {
+    conflicts.push({
+      type: 'outside_hours',
+      message: `Turno notturno: termina il giorno successivo alle ${shift.endTime}`,
+      severity: 'warning'
+    });
+  }
+
   // Controlla se il turno è entro gli orari di apertura del negozio
   if (!isTimeInRange(shift.startTime, storeHours.open, storeHours.close)) {
     conflicts.push({
       type: 'outside_hours',
       message: `Orario di inizio ${shift.startTime} fuori dagli orari del negozio (${storeHours.open} - ${storeHours.close})`,
-      severity: 'error'
+      severity: isOvernight ? 'warning' : 'error'
     });
   }
 
-  if (!isTimeInRange(shift.endTime, storeHours.open, storeHours.close)) {
+  if (!isOvernight && !isTimeInRange(shift.endTime, storeHours.open, storeHours.close)) {
     conflicts.push({
       type: 'outside_hours',
       message: `Orario di fine ${shift.endTime} fuori dagli orari del negozio (${storeHours.open} - ${storeHours.close})`,
@@ -72,24 +85,37 @@ export const validateShift = (shift: Shift, store: Store, existingShifts: Shift[
   }
 
   // Controlla sovrapposizioni di turni per lo stesso dipendente
+  // (inclusi i turni notturni del giorno precedente che terminano oggi e, se questo turno
+  // è notturno, i turni del giorno successivo che iniziano prima della sua fine)
+  const previousDay = new Date(shift.date);
+  previousDay.setDate(previousDay.getDate() - 1);
+  const nextDay = new Date(shift.date);
+  nextDay.setDate(nextDay.getDate() + 1);
+  const shiftEnd = getShiftEndDateTime(shift);
+  
   const employeeShifts = existingShifts.filter(
     s => s.employeeId === shift.employeeId && 
-         s.date.toDateString() === shift.date.toDateString() &&
-         s.id !== shift.id
+         s.id !== shift.id &&
+         (s.date.toDateString() === shift.date.toDateString() ||
+          (s.date.toDateString() === previousDay.toDateString() && isOvernightShift(s.startTime, s.endTime)) ||
+          (s.date.toDateString() === nextDay.toDateString() && getShiftStartDateTime(s) < shiftEnd))
   );
 
   for (const existingShift of employeeShifts) {
     if (shiftsOverlap(shift, existingShift)) {
       conflicts.push({
         type: 'overlap',
-        message: `Si sovrappone con turno esistente (${existingShift.startTime} - ${existingShift.endTime})`,
+        message: `Si sovrappone con turno esistente (${formatShiftTimes(existingShift)})`,
         severity: 'error'
       });
     }
   }
 
-  // Controlla durata minima della pausa
-  const shiftDuration = getShiftDurationMinutes(shift.startTime, shift.endTime);
+  // Controlla durata minima della pausa (per i turni spezzati conta il segmento più lungo:
+  // l'intervallo tra i segmenti è già una pausa)
+  const shiftDuration = Math.max(
+    ...getShiftSegments(shift).map(segment => getShiftDurationMinutes(segment.startTime, segment.endTime))
+  );
   if (shiftDuration > 6 * 60 && shift.breakDuration < 30) {
     conflicts.push({
       type: 'insufficient_break',
@@ -166,7 +192,7 @@ export const validateShiftCCNL = (
   
   // Convert CCNL violations to ShiftConflict format for compatibility
   return ccnlViolations.map((violation: CCNLViolation): ShiftConflict => ({
-    type: violation.type === 'daily_rest' || violation.type === 'shift_gap' ? 'insufficient_break' : 'overlap',
+    type: violation.type === 'daily_rest' || violation.type === 'shift_gap' || violation.type === 'break_after_hours' ? 'insufficient_break' : 'overlap',
     message: `🏛️ CCNL: ${violation.description}`,
     severity: violation.severity === 'critical' ? 'error' : 'warning'
   }));
@@ -185,12 +211,14 @@ export const validateShiftComplete = (
   const standardConflicts = validateShift(shift, store, existingShifts);
   const ccnlConflicts = validateShiftCCNL(shift, employee, existingShifts, store);
   const unavailabilityConflicts = validateUnavailability(shift, employee, unavailabilities);
+  const contractConflicts = validateContractShifts(employee, [shift]);
   
-  return [...standardConflicts, ...ccnlConflicts, ...unavailabilityConflicts];
+  return [...standardConflicts, ...ccnlConflicts, ...unavailabilityConflicts, ...contractConflicts];
 };
 
 /**
  * Valida le ore lavorative di un dipendente per una settimana
+ * secondo i limiti della sua tipologia contrattuale
  * @param employee - Il dipendente
  * @param weeklyHours - Ore totali della settimana
  * @param shifts - Turni della settimana per il dipendente
@@ -202,25 +230,30 @@ export const validateEmployeeWorkHours = (
   shifts: Shift[]
 ): ShiftConflict[] => {
   const conflicts: ShiftConflict[] = [];
+  const { ruleSet, ordinaryHours, maxWeeklyHours, minWeeklyHours, trainingHours } = getContractLimits(employee);
   
-  // 1. Calcola il monte ore totale disponibile
-  const monteOreTotale = employee.contractHours + employee.fixedHours;
-  const oreContrattualiBase = employee.contractHours;
-  
-  // 2. Analizza confronto con monte ore totale
-  if (weeklyHours > monteOreTotale) {
+  // 1. Oltre il tetto di ore supplementari/straordinarie della tipologia
+  if (weeklyHours > maxWeeklyHours) {
     conflicts.push({
       type: 'insufficient_break', // Riuso tipo esistente per ora
-      message: `ATTENZIONE: Turno eccede il monte ore disponibile (${weeklyHours.toFixed(1)}h > ${monteOreTotale}h)`,
+      message: `ATTENZIONE: ${weeklyHours.toFixed(1)}h superano il limite ${ruleSet.label.toLowerCase()} di ${maxWeeklyHours}h (max ${ruleSet.maxSupplementaryHours}h oltre contratto)`,
+      severity: 'error'
+    });
+  } else if (weeklyHours > ordinaryHours) {
+    // 2. Ore supplementari/straordinarie entro il tetto
+    conflicts.push({
+      type: 'insufficient_break', // Riuso tipo esistente per ora
+      message: `ATTENZIONE: ${(weeklyHours - ordinaryHours).toFixed(1)}h oltre le ${ordinaryHours}h contrattuali` +
+        (trainingHours > 0 ? ` (${trainingHours}h riservate alla formazione)` : ''),
       severity: 'warning'
     });
   }
   
-  // 3. Analizza confronto con ore contrattuali base
-  if (weeklyHours < oreContrattualiBase) {
+  // 3. Sotto le ore minime garantite (le tipologie senza minimo non generano avvisi)
+  if (weeklyHours < minWeeklyHours) {
     conflicts.push({
       type: 'insufficient_break', // Riuso tipo esistente per ora
-      message: `ATTENZIONE: Turno inferiore alle ore contrattuali minime (${weeklyHours.toFixed(1)}h < ${oreContrattualiBase}h)`,
+      message: `ATTENZIONE: Turno inferiore alle ore minime garantite (${weeklyHours.toFixed(1)}h < ${minWeeklyHours}h)`,
       severity: 'warning'
     });
   }
@@ -235,44 +268,41 @@ export const validateEmployeeWorkHours = (
  * @returns Statistiche dettagliate
  */
 export const calculateWorkHourStats = (employee: Employee, weeklyHours: number) => {
-  const monteOreTotale = employee.contractHours + employee.fixedHours;
-  const oreContrattualiBase = employee.contractHours;
-  const oreFisse = employee.fixedHours;
+  const { maxWeeklyHours, ordinaryHours, minWeeklyHours } = getContractLimits(employee);
+  const monteOreTotale = maxWeeklyHours;
+  const oreContrattualiBase = ordinaryHours;
+  const oreFisse = minWeeklyHours;
   
   return {
     monteOreTotale,
     oreContrattualiBase,
     oreFisse,
     oreSettimanali: weeklyHours,
+    oreSupplementari: Math.max(0, Math.min(weeklyHours, monteOreTotale) - oreContrattualiBase),
     eccedenza: Math.max(0, weeklyHours - monteOreTotale),
-    deficit: Math.max(0, oreContrattualiBase - weeklyHours),
+    deficit: Math.max(0, oreFisse - weeklyHours),
     isEccedente: weeklyHours > monteOreTotale,
-    isSottoMinimo: weeklyHours < oreContrattualiBase,
-    isNelRange: weeklyHours >= oreContrattualiBase && weeklyHours <= monteOreTotale,
-    percentualeUtilizzo: (weeklyHours / monteOreTotale) * 100
+    isSottoMinimo: weeklyHours < oreFisse,
+    isNelRange: weeklyHours >= oreFisse && weeklyHours <= monteOreTotale,
+    percentualeUtilizzo: monteOreTotale > 0 ? (weeklyHours / monteOreTotale) * 100 : 0
   };
 };
 
+// Confronta gli intervalli assoluti dei singoli segmenti, così i turni a cavallo della
+// mezzanotte e i turni spezzati vengono gestiti correttamente
 const shiftsOverlap = (shift1: Shift, shift2: Shift): boolean => {
-  const start1 = parseTime(shift1.startTime);
-  const end1 = parseTime(shift1.endTime);
-  const start2 = parseTime(shift2.startTime);
-  const end2 = parseTime(shift2.endTime);
-
-  const start1Minutes = start1.hours * 60 + start1.minutes;
-  const end1Minutes = end1.hours * 60 + end1.minutes;
-  const start2Minutes = start2.hours * 60 + start2.minutes;
-  const end2Minutes = end2.hours * 60 + end2.minutes;
+  const toIntervals = (shift: Shift) => getShiftSegments(shift).map(segment => {
+    const segmentShift = { date: shift.date, startTime: segment.startTime, endTime: segment.endTime };
+    return {
+      start: getShiftStartDateTime(segmentShift).getTime(),
+      end: getShiftEndDateTime(segmentShift).getTime()
+    };
+  });
 
-  return start1Minutes < end2Minutes && start2Minutes < end1Minutes;
+  const intervals2 = toIntervals(shift2);
+  return toIntervals(shift1).some(a => intervals2.some(b => a.start < b.end && b.start < a.end));
 };
 
 const getShiftDurationMinutes = (startTime: string, endTime: string): number => {
-  const start = parseTime(startTime);
-  const end = parseTime(endTime);
-  
-  const startMinutes = start.hours * 60 + start.minutes;
-  const endMinutes = end.hours * 60 + end.minutes;
-  
-  return endMinutes - startMinutes;
+  return getShiftSpanMinutes(startTime, endTime);
 };
\ No newline at end of file
@@ -0,0 +1,179 @@
+import { Employee, EmployeeUnavailability, Shift, Store, WeekTemplateShift } from '../types';
+import { addDays, calculateSegmentedWorkingHours, calculateWorkingHours, formatShiftTimes, getDayOfWeek, getStartOfWeek, getWeekDayIndex, isSplitShift } from './timeUtils';
+import { findApprovedUnavailability, getStoreDayClosure } from './scheduleGenerator';
+import { getEmployeeContractAt } from './contractRules';
+
+// 🗓️ SETTIMANE TIPO: acquisizione di una settimana, rimappatura dei dipendenti e applicazione senza sovrascritture
+
+export type WeekTemplateNewShift = Omit<Shift, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type WeekTemplateConflictType = 'unmapped' | 'inactive' | 'closure' | 'unavailability' | 'locked' | 'existing';
+
+export interface WeekTemplateConflict {
+  type: WeekTemplateConflictType;
+  date: Date;
+  employeeId?: string; // Dipendente di destinazione (assente se non rimappato)
+  sourceEmployeeId: string;
+  shiftLabel: string;
+  message: string;
+}
+
+export interface WeekTemplatePlan {
+  shifts: WeekTemplateNewShift[];
+  conflicts: WeekTemplateConflict[];
+}
+
+export interface WeekTemplatePlanInput {
+  templateShifts: WeekTemplateShift[];
+  targetStore: Store;
+  targetWeekStart: Date;
+  employeeMapping: Record<string, string>; // Dipendente di origine → dipendente di destinazione ('' = non assegnato)
+  employees: Employee[];
+  existingShifts: Shift[];
+  unavailabilities: EmployeeUnavailability[];
+}
+
+export const WEEK_TEMPLATE_CONFLICT_LABELS: Record<WeekTemplateConflictType, string> = {
+  unmapped: 'Dipendente non rimappato',
+  inactive: 'Dipendente non attivo',
+  closure: 'Negozio chiuso',
+  unavailability: 'Indisponibilità',
+  locked: 'Turno bloccato',
+  existing: 'Turno già presente'
+};
+
+// Turni della settimana del negozio nel formato della settimana tipo (i turni annullati non si copiano)
+export const captureWeekTemplateShifts = (shifts: Shift[], storeId: string, weekStart: Date): WeekTemplateShift[] => {
+  const start = getStartOfWeek(weekStart);
+  const end = addDays(start, 7);
+
+  return shifts
+    .filter(shift => shift.storeId === storeId && shift.status !== 'cancelled' && shift.date >= start && shift.date < end)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.startTime.localeCompare(b.startTime))
+    .map(shift => ({
+      employeeId: shift.employeeId,
+      dayIndex: getWeekDayIndex(shift.date),
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      breakDuration: shift.breakDuration,
+      segments: isSplitShift(shift) ? shift.segments : undefined,
+      roleId: shift.roleId,
+      notes: shift.notes
+    }));
+};
+
+/**
+ * Rimappatura proposta: ogni dipendente di origine resta se lavora nel negozio di destinazione
+ * con il contratto in vigore nella settimana, altrimenti va scelto manualmente
+ */
+export const getDefaultEmployeeMapping = (
+  templateShifts: WeekTemplateShift[],
+  employees: Employee[],
+  targetStoreId: string,
+  targetWeekStart: Date
+): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  templateShifts.forEach(templateShift => {
+    if (templateShift.employeeId in mapping) return;
+    const employee = employees.find(emp => emp.id === templateShift.employeeId);
+    const inTargetStore = employee?.isActive && getEmployeeContractAt(employee, targetWeekStart).storeId === targetStoreId;
+    mapping[templateShift.employeeId] = inTargetStore ? templateShift.employeeId : '';
+  });
+  return mapping;
+};
+
+/**
+ * 📋 APPLICAZIONE: i turni della settimana tipo diventano turni della settimana di destinazione.
+ * Chiusure, festività, indisponibilità approvate, turni bloccati e turni già presenti
+ * non vengono mai sovrascritti ma riportati come conflitti da risolvere a mano.
+ */
+export const planWeekTemplate = (input: WeekTemplatePlanInput): WeekTemplatePlan => {
+  const shifts: WeekTemplateNewShift[] = [];
+  const conflicts: WeekTemplateConflict[] = [];
+  const weekStart = getStartOfWeek(input.targetWeekStart);
+  const planned = new Set<string>();
+
+  input.templateShifts.forEach(templateShift => {
+    const date = addDays(weekStart, templateShift.dayIndex);
+    const employeeId = input.employeeMapping[templateShift.employeeId] || undefined;
+    const shiftLabel = `${getDayOfWeek(date)} ${formatShiftTimes(templateShift)}`;
+    const conflict = (type: WeekTemplateConflictType, message: string) => conflicts.push({
+      type,
+      date,
+      employeeId,
+      sourceEmployeeId: templateShift.employeeId,
+      shiftLabel,
+      message
+    });
+
+    if (!employeeId) {
+      conflict('unmapped', 'Nessun dipendente di destinazione per questo turno');
+      return;
+    }
+
+    const employee = input.employees.find(emp => emp.id === employeeId);
+    if (!employee?.isActive) {
+      conflict('inactive', 'Il dipendente di destinazione non è attivo');
+      return;
+    }
+
+    const closure = getStoreDayClosure(input.targetStore, date);
+    if (closure) {
+      conflict('closure', closure.type === 'closed'
+        ? `${input.targetStore.name} chiuso ${getDayOfWeek(date)} ${date.toLocaleDateString('it-IT')}`
+        : `Festività "${closure.holiday.name}" senza orario configurato`);
+      return;
+    }
+
+    const unavailability = findApprovedUnavailability(employeeId, date, input.unavailabilities);
+    if (unavailability) {
+      conflict('unavailability', `Indisponibilità approvata${unavailability.reason ? `: ${unavailability.reason}` : ''}`);
+      return;
+    }
+
+    const existing = input.existingShifts.find(shift =>
+      shift.employeeId === employeeId &&
+      shift.status !== 'cancelled' &&
+      shift.date.toDateString() === date.toDateString()
+    );
+    if (existing) {
+      conflict(
+        existing.isLocked ? 'locked' : 'existing',
+        existing.isLocked
+          ? `Turno bloccato ${formatShiftTimes(existing)} già in griglia`
+          : `Turno ${formatShiftTimes(existing)} già in griglia: non viene sovrascritto`
+      );
+      return;
+    }
+
+    // Due turni della settimana tipo rimappati sullo stesso dipendente nello stesso giorno
+    const key = `${employeeId}-${templateShift.dayIndex}`;
+    if (planned.has(key)) {
+      conflict('existing', 'Il dipendente di destinazione ha già un turno della settimana tipo in questo giorno');
+      return;
+    }
+    planned.add(key);
+
+    const segments = isSplitShift(templateShift) ? templateShift.segments : undefined;
+    shifts.push({
+      employeeId,
+      storeId: input.targetStore.id,
+      date,
+      startTime: templateShift.startTime,
+      endTime: templateShift.endTime,
+      breakDuration: templateShift.breakDuration,
+      segments,
+      actualHours: segments
+        ? calculateSegmentedWorkingHours(segments, templateShift.breakDuration)
+        : calculateWorkingHours(templateShift.startTime, templateShift.endTime, templateShift.breakDuration),
+      status: 'scheduled',
+      isLocked: false,
+      validationStatus: 'draft',
+      roleId: templateShift.roleId,
+      notes: templateShift.notes
+    });
+  });
+
+  conflicts.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return { shifts, conflicts };
+};
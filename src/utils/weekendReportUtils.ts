@@ -37,6 +37,7 @@ export const exportWeekendReportToExcel = (
     'Percentuale Sabati Liberi': `${((emp.saturdaysOff / emp.weekendsAnalyzed) * 100).toFixed(1)}%`,
     'Percentuale Domeniche Libere': `${((emp.sundaysOff / emp.weekendsAnalyzed) * 100).toFixed(1)}%`,
     'Percentuale Lavoro Weekend': `${emp.weekendWorkPercentage.toFixed(1)}%`,
+    'Festivi Lavorati': `${emp.holidaysWorked}/${emp.holidaysAnalyzed}`,
     'Score Equità': emp.fairnessScore.toFixed(0),
     'Valutazione': emp.fairnessScore >= 80 ? 'Ottima' : emp.fairnessScore >= 60 ? 'Buona' : 'Da Migliorare'
   }));